@@ -1,6 +1,7 @@
 export type * from "@/cache/contracts/cache-adapter.contract.js";
 export type * from "@/cache/contracts/cache-factory.contract.js";
-export type * from "@/cache/contracts/cache.contract.js";
+export type * from "@/cache/contracts/cache-metrics.contract.js";
+export * from "@/cache/contracts/cache.contract.js";
 export * from "@/cache/contracts/cache.errors.js";
 export * from "@/cache/contracts/cache.events.js";
 export type * from "@/cache/contracts/database-cache-adapter.contract.js";
@@ -3,6 +3,97 @@
  */
 import { type TimeSpan } from "@/time-span/implementations/_module.js";
 
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheAdapterWriteSettings = {
+    /**
+     * The tags the key will be associated with. If not provided, the key will not be associated with any tags.
+     */
+    tags?: Array<string>;
+
+    /**
+     * The key will be considered stale after `freshTtl` has elapsed but it will be kept until the `ttl` expires.
+     * If null or undefined is passed, the key will never be stale.
+     */
+    freshTtl?: TimeSpan | null;
+
+    /**
+     * If provided, each read of the key will push its expiration forward by `slidingTtl`.
+     * If null or undefined is passed, reads will not affect the expiration.
+     */
+    slidingTtl?: TimeSpan | null;
+
+    /**
+     * The time it took to compute the value, used for recomputing the key before it expires.
+     * If null or undefined is passed, the recompute duration will not be stored.
+     */
+    recomputeDuration?: TimeSpan | null;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheAdapterReadSettings = {
+    /**
+     * If false, reads will not push the expiration of keys with a sliding period forward.
+     * @default true
+     */
+    shouldSlide?: boolean;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type ICacheEntry<TType = unknown> = {
+    value: TType;
+    isStale: boolean;
+
+    /**
+     * The date when the key becomes stale. Undefined means the key never becomes stale.
+     */
+    staleAt?: Date;
+
+    /**
+     * The date when the key expires. Undefined means the key never expires.
+     */
+    expiration?: Date;
+
+    /**
+     * The time it took to compute the value. Undefined means it was not provided when the key was written.
+     */
+    recomputeDuration?: TimeSpan;
+};
+
+/**
+ * The `version` is an opaque string that changes every time the value of the key is changed.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type ICacheVersionedEntry<TType = unknown> = {
+    value: TType;
+    version: string;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheAdapterWriteManyItem<TType = unknown> = {
+    key: string;
+    value: TType;
+    ttl: TimeSpan | null;
+    settings?: CacheAdapterWriteSettings;
+};
+
 /**
  * The `ICacheAdapter` contract defines a way for storing key-value pairs with expiration independent of data storage.
  *
@@ -15,29 +106,97 @@ export type ICacheAdapter<TType = unknown> = {
      */
     get(key: string): Promise<TType | null>;
 
+    /**
+     * The `getMany` method returns the values of the given `keys` in the same order, null will be returned for each key that is not found.
+     * Adapters that do not support sliding expiration can ignore the `settings`.
+     */
+    getMany(
+        keys: Array<string>,
+        settings?: CacheAdapterReadSettings,
+    ): Promise<Array<TType | null>>;
+
     /**
      * The `getAndRemove` method returns the value when `key` is found otherwise null will be returned.
      * The key will be removed after it is returned.
      */
     getAndRemove(key: string): Promise<TType | null>;
 
+    /**
+     * The `getEntry` method returns the value and whether the value is stale when `key` is found otherwise null will be returned.
+     */
+    getEntry(key: string): Promise<ICacheEntry<TType> | null>;
+
+    /**
+     * The `getWithVersion` method returns the value and its current version when `key` is found otherwise null will be returned.
+     */
+    getWithVersion(key: string): Promise<ICacheVersionedEntry<TType> | null>;
+
     /**
      * The `add` method adds a `key` with given `value` when key doesn't exists. Returns true when key doesn't exists otherwise false will be returned.
      * You can provide a `ttl` value. If null is passed, the item will not expire.
      */
-    add(key: string, value: TType, ttl: TimeSpan | null): Promise<boolean>;
+    add(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean>;
 
     /**
      * The `put` method replaces th given `key` with the given `value` and `ttl` if the `key` exists othwerwise it will add the given `value` and `ttl`.
+     * The tags and stale period of the `key` will be replaced with the given `settings`.
      * Returns true if the `key` where replaced otherwise false is returned.
      */
-    put(key: string, value: TType, ttl: TimeSpan | null): Promise<boolean>;
+    put(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean>;
+
+    /**
+     * The `addMany` method adds many keys with the same behaviour as the `add` method.
+     * Returns the result of each item in the same order.
+     */
+    addMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>>;
+
+    /**
+     * The `putMany` method replaces or adds many keys with the same behaviour as the `put` method.
+     * Returns the result of each item in the same order.
+     */
+    putMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>>;
+
+    /**
+     * The `getTtl` method returns the remaining ttl of the `key`.
+     * Null will be returned when the `key` is not found or has no expiration.
+     */
+    getTtl(key: string): Promise<TimeSpan | null>;
+
+    /**
+     * The `touch` method replaces the expiration of the `key` without changing its value. If null is passed as `ttl`, the key will not expire.
+     * Returns true if the `key` where found otherwise false will be returned.
+     */
+    touch(key: string, ttl: TimeSpan | null): Promise<boolean>;
 
     /**
      * The `update` method updates the given `key` with given `value`. Returns true if the `key` where updated otherwise false will be returned.
      */
     update(key: string, value: TType): Promise<boolean>;
 
+    /**
+     * The `updateIfVersion` method updates the given `key` with given `value` only when the current version of the key matches the given `version`.
+     * Returns true if the `key` where updated otherwise false will be returned.
+     */
+    updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean>;
+
     /**
      * The `increment` method increments the given `key` with given `value`. Returns true if the `key` where incremented otherwise false will be returned.
      * If `values` is not defined then it will increment the key with 1.
@@ -46,6 +205,58 @@ export type ICacheAdapter<TType = unknown> = {
      */
     increment(key: string, value: number): Promise<boolean>;
 
+    /**
+     * The `hget` method returns the value of the `field` in the hash stored at `key`, null will be returned when the key or the field is not found.
+     * An error will thrown if the key is not a hash.
+     * @throws {TypeError} {@link TypeError}
+     */
+    hget(key: string, field: string): Promise<TType | null>;
+
+    /**
+     * The `hset` method sets the `field` in the hash stored at `key` to the given `value`, the hash will be created without expiration when the key doesn't exists.
+     * Returns true if the `field` where added otherwise false will be returned when it where replaced.
+     * An error will thrown if the key is not a hash.
+     * @throws {TypeError} {@link TypeError}
+     */
+    hset(key: string, field: string, value: TType): Promise<boolean>;
+
+    /**
+     * The `hincrement` method increments the `field` in the hash stored at `key` with given `value` and returns the incremented value.
+     * The field will be set to 0 before incrementing when it doesn't exists and the hash will be created without expiration when the key doesn't exists.
+     * An error will thrown if the key is not a hash or the field is not a number.
+     * @throws {TypeError} {@link TypeError}
+     */
+    hincrement(key: string, field: string, value: number): Promise<number>;
+
+    /**
+     * The `hremove` method removes the `fields` from the hash stored at `key`. Returns true if one of the fields where removed otherwise false is returned.
+     * An error will thrown if the key is not a hash.
+     * @throws {TypeError} {@link TypeError}
+     */
+    hremove(key: string, fields: Array<string>): Promise<boolean>;
+
+    /**
+     * The `sadd` method adds the `members` to the set stored at `key`, the set will be created without expiration when the key doesn't exists.
+     * Returns true if one of the members where added otherwise false is returned.
+     * An error will thrown if the key is not a set.
+     * @throws {TypeError} {@link TypeError}
+     */
+    sadd(key: string, members: Array<string>): Promise<boolean>;
+
+    /**
+     * The `sremove` method removes the `members` from the set stored at `key`. Returns true if one of the members where removed otherwise false is returned.
+     * An error will thrown if the key is not a set.
+     * @throws {TypeError} {@link TypeError}
+     */
+    sremove(key: string, members: Array<string>): Promise<boolean>;
+
+    /**
+     * The `smembers` method returns all members of the set stored at `key`, an empty array will be returned when the key is not found.
+     * An error will thrown if the key is not a set.
+     * @throws {TypeError} {@link TypeError}
+     */
+    smembers(key: string): Promise<Array<string>>;
+
     /**
      * The `removeMany` method removes many keys. Returns true if one of the keys where deleted otherwise false is returned.
      */
@@ -56,8 +267,19 @@ export type ICacheAdapter<TType = unknown> = {
      */
     removeAll(): Promise<void>;
 
+    /**
+     * The `getKeysByKeyPrefix` method returns an {@link AsyncIterable | `AsyncIterable`} of all the unexpired keys in the cache that starts with the given `prefix`.
+     * The keys should be fetched lazily in pages.
+     */
+    getKeysByKeyPrefix(prefix: string): AsyncIterable<string>;
+
     /**
      * The `removeByKeyPrefix` method removes all the keys in the cache that starts with the given `prefix`.
      */
     removeByKeyPrefix(prefix: string): Promise<void>;
+
+    /**
+     * The `removeByTags` method removes all the keys in the cache that are associated with at least one of the given `tags`.
+     */
+    removeByTags(tags: Array<string>): Promise<void>;
 };
@@ -0,0 +1,115 @@
+/**
+ * @module Cache
+ */
+
+import { type CacheEventMap } from "@/cache/contracts/cache.events.js";
+import {
+    type IEventListenable,
+    type Unsubscribe,
+} from "@/event-bus/contracts/_module.js";
+import { type ITask } from "@/task/contracts/_module.js";
+
+/**
+ * The `count` of each bucket is cumulative, meaning it includes all durations less than or equal to `upperBound`, similar to Prometheus histograms.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheLatencyBucket = {
+    /**
+     * In milliseconds.
+     */
+    upperBound: number;
+    count: number;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheLatencyHistogram = {
+    count: number;
+
+    /**
+     * The sum of all durations in milliseconds.
+     */
+    sum: number;
+
+    buckets: Array<CacheLatencyBucket>;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheStats = {
+    hits: number;
+    misses: number;
+
+    /**
+     * The ratio of hits to all reads, 0 when there are no reads.
+     */
+    hitRatio: number;
+
+    writes: number;
+    evictions: number;
+    errors: number;
+
+    /**
+     * The latency histogram of each method by method name.
+     */
+    latencies: Partial<Record<string, CacheLatencyHistogram>>;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheStatsSnapshot = {
+    createdAt: Date;
+
+    /**
+     * The stats of each namespace by the namespace key prefix.
+     */
+    namespaces: Partial<Record<string, CacheStats>>;
+};
+
+/**
+ * The `ICacheMetricsCollector` contract defines a way for collecting cache statistics from cache events.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type ICacheMetricsCollector = {
+    /**
+     * The `record` method updates the statistics with the given event.
+     */
+    record<TEventName extends keyof CacheEventMap>(
+        eventName: TEventName,
+        event: CacheEventMap[TEventName],
+    ): void;
+
+    /**
+     * The `attach` method records all cache events dispatched on the given `eventBus`.
+     * The returned {@link Unsubscribe | `Unsubscribe`} function stops recording.
+     */
+    attach(eventBus: IEventListenable<CacheEventMap>): ITask<Unsubscribe>;
+
+    /**
+     * The `getStats` method returns the statistics of the given namespace key prefix.
+     */
+    getStats(namespace: string): CacheStats;
+
+    /**
+     * The `getSnapshot` method returns the statistics of all namespaces.
+     */
+    getSnapshot(): CacheStatsSnapshot;
+
+    /**
+     * The `reset` method clears all statistics.
+     */
+    reset(): void;
+};
@@ -2,6 +2,8 @@
  * @module Cache
  */
 
+import { type ICacheVersionedEntry } from "@/cache/contracts/cache-adapter.contract.js";
+import { type CacheStats } from "@/cache/contracts/cache-metrics.contract.js";
 import {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     KeyExistsCacheError,
@@ -9,14 +11,18 @@ import {
     KeyNotFoundCacheError,
 } from "@/cache/contracts/cache.errors.js";
 import { type CacheEventMap } from "@/cache/contracts/cache.events.js";
+import { type IAsyncCollection } from "@/collection/contracts/_module.js";
 import { type IEventListenable } from "@/event-bus/contracts/_module.js";
+import { type AsyncMiddlewareFn } from "@/hooks/_module.js";
 import { type ITask } from "@/task/contracts/_module.js";
 import { type ITimeSpan } from "@/time-span/contracts/_module.js";
+import { type TimeSpan } from "@/time-span/implementations/_module.js";
 import {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     type Invokable,
+    type InvokableFn,
     type AsyncLazyable,
     type NoneFunc,
+    type Promisable,
 } from "@/utilities/_module.js";
 
 /**
@@ -37,6 +43,42 @@ export type CacheWriteSettings = {
     ttl?: ITimeSpan | null;
     jitter?: number;
 
+    /**
+     * You can keep the key after the `ttl` has elapsed for `staleTtl` period. During this period the key is considered stale,
+     * the {@link ICacheBase.getOrAdd | `ICacheBase.getOrAdd`} method will return the stale value immediately and refresh it in the background.
+     * Note the setting has no effect when `ttl` is null.
+     */
+    staleTtl?: ITimeSpan | null;
+
+    /**
+     * If true, each read of the key will push its expiration forward by the `ttl`, meaning the key will only expire when it has not been read during the `ttl`.
+     * Note the setting has no effect when `ttl` is null.
+     * @default false
+     */
+    isSliding?: boolean;
+
+    /**
+     * You can associate the key with tags. All keys associated with a tag can be removed at once with {@link ICacheBase.tags | `ICacheBase.tags`} method.
+     */
+    tags?: Array<string>;
+
+    /**
+     * If provided, {@link ICacheBase.getOrAdd | `ICacheBase.getOrAdd`} method will cache null results as missing for the `negativeTtl` period, meaning nonexistent records will not be looked up again until it has elapsed.
+     * Usually it should be shorter than the `ttl`.
+     * If null is passed, null results will not be cached as missing.
+     * @default null
+     */
+    negativeTtl?: ITimeSpan | null;
+
+    /**
+     * If provided, {@link ICacheBase.getOrAdd | `ICacheBase.getOrAdd`} method will probabilistically refresh the key in the background before it expires (XFetch),
+     * preventing many processes from recomputing a hot key at the same time when it expires.
+     * The time it took to compute the value is stored alongside the value and the refresh happens earlier the longer the computation took and the higher the `xfetchBeta` is.
+     * Usually `1` is a good value. If null is passed, the key will not be refreshed before it expires.
+     * @default null
+     */
+    xfetchBeta?: number | null;
+
     /**
      * Used internally for testin.
      *
@@ -45,6 +87,99 @@ export type CacheWriteSettings = {
     _mathRandom?: () => number;
 };
 
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export const CACHE_GET_STATUS = {
+    FOUND: "FOUND",
+    NEGATIVE: "NEGATIVE",
+    NOT_FOUND: "NOT_FOUND",
+} as const;
+
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheGetResult<TType = unknown> =
+    | {
+          status: typeof CACHE_GET_STATUS.FOUND;
+          value: TType;
+      }
+    | {
+          /**
+           * The key is cached as missing.
+           */
+          status: typeof CACHE_GET_STATUS.NEGATIVE;
+      }
+    | {
+          /**
+           * The key is not cached.
+           */
+          status: typeof CACHE_GET_STATUS.NOT_FOUND;
+      };
+
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheExportEntry = {
+    key: string;
+
+    /**
+     * The value serialized with the export serde of the cache.
+     */
+    value: string;
+
+    /**
+     * The remaining ttl in milliseconds, null when the key has no expiration.
+     */
+    ttl: number | null;
+};
+
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheImportStream =
+    | Iterable<string | Uint8Array>
+    | AsyncIterable<string | Uint8Array>;
+
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheKeyBuilder<
+    TParameters extends Array<unknown> = Array<unknown>,
+> = Invokable<TParameters, string>;
+
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type CacheMemoizeSettings<
+    TParameters extends Array<unknown> = Array<unknown>,
+> = CacheWriteSettings & {
+    /**
+     * If a string is passed, it will be used as key prefix and the arguments will be serialized with the configured serde and appended to it.
+     * You can also pass a {@link CacheKeyBuilder | `CacheKeyBuilder`} that receives the arguments and returns the key.
+     */
+    key: string | CacheKeyBuilder<TParameters>;
+};
+
+/**
+ * The `ICacheTags` contract defines a way for managing all keys associated with a group of tags.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type ICacheTags = {
+    /**
+     * The `invalidate` method removes all the keys that are associated with at least one of the tags.
+     */
+    invalidate(): ITask<void>;
+};
+
 /**
  * The `ICacheBase` contract defines a way for as key-value pairs independent of data storage.
  *
@@ -62,11 +197,80 @@ export type ICacheBase<TType = unknown> = {
      */
     missing(key: string): ITask<boolean>;
 
+    /**
+     * The `existsMany` method returns for each of the given `keys` true when the key is found otherwise false.
+     */
+    existsMany(keys: Iterable<string>): ITask<Record<string, boolean>>;
+
     /**
      * The `get` method returns the value when `key` is found otherwise null will be returned.
      */
     get(key: string): ITask<TType | null>;
 
+    /**
+     * The `getMany` method returns for each of the given `keys` the value when the key is found otherwise null.
+     *
+     * @example
+     * ```ts
+     * import type { ICache } from "@daiso-tech/core/cache/contracts";
+     *
+     * declare const cache: ICache<number>;
+     *
+     * // { a: 1, b: null }
+     * const values = await cache.getMany(["a", "b"]);
+     * ```
+     */
+    getMany(keys: Iterable<string>): ITask<Record<string, TType | null>>;
+
+    /**
+     * The `getManyOr` method returns for each of the given keys the value when the key is found otherwise the key's default value.
+     *
+     * @param keysWithDefaults - The default values can be regular value, sync or async {@link Invokable | `Invokable`} value and {@link ITask | `ITask`} value.
+     */
+    getManyOr(
+        keysWithDefaults: Record<string, AsyncLazyable<NoneFunc<TType>>>,
+    ): ITask<Record<string, TType>>;
+
+    /**
+     * The `getTtl` method returns the remaining ttl of the `key`.
+     *
+     * @returns Returns null when the `key` is not found or has no expiration.
+     */
+    getTtl(key: string): ITask<TimeSpan | null>;
+
+    /**
+     * The `getWithVersion` method returns the value and its current version when `key` is found otherwise null will be returned.
+     * The version is an opaque string that can be passed to {@link ICacheBase.updateIfVersion | `ICacheBase.updateIfVersion`} method.
+     */
+    getWithVersion(key: string): ITask<ICacheVersionedEntry<TType> | null>;
+
+    /**
+     * The `touch` method replaces the expiration of the `key` without rewriting its value.
+     *
+     * @param ttl - If null is passed, the key will not expire.
+     *
+     * @returns Returns true if the `key` is found otherwise false is returned.
+     */
+    touch(key: string, ttl: ITimeSpan | null): ITask<boolean>;
+
+    /**
+     * The `getWithStatus` method returns the value when `key` is found and tells whether the `key` is cached as missing or not cached at all otherwise.
+     * Keys cached as missing are returned as null by {@link ICacheBase.get | `ICacheBase.get`} method.
+     *
+     * @example
+     * ```ts
+     * import { CACHE_GET_STATUS, type ICache } from "@daiso-tech/core/cache/contracts";
+     *
+     * declare const cache: ICache<User>;
+     *
+     * const result = await cache.getWithStatus("user/1");
+     * if (result.status === CACHE_GET_STATUS.NEGATIVE) {
+     *   // The user is known to not exist
+     * }
+     * ```
+     */
+    getWithStatus(key: string): ITask<CacheGetResult<TType>>;
+
     /**
      * The `getOrFail` method returns the value when `key` is found otherwise an error will be thrown.
      *
@@ -92,6 +296,8 @@ export type ICacheBase<TType = unknown> = {
 
     /**
      * The `getOrAdd` method will retrieve the given `key` if found otherwise `valueToAdd` will be added and returned.
+     * If the found `key` is stale, the stale value will be returned and the `key` will be refreshed with `valueToAdd` in the background.
+     * If `valueToAdd` returns null and `negativeTtl` setting is provided, the `key` will be cached as missing and null will be returned until the `negativeTtl` has elapsed.
      *
      * @param valueToAdd - can be regular value, sync or async {@link Invokable | `Invokable`} value and {@link ITask | `ITask`} value.
      */
@@ -100,6 +306,11 @@ export type ICacheBase<TType = unknown> = {
         valueToAdd: AsyncLazyable<NoneFunc<TType>>,
         settings?: CacheWriteSettings,
     ): ITask<TType>;
+    getOrAdd(
+        key: string,
+        valueToAdd: AsyncLazyable<NoneFunc<TType | null>>,
+        settings?: CacheWriteSettings,
+    ): ITask<TType | null>;
 
     /**
      * The `add` method adds a `key` with given `value` when key doesn't exists.
@@ -126,6 +337,16 @@ export type ICacheBase<TType = unknown> = {
         settings?: CacheWriteSettings,
     ): ITask<void>;
 
+    /**
+     * The `addMany` method adds each key with given value when the key doesn't exists.
+     *
+     * @returns Returns for each key true when the key doesn't exists otherwise false.
+     */
+    addMany(
+        values: Record<string, TType>,
+        settings?: CacheWriteSettings,
+    ): ITask<Record<string, boolean>>;
+
     /**
      * The `put` method replaces th given `key` with the given `value` and `ttl` if the `key` exists
      * othwerwise it will add the given `value` with the given `ttl`.
@@ -140,6 +361,16 @@ export type ICacheBase<TType = unknown> = {
         settings?: CacheWriteSettings,
     ): ITask<boolean>;
 
+    /**
+     * The `putMany` method replaces each key with given value if the key exists otherwise it will be added.
+     *
+     * @returns Returns for each key true if the key where replaced otherwise false.
+     */
+    putMany(
+        values: Record<string, TType>,
+        settings?: CacheWriteSettings,
+    ): ITask<Record<string, boolean>>;
+
     /**
      * The `update` method updates the given `key` with given `value`.
      *
@@ -147,6 +378,34 @@ export type ICacheBase<TType = unknown> = {
      */
     update(key: string, value: TType): ITask<boolean>;
 
+    /**
+     * The `updateIfVersion` method updates the given `key` with given `value` only when the key has not changed since the `version` was retrieved with {@link ICacheBase.getWithVersion | `ICacheBase.getWithVersion`} method.
+     *
+     * @example
+     * ```ts
+     * import type { ICache } from "@daiso-tech/core/cache/contracts";
+     *
+     * declare const cache: ICache<Array<string>>;
+     *
+     * // Retries until no other worker changed the key in between
+     * let hasUpdated = false;
+     * while (!hasUpdated) {
+     *   const entry = await cache.getWithVersion("users");
+     *   if (entry === null) {
+     *     break;
+     *   }
+     *   hasUpdated = await cache.updateIfVersion(
+     *     "users",
+     *     [...entry.value, "Abra"],
+     *     entry.version,
+     *   );
+     * }
+     * ```
+     *
+     * @returns Returns true if the `key` where updated otherwise false will be returned.
+     */
+    updateIfVersion(key: string, value: TType, version: string): ITask<boolean>;
+
     /**
      * The `updateOrFail` method updates the given `key` with given `value`.
      * Thorws error if the `key` is not found.
@@ -201,6 +460,85 @@ export type ICacheBase<TType = unknown> = {
      */
     decrementOrFail(key: string, value?: Extract<TType, number>): ITask<void>;
 
+    /**
+     * The `hget` method returns the value of the given `field` in the hash stored at `key`.
+     * An error will thrown if the key is not a hash.
+     *
+     * @returns Returns null when the key or the field is not found.
+     *
+     * @throws {TypeError} {@link TypeError}
+     */
+    hget(key: string, field: string): ITask<TType | null>;
+
+    /**
+     * The `hset` method sets the given `field` in the hash stored at `key` to the given `value`.
+     * The hash will be created without expiration when the key is not found.
+     * An error will thrown if the key is not a hash.
+     *
+     * @returns Returns true if the `field` where added otherwise false will be returned when it where replaced.
+     *
+     * @throws {TypeError} {@link TypeError}
+     */
+    hset(key: string, field: string, value: TType): ITask<boolean>;
+
+    /**
+     * The `hincrement` method increments the given `field` in the hash stored at `key` with given `value`.
+     * The field will be set to 0 before incrementing when it is not found and the hash will be created without expiration when the key is not found.
+     * An error will thrown if the key is not a hash or the field is not a number.
+     *
+     * @param value - If not defined then it will be defaulted to 1.
+     *
+     * @returns Returns the incremented value of the field.
+     *
+     * @throws {TypeError} {@link TypeError}
+     */
+    hincrement(
+        key: string,
+        field: string,
+        value?: Extract<TType, number>,
+    ): ITask<number>;
+
+    /**
+     * The `hremove` method removes the given `fields` from the hash stored at `key`.
+     * An error will thrown if the key is not a hash.
+     *
+     * @returns Returns true if one of the fields where removed otherwise false is returned.
+     *
+     * @throws {TypeError} {@link TypeError}
+     */
+    hremove(key: string, fields: Iterable<string>): ITask<boolean>;
+
+    /**
+     * The `sadd` method adds the given `members` to the set stored at `key`.
+     * The set will be created without expiration when the key is not found.
+     * An error will thrown if the key is not a set.
+     *
+     * @returns Returns true if one of the members where added otherwise false is returned.
+     *
+     * @throws {TypeError} {@link TypeError}
+     */
+    sadd(key: string, members: Iterable<string>): ITask<boolean>;
+
+    /**
+     * The `sremove` method removes the given `members` from the set stored at `key`.
+     * An error will thrown if the key is not a set.
+     *
+     * @returns Returns true if one of the members where removed otherwise false is returned.
+     *
+     * @throws {TypeError} {@link TypeError}
+     */
+    sremove(key: string, members: Iterable<string>): ITask<boolean>;
+
+    /**
+     * The `smembers` method returns all members of the set stored at `key`.
+     * An error will thrown if the key is not a set.
+     *
+     * @returns Returns an empty array when the key is not found.
+     *
+     * @throws {TypeError} {@link TypeError}
+     */
+    smembers(key: string): ITask<Array<string>>;
+
     /**
      * The `remove` method removes the given `key`.
      *
@@ -231,6 +569,135 @@ export type ICacheBase<TType = unknown> = {
      * The `clear` method removes all the keys in the cache. If a cache is in a group then only the keys part of the group will be removed.
      */
     clear(): ITask<void>;
+
+    /**
+     * The `memoize` method returns a function with the same arguments as `fn` that caches its return value.
+     * The value is retrieved with {@link ICacheBase.getOrAdd | `ICacheBase.getOrAdd`} method, meaning `fn` will only be called when the key is missing or stale.
+     *
+     * @example
+     * ```ts
+     * import type { ICache } from "@daiso-tech/core/cache/contracts";
+     * import { TimeSpan } from "@daiso-tech/core/time-span";
+     *
+     * declare const cache: ICache<User>;
+     * declare function findUser(id: string): Promise<User>;
+     *
+     * const findUserCached = cache.memoize(findUser, {
+     *   key: "user",
+     *   ttl: TimeSpan.fromMinutes(5),
+     * });
+     *
+     * // findUser will only be called once
+     * await findUserCached("1");
+     * await findUserCached("1");
+     * ```
+     */
+    memoize<TParameters extends Array<unknown>>(
+        fn: Invokable<TParameters, Promisable<TType>>,
+        settings: CacheMemoizeSettings<TParameters>,
+    ): InvokableFn<TParameters, ITask<TType>>;
+
+    /**
+     * The `middleware` method returns an {@link AsyncMiddlewareFn | `AsyncMiddlewareFn`} with the same caching behaviour as {@link ICacheBase.memoize | `ICacheBase.memoize`} method.
+     * It can be used with {@link ITask.pipe | `ITask.pipe`} method and `AsyncHooks` class.
+     *
+     * @example
+     * ```ts
+     * import type { ICache } from "@daiso-tech/core/cache/contracts";
+     * import { Task } from "@daiso-tech/core/task";
+     *
+     * declare const cache: ICache<Array<User>>;
+     * declare function fetchUsers(): Promise<Array<User>>;
+     *
+     * const users = await new Task(fetchUsers).pipe(
+     *   cache.middleware({ key: "users" }),
+     * );
+     * ```
+     */
+    middleware<TParameters extends Array<unknown>>(
+        settings: CacheMemoizeSettings<TParameters>,
+    ): AsyncMiddlewareFn<TParameters, TType>;
+
+    /**
+     * The `keys` method returns an {@link IAsyncCollection | `IAsyncCollection`} of all the keys in the cache, without the namespace prefix.
+     * The keys are fetched lazily in pages from the adapter when the collection is iterated.
+     *
+     * @param pattern - Only keys matching the given `pattern` will be returned. The `*` character matches any sequence of characters.
+     *
+     * @example
+     * ```ts
+     * import type { ICache } from "@daiso-tech/core/cache/contracts";
+     *
+     * declare const cache: ICache;
+     *
+     * // Will return all keys starting with "user/"
+     * const keys = await cache.keys("user/*").toArray();
+     * ```
+     */
+    keys(pattern?: string): IAsyncCollection<string>;
+
+    /**
+     * The `entries` method returns an {@link IAsyncCollection | `IAsyncCollection`} of all the key-value pairs in the cache, without the namespace prefix.
+     * The keys are fetched lazily in pages from the adapter when the collection is iterated.
+     *
+     * @param pattern - Only keys matching the given `pattern` will be returned. The `*` character matches any sequence of characters.
+     */
+    entries(pattern?: string): IAsyncCollection<[string, TType]>;
+
+    /**
+     * The `export` method returns an {@link IAsyncCollection | `IAsyncCollection`} of all the entries in the cache with their remaining ttl, without the namespace prefix.
+     * Each entry is a {@link CacheExportEntry | `CacheExportEntry`} serialized as a newline delimited JSON line, where the value is serialized with the configured export serde.
+     * The keys are read in pages without pushing the expiration of keys with a sliding period forward.
+     *
+     * @param pattern - Only keys matching the given `pattern` will be exported. The `*` character matches any sequence of characters.
+     *
+     * @example
+     * ```ts
+     * import type { ICache } from "@daiso-tech/core/cache/contracts";
+     * import { createWriteStream } from "node:fs";
+     * import { Readable } from "node:stream";
+     * import { pipeline } from "node:stream/promises";
+     *
+     * declare const cache: ICache;
+     *
+     * await pipeline(Readable.from(cache.export()), createWriteStream("cache.ndjson"));
+     * ```
+     */
+    export(pattern?: string): IAsyncCollection<string>;
+
+    /**
+     * The `import` method adds all the entries from the given `stream` that was created by {@link ICacheBase.export | `ICacheBase.export`} method, replacing existing keys.
+     * The `stream` can be split into chunks at any position, meaning you can pass a file read stream directly.
+     *
+     * @example
+     * ```ts
+     * import type { ICache } from "@daiso-tech/core/cache/contracts";
+     * import { createReadStream } from "node:fs";
+     *
+     * declare const cache: ICache;
+     *
+     * await cache.import(createReadStream("cache.ndjson"));
+     * ```
+     */
+    import(stream: CacheImportStream): ITask<void>;
+
+    /**
+     * The `tags` method returns {@link ICacheTags | `ICacheTags`} that can be used for removing all keys associated with the given `tags`.
+     *
+     * @example
+     * ```ts
+     * import type { ICache } from "@daiso-tech/core/cache/contracts";
+     *
+     * declare const cache: ICache;
+     *
+     * await cache.add("user/1", { name: "Abra" }, { tags: ["users"] });
+     * await cache.add("user/2", { name: "Kadabra" }, { tags: ["users"] });
+     *
+     * // Will remove both "user/1" and "user/2" keys
+     * await cache.tags(["users"]).invalidate();
+     * ```
+     */
+    tags(tags: Iterable<string>): ICacheTags;
 };
 
 /**
@@ -241,4 +708,21 @@ export type ICacheBase<TType = unknown> = {
  */
 export type ICache<TType = unknown> = ICacheBase<TType> & {
     readonly events: ICacheListenable<TType>;
+
+    /**
+     * The `getStats` method returns the hits, misses, writes, evictions, errors and latency histograms of each method of the cache namespace.
+     *
+     * @example
+     * ```ts
+     * import type { ICache } from "@daiso-tech/core/cache/contracts";
+     *
+     * declare const cache: ICache;
+     *
+     * await cache.get("a");
+     *
+     * // Logs 1
+     * console.log(cache.getStats().misses);
+     * ```
+     */
+    getStats(): CacheStats;
 };
@@ -54,6 +54,20 @@ export class KeyExistsCacheError extends Error {
     }
 }
 
+/**
+ * The error is thrown when the value of a key, or a field of a hash, has an unexpected type.
+ * It extends `TypeError`, meaning it can still be caught as a `TypeError`.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Errors
+ */
+export class KeyTypeCacheError extends TypeError {
+    constructor(message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = KeyTypeCacheError.name;
+    }
+}
+
 /**
  *
  * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
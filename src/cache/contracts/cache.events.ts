@@ -2,6 +2,7 @@
  * @module Cache
  */
 
+import { type CacheStatsSnapshot } from "@/cache/contracts/cache-metrics.contract.js";
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { type IKey } from "@/namespace/contracts/_module.js";
 import { type TimeSpan } from "@/time-span/implementations/_module.js";
@@ -27,6 +28,27 @@ export type NotFoundCacheEvent = {
     key: IKey;
 };
 
+/**
+ * The event is dispatched when key is found but cached as missing.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type NegativeFoundCacheEvent = {
+    key: IKey;
+};
+
+/**
+ * The event is dispatched when key is added as missing.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type NegativeAddedCacheEvent = {
+    key: IKey;
+    ttl: TimeSpan | null;
+};
+
 /**
  * The event is dispatched when key is added.
  *
@@ -50,6 +72,17 @@ export type UpdatedCacheEvent<TType = unknown> = {
     value: TType;
 };
 
+/**
+ * The event is dispatched when key is not updated because it is not found or its version has changed.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type VersionConflictCacheEvent = {
+    key: IKey;
+    version: string;
+};
+
 /**
  * The event is dispatched when key is removed.
  *
@@ -60,6 +93,17 @@ export type RemovedCacheEvent = {
     key: IKey;
 };
 
+/**
+ * The event is dispatched when the expiration of a key is replaced.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type TouchedCacheEvent = {
+    key: IKey;
+    ttl: TimeSpan | null;
+};
+
 /**
  * The event is dispatched when key is incremented.
  *
@@ -92,11 +136,140 @@ export type DecrementedCacheEvent = {
 export type ClearedCacheEvent = {};
 
 /**
+ * The event is dispatched when all keys associated with the given tags are removed.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type TagsInvalidatedCacheEvent = {
+    tags: Array<string>;
+};
+
+/**
+ * The event is dispatched when a stale key has been refreshed in the background.
+ * The `error` field is only defined when the refresh has failed.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type RevalidatedCacheEvent = {
+    key: IKey;
+    hasSucceeded: boolean;
+    error?: unknown;
+};
+
+/**
+ * The event is dispatched when a memoized function returns a cached value.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type MemoizeHitCacheEvent<TType = unknown> = {
+    key: IKey;
+    arguments: Array<unknown>;
+    value: TType;
+};
+
+/**
+ * The event is dispatched when the value of a memoized function is not cached, either because the function is called or because the call waits on the same computation of a concurrent call.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type MemoizeMissCacheEvent<TType = unknown> = {
+    key: IKey;
+    arguments: Array<unknown>;
+    value: TType;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export const CACHE_EVICTION_POLICY = {
+    LRU: "LRU",
+    LFU: "LFU",
+    FIFO: "FIFO",
+} as const;
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type CacheEvictionPolicyLiterals =
+    (typeof CACHE_EVICTION_POLICY)[keyof typeof CACHE_EVICTION_POLICY];
+
+/**
+ * The event is dispatched when a bounded adapter evicts a key to stay within its limits.
+ * Note unlike the other events the `key` is a string and not an {@link IKey | `IKey`}, because adapters are not aware of namespaces.
+ * The `key` is the adapter key, meaning it includes the namespace prefix, and the `CacheMetricsCollector` class attributes it to the longest namespace key prefix it has recorded other events for.
+ * Evictions of keys whose namespace has not recorded other events are attributed to the empty namespace.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type EvictedCacheEvent = {
+    key: string;
+    policy: CacheEvictionPolicyLiterals;
+};
+
+/**
+ * The event is dispatched when the queued values are written to the backing store in write-behind mode.
+ * The `keys` are without the namespace prefix.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type WriteBehindFlushedCacheEvent = {
+    keys: Array<string>;
+};
+
+/**
+ * The event is dispatched when the queued values could not be written to the backing store in write-behind mode after all retry attempts.
+ * The values are queued again and retried with the next flush, unless a newer value of the key has been queued.
+ * The `keys` are without the namespace prefix.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type WriteBehindFlushFailedCacheEvent = {
+    keys: Array<string>;
+    error: unknown;
+};
+
+/**
+ * The event is dispatched when a cache method has completed, successfully or not.
+ * The `namespace` is the key prefix of the cache namespace.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type MethodCompletedCacheEvent = {
+    namespace: string;
+    method: string;
+    duration: TimeSpan;
+};
+
+/**
+ * The event is dispatched periodically by the metrics collector.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Events
+ */
+export type StatsSnapshotCacheEvent = {
+    snapshot: CacheStatsSnapshot;
+};
+
+/**
+ * The `namespace` is the key prefix of the cache namespace.
  *
  * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
  * @group Events
  */
 export type UnexpectedErrorCacheEvent = {
+    namespace: string;
     keys?: Array<string>;
     value?: unknown;
     method: string;
@@ -111,12 +284,25 @@ export type UnexpectedErrorCacheEvent = {
 export const CACHE_EVENTS = {
     FOUND: "FOUND",
     NOT_FOUND: "NOT_FOUND",
+    NEGATIVE_FOUND: "NEGATIVE_FOUND",
+    NEGATIVE_ADDED: "NEGATIVE_ADDED",
     ADDED: "ADDED",
     UPDATED: "UPDATED",
+    VERSION_CONFLICT: "VERSION_CONFLICT",
     REMOVED: "REMOVED",
+    TOUCHED: "TOUCHED",
     INCREMENTED: "INCREMENTED",
     DECREMENTED: "DECREMENTED",
     CLEARED: "CLEARED",
+    TAGS_INVALIDATED: "TAGS_INVALIDATED",
+    REVALIDATED: "REVALIDATED",
+    EVICTED: "EVICTED",
+    MEMOIZE_HIT: "MEMOIZE_HIT",
+    MEMOIZE_MISS: "MEMOIZE_MISS",
+    METHOD_COMPLETED: "METHOD_COMPLETED",
+    WRITE_BEHIND_FLUSHED: "WRITE_BEHIND_FLUSHED",
+    WRITE_BEHIND_FLUSH_FAILED: "WRITE_BEHIND_FLUSH_FAILED",
+    STATS_SNAPSHOT: "STATS_SNAPSHOT",
     UNEXPECTED_ERROR: "UNEXPECTED_ERROR",
 } as const;
 
@@ -128,11 +314,24 @@ export const CACHE_EVENTS = {
 export type CacheEventMap<TType = unknown> = {
     [CACHE_EVENTS.FOUND]: FoundCacheEvent<TType>;
     [CACHE_EVENTS.NOT_FOUND]: NotFoundCacheEvent;
+    [CACHE_EVENTS.NEGATIVE_FOUND]: NegativeFoundCacheEvent;
+    [CACHE_EVENTS.NEGATIVE_ADDED]: NegativeAddedCacheEvent;
     [CACHE_EVENTS.ADDED]: AddedCacheEvent<TType>;
     [CACHE_EVENTS.UPDATED]: UpdatedCacheEvent<TType>;
+    [CACHE_EVENTS.VERSION_CONFLICT]: VersionConflictCacheEvent;
     [CACHE_EVENTS.REMOVED]: RemovedCacheEvent;
+    [CACHE_EVENTS.TOUCHED]: TouchedCacheEvent;
     [CACHE_EVENTS.INCREMENTED]: IncrementedCacheEvent;
     [CACHE_EVENTS.DECREMENTED]: DecrementedCacheEvent;
     [CACHE_EVENTS.CLEARED]: ClearedCacheEvent;
+    [CACHE_EVENTS.TAGS_INVALIDATED]: TagsInvalidatedCacheEvent;
+    [CACHE_EVENTS.REVALIDATED]: RevalidatedCacheEvent;
+    [CACHE_EVENTS.EVICTED]: EvictedCacheEvent;
+    [CACHE_EVENTS.MEMOIZE_HIT]: MemoizeHitCacheEvent<TType>;
+    [CACHE_EVENTS.MEMOIZE_MISS]: MemoizeMissCacheEvent<TType>;
+    [CACHE_EVENTS.METHOD_COMPLETED]: MethodCompletedCacheEvent;
+    [CACHE_EVENTS.WRITE_BEHIND_FLUSHED]: WriteBehindFlushedCacheEvent;
+    [CACHE_EVENTS.WRITE_BEHIND_FLUSH_FAILED]: WriteBehindFlushFailedCacheEvent;
+    [CACHE_EVENTS.STATS_SNAPSHOT]: StatsSnapshotCacheEvent;
     [CACHE_EVENTS.UNEXPECTED_ERROR]: UnexpectedErrorCacheEvent;
 };
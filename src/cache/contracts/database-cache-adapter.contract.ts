@@ -2,6 +2,7 @@
  * @module Cache
  */
 
+import { type TimeSpan } from "@/time-span/implementations/_module.js";
 import { type InvokableFn } from "@/utilities/_module.js";
 
 /**
@@ -12,6 +13,52 @@ import { type InvokableFn } from "@/utilities/_module.js";
 export type ICacheData<TType = unknown> = {
     value: TType;
     expiration: Date | null;
+
+    /**
+     * The date when the value becomes stale. Undefined means the value will not become stale before it expires.
+     */
+    staleAt?: Date;
+
+    /**
+     * The period each read pushes the expiration forward by. Undefined means reads will not affect the expiration.
+     */
+    slidingTtl?: TimeSpan;
+
+    /**
+     * An opaque string that changes every time the value is changed. Undefined means the database doesn't track versions.
+     */
+    version?: string;
+
+    /**
+     * The time it took to compute the value. Undefined means it was not provided when the value was written.
+     */
+    recomputeDuration?: TimeSpan;
+};
+
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/cache/contracts"`
+ * @group Contracts
+ */
+export type DatabaseCacheUpsertSettings = {
+    /**
+     * If undefined the stored tags will be kept.
+     */
+    tags?: Array<string>;
+
+    /**
+     * If undefined the stored stale date will be kept and if null the value will not become stale.
+     */
+    staleAt?: Date | null;
+
+    /**
+     * If undefined the stored sliding period will be kept and if null reads will not affect the expiration.
+     */
+    slidingTtl?: TimeSpan | null;
+
+    /**
+     * If undefined the stored recompute duration will be kept and if null it will be removed.
+     */
+    recomputeDuration?: TimeSpan | null;
 };
 
 /**
@@ -19,8 +66,19 @@ export type ICacheData<TType = unknown> = {
  * @group Contracts
  */
 export type IDatabaseCacheTransaction<TType = unknown> = {
+    /**
+     * The `find` method should lock the found row until the transaction ends, ensuring concurrent read-modify-write cycles of the same key never overwrite each other.
+     */
     find(key: string): Promise<ICacheData<TType> | null>;
-    upsert(key: string, value: TType, expiration?: Date | null): Promise<void>;
+    /**
+     * If `expiration` is undefined the stored expiration will be kept.
+     */
+    upsert(
+        key: string,
+        value: TType,
+        expiration?: Date | null,
+        settings?: DatabaseCacheUpsertSettings,
+    ): Promise<void>;
 };
 
 /**
@@ -41,6 +99,11 @@ export type ICacheDataExpiration = {
 export type IDatabaseCacheAdapter<TType = unknown> = {
     find(key: string): Promise<ICacheData<TType> | null>;
 
+    /**
+     * The `findMany` method returns the data of the given `keys` in the same order, null will be returned for each key that is not found.
+     */
+    findMany(keys: Array<string>): Promise<Array<ICacheData<TType> | null>>;
+
     transaction<TValue>(
         trxFn: InvokableFn<
             [trx: IDatabaseCacheTransaction<TType>],
@@ -50,6 +113,22 @@ export type IDatabaseCacheAdapter<TType = unknown> = {
 
     update(key: string, value: TType): Promise<ICacheDataExpiration | null>;
 
+    /**
+     * The `updateIfVersion` method updates the given `key` with given `value` when it is not expired and its version matches the given `version`.
+     * Returns true if the `key` where updated otherwise false will be returned.
+     */
+    updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean>;
+
+    /**
+     * The `updateExpiration` method replaces the expiration of the given `key` when it is not expired.
+     * Returns true if the `key` where updated otherwise false will be returned.
+     */
+    updateExpiration(key: string, expiration: Date | null): Promise<boolean>;
+
     removeMany(keys: Array<string>): Promise<Array<ICacheDataExpiration>>;
 
     /**
@@ -57,8 +136,19 @@ export type IDatabaseCacheAdapter<TType = unknown> = {
      */
     removeAll(): Promise<void>;
 
+    /**
+     * The `findKeysByKeyPrefix` method returns an {@link AsyncIterable | `AsyncIterable`} of all the unexpired keys in the cache that starts with the given `prefix`.
+     * The keys should be fetched lazily in pages.
+     */
+    findKeysByKeyPrefix(prefix: string): AsyncIterable<string>;
+
     /**
      * The `removeByKeyPrefix` method removes all the keys in the cache that starts with the given `prefix`.
      */
     removeByKeyPrefix(prefix: string): Promise<void>;
+
+    /**
+     * The `removeByTags` method removes all the keys in the cache that are associated with at least one of the given `tags`.
+     */
+    removeByTags(tags: Array<string>): Promise<void>;
 };
@@ -1,5 +1,8 @@
+export * from "@/cache/implementations/adapters/file-system-cache-adapter/_module.js";
 export * from "@/cache/implementations/adapters/kysely-cache-adapter/_module.js";
 export * from "@/cache/implementations/adapters/memory-cache-adapter/_module.js";
 export * from "@/cache/implementations/adapters/mongodb-cache-adapter/_module.js";
+export * from "@/cache/implementations/adapters/multi-tier-cache-adapter/_module.js";
 export * from "@/cache/implementations/adapters/no-op-cache-adapter/_module.js";
 export * from "@/cache/implementations/adapters/redis-cache-adapter/_module.js";
+export * from "@/cache/implementations/adapters/sqlite-cache-adapter/_module.js";
@@ -0,0 +1 @@
+export * from "@/cache/implementations/adapters/file-system-cache-adapter/file-system-cache-adapter.js";
@@ -0,0 +1,60 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+
+import { FileSystemCacheAdapter } from "@/cache/implementations/adapters/file-system-cache-adapter/_module.js";
+import { cacheAdapterTestSuite } from "@/cache/implementations/test-utilities/_module.js";
+import { SuperJsonSerdeAdapter } from "@/serde/implementations/adapters/_module.js";
+import { Serde } from "@/serde/implementations/derivables/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
+
+describe("class: FileSystemCacheAdapter", () => {
+    let directory: string;
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "file-system-cache-"));
+    });
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+    cacheAdapterTestSuite({
+        createAdapter: async () => {
+            const adapter = new FileSystemCacheAdapter({
+                directory,
+                shouldRemoveExpiredKeys: false,
+                serde: new Serde(new SuperJsonSerdeAdapter()),
+            });
+            await adapter.init();
+            return adapter;
+        },
+        test,
+        beforeEach,
+        expect,
+        describe,
+    });
+    describe("method: removeAllExpired", () => {
+        test("Should remove expired keys and keep unexpired keys", async () => {
+            const adapter = new FileSystemCacheAdapter<number>({
+                directory,
+                shouldRemoveExpiredKeys: false,
+                serde: new Serde(new SuperJsonSerdeAdapter()),
+            });
+            await adapter.init();
+            const ttl = TimeSpan.fromMilliseconds(50);
+            await adapter.add("a", 1, ttl);
+            await adapter.add("b", 2, null);
+            await Task.delay(ttl.addTimeSpan(ttl.divide(4)));
+
+            await adapter.removeAllExpired();
+
+            expect(await adapter.getMany(["a", "b"])).toEqual([null, 2]);
+            const keys: Array<string> = [];
+            for await (const key of adapter.getKeysByKeyPrefix("")) {
+                keys.push(key);
+            }
+            expect(keys).toEqual(["b"]);
+        });
+    });
+});
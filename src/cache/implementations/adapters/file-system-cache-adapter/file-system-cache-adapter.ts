@@ -0,0 +1,688 @@
+/**
+ * @module Cache
+ */
+
+import { createHash } from "node:crypto";
+import {
+    appendFile,
+    mkdir,
+    readFile,
+    readdir,
+    rename,
+    rm,
+    writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+
+import { v4 } from "uuid";
+
+import {
+    type CacheAdapterReadSettings,
+    type CacheAdapterWriteManyItem,
+    type CacheAdapterWriteSettings,
+    type ICacheAdapter,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
+    KeyTypeCacheError,
+} from "@/cache/contracts/_module.js";
+import {
+    addSetMembers,
+    getHashField,
+    incrementHashField,
+    removeHashFields,
+    removeSetMembers,
+    setHashField,
+    toSet,
+    type CacheDataStructureModifier,
+} from "@/cache/implementations/derivables/cache/cache-data-structures.js";
+import { type ISerde } from "@/serde/contracts/_module.js";
+import { type ITimeSpan } from "@/time-span/contracts/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
+import {
+    type IDeinitizable,
+    type IInitizable,
+    type IPrunable,
+} from "@/utilities/_module.js";
+
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/cache/file-system-cache-adapter"`
+ * @group Adapters
+ */
+export type FileSystemCacheAdapterSettings = {
+    /**
+     * The directory where the cache files will be stored. It will be created if it doesn't exist.
+     */
+    directory: string;
+
+    serde: ISerde<string>;
+
+    /**
+     * @default
+     * ```ts
+     * import { TimeSpan } from "@daiso-tech/core/time-span";
+     *
+     * TimeSpan.fromMinutes(1)
+     * ```
+     */
+    expiredKeysRemovalInterval?: ITimeSpan;
+
+    /**
+     * @default true
+     */
+    shouldRemoveExpiredKeys?: boolean;
+};
+
+/**
+ * The header is stored as JSON on the first line of each cache file, the serialized value follows on the next lines.
+ */
+type FileSystemCacheHeader = {
+    key: string;
+    // In ms since unix epoch
+    expiration: number | null;
+    // In ms since unix epoch
+    staleAt: number | null;
+    // In ms
+    slidingTtl: number | null;
+    tags: Array<string>;
+    version: string;
+    // In ms
+    recomputeDuration: number | null;
+};
+
+type FileSystemCacheFile<TType> = {
+    header: FileSystemCacheHeader;
+    value: TType;
+};
+
+const FILE_EXTENSION = ".cache";
+
+const INDEX_FILE_NAME = "keys.index";
+
+function isNotFoundError(error: unknown): boolean {
+    return (
+        error instanceof Error &&
+        (error as NodeJS.ErrnoException).code === "ENOENT"
+    );
+}
+
+function isExpired(header: FileSystemCacheHeader): boolean {
+    return header.expiration !== null && header.expiration <= Date.now();
+}
+
+/**
+ * To utilize the `FileSystemCacheAdapter`, you must create instance of it and provide a directory.
+ * Each key is stored in its own file named by the hash of the key and every write is atomic, the file is first written to a temporary file and then renamed.
+ * The keys are also appended to a sidecar index file which is used for listing and removing keys by prefix, the index is compacted when expired keys are removed.
+ *
+ * Note operations are only serialized within a single process, the directory should not be written by multiple processes at the same time.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/file-system-cache-adapter"`
+ * @group Adapters
+ */
+export class FileSystemCacheAdapter<TType = unknown>
+    implements ICacheAdapter<TType>, IInitizable, IDeinitizable, IPrunable
+{
+    private readonly directory: string;
+    private readonly indexPath: string;
+    private readonly serde: ISerde<string>;
+    private readonly shouldRemoveExpiredKeys: boolean;
+    private readonly expiredKeysRemovalInterval: TimeSpan;
+    private timeoutId: NodeJS.Timeout | string | number | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * @example
+     * ```ts
+     * import { FileSystemCacheAdapter } from "@daiso-tech/core/cache/file-system-cache-adapter";
+     * import { Serde } from "@daiso-tech/core/serde";
+     * import { SuperJsonSerdeAdapter } from "@daiso-tech/core/serde/super-json-serde-adapter"
+     *
+     * const cacheAdapter = new FileSystemCacheAdapter({
+     *   directory: ".cache",
+     *   serde: new Serde(new SuperJsonSerdeAdapter()),
+     * });
+     * // You need initialize the adapter once before using it.
+     * await cacheAdapter.init();
+     * ```
+     */
+    constructor(settings: FileSystemCacheAdapterSettings) {
+        const {
+            directory,
+            serde,
+            expiredKeysRemovalInterval = TimeSpan.fromMinutes(1),
+            shouldRemoveExpiredKeys = true,
+        } = settings;
+        this.directory = directory;
+        this.indexPath = join(directory, INDEX_FILE_NAME);
+        this.serde = serde;
+        this.expiredKeysRemovalInterval = TimeSpan.fromTimeSpan(
+            expiredKeysRemovalInterval,
+        );
+        this.shouldRemoveExpiredKeys = shouldRemoveExpiredKeys;
+    }
+
+    /**
+     * Runs the `fn` after all previously queued operations have settled, ensuring read-modify-write operations never interleave.
+     */
+    private exclusive<TValue>(
+        fn: () => Promise<TValue> | TValue,
+    ): Promise<TValue> {
+        const result = this.queue.then(fn);
+        this.queue = result.then(
+            () => undefined,
+            () => undefined,
+        );
+        return result;
+    }
+
+    private filePath(key: string): string {
+        const hash = createHash("sha256").update(key).digest("hex");
+        return join(this.directory, `${hash}${FILE_EXTENSION}`);
+    }
+
+    /**
+     * Returns null when the file of the `key` doesn't exist or when it has expired.
+     */
+    private async readFile(
+        key: string,
+    ): Promise<FileSystemCacheFile<TType> | null> {
+        let content: string;
+        try {
+            content = await readFile(this.filePath(key), "utf8");
+        } catch (error: unknown) {
+            if (isNotFoundError(error)) {
+                return null;
+            }
+            throw error;
+        }
+        const separatorIndex = content.indexOf("\n");
+        const header = JSON.parse(
+            content.slice(0, separatorIndex),
+        ) as FileSystemCacheHeader;
+        if (header.key !== key || isExpired(header)) {
+            return null;
+        }
+        return {
+            header,
+            value: this.serde.deserialize(content.slice(separatorIndex + 1)),
+        };
+    }
+
+    private async writeFile(
+        file: FileSystemCacheFile<TType>,
+        isNew: boolean,
+    ): Promise<void> {
+        const filePath = this.filePath(file.header.key);
+        const tempFilePath = `${filePath}.${v4()}.tmp`;
+        await writeFile(
+            tempFilePath,
+            `${JSON.stringify(file.header)}\n${this.serde.serialize(file.value)}`,
+            "utf8",
+        );
+        await rename(tempFilePath, filePath);
+        if (isNew) {
+            await appendFile(
+                this.indexPath,
+                `${JSON.stringify(file.header.key)}\n`,
+                "utf8",
+            );
+        }
+    }
+
+    private async removeFile(key: string): Promise<boolean> {
+        const file = await this.readFile(key);
+        await rm(this.filePath(key), { force: true });
+        return file !== null;
+    }
+
+    /**
+     * Returns the unique keys of the sidecar index, the keys may no longer exist.
+     */
+    private async readIndex(): Promise<Array<string>> {
+        let content: string;
+        try {
+            content = await readFile(this.indexPath, "utf8");
+        } catch (error: unknown) {
+            if (isNotFoundError(error)) {
+                return [];
+            }
+            throw error;
+        }
+        const keys = content
+            .split("\n")
+            .filter((line) => line !== "")
+            .map((line) => JSON.parse(line) as string);
+        return [...new Set(keys)];
+    }
+
+    /**
+     * Pushes the expiration of the `key` forward when it has a sliding period.
+     */
+    /**
+     * @returns Returns the expiration of the file after it has been pushed forward, in ms since unix epoch.
+     */
+    private async slide(
+        file: FileSystemCacheFile<TType>,
+    ): Promise<number | null> {
+        if (file.header.slidingTtl === null) {
+            return file.header.expiration;
+        }
+        const expiration = Date.now() + file.header.slidingTtl;
+        await this.writeFile(
+            {
+                header: {
+                    ...file.header,
+                    expiration,
+                },
+                value: file.value,
+            },
+            false,
+        );
+        return expiration;
+    }
+
+    private async _get(key: string, shouldSlide = true): Promise<TType | null> {
+        const file = await this.readFile(key);
+        if (file === null) {
+            return null;
+        }
+        if (shouldSlide) {
+            await this.slide(file);
+        }
+        return file.value;
+    }
+
+    private async _add(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings: CacheAdapterWriteSettings = {},
+    ): Promise<boolean> {
+        if ((await this.readFile(key)) !== null) {
+            return false;
+        }
+        await this._put(key, value, ttl, settings);
+        return true;
+    }
+
+    private async _put(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings: CacheAdapterWriteSettings = {},
+    ): Promise<boolean> {
+        const {
+            tags = [],
+            freshTtl = null,
+            slidingTtl = null,
+            recomputeDuration = null,
+        } = settings;
+        const hasKey = (await this.readFile(key)) !== null;
+        await this.writeFile(
+            {
+                header: {
+                    key,
+                    expiration: ttl?.toEndDate().getTime() ?? null,
+                    staleAt: freshTtl?.toEndDate().getTime() ?? null,
+                    slidingTtl: slidingTtl?.toMilliseconds() ?? null,
+                    recomputeDuration:
+                        recomputeDuration?.toMilliseconds() ?? null,
+                    tags: [...new Set(tags)],
+                    version: v4(),
+                },
+                value,
+            },
+            !hasKey,
+        );
+        return hasKey;
+    }
+
+    private async _update(key: string, value: TType): Promise<boolean> {
+        const file = await this.readFile(key);
+        if (file === null) {
+            return false;
+        }
+        await this.writeFile(
+            {
+                header: {
+                    ...file.header,
+                    version: v4(),
+                },
+                value,
+            },
+            false,
+        );
+        return true;
+    }
+
+    async removeAllExpired(): Promise<void> {
+        await this.exclusive(async () => {
+            const keys: Array<string> = [];
+            for (const key of await this.readIndex()) {
+                if ((await this.readFile(key)) === null) {
+                    await rm(this.filePath(key), { force: true });
+                } else {
+                    keys.push(key);
+                }
+            }
+            const tempIndexPath = `${this.indexPath}.${v4()}.tmp`;
+            await writeFile(
+                tempIndexPath,
+                keys.map((key) => `${JSON.stringify(key)}\n`).join(""),
+                "utf8",
+            );
+            await rename(tempIndexPath, this.indexPath);
+        });
+    }
+
+    async init(): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+
+        if (this.shouldRemoveExpiredKeys && this.timeoutId === null) {
+            this.timeoutId = setInterval(() => {
+                // eslint-disable-next-line @typescript-eslint/no-floating-promises
+                this.removeAllExpired();
+            }, this.expiredKeysRemovalInterval.toMilliseconds());
+        }
+    }
+
+    /**
+     * Removes the cache directory.
+     * Note all cache data will be removed.
+     */
+    async deInit(): Promise<void> {
+        if (this.shouldRemoveExpiredKeys && this.timeoutId !== null) {
+            clearInterval(this.timeoutId);
+            this.timeoutId = null;
+        }
+
+        await this.exclusive(async () => {
+            await rm(this.directory, { recursive: true, force: true });
+        });
+    }
+
+    async get(key: string): Promise<TType | null> {
+        return await this.exclusive(() => this._get(key));
+    }
+
+    async getMany(
+        keys: Array<string>,
+        settings: CacheAdapterReadSettings = {},
+    ): Promise<Array<TType | null>> {
+        const { shouldSlide = true } = settings;
+        return await this.exclusive(async () => {
+            const values: Array<TType | null> = [];
+            for (const key of keys) {
+                values.push(await this._get(key, shouldSlide));
+            }
+            return values;
+        });
+    }
+
+    async getEntry(key: string): Promise<ICacheEntry<TType> | null> {
+        return await this.exclusive(async () => {
+            const file = await this.readFile(key);
+            if (file === null) {
+                return null;
+            }
+            const expiration = await this.slide(file);
+            const { staleAt, recomputeDuration } = file.header;
+            return {
+                value: file.value,
+                isStale: staleAt !== null && staleAt <= Date.now(),
+                staleAt: staleAt === null ? undefined : new Date(staleAt),
+                expiration:
+                    expiration === null ? undefined : new Date(expiration),
+                recomputeDuration:
+                    recomputeDuration === null
+                        ? undefined
+                        : TimeSpan.fromMilliseconds(recomputeDuration),
+            };
+        });
+    }
+
+    async getWithVersion(
+        key: string,
+    ): Promise<ICacheVersionedEntry<TType> | null> {
+        return await this.exclusive(async () => {
+            const file = await this.readFile(key);
+            if (file === null) {
+                return null;
+            }
+            await this.slide(file);
+            return {
+                value: file.value,
+                version: file.header.version,
+            };
+        });
+    }
+
+    async getAndRemove(key: string): Promise<TType | null> {
+        return await this.exclusive(async () => {
+            const file = await this.readFile(key);
+            await rm(this.filePath(key), { force: true });
+            return file?.value ?? null;
+        });
+    }
+
+    async add(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
+        return await this.exclusive(() => this._add(key, value, ttl, settings));
+    }
+
+    async put(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
+        return await this.exclusive(() => this._put(key, value, ttl, settings));
+    }
+
+    async addMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await this.exclusive(async () => {
+            const results: Array<boolean> = [];
+            for (const { key, value, ttl, settings } of items) {
+                results.push(await this._add(key, value, ttl, settings));
+            }
+            return results;
+        });
+    }
+
+    async putMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await this.exclusive(async () => {
+            const results: Array<boolean> = [];
+            for (const { key, value, ttl, settings } of items) {
+                results.push(await this._put(key, value, ttl, settings));
+            }
+            return results;
+        });
+    }
+
+    async getTtl(key: string): Promise<TimeSpan | null> {
+        const file = await this.exclusive(() => this.readFile(key));
+        if (file === null || file.header.expiration === null) {
+            return null;
+        }
+        return TimeSpan.fromDateRange({
+            end: new Date(file.header.expiration),
+        });
+    }
+
+    async touch(key: string, ttl: TimeSpan | null): Promise<boolean> {
+        return await this.exclusive(async () => {
+            const file = await this.readFile(key);
+            if (file === null) {
+                return false;
+            }
+            await this.writeFile(
+                {
+                    header: {
+                        ...file.header,
+                        expiration: ttl?.toEndDate().getTime() ?? null,
+                    },
+                    value: file.value,
+                },
+                false,
+            );
+            return true;
+        });
+    }
+
+    async update(key: string, value: TType): Promise<boolean> {
+        return await this.exclusive(() => this._update(key, value));
+    }
+
+    async updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean> {
+        return await this.exclusive(async () => {
+            const file = await this.readFile(key);
+            if (file === null || file.header.version !== version) {
+                return false;
+            }
+            return await this._update(key, value);
+        });
+    }
+
+    async increment(key: string, value: number): Promise<boolean> {
+        return await this.exclusive(async () => {
+            const file = await this.readFile(key);
+            if (file === null) {
+                return false;
+            }
+            if (typeof file.value !== "number") {
+                throw new KeyTypeCacheError(
+                    `Unable to increment or decrement none number type key "${key}"`,
+                );
+            }
+            return await this._update(key, (file.value + value) as TType);
+        });
+    }
+
+    private async modify<TResult>(
+        key: string,
+        modifier: CacheDataStructureModifier<TResult>,
+    ): Promise<TResult> {
+        return await this.exclusive(async () => {
+            const file = await this.readFile(key);
+            const { value, result } = modifier(key, file?.value ?? null);
+            if (value === undefined) {
+                return result;
+            }
+            if (file === null) {
+                await this._put(key, value as TType, null);
+            } else {
+                await this._update(key, value as TType);
+            }
+            return result;
+        });
+    }
+
+    async hget(key: string, field: string): Promise<TType | null> {
+        return getHashField(key, await this.get(key), field);
+    }
+
+    async hset(key: string, field: string, value: TType): Promise<boolean> {
+        return await this.modify(key, setHashField(field, value));
+    }
+
+    async hincrement(
+        key: string,
+        field: string,
+        value: number,
+    ): Promise<number> {
+        return await this.modify(key, incrementHashField(field, value));
+    }
+
+    async hremove(key: string, fields: Array<string>): Promise<boolean> {
+        return await this.modify(key, removeHashFields(fields));
+    }
+
+    async sadd(key: string, members: Array<string>): Promise<boolean> {
+        return await this.modify(key, addSetMembers(members));
+    }
+
+    async sremove(key: string, members: Array<string>): Promise<boolean> {
+        return await this.modify(key, removeSetMembers(members));
+    }
+
+    async smembers(key: string): Promise<Array<string>> {
+        return toSet(key, await this.get(key));
+    }
+
+    async removeMany(keys: Array<string>): Promise<boolean> {
+        return await this.exclusive(async () => {
+            let hasRemoved = false;
+            for (const key of keys) {
+                if (await this.removeFile(key)) {
+                    hasRemoved = true;
+                }
+            }
+            return hasRemoved;
+        });
+    }
+
+    async removeAll(): Promise<void> {
+        await this.exclusive(async () => {
+            let fileNames: Array<string>;
+            try {
+                fileNames = await readdir(this.directory);
+            } catch (error: unknown) {
+                if (isNotFoundError(error)) {
+                    return;
+                }
+                throw error;
+            }
+            for (const fileName of fileNames) {
+                await rm(join(this.directory, fileName), { force: true });
+            }
+        });
+    }
+
+    async *getKeysByKeyPrefix(prefix: string): AsyncIterable<string> {
+        const keys = await this.exclusive(() => this.readIndex());
+        for (const key of keys) {
+            if (
+                key.startsWith(prefix) &&
+                (await this.exclusive(() => this.readFile(key))) !== null
+            ) {
+                yield key;
+            }
+        }
+    }
+
+    async removeByKeyPrefix(prefix: string): Promise<void> {
+        await this.exclusive(async () => {
+            for (const key of await this.readIndex()) {
+                if (key.startsWith(prefix)) {
+                    await rm(this.filePath(key), { force: true });
+                }
+            }
+        });
+    }
+
+    async removeByTags(tags: Array<string>): Promise<void> {
+        await this.exclusive(async () => {
+            for (const key of await this.readIndex()) {
+                const file = await this.readFile(key);
+                if (
+                    file !== null &&
+                    file.header.tags.some((tag) => tags.includes(tag))
+                ) {
+                    await rm(this.filePath(key), { force: true });
+                }
+            }
+        });
+    }
+}
@@ -2,11 +2,13 @@
  * @module Cache
  */
 
-import { MysqlAdapter, Transaction, type Kysely } from "kysely";
+import { MysqlAdapter, SqliteAdapter, Transaction, type Kysely } from "kysely";
+import { v4 } from "uuid";
 
 import {
     type ICacheData,
     type ICacheDataExpiration,
+    type DatabaseCacheUpsertSettings,
     type IDatabaseCacheAdapter,
     type IDatabaseCacheTransaction,
 } from "@/cache/contracts/_module.js";
@@ -29,6 +31,22 @@ export type KyselyCacheTable = {
     value: string;
     // In ms since unix epoch
     expiration: number | string | null;
+    // In ms since unix epoch
+    stale_at: number | string | null;
+    // In ms
+    sliding_ttl: number | string | null;
+    version: string | null;
+    // In ms
+    recompute_duration: number | string | null;
+};
+
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/cache/kysely-cache-adapter"`
+ * @group Adapters
+ */
+export type KyselyCacheTagTable = {
+    key: string;
+    tag: string;
 };
 
 /**
@@ -37,6 +55,7 @@ export type KyselyCacheTable = {
  */
 export type KyselyCacheTables = {
     cache: KyselyCacheTable;
+    cache_tag: KyselyCacheTagTable;
 };
 
 /**
@@ -72,8 +91,36 @@ export type KyselyCacheAdapterSettings = {
      * ```
      */
     enableTransactions?: boolean;
+
+    /**
+     * The number of keys fetched per page when listing keys.
+     * @default 100
+     */
+    keysPageSize?: number;
 };
 
+function toCacheData<TType>(
+    row: Omit<KyselyCacheTable, "key">,
+    serde: ISerde<string>,
+): ICacheData<TType> {
+    return {
+        value: serde.deserialize(row.value),
+        expiration:
+            row.expiration === null ? null : new Date(Number(row.expiration)),
+        staleAt:
+            row.stale_at === null ? undefined : new Date(Number(row.stale_at)),
+        slidingTtl:
+            row.sliding_ttl === null
+                ? undefined
+                : TimeSpan.fromMilliseconds(Number(row.sliding_ttl)),
+        version: row.version ?? "",
+        recomputeDuration:
+            row.recompute_duration === null
+                ? undefined
+                : TimeSpan.fromMilliseconds(Number(row.recompute_duration)),
+    };
+}
+
 /**
  * @internal
  */
@@ -81,6 +128,7 @@ export class DatabaseCacheTransaction<TType>
     implements IDatabaseCacheTransaction<TType>
 {
     private readonly isMysql: boolean;
+    private readonly isSqlite: boolean;
 
     constructor(
         private readonly kysely: Kysely<KyselyCacheTables>,
@@ -88,45 +136,78 @@ export class DatabaseCacheTransaction<TType>
     ) {
         this.isMysql =
             this.kysely.getExecutor().adapter instanceof MysqlAdapter;
+        this.isSqlite =
+            this.kysely.getExecutor().adapter instanceof SqliteAdapter;
     }
 
+    /**
+     * The row is locked until the transaction ends, ensuring concurrent read-modify-write cycles of the same key never overwrite each other.
+     * Note Sqlite does not support row locks but only allows one writing transaction at a time.
+     */
     async find(key: string): Promise<ICacheData<TType> | null> {
         const cacheData = await this.kysely
             .selectFrom("cache")
             .where("cache.key", "=", key)
-            .select(["cache.expiration", "cache.value"])
+            .select([
+                "cache.expiration",
+                "cache.value",
+                "cache.stale_at",
+                "cache.sliding_ttl",
+                "cache.version",
+                "cache.recompute_duration",
+            ])
+            .$if(!this.isSqlite, (qb) => qb.forUpdate())
             .executeTakeFirst();
 
         if (cacheData === undefined) {
             return null;
         }
-        return {
-            value: this.serde.deserialize(cacheData.value),
-            expiration:
-                cacheData.expiration === null
-                    ? null
-                    : new Date(Number(cacheData.expiration)),
-        };
+        return toCacheData(cacheData, this.serde);
     }
 
     async upsert(
         key: string,
         value: TType,
         expiration?: Date | null,
+        settings: DatabaseCacheUpsertSettings = {},
     ): Promise<void> {
+        const { tags, staleAt, slidingTtl, recomputeDuration } = settings;
         let expirationAsMs: number | null | undefined;
         if (expiration instanceof Date) {
             expirationAsMs = expiration.getTime();
         } else {
             expirationAsMs = expiration;
         }
+        let staleAtAsMs: number | null | undefined;
+        if (staleAt instanceof Date) {
+            staleAtAsMs = staleAt.getTime();
+        } else {
+            staleAtAsMs = staleAt;
+        }
+        let slidingTtlAsMs: number | null | undefined;
+        if (slidingTtl instanceof TimeSpan) {
+            slidingTtlAsMs = slidingTtl.toMilliseconds();
+        } else {
+            slidingTtlAsMs = slidingTtl;
+        }
+        let recomputeDurationAsMs: number | null | undefined;
+        if (recomputeDuration instanceof TimeSpan) {
+            recomputeDurationAsMs = recomputeDuration.toMilliseconds();
+        } else {
+            recomputeDurationAsMs = recomputeDuration;
+        }
         const serializedValue = this.serde.serialize(value);
+        const version = v4();
         await this.kysely
             .insertInto("cache")
             .values({
                 key,
                 value: serializedValue,
                 expiration: expirationAsMs,
+                stale_at: staleAtAsMs,
+                sliding_ttl: slidingTtlAsMs,
+                version,
+                recompute_duration: recomputeDurationAsMs,
             })
             .$if(!this.isMysql, (eb) =>
                 eb.onConflict((eb) =>
@@ -134,6 +215,10 @@ export class DatabaseCacheTransaction<TType>
                         key,
                         value: serializedValue,
                         expiration: expirationAsMs,
+                        stale_at: staleAtAsMs,
+                        sliding_ttl: slidingTtlAsMs,
+                        version,
+                        recompute_duration: recomputeDurationAsMs,
                     }),
                 ),
             )
@@ -142,9 +227,28 @@ export class DatabaseCacheTransaction<TType>
                     key,
                     value: serializedValue,
                     expiration: expirationAsMs,
+                    stale_at: staleAtAsMs,
+                    sliding_ttl: slidingTtlAsMs,
+                    version,
+                    recompute_duration: recomputeDurationAsMs,
                 }),
             )
             .execute();
+
+        if (tags === undefined) {
+            return;
+        }
+        await this.kysely
+            .deleteFrom("cache_tag")
+            .where("cache_tag.key", "=", key)
+            .execute();
+        if (tags.length === 0) {
+            return;
+        }
+        await this.kysely
+            .insertInto("cache_tag")
+            .values([...new Set(tags)].map((tag) => ({ key, tag })))
+            .execute();
     }
 }
 
@@ -169,6 +273,7 @@ export class KyselyCacheAdapter<TType = unknown>
     private readonly expiredKeysRemovalInterval: TimeSpan;
     private timeoutId: NodeJS.Timeout | string | number | null = null;
     private readonly enableTransactions: boolean;
+    private readonly keysPageSize: number;
 
     /**
      * @example
@@ -199,7 +304,9 @@ export class KyselyCacheAdapter<TType = unknown>
             expiredKeysRemovalInterval = TimeSpan.fromMinutes(1),
             shouldRemoveExpiredKeys = true,
             enableTransactions = !(settings.kysely instanceof Transaction),
+            keysPageSize = 100,
         } = settings;
+        this.keysPageSize = keysPageSize;
         this.enableTransactions = enableTransactions;
         this.kysely = kysely;
         this.serde = serde;
@@ -216,6 +323,12 @@ export class KyselyCacheAdapter<TType = unknown>
             .deleteFrom("cache")
             .where("cache.expiration", "<=", Date.now())
             .execute();
+        await this.kysely
+            .deleteFrom("cache_tag")
+            .where("cache_tag.key", "not in", (eb) =>
+                eb.selectFrom("cache").select("cache.key"),
+            )
+            .execute();
     }
 
     async init(): Promise<void> {
@@ -226,6 +339,50 @@ export class KyselyCacheAdapter<TType = unknown>
                 .addColumn("key", "varchar(255)", (col) => col.primaryKey())
                 .addColumn("value", "varchar(255)", (col) => col.notNull())
                 .addColumn("expiration", "bigint")
+                .addColumn("stale_at", "bigint")
+                .addColumn("sliding_ttl", "bigint")
+                .addColumn("version", "varchar(36)")
+                .addColumn("recompute_duration", "bigint")
+                .execute();
+        } catch {
+            /* EMPTY */
+        }
+
+        // Should throw if the column already exists thats why the try catch is used.
+        try {
+            await this.kysely.schema
+                .alterTable("cache")
+                .addColumn("stale_at", "bigint")
+                .execute();
+        } catch {
+            /* EMPTY */
+        }
+
+        // Should throw if the column already exists thats why the try catch is used.
+        try {
+            await this.kysely.schema
+                .alterTable("cache")
+                .addColumn("sliding_ttl", "bigint")
+                .execute();
+        } catch {
+            /* EMPTY */
+        }
+
+        // Should throw if the column already exists thats why the try catch is used.
+        try {
+            await this.kysely.schema
+                .alterTable("cache")
+                .addColumn("version", "varchar(36)")
+                .execute();
+        } catch {
+            /* EMPTY */
+        }
+
+        // Should throw if the column already exists thats why the try catch is used.
+        try {
+            await this.kysely.schema
+                .alterTable("cache")
+                .addColumn("recompute_duration", "bigint")
                 .execute();
         } catch {
             /* EMPTY */
@@ -242,6 +399,29 @@ export class KyselyCacheAdapter<TType = unknown>
             /* EMPTY */
         }
 
+        // Should throw if the table already exists thats why the try catch is used.
+        try {
+            await this.kysely.schema
+                .createTable("cache_tag")
+                .addColumn("key", "varchar(255)", (col) => col.notNull())
+                .addColumn("tag", "varchar(255)", (col) => col.notNull())
+                .addPrimaryKeyConstraint("cache_tag_pk", ["key", "tag"])
+                .execute();
+        } catch {
+            /* EMPTY */
+        }
+
+        // Should throw if the index already exists thats why the try catch is used.
+        try {
+            await this.kysely.schema
+                .createIndex("cache_tag_tag")
+                .on("cache_tag")
+                .columns(["tag"])
+                .execute();
+        } catch {
+            /* EMPTY */
+        }
+
         if (this.shouldRemoveExpiredKeys && this.timeoutId === null) {
             this.timeoutId = setInterval(() => {
                 // eslint-disable-next-line @typescript-eslint/no-floating-promises
@@ -259,6 +439,23 @@ export class KyselyCacheAdapter<TType = unknown>
             clearInterval(this.timeoutId);
         }
 
+        // Should throw if the index does not exists thats why the try catch is used.
+        try {
+            await this.kysely.schema
+                .dropIndex("cache_tag_tag")
+                .on("cache_tag")
+                .execute();
+        } catch {
+            /* EMPTY */
+        }
+
+        // Should throw if the table does not exists thats why the try catch is used.
+        try {
+            await this.kysely.schema.dropTable("cache_tag").execute();
+        } catch {
+            /* EMPTY */
+        }
+
         // Should throw if the index does not exists thats why the try catch is used.
         try {
             await this.kysely.schema
@@ -281,19 +478,49 @@ export class KyselyCacheAdapter<TType = unknown>
         const cacheData = await this.kysely
             .selectFrom("cache")
             .where("cache.key", "=", key)
-            .select(["cache.expiration", "cache.value"])
+            .select([
+                "cache.expiration",
+                "cache.value",
+                "cache.stale_at",
+                "cache.sliding_ttl",
+                "cache.version",
+                "cache.recompute_duration",
+            ])
             .executeTakeFirst();
 
         if (cacheData === undefined) {
             return null;
         }
-        return {
-            value: this.serde.deserialize(cacheData.value),
-            expiration:
-                cacheData.expiration === null
-                    ? null
-                    : new Date(Number(cacheData.expiration)),
-        };
+        return toCacheData(cacheData, this.serde);
+    }
+
+    async findMany(
+        keys: Array<string>,
+    ): Promise<Array<ICacheData<TType> | null>> {
+        if (keys.length === 0) {
+            return [];
+        }
+        const rows = await this.kysely
+            .selectFrom("cache")
+            .where("cache.key", "in", keys)
+            .select([
+                "cache.key",
+                "cache.expiration",
+                "cache.value",
+                "cache.stale_at",
+                "cache.sliding_ttl",
+                "cache.version",
+                "cache.recompute_duration",
+            ])
+            .execute();
+        const rowsByKey = new Map(rows.map((row) => [row.key, row]));
+        return keys.map((key) => {
+            const row = rowsByKey.get(key);
+            if (row === undefined) {
+                return null;
+            }
+            return toCacheData(row, this.serde);
+        });
     }
 
     private _transaction<TValue>(
@@ -336,6 +563,7 @@ export class KyselyCacheAdapter<TType = unknown>
                     .where("cache.key", "=", key)
                     .set({
                         value: serializedValue,
+                        version: v4(),
                     })
                     .execute();
                 return rows;
@@ -346,6 +574,7 @@ export class KyselyCacheAdapter<TType = unknown>
                 .where("cache.key", "=", key)
                 .set({
                     value: serializedValue,
+                    version: v4(),
                 })
                 .returning("cache.expiration")
                 .executeTakeFirst();
@@ -361,6 +590,55 @@ export class KyselyCacheAdapter<TType = unknown>
         };
     }
 
+    /**
+     * Note keys written before the version column was added have no version and are matched by an empty `version`.
+     */
+    async updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean> {
+        const result = await this.kysely
+            .updateTable("cache")
+            .where("cache.key", "=", key)
+            .$if(version === "", (qb) => qb.where("cache.version", "is", null))
+            .$if(version !== "", (qb) =>
+                qb.where("cache.version", "=", version),
+            )
+            .where((eb) =>
+                eb.or([
+                    eb("cache.expiration", "is", null),
+                    eb("cache.expiration", ">", Date.now()),
+                ]),
+            )
+            .set({
+                value: this.serde.serialize(value),
+                version: v4(),
+            })
+            .executeTakeFirst();
+        return result.numUpdatedRows > 0n;
+    }
+
+    async updateExpiration(
+        key: string,
+        expiration: Date | null,
+    ): Promise<boolean> {
+        const result = await this.kysely
+            .updateTable("cache")
+            .where("cache.key", "=", key)
+            .where((eb) =>
+                eb.or([
+                    eb("cache.expiration", "is", null),
+                    eb("cache.expiration", ">", Date.now()),
+                ]),
+            )
+            .set({
+                expiration: expiration?.getTime() ?? null,
+            })
+            .executeTakeFirst();
+        return result.numUpdatedRows > 0n;
+    }
+
     async removeMany(
         keys: Array<string>,
     ): Promise<Array<ICacheDataExpiration>> {
@@ -385,6 +663,10 @@ export class KyselyCacheAdapter<TType = unknown>
                 .returning("cache.expiration")
                 .execute();
         }
+        await this.kysely
+            .deleteFrom("cache_tag")
+            .where("cache_tag.key", "in", keys)
+            .execute();
         return rows.map<ICacheDataExpiration>((row) => {
             return {
                 expiration:
@@ -397,6 +679,39 @@ export class KyselyCacheAdapter<TType = unknown>
 
     async removeAll(): Promise<void> {
         await this.kysely.deleteFrom("cache").execute();
+        await this.kysely.deleteFrom("cache_tag").execute();
+    }
+
+    /**
+     * The keys are fetched with keyset pagination on the key column, ensuring each page is fetched with a single index range scan.
+     */
+    async *findKeysByKeyPrefix(prefix: string): AsyncIterable<string> {
+        let lastKey: string | null = null;
+        do {
+            const rows = await this.kysely
+                .selectFrom("cache")
+                .where("cache.key", "like", `${prefix}%`)
+                .$if(lastKey !== null, (qb) =>
+                    qb.where("cache.key", ">", lastKey as string),
+                )
+                .where((eb) =>
+                    eb.or([
+                        eb("cache.expiration", "is", null),
+                        eb("cache.expiration", ">", Date.now()),
+                    ]),
+                )
+                .select("cache.key")
+                .orderBy("cache.key")
+                .limit(this.keysPageSize)
+                .execute();
+            for (const row of rows) {
+                yield row.key;
+            }
+            lastKey =
+                rows.length < this.keysPageSize
+                    ? null
+                    : (rows.at(-1)?.key ?? null);
+        } while (lastKey !== null);
     }
 
     async removeByKeyPrefix(prefix: string): Promise<void> {
@@ -404,5 +719,35 @@ export class KyselyCacheAdapter<TType = unknown>
             .deleteFrom("cache")
             .where("cache.key", "like", `${prefix}%`)
             .execute();
+        await this.kysely
+            .deleteFrom("cache_tag")
+            .where("cache_tag.key", "like", `${prefix}%`)
+            .execute();
+    }
+
+    async removeByTags(tags: Array<string>): Promise<void> {
+        if (tags.length === 0) {
+            return;
+        }
+        await this._transaction(async (trx) => {
+            const rows = await trx
+                .selectFrom("cache_tag")
+                .where("cache_tag.tag", "in", tags)
+                .select("cache_tag.key")
+                .distinct()
+                .execute();
+            const keys = rows.map((row) => row.key);
+            if (keys.length === 0) {
+                return;
+            }
+            await trx
+                .deleteFrom("cache")
+                .where("cache.key", "in", keys)
+                .execute();
+            await trx
+                .deleteFrom("cache_tag")
+                .where("cache_tag.key", "in", keys)
+                .execute();
+        });
     }
 }
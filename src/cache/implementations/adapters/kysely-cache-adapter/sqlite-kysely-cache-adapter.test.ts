@@ -34,4 +34,32 @@ describe("sqlite class: KyselyCacheAdapter", () => {
         expect,
         describe,
     });
+    describe("method: removeAllExpired", () => {
+        test("Should remove the tags of expired keys", async () => {
+            const adapter = new KyselyCacheAdapter({
+                kysely: new Kysely({
+                    dialect: new SqliteDialect({
+                        database,
+                    }),
+                }),
+                shouldRemoveExpiredKeys: false,
+                serde: new Serde(new SuperJsonSerdeAdapter()),
+            });
+            await adapter.init();
+            await adapter.transaction(async (trx) => {
+                await trx.upsert("a", 1, new Date(Date.now() - 1000), {
+                    tags: ["tag-a"],
+                });
+                await trx.upsert("b", 2, null, {
+                    tags: ["tag-b"],
+                });
+            });
+
+            await adapter.removeAllExpired();
+
+            expect(
+                database.prepare("SELECT key, tag FROM cache_tag").all(),
+            ).toEqual([{ key: "b", tag: "tag-b" }]);
+        });
+    });
 });
@@ -1,7 +1,16 @@
-import { beforeEach, describe, expect, test } from "vitest";
+import { beforeEach, describe, expect, test, vi } from "vitest";
 
+import {
+    CACHE_EVENTS,
+    CACHE_EVICTION_POLICY,
+    type EvictedCacheEvent,
+} from "@/cache/contracts/_module.js";
 import { MemoryCacheAdapter } from "@/cache/implementations/adapters/_module.js";
 import { cacheAdapterTestSuite } from "@/cache/implementations/test-utilities/_module.js";
+import { MemoryEventBusAdapter } from "@/event-bus/implementations/adapters/_module.js";
+import { EventBus } from "@/event-bus/implementations/derivables/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
 
 describe("class: MemoryCacheAdapter", () => {
     cacheAdapterTestSuite({
@@ -11,4 +20,212 @@ describe("class: MemoryCacheAdapter", () => {
         expect,
         describe,
     });
+    describe("Bounded:", () => {
+        cacheAdapterTestSuite({
+            createAdapter: () =>
+                new MemoryCacheAdapter({
+                    maxEntries: 1000,
+                    maxSize: 100_000,
+                }),
+            test,
+            beforeEach,
+            expect,
+            describe,
+        });
+        describe("LRU policy:", () => {
+            test("Should evict the least recently used key when maxEntries is exceeded", async () => {
+                const adapter = new MemoryCacheAdapter<number>({
+                    maxEntries: 2,
+                    evictionPolicy: CACHE_EVICTION_POLICY.LRU,
+                });
+                await adapter.add("a", 1, null);
+                await adapter.add("b", 2, null);
+                await adapter.get("a");
+                await adapter.add("c", 3, null);
+
+                expect(await adapter.getMany(["a", "b", "c"])).toEqual([
+                    1,
+                    null,
+                    3,
+                ]);
+            });
+            test("Should treat update as usage", async () => {
+                const adapter = new MemoryCacheAdapter<number>({
+                    maxEntries: 2,
+                    evictionPolicy: CACHE_EVICTION_POLICY.LRU,
+                });
+                await adapter.add("a", 1, null);
+                await adapter.add("b", 2, null);
+                await adapter.update("a", -1);
+                await adapter.add("c", 3, null);
+
+                expect(await adapter.getMany(["a", "b", "c"])).toEqual([
+                    -1,
+                    null,
+                    3,
+                ]);
+            });
+        });
+        describe("LFU policy:", () => {
+            test("Should evict the least frequently used key when maxEntries is exceeded", async () => {
+                const adapter = new MemoryCacheAdapter<number>({
+                    maxEntries: 2,
+                    evictionPolicy: CACHE_EVICTION_POLICY.LFU,
+                });
+                await adapter.add("a", 1, null);
+                await adapter.add("b", 2, null);
+                await adapter.get("a");
+                await adapter.get("a");
+                await adapter.get("b");
+                await adapter.add("c", 3, null);
+
+                expect(await adapter.getMany(["a", "b", "c"])).toEqual([
+                    1,
+                    null,
+                    3,
+                ]);
+            });
+            test("Should evict the least recently used key when frequencies are equal", async () => {
+                const adapter = new MemoryCacheAdapter<number>({
+                    maxEntries: 2,
+                    evictionPolicy: CACHE_EVICTION_POLICY.LFU,
+                });
+                await adapter.add("a", 1, null);
+                await adapter.add("b", 2, null);
+                await adapter.get("b");
+                await adapter.get("a");
+                await adapter.add("c", 3, null);
+
+                expect(await adapter.getMany(["a", "b", "c"])).toEqual([
+                    1,
+                    null,
+                    3,
+                ]);
+            });
+        });
+        describe("FIFO policy:", () => {
+            test("Should evict the first added key when maxEntries is exceeded", async () => {
+                const adapter = new MemoryCacheAdapter<number>({
+                    maxEntries: 2,
+                    evictionPolicy: CACHE_EVICTION_POLICY.FIFO,
+                });
+                await adapter.add("a", 1, null);
+                await adapter.add("b", 2, null);
+                await adapter.get("a");
+                await adapter.get("a");
+                await adapter.add("c", 3, null);
+
+                expect(await adapter.getMany(["a", "b", "c"])).toEqual([
+                    null,
+                    2,
+                    3,
+                ]);
+            });
+        });
+        describe("maxSize:", () => {
+            test("Should evict keys until the total size is within maxSize", async () => {
+                const adapter = new MemoryCacheAdapter<string>({
+                    maxSize: 10,
+                    evictionPolicy: CACHE_EVICTION_POLICY.FIFO,
+                    sizeOf: (value) => String(value).length,
+                });
+                await adapter.add("a", "aaaa", null);
+                await adapter.add("b", "bbbb", null);
+                await adapter.add("c", "ccccccc", null);
+
+                expect(await adapter.getMany(["a", "b", "c"])).toEqual([
+                    null,
+                    null,
+                    "ccccccc",
+                ]);
+            });
+            test("Should only evict the added key when it alone exceeds maxSize", async () => {
+                const adapter = new MemoryCacheAdapter<string>({
+                    maxSize: 5,
+                    sizeOf: (value) => String(value).length,
+                });
+                await adapter.add("a", "aaaa", null);
+                await adapter.add("b", "bbbbbbbbbb", null);
+
+                expect(await adapter.getMany(["a", "b"])).toEqual([
+                    "aaaa",
+                    null,
+                ]);
+            });
+            test("Should track the size of incremented values", async () => {
+                const adapter = new MemoryCacheAdapter<number>({
+                    maxSize: 5,
+                    evictionPolicy: CACHE_EVICTION_POLICY.FIFO,
+                    sizeOf: (value) => String(value).length,
+                });
+                await adapter.add("a", 1, null);
+                await adapter.add("b", 1, null);
+                await adapter.increment("b", 999);
+                await adapter.add("c", 1, null);
+
+                expect(await adapter.getMany(["a", "b", "c"])).toEqual([
+                    null,
+                    1000,
+                    1,
+                ]);
+            });
+            test("Should not count removed keys", async () => {
+                const adapter = new MemoryCacheAdapter<string>({
+                    maxSize: 10,
+                    sizeOf: (value) => String(value).length,
+                });
+                await adapter.add("a", "aaaa", null);
+                await adapter.remove("a");
+                await adapter.add("b", "bbbb", null);
+                await adapter.add("c", "cccccc", null);
+
+                expect(await adapter.getMany(["b", "c"])).toEqual([
+                    "bbbb",
+                    "cccccc",
+                ]);
+            });
+        });
+        describe("Event tests:", () => {
+            test("Should dispatch EvictedCacheEvent when a key is evicted", async () => {
+                const eventBus = new EventBus({
+                    adapter: new MemoryEventBusAdapter(),
+                });
+                const adapter = new MemoryCacheAdapter<number>({
+                    maxEntries: 1,
+                    evictionPolicy: CACHE_EVICTION_POLICY.LFU,
+                    eventBus,
+                });
+                const handlerFn = vi.fn(() => {});
+                await eventBus.addListener(CACHE_EVENTS.EVICTED, handlerFn);
+
+                await adapter.add("a", 1, null);
+                await adapter.add("b", 2, null);
+                await Task.delay(TimeSpan.fromMilliseconds(10));
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: "a",
+                    policy: CACHE_EVICTION_POLICY.LFU,
+                } satisfies EvictedCacheEvent);
+            });
+            test("Should not dispatch EvictedCacheEvent when a key expires", async () => {
+                const eventBus = new EventBus({
+                    adapter: new MemoryEventBusAdapter(),
+                });
+                const adapter = new MemoryCacheAdapter<number>({
+                    maxEntries: 1,
+                    eventBus,
+                });
+                const handlerFn = vi.fn(() => {});
+                await eventBus.addListener(CACHE_EVENTS.EVICTED, handlerFn);
+
+                await adapter.add("a", 1, TimeSpan.fromMilliseconds(5));
+                await Task.delay(TimeSpan.fromMilliseconds(20));
+                await adapter.add("b", 2, null);
+                await Task.delay(TimeSpan.fromMilliseconds(10));
+
+                expect(handlerFn).not.toHaveBeenCalled();
+            });
+        });
+    });
 });
@@ -3,8 +3,81 @@
  * @module Cache
  */
 
-import { type ICacheAdapter } from "@/cache/contracts/_module.js";
-import { type TimeSpan } from "@/time-span/implementations/_module.js";
+import {
+    CACHE_EVENTS,
+    CACHE_EVICTION_POLICY,
+    type CacheAdapterReadSettings,
+    type CacheAdapterWriteManyItem,
+    type CacheAdapterWriteSettings,
+    type CacheEventMap,
+    type CacheEvictionPolicyLiterals,
+    type ICacheAdapter,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
+    KeyTypeCacheError,
+} from "@/cache/contracts/_module.js";
+import {
+    addSetMembers,
+    getHashField,
+    incrementHashField,
+    removeHashFields,
+    removeSetMembers,
+    setHashField,
+    toSet,
+    type CacheDataStructureModifier,
+} from "@/cache/implementations/derivables/cache/cache-data-structures.js";
+import { type IEventBus } from "@/event-bus/contracts/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/memory-cache-adapter"`
+ * @group Adapters
+ */
+export type MemoryCacheAdapterSettings = {
+    /**
+     * You can provide an optional {@link Map | `Map`}, that will be used for storing the data.
+     */
+    map?: Map<string, unknown>;
+
+    /**
+     * The maximum number of keys. If null is passed, the number of keys will not be bounded.
+     * @default null
+     */
+    maxEntries?: number | null;
+
+    /**
+     * The maximum approximate size of all values in bytes. If null is passed, the size will not be bounded.
+     * @default null
+     */
+    maxSize?: number | null;
+
+    /**
+     * The policy used for deciding which key to evict when one of the limits is exceeded.
+     * @default "LRU"
+     */
+    evictionPolicy?: CacheEvictionPolicyLiterals;
+
+    /**
+     * You can provide a custom function for calculating the approximate size of a value in bytes.
+     * By default the size of the JSON representation of the value is used.
+     */
+    sizeOf?: (value: unknown) => number;
+
+    /**
+     * You can provide the same event bus as the `Cache` class to listen to evictions.
+     * Note the evicted keys are dispatched as adapter keys that include the namespace prefix, because the adapter is not aware of namespaces.
+     */
+    eventBus?: IEventBus;
+};
+
+function defaultSizeOf(value: unknown): number {
+    try {
+        return (JSON.stringify(value) as string | undefined)?.length ?? 0;
+    } catch {
+        return 0;
+    }
+}
 
 /**
  * To utilize the `MemoryCacheAdapter`, you must create instance of it.
@@ -19,6 +92,23 @@ export class MemoryCacheAdapter<TType = unknown>
         string,
         NodeJS.Timeout | string | number
     >();
+    private readonly tagsMap = new Map<string, Set<string>>();
+    private readonly staleAtMap = new Map<string, number>();
+    private readonly expirationMap = new Map<string, number>();
+    private readonly slidingTtlMap = new Map<string, TimeSpan>();
+    private readonly recomputeDurationMap = new Map<string, TimeSpan>();
+    private readonly recencyMap = new Map<string, true>();
+    private readonly frequencyMap = new Map<string, number>();
+    private readonly sizeMap = new Map<string, number>();
+    private totalSize = 0;
+    private readonly versionMap = new Map<string, number>();
+    private lastVersion = 0;
+    private readonly map: Map<string, unknown>;
+    private readonly maxEntries: number | null;
+    private readonly maxSize: number | null;
+    private readonly evictionPolicy: CacheEvictionPolicyLiterals;
+    private readonly sizeOf: (value: unknown) => number;
+    private readonly eventBus: IEventBus<CacheEventMap> | null;
 
     /**
      * You can provide an optional {@link Map | `Map`}, that will be used for storing the data.
@@ -29,13 +119,213 @@ export class MemoryCacheAdapter<TType = unknown>
      * const map = new Map<any, any>();
      * const cacheAdapter = new MemoryCacheAdapter(map);
      * ```
+     * You can also bound the number of keys and evict keys based on the given policy.
+     * @example
+     * ```ts
+     * import { MemoryCacheAdapter } from "@daiso-tech/core/cache/memory-cache-adapter";
+     *
+     * const cacheAdapter = new MemoryCacheAdapter({
+     *   maxEntries: 1000,
+     *   evictionPolicy: "LFU",
+     * });
+     * ```
+     */
+    constructor(
+        settings: MemoryCacheAdapterSettings | Map<string, unknown> = {},
+    ) {
+        if (settings instanceof Map) {
+            settings = { map: settings };
+        }
+        const {
+            map = new Map<string, unknown>(),
+            maxEntries = null,
+            maxSize = null,
+            evictionPolicy = CACHE_EVICTION_POLICY.LRU,
+            sizeOf = defaultSizeOf,
+            eventBus = null,
+        } = settings;
+        this.map = map;
+        this.maxEntries = maxEntries;
+        this.maxSize = maxSize;
+        this.evictionPolicy = evictionPolicy;
+        this.sizeOf = sizeOf;
+        this.eventBus = eventBus;
+    }
+
+    private markUsed(key: string): void {
+        if (!this.map.has(key)) {
+            return;
+        }
+        this.recencyMap.delete(key);
+        this.recencyMap.set(key, true);
+        this.frequencyMap.set(key, (this.frequencyMap.get(key) ?? 0) + 1);
+    }
+
+    private setExpiration(key: string, ttl: TimeSpan | null): void {
+        clearTimeout(this.timeoutMap.get(key));
+        this.timeoutMap.delete(key);
+        this.expirationMap.delete(key);
+        if (ttl === null) {
+            return;
+        }
+        this.expirationMap.set(key, ttl.toEndDate().getTime());
+        this.timeoutMap.set(
+            key,
+            setTimeout(() => {
+                this.deleteKey(key);
+            }, ttl.toMilliseconds()),
+        );
+    }
+
+    /**
+     * Pushes the expiration of the `key` forward when it has a sliding period.
+     */
+    private slide(key: string): void {
+        const slidingTtl = this.slidingTtlMap.get(key);
+        if (slidingTtl !== undefined && this.map.has(key)) {
+            this.setExpiration(key, slidingTtl);
+        }
+    }
+
+    private trackSize(key: string, value: unknown): void {
+        if (this.maxSize === null) {
+            return;
+        }
+        const size = this.sizeOf(value);
+        this.totalSize += size - (this.sizeMap.get(key) ?? 0);
+        this.sizeMap.set(key, size);
+    }
+
+    private isOverLimit(): boolean {
+        return (
+            (this.maxEntries !== null && this.map.size > this.maxEntries) ||
+            (this.maxSize !== null && this.totalSize > this.maxSize)
+        );
+    }
+
+    /**
+     * Note the LFU policy evicts the least recently used key among the least frequently used keys.
      */
-    constructor(private readonly map: Map<string, unknown> = new Map()) {}
+    private findKeyToEvict(excludedKey: string): string | null {
+        if (this.evictionPolicy === CACHE_EVICTION_POLICY.FIFO) {
+            for (const key of this.map.keys()) {
+                if (key !== excludedKey) {
+                    return key;
+                }
+            }
+            return null;
+        }
+
+        let keyToEvict: string | null = null;
+        let lowestFrequency = Infinity;
+        for (const key of this.recencyMap.keys()) {
+            if (key === excludedKey) {
+                continue;
+            }
+            if (this.evictionPolicy === CACHE_EVICTION_POLICY.LRU) {
+                return key;
+            }
+            const frequency = this.frequencyMap.get(key) ?? 0;
+            if (frequency < lowestFrequency) {
+                lowestFrequency = frequency;
+                keyToEvict = key;
+            }
+        }
+        return keyToEvict;
+    }
+
+    private async evictKey(key: string): Promise<void> {
+        await this.remove(key);
+        this.eventBus
+            ?.dispatch(CACHE_EVENTS.EVICTED, {
+                key,
+                policy: this.evictionPolicy,
+            })
+            .detach();
+    }
+
+    /**
+     * Evicts keys until the limits are satisfied, the given `key` is evicted last.
+     * A value that alone exceeds `maxSize` can never fit, so only the given `key` is evicted without evicting other keys.
+     */
+    private async evict(key: string): Promise<void> {
+        if (
+            this.maxSize !== null &&
+            (this.sizeMap.get(key) ?? 0) > this.maxSize
+        ) {
+            await this.evictKey(key);
+            return;
+        }
+        while (this.isOverLimit()) {
+            const keyToEvict = this.findKeyToEvict(key) ?? key;
+            await this.evictKey(keyToEvict);
+            if (keyToEvict === key) {
+                return;
+            }
+        }
+    }
 
     async get(key: string): Promise<TType | null> {
+        this.markUsed(key);
+        this.slide(key);
         return (this.map.get(key) ?? null) as TType;
     }
 
+    async getMany(
+        keys: Array<string>,
+        settings: CacheAdapterReadSettings = {},
+    ): Promise<Array<TType | null>> {
+        const { shouldSlide = true } = settings;
+        if (!shouldSlide) {
+            return keys.map((key) => (this.map.get(key) ?? null) as TType);
+        }
+        const values: Array<TType | null> = [];
+        for (const key of keys) {
+            values.push(await this.get(key));
+        }
+        return values;
+    }
+
+    async getEntry(key: string): Promise<ICacheEntry<TType> | null> {
+        if (!this.map.has(key)) {
+            return null;
+        }
+        this.markUsed(key);
+        this.slide(key);
+        const staleAt = this.staleAtMap.get(key);
+        const expiration = this.expirationMap.get(key);
+        return {
+            value: this.map.get(key) as TType,
+            isStale: staleAt !== undefined && staleAt <= Date.now(),
+            staleAt: staleAt === undefined ? undefined : new Date(staleAt),
+            expiration:
+                expiration === undefined ? undefined : new Date(expiration),
+            recomputeDuration: this.recomputeDurationMap.get(key),
+        };
+    }
+
+    /**
+     * The versions are taken from a counter shared by all keys, ensuring a removed and re-added key never reuses a version.
+     */
+    private bumpVersion(key: string): void {
+        this.lastVersion++;
+        this.versionMap.set(key, this.lastVersion);
+    }
+
+    async getWithVersion(
+        key: string,
+    ): Promise<ICacheVersionedEntry<TType> | null> {
+        if (!this.map.has(key)) {
+            return null;
+        }
+        this.markUsed(key);
+        this.slide(key);
+        return {
+            value: this.map.get(key) as TType,
+            version: String(this.versionMap.get(key) ?? 0),
+        };
+    }
+
     async getAndRemove(key: string): Promise<TType | null> {
         const value = await this.get(key);
         await this.remove(key);
@@ -46,19 +336,38 @@ export class MemoryCacheAdapter<TType = unknown>
         key: string,
         value: TType,
         ttl: TimeSpan | null,
+        settings: CacheAdapterWriteSettings = {},
     ): Promise<boolean> {
+        const {
+            tags = [],
+            freshTtl = null,
+            slidingTtl = null,
+            recomputeDuration = null,
+        } = settings;
         const hasNotKey = !this.map.has(key);
         if (hasNotKey) {
             this.map.set(key, value);
+            this.bumpVersion(key);
+            this.markUsed(key);
+            this.trackSize(key, value);
         }
-        if (hasNotKey && ttl !== null) {
-            this.timeoutMap.set(
-                key,
-                setTimeout(() => {
-                    this.map.delete(key);
-                    this.timeoutMap.delete(key);
-                }, ttl.toMilliseconds()),
-            );
+        if (hasNotKey && tags.length > 0) {
+            this.tagsMap.set(key, new Set(tags));
+        }
+        if (hasNotKey && freshTtl !== null) {
+            this.staleAtMap.set(key, freshTtl.toEndDate().getTime());
+        }
+        if (hasNotKey && slidingTtl !== null) {
+            this.slidingTtlMap.set(key, slidingTtl);
+        }
+        if (hasNotKey && recomputeDuration !== null) {
+            this.recomputeDurationMap.set(key, recomputeDuration);
+        }
+        if (hasNotKey) {
+            this.setExpiration(key, ttl);
+        }
+        if (hasNotKey) {
+            await this.evict(key);
         }
         return hasNotKey;
     }
@@ -67,9 +376,52 @@ export class MemoryCacheAdapter<TType = unknown>
         key: string,
         value: TType,
         ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
     ): Promise<boolean> {
+        const frequency = this.frequencyMap.get(key);
         const hasKey = await this.remove(key);
-        await this.add(key, value, ttl);
+        await this.add(key, value, ttl, settings);
+        if (frequency !== undefined && this.map.has(key)) {
+            this.frequencyMap.set(key, frequency + 1);
+        }
+        return hasKey;
+    }
+
+    async addMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        const results: Array<boolean> = [];
+        for (const { key, value, ttl, settings } of items) {
+            results.push(await this.add(key, value, ttl, settings));
+        }
+        return results;
+    }
+
+    async putMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        const results: Array<boolean> = [];
+        for (const { key, value, ttl, settings } of items) {
+            results.push(await this.put(key, value, ttl, settings));
+        }
+        return results;
+    }
+
+    async getTtl(key: string): Promise<TimeSpan | null> {
+        const expiration = this.expirationMap.get(key);
+        if (!this.map.has(key) || expiration === undefined) {
+            return null;
+        }
+        return TimeSpan.fromDateRange({
+            end: new Date(expiration),
+        });
+    }
+
+    async touch(key: string, ttl: TimeSpan | null): Promise<boolean> {
+        const hasKey = this.map.has(key);
+        if (hasKey) {
+            this.setExpiration(key, ttl);
+        }
         return hasKey;
     }
 
@@ -77,37 +429,113 @@ export class MemoryCacheAdapter<TType = unknown>
         const hasKey = this.map.has(key);
         if (hasKey) {
             this.map.set(key, value);
+            this.bumpVersion(key);
+            this.markUsed(key);
+            this.trackSize(key, value);
+            await this.evict(key);
         }
         return hasKey;
     }
 
+    async updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean> {
+        if (String(this.versionMap.get(key) ?? 0) !== version) {
+            return false;
+        }
+        return await this.update(key, value);
+    }
+
     async increment(key: string, value: number): Promise<boolean> {
         const prevValue = this.map.get(key);
         const hasKey = prevValue !== undefined;
         if (hasKey) {
             if (typeof prevValue !== "number") {
-                throw new TypeError(
+                throw new KeyTypeCacheError(
                     `Unable to increment or decrement none number type key "${key}"`,
                 );
             }
             const newValue = prevValue + value;
             this.map.set(key, newValue as TType);
+            this.bumpVersion(key);
+            this.markUsed(key);
+            this.trackSize(key, newValue);
+            await this.evict(key);
         }
         return hasKey;
     }
 
-    async remove(key: string): Promise<boolean> {
-        clearTimeout(this.timeoutMap.get(key));
-        this.timeoutMap.delete(key);
+    private async modify<TResult>(
+        key: string,
+        modifier: CacheDataStructureModifier<TResult>,
+    ): Promise<TResult> {
+        const { value, result } = modifier(key, this.map.get(key) ?? null);
+        if (value === undefined) {
+            return result;
+        }
+        const hasUpdated = await this.update(key, value as TType);
+        if (!hasUpdated) {
+            await this.add(key, value as TType, null);
+        }
+        return result;
+    }
+
+    async hget(key: string, field: string): Promise<TType | null> {
+        return getHashField(key, await this.get(key), field);
+    }
+
+    async hset(key: string, field: string, value: TType): Promise<boolean> {
+        return await this.modify(key, setHashField(field, value));
+    }
+
+    async hincrement(
+        key: string,
+        field: string,
+        value: number,
+    ): Promise<number> {
+        return await this.modify(key, incrementHashField(field, value));
+    }
+
+    async hremove(key: string, fields: Array<string>): Promise<boolean> {
+        return await this.modify(key, removeHashFields(fields));
+    }
+
+    async sadd(key: string, members: Array<string>): Promise<boolean> {
+        return await this.modify(key, addSetMembers(members));
+    }
+
+    async sremove(key: string, members: Array<string>): Promise<boolean> {
+        return await this.modify(key, removeSetMembers(members));
+    }
+
+    async smembers(key: string): Promise<Array<string>> {
+        return [...toSet(key, await this.get(key))];
+    }
+
+    private deleteKey(key: string): boolean {
+        this.setExpiration(key, null);
+        this.slidingTtlMap.delete(key);
+        this.recomputeDurationMap.delete(key);
+        this.tagsMap.delete(key);
+        this.staleAtMap.delete(key);
+        this.recencyMap.delete(key);
+        this.frequencyMap.delete(key);
+        this.totalSize -= this.sizeMap.get(key) ?? 0;
+        this.sizeMap.delete(key);
+        this.versionMap.delete(key);
         return this.map.delete(key);
     }
 
+    async remove(key: string): Promise<boolean> {
+        return this.deleteKey(key);
+    }
+
     async removeMany(keys: Array<string>): Promise<boolean> {
         let deleteCount = 0;
         for (const key of keys) {
-            clearTimeout(this.timeoutMap.get(key));
-            this.timeoutMap.delete(key);
-            const hasDeleted = this.map.delete(key);
+            const hasDeleted = this.deleteKey(key);
             if (hasDeleted) {
                 deleteCount++;
             }
@@ -117,15 +545,42 @@ export class MemoryCacheAdapter<TType = unknown>
 
     async removeAll(): Promise<void> {
         this.map.clear();
+        for (const timeoutId of this.timeoutMap.values()) {
+            clearTimeout(timeoutId);
+        }
         this.timeoutMap.clear();
+        this.expirationMap.clear();
+        this.slidingTtlMap.clear();
+        this.recomputeDurationMap.clear();
+        this.tagsMap.clear();
+        this.staleAtMap.clear();
+        this.recencyMap.clear();
+        this.frequencyMap.clear();
+        this.sizeMap.clear();
+        this.totalSize = 0;
+        this.versionMap.clear();
+    }
+
+    async *getKeysByKeyPrefix(prefix: string): AsyncIterable<string> {
+        for (const key of [...this.map.keys()]) {
+            if (key.startsWith(prefix) && this.map.has(key)) {
+                yield key;
+            }
+        }
     }
 
     async removeByKeyPrefix(prefix: string): Promise<void> {
         for (const key of this.map.keys()) {
             if (key.startsWith(prefix)) {
-                clearTimeout(this.timeoutMap.get(key));
-                this.timeoutMap.delete(key);
-                this.map.delete(key);
+                await this.remove(key);
+            }
+        }
+    }
+
+    async removeByTags(tags: Array<string>): Promise<void> {
+        for (const [key, keyTags] of this.tagsMap) {
+            if (tags.some((tag) => keyTags.has(tag))) {
+                await this.remove(key);
             }
         }
     }
@@ -11,13 +11,32 @@ import {
     type CollectionOptions,
     type Db,
 } from "mongodb";
+import { v4 } from "uuid";
 
-import { type ICacheAdapter } from "@/cache/contracts/_module.js";
+import {
+    type CacheAdapterReadSettings,
+    type CacheAdapterWriteManyItem,
+    type CacheAdapterWriteSettings,
+    type ICacheAdapter,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
+    KeyTypeCacheError,
+} from "@/cache/contracts/_module.js";
 import { MongodbCacheAdapterSerde } from "@/cache/implementations/adapters/mongodb-cache-adapter/mongodb-cache-adapter-serde.js";
+import {
+    addSetMembers,
+    getHashField,
+    incrementHashField,
+    modifyOptimistically,
+    removeHashFields,
+    removeSetMembers,
+    setHashField,
+    toSet,
+} from "@/cache/implementations/derivables/cache/cache-data-structures.js";
 import { type ISerde } from "@/serde/contracts/_module.js";
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { type SuperJsonSerdeAdapter } from "@/serde/implementations/adapters/_module.js";
-import { type TimeSpan } from "@/time-span/implementations/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
 import {
     UnexpectedError,
     type IDeinitizable,
@@ -49,6 +68,13 @@ export type MongodbCacheDocument = {
     key: string;
     value: number | string;
     expiration: Date | null;
+    tags?: Array<string>;
+    staleAt?: Date | null;
+    // In ms
+    slidingTtl?: number | null;
+    version?: string;
+    // In ms
+    recomputeDuration?: number | null;
 };
 
 /**
@@ -171,6 +197,12 @@ export class MongodbCacheAdapter<TType = unknown>
         } catch {
             /* Empty */
         }
+
+        try {
+            await this.collection.createIndex("tags");
+        } catch {
+            /* Empty */
+        }
     }
 
     /**
@@ -206,6 +238,22 @@ export class MongodbCacheAdapter<TType = unknown>
         return this.serde.deserialize(value);
     }
 
+    /**
+     * Pushes the expiration of the keys forward when they have a sliding period.
+     */
+    private async slide(
+        documents: Array<Pick<MongodbCacheDocument, "key" | "slidingTtl">>,
+    ): Promise<void> {
+        await Promise.all(
+            documents.map(async ({ key, slidingTtl = null }) => {
+                if (slidingTtl === null) {
+                    return;
+                }
+                await this.touch(key, TimeSpan.fromMilliseconds(slidingTtl));
+            }),
+        );
+    }
+
     async get(key: string): Promise<TType | null> {
         const document = await this.collection.findOne(
             {
@@ -214,12 +262,130 @@ export class MongodbCacheAdapter<TType = unknown>
             {
                 projection: {
                     _id: 0,
+                    key: 1,
                     expiration: 1,
                     value: 1,
+                    slidingTtl: 1,
                 },
             },
         );
-        return this.getDocValue(document);
+        const value = this.getDocValue(document);
+        if (document !== null && value !== null) {
+            await this.slide([document]);
+        }
+        return value;
+    }
+
+    async getMany(
+        keys: Array<string>,
+        settings: CacheAdapterReadSettings = {},
+    ): Promise<Array<TType | null>> {
+        const { shouldSlide = true } = settings;
+        if (keys.length === 0) {
+            return [];
+        }
+        const documents = await this.collection
+            .find(
+                {
+                    key: {
+                        $in: keys,
+                    },
+                },
+                {
+                    projection: {
+                        _id: 0,
+                        key: 1,
+                        expiration: 1,
+                        value: 1,
+                        slidingTtl: 1,
+                    },
+                },
+            )
+            .toArray();
+        if (shouldSlide) {
+            await this.slide(
+                documents.filter((document) => !this.isDocExpired(document)),
+            );
+        }
+        const documentsByKey = new Map(
+            documents.map((document) => [document.key, document]),
+        );
+        return keys.map((key) =>
+            this.getDocValue(documentsByKey.get(key) ?? null),
+        );
+    }
+
+    async getEntry(key: string): Promise<ICacheEntry<TType> | null> {
+        const document = await this.collection.findOne(
+            {
+                key,
+            },
+            {
+                projection: {
+                    _id: 0,
+                    key: 1,
+                    expiration: 1,
+                    value: 1,
+                    staleAt: 1,
+                    slidingTtl: 1,
+                    recomputeDuration: 1,
+                },
+            },
+        );
+        const value = this.getDocValue(document);
+        if (document === null || value === null) {
+            return null;
+        }
+        await this.slide([document]);
+        const {
+            staleAt = null,
+            slidingTtl = null,
+            recomputeDuration = null,
+        } = document;
+        const expiration =
+            slidingTtl === null
+                ? document.expiration
+                : TimeSpan.fromMilliseconds(slidingTtl).toEndDate();
+        return {
+            value,
+            isStale:
+                staleAt !== null && staleAt.getTime() <= new Date().getTime(),
+            staleAt: staleAt ?? undefined,
+            expiration: expiration ?? undefined,
+            recomputeDuration:
+                recomputeDuration === null
+                    ? undefined
+                    : TimeSpan.fromMilliseconds(recomputeDuration),
+        };
+    }
+
+    async getWithVersion(
+        key: string,
+    ): Promise<ICacheVersionedEntry<TType> | null> {
+        const document = await this.collection.findOne(
+            {
+                key,
+            },
+            {
+                projection: {
+                    _id: 0,
+                    key: 1,
+                    expiration: 1,
+                    value: 1,
+                    slidingTtl: 1,
+                    version: 1,
+                },
+            },
+        );
+        const value = this.getDocValue(document);
+        if (document === null || value === null) {
+            return null;
+        }
+        await this.slide([document]);
+        return {
+            value,
+            version: document.version ?? "",
+        };
     }
 
     async getAndRemove(key: string): Promise<TType | null> {
@@ -254,7 +420,15 @@ export class MongodbCacheAdapter<TType = unknown>
         key: string,
         value: TType,
         ttl: TimeSpan | null,
+        settings: CacheAdapterWriteSettings = {},
     ): Promise<boolean> {
+        const {
+            tags = [],
+            freshTtl = null,
+            slidingTtl = null,
+            recomputeDuration = null,
+        } = settings;
+        const staleAt = freshTtl?.toEndDate() ?? null;
         const hasExpirationQuery = {
             $ne: ["$expiration", null],
         };
@@ -286,6 +460,44 @@ export class MongodbCacheAdapter<TType = unknown>
                                 else: "$expiration",
                             },
                         },
+                        tags: {
+                            $cond: {
+                                if: hasExpirationAndExpiredQuery,
+                                then: {
+                                    $literal: tags,
+                                },
+                                else: "$tags",
+                            },
+                        },
+                        staleAt: {
+                            $cond: {
+                                if: hasExpirationAndExpiredQuery,
+                                then: staleAt,
+                                else: "$staleAt",
+                            },
+                        },
+                        slidingTtl: {
+                            $cond: {
+                                if: hasExpirationAndExpiredQuery,
+                                then: slidingTtl?.toMilliseconds() ?? null,
+                                else: "$slidingTtl",
+                            },
+                        },
+                        version: {
+                            $cond: {
+                                if: hasExpirationAndExpiredQuery,
+                                then: v4(),
+                                else: "$version",
+                            },
+                        },
+                        recomputeDuration: {
+                            $cond: {
+                                if: hasExpirationAndExpiredQuery,
+                                then:
+                                    recomputeDuration?.toMilliseconds() ?? null,
+                                else: "$recomputeDuration",
+                            },
+                        },
                     },
                 },
             ],
@@ -304,7 +516,15 @@ export class MongodbCacheAdapter<TType = unknown>
         key: string,
         value: TType,
         ttl: TimeSpan | null,
+        settings: CacheAdapterWriteSettings = {},
     ): Promise<boolean> {
+        const {
+            tags = [],
+            freshTtl = null,
+            slidingTtl = null,
+            recomputeDuration = null,
+        } = settings;
+        const staleAt = freshTtl?.toEndDate() ?? null;
         const document = await this.collection.findOneAndUpdate(
             {
                 key,
@@ -313,6 +533,12 @@ export class MongodbCacheAdapter<TType = unknown>
                 $set: {
                     value: this.serde.serialize(value),
                     expiration: ttl?.toEndDate() ?? null,
+                    tags,
+                    staleAt,
+                    slidingTtl: slidingTtl?.toMilliseconds() ?? null,
+                    version: v4(),
+                    recomputeDuration:
+                        recomputeDuration?.toMilliseconds() ?? null,
                 },
             },
             {
@@ -326,12 +552,108 @@ export class MongodbCacheAdapter<TType = unknown>
         return !this.isDocExpired(document);
     }
 
+    /**
+     * Note the keys are added one by one because the previous document of each key is needed.
+     */
+    async addMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await Promise.all(
+            items.map(({ key, value, ttl, settings }) =>
+                this.add(key, value, ttl, settings),
+            ),
+        );
+    }
+
+    /**
+     * Note the keys are replaced one by one because the previous document of each key is needed.
+     */
+    async putMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await Promise.all(
+            items.map(({ key, value, ttl, settings }) =>
+                this.put(key, value, ttl, settings),
+            ),
+        );
+    }
+
+    async getTtl(key: string): Promise<TimeSpan | null> {
+        const document = await this.collection.findOne(
+            {
+                key,
+            },
+            {
+                projection: {
+                    _id: 0,
+                    expiration: 1,
+                },
+            },
+        );
+        if (
+            document === null ||
+            document.expiration === null ||
+            this.isDocExpired(document)
+        ) {
+            return null;
+        }
+        return TimeSpan.fromDateRange({
+            end: document.expiration,
+        });
+    }
+
+    async touch(key: string, ttl: TimeSpan | null): Promise<boolean> {
+        const updateResult = await this.collection.updateOne(
+            MongodbCacheAdapter.filterUnexpiredKeys([key]),
+            {
+                $set: {
+                    expiration: ttl?.toEndDate() ?? null,
+                },
+            },
+        );
+        if (!updateResult.acknowledged) {
+            throw new UnexpectedError("Mongodb update was not acknowledged");
+        }
+        return updateResult.matchedCount > 0;
+    }
+
     async update(key: string, value: TType): Promise<boolean> {
         const updateResult = await this.collection.updateOne(
             MongodbCacheAdapter.filterUnexpiredKeys([key]),
             {
                 $set: {
                     value: this.serde.serialize(value),
+                    version: v4(),
+                },
+            },
+        );
+        if (!updateResult.acknowledged) {
+            throw new UnexpectedError("Mongodb update was not acknowledged");
+        }
+        return updateResult.modifiedCount > 0;
+    }
+
+    /**
+     * Note keys written before versions were tracked have no version and are matched by an empty `version`.
+     */
+    async updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean> {
+        const updateResult = await this.collection.updateOne(
+            {
+                $and: [
+                    MongodbCacheAdapter.filterUnexpiredKeys([key]),
+                    version === ""
+                        ? { version: { $exists: false } }
+                        : { version },
+                ],
+            },
+            {
+                $set: {
+                    value: this.serde.serialize(value),
+                    version: v4(),
                 },
             },
         );
@@ -349,6 +671,9 @@ export class MongodbCacheAdapter<TType = unknown>
                     $inc: {
                         value,
                     } as Record<string, number>,
+                    $set: {
+                        version: v4(),
+                    },
                 },
             );
             if (!updateResult.acknowledged) {
@@ -359,7 +684,7 @@ export class MongodbCacheAdapter<TType = unknown>
             return updateResult.modifiedCount > 0;
         } catch (error: unknown) {
             if (MongodbCacheAdapter.isMongodbIncrementError(error)) {
-                throw new TypeError(
+                throw new KeyTypeCacheError(
                     `Unable to increment or decrement none number type key "${key}"`,
                 );
             }
@@ -367,6 +692,46 @@ export class MongodbCacheAdapter<TType = unknown>
         }
     }
 
+    async hget(key: string, field: string): Promise<TType | null> {
+        return getHashField(key, await this.get(key), field);
+    }
+
+    async hset(key: string, field: string, value: TType): Promise<boolean> {
+        return await modifyOptimistically(
+            this,
+            key,
+            setHashField(field, value),
+        );
+    }
+
+    async hincrement(
+        key: string,
+        field: string,
+        value: number,
+    ): Promise<number> {
+        return await modifyOptimistically(
+            this,
+            key,
+            incrementHashField(field, value),
+        );
+    }
+
+    async hremove(key: string, fields: Array<string>): Promise<boolean> {
+        return await modifyOptimistically(this, key, removeHashFields(fields));
+    }
+
+    async sadd(key: string, members: Array<string>): Promise<boolean> {
+        return await modifyOptimistically(this, key, addSetMembers(members));
+    }
+
+    async sremove(key: string, members: Array<string>): Promise<boolean> {
+        return await modifyOptimistically(this, key, removeSetMembers(members));
+    }
+
+    async smembers(key: string): Promise<Array<string>> {
+        return toSet(key, await this.get(key));
+    }
+
     async removeMany(keys: Array<string>): Promise<boolean> {
         const deleteResult = await this.collection.deleteMany(
             MongodbCacheAdapter.filterUnexpiredKeys(keys),
@@ -384,6 +749,49 @@ export class MongodbCacheAdapter<TType = unknown>
         }
     }
 
+    async *getKeysByKeyPrefix(prefix: string): AsyncIterable<string> {
+        const cursor = this.collection.find(
+            {
+                $and: [
+                    {
+                        key: {
+                            $regex: new RegExp(
+                                `^${escapeStringRegexp(prefix)}`,
+                            ),
+                        },
+                    },
+                    {
+                        $or: [
+                            {
+                                expiration: {
+                                    $eq: null,
+                                },
+                            },
+                            {
+                                expiration: {
+                                    $gt: new Date(),
+                                },
+                            },
+                        ],
+                    },
+                ],
+            },
+            {
+                projection: {
+                    _id: 0,
+                    key: 1,
+                },
+            },
+        );
+        try {
+            for await (const document of cursor) {
+                yield document.key;
+            }
+        } finally {
+            await cursor.close();
+        }
+    }
+
     async removeByKeyPrefix(prefix: string): Promise<void> {
         const mongodbResult = await this.collection.deleteMany({
             key: {
@@ -394,4 +802,15 @@ export class MongodbCacheAdapter<TType = unknown>
             throw new UnexpectedError("Mongodb deletion was not acknowledged");
         }
     }
+
+    async removeByTags(tags: Array<string>): Promise<void> {
+        const mongodbResult = await this.collection.deleteMany({
+            tags: {
+                $in: tags,
+            },
+        });
+        if (!mongodbResult.acknowledged) {
+            throw new UnexpectedError("Mongodb deletion was not acknowledged");
+        }
+    }
 }
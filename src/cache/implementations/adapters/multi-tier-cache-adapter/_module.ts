@@ -0,0 +1 @@
+export * from "@/cache/implementations/adapters/multi-tier-cache-adapter/multi-tier-cache-adapter.js";
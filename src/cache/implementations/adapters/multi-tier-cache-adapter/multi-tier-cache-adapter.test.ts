@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, test } from "vitest";
+
+import {
+    MemoryCacheAdapter,
+    MultiTierCacheAdapter,
+} from "@/cache/implementations/adapters/_module.js";
+import { cacheAdapterTestSuite } from "@/cache/implementations/test-utilities/_module.js";
+import { MemoryEventBusAdapter } from "@/event-bus/implementations/adapters/_module.js";
+import { EventBus } from "@/event-bus/implementations/derivables/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
+
+describe("class: MultiTierCacheAdapter", () => {
+    cacheAdapterTestSuite({
+        createAdapter: async () => {
+            const adapter = new MultiTierCacheAdapter({
+                remoteAdapter: new MemoryCacheAdapter(),
+                eventBus: new EventBus({
+                    adapter: new MemoryEventBusAdapter(),
+                }),
+            });
+            await adapter.init();
+            return adapter;
+        },
+        test,
+        beforeEach,
+        expect,
+        describe,
+    });
+    describe("Multiple processes:", () => {
+        let remoteAdapter: MemoryCacheAdapter;
+        let memoryAdapterA: MemoryCacheAdapter;
+        let memoryAdapterB: MemoryCacheAdapter;
+        let adapterA: MultiTierCacheAdapter;
+        let adapterB: MultiTierCacheAdapter;
+        const MEMORY_TTL = TimeSpan.fromMilliseconds(50);
+        beforeEach(async () => {
+            const eventBus = new EventBus({
+                adapter: new MemoryEventBusAdapter(),
+            });
+            remoteAdapter = new MemoryCacheAdapter();
+            memoryAdapterA = new MemoryCacheAdapter();
+            memoryAdapterB = new MemoryCacheAdapter();
+            adapterA = new MultiTierCacheAdapter({
+                remoteAdapter,
+                memoryAdapter: memoryAdapterA,
+                eventBus,
+                memoryTtl: MEMORY_TTL,
+            });
+            adapterB = new MultiTierCacheAdapter({
+                remoteAdapter,
+                memoryAdapter: memoryAdapterB,
+                eventBus,
+                memoryTtl: MEMORY_TTL,
+            });
+            await adapterA.init();
+            await adapterB.init();
+        });
+        test("Should fill memory tier when reading from remote tier", async () => {
+            await adapterA.add("a", 1, null);
+
+            expect(await memoryAdapterB.get("a")).toBeNull();
+            expect(await adapterB.get("a")).toBe(1);
+            expect(await memoryAdapterB.get("a")).toBe(1);
+        });
+        test("Should write to both tiers", async () => {
+            await adapterA.put("a", 1, null);
+
+            expect(await memoryAdapterA.get("a")).toBe(1);
+            expect(await remoteAdapter.get("a")).toBe(1);
+        });
+        test("Should evict memory tier copies of other processes when key is replaced", async () => {
+            await adapterA.add("a", 1, null);
+            await adapterB.get("a");
+
+            await adapterA.put("a", 2, null);
+
+            expect(await memoryAdapterB.get("a")).toBeNull();
+            expect(await adapterB.get("a")).toBe(2);
+        });
+        test("Should evict memory tier copies of other processes when key is removed", async () => {
+            await adapterA.add("a", 1, null);
+            await adapterB.get("a");
+
+            await adapterA.removeMany(["a"]);
+
+            expect(await adapterB.get("a")).toBeNull();
+        });
+        test("Should evict memory tier copies of other processes when tags are removed", async () => {
+            await adapterA.add("a", 1, null, { tags: ["tag-a"] });
+            await adapterB.get("a");
+
+            await adapterA.removeByTags(["tag-a"]);
+
+            expect(await adapterB.get("a")).toBeNull();
+        });
+        test("Should not keep keys longer than memoryTtl in memory tier", async () => {
+            await adapterA.add("a", 1, null);
+            await adapterB.get("a");
+
+            await Task.delay(MEMORY_TTL.addMilliseconds(10));
+
+            expect(await memoryAdapterB.get("a")).toBeNull();
+        });
+        test("Should fill memory tier with the remaining ttl of the remote tier when it is shorter than memoryTtl", async () => {
+            const ttl = TimeSpan.fromMilliseconds(20);
+            await remoteAdapter.add("a", 1, ttl);
+            await remoteAdapter.add("b", 2, ttl);
+
+            await adapterB.get("a");
+            await adapterB.getMany(["b"]);
+
+            expect(
+                (await memoryAdapterB.getTtl("a"))?.toMilliseconds(),
+            ).toBeLessThanOrEqual(ttl.toMilliseconds());
+            expect(
+                (await memoryAdapterB.getTtl("b"))?.toMilliseconds(),
+            ).toBeLessThanOrEqual(ttl.toMilliseconds());
+        });
+        test("Should fill memory tier with the remaining fresh time and recompute duration of the remote tier", async () => {
+            const freshTtl = TimeSpan.fromMilliseconds(20);
+            const recomputeDuration = TimeSpan.fromMilliseconds(5);
+            await remoteAdapter.add("a", 1, null, {
+                freshTtl,
+                recomputeDuration,
+            });
+            await remoteAdapter.add("b", 2, null, {
+                freshTtl,
+                recomputeDuration,
+            });
+
+            await adapterB.get("a");
+            await adapterB.getMany(["b"]);
+
+            for (const key of ["a", "b"]) {
+                const entry = await memoryAdapterB.getEntry(key);
+                expect(entry?.isStale).toBe(false);
+                expect(entry?.recomputeDuration?.toMilliseconds()).toBe(
+                    recomputeDuration.toMilliseconds(),
+                );
+            }
+            await Task.delay(freshTtl.addMilliseconds(10));
+            for (const key of ["a", "b"]) {
+                expect((await memoryAdapterB.getEntry(key))?.isStale).toBe(
+                    true,
+                );
+            }
+        });
+        test("Should not evict memory tier copies after deInit", async () => {
+            await adapterA.add("a", 1, null);
+            await adapterB.get("a");
+            await adapterB.deInit();
+
+            await adapterA.put("a", 2, null);
+
+            expect(await memoryAdapterB.get("a")).toBe(1);
+        });
+    });
+});
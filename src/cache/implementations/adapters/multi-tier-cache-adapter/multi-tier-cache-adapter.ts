@@ -0,0 +1,614 @@
+/**
+ * @module Cache
+ */
+
+import { v4 } from "uuid";
+
+import {
+    type CacheAdapterVariants,
+    type CacheAdapterReadSettings,
+    type CacheAdapterWriteManyItem,
+    type CacheAdapterWriteSettings,
+    type ICacheAdapter,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
+} from "@/cache/contracts/_module.js";
+import { MemoryCacheAdapter } from "@/cache/implementations/adapters/memory-cache-adapter/_module.js";
+import { resolveCacheAdapter } from "@/cache/implementations/derivables/cache/resolve-cache-adapter.js";
+import { type IEventBus } from "@/event-bus/contracts/_module.js";
+import { type ITimeSpan } from "@/time-span/contracts/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
+import { type IDeinitizable, type IInitizable } from "@/utilities/_module.js";
+
+/**
+ * The event is dispatched when keys needs to be evicted from the memory tier of other processes.
+ * If `type` is `"all"` all keys will be evicted.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/multi-tier-cache-adapter"`
+ * @group Adapters
+ */
+export type MultiTierCacheEvictedEvent = {
+    /**
+     * The id of the {@link MultiTierCacheAdapter | `MultiTierCacheAdapter`} instance that dispatched the event.
+     */
+    origin: string;
+} & (
+    | {
+          type: "keys";
+          keys: Array<string>;
+      }
+    | {
+          type: "prefix";
+          prefix: string;
+      }
+    | {
+          type: "all";
+      }
+);
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/multi-tier-cache-adapter"`
+ * @group Adapters
+ */
+export const MULTI_TIER_CACHE_EVENTS = {
+    EVICTED: "MULTI_TIER_CACHE_EVICTED",
+} as const;
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/multi-tier-cache-adapter"`
+ * @group Adapters
+ */
+export type MultiTierCacheEventMap = {
+    [MULTI_TIER_CACHE_EVENTS.EVICTED]: MultiTierCacheEvictedEvent;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/multi-tier-cache-adapter"`
+ * @group Adapters
+ */
+export type MultiTierCacheAdapterSettings = {
+    /**
+     * The remote tier that is shared between all processes.
+     */
+    remoteAdapter: CacheAdapterVariants<any>;
+
+    /**
+     * The event bus used for broadcasting removals to other processes so they can evict their memory tier copies.
+     * Note the event bus must be shared between all processes, for example by using `RedisPubSubEventBusAdapter`.
+     */
+    eventBus: IEventBus;
+
+    /**
+     * The in-memory tier that is local to the process.
+     * Note the memory tier should be bounded, otherwise every key read from the remote tier is kept in memory until its ttl expires.
+     * @default
+     * ```ts
+     * import { MemoryCacheAdapter } from "@daiso-tech/core/cache/memory-cache-adapter";
+     *
+     * new MemoryCacheAdapter({
+     *   maxEntries: 10_000,
+     * })
+     * ```
+     */
+    memoryAdapter?: ICacheAdapter<any>;
+
+    /**
+     * The maximum ttl of keys stored in the memory tier. Keys with a shorter ttl will keep their ttl in the memory tier.
+     * @default
+     * ```ts
+     * import { TimeSpan } from "@daiso-tech/core/time-span";
+     *
+     * TimeSpan.fromMinutes(1)
+     * ```
+     */
+    memoryTtl?: ITimeSpan;
+
+    /**
+     * You can provide a custom id used for identifying the instance when broadcasting evictions.
+     * If not specified a unique id will be generated by default.
+     */
+    id?: string;
+};
+
+/**
+ * The `MultiTierCacheAdapter` composes an in-memory tier with any remote tier.
+ * Reads are served from the memory tier when possible and otherwise fill it from the remote tier, writes go to both tiers.
+ * Removals are broadcasted through an {@link IEventBus | `IEventBus`} so other processes evict their memory tier copies.
+ * Note keys with a sliding expiration are only filled into the memory tier on reads, and reads served by the memory tier will not push their expiration forward in the remote tier.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/multi-tier-cache-adapter"`
+ * @group Adapters
+ */
+export class MultiTierCacheAdapter<TType = unknown>
+    implements ICacheAdapter<TType>, IInitizable, IDeinitizable
+{
+    private readonly remoteAdapter: ICacheAdapter<TType>;
+    private readonly memoryAdapter: ICacheAdapter<TType>;
+    private readonly eventBus: IEventBus<MultiTierCacheEventMap>;
+    private readonly memoryTtl: TimeSpan;
+    private readonly id: string;
+
+    /**
+     * The expiration of the remote tier for keys whose ttl in the memory tier is shortened to `memoryTtl`, null means the key never expires in the remote tier.
+     */
+    private readonly remoteExpirationMap = new Map<string, Date | null>();
+
+    /**
+     * @example
+     * ```ts
+     * import { MultiTierCacheAdapter } from "@daiso-tech/core/cache/multi-tier-cache-adapter";
+     * import { RedisCacheAdapter } from "@daiso-tech/core/cache/redis-cache-adapter";
+     * import { EventBus } from "@daiso-tech/core/event-bus";
+     * import { RedisPubSubEventBusAdapter } from "@daiso-tech/core/event-bus/redis-pub-sub-event-bus-adapter";
+     * import { Serde } from "@daiso-tech/core/serde";
+     * import { SuperJsonSerdeAdapter } from "@daiso-tech/core/serde/super-json-serde-adapter"
+     * import Redis from "ioredis";
+     *
+     * const serde = new Serde(new SuperJsonSerdeAdapter());
+     * const cacheAdapter = new MultiTierCacheAdapter({
+     *   remoteAdapter: new RedisCacheAdapter({
+     *     database: new Redis("YOUR_REDIS_CONNECTION_STRING"),
+     *     serde,
+     *   }),
+     *   eventBus: new EventBus({
+     *     adapter: new RedisPubSubEventBusAdapter({
+     *       client: new Redis("YOUR_REDIS_CONNECTION_STRING"),
+     *       serde,
+     *     }),
+     *   }),
+     * });
+     * // You need initialize the adapter once before using it.
+     * await cacheAdapter.init();
+     * ```
+     */
+    constructor(settings: MultiTierCacheAdapterSettings) {
+        const {
+            remoteAdapter,
+            eventBus,
+            memoryAdapter = new MemoryCacheAdapter({
+                maxEntries: 10_000,
+            }),
+            memoryTtl = TimeSpan.fromMinutes(1),
+            id = v4(),
+        } = settings;
+        this.remoteAdapter = resolveCacheAdapter(remoteAdapter);
+        this.memoryAdapter = memoryAdapter;
+        this.eventBus = eventBus;
+        this.memoryTtl = TimeSpan.fromTimeSpan(memoryTtl);
+        this.id = id;
+    }
+
+    private readonly evictedListener = async (
+        event: MultiTierCacheEvictedEvent,
+    ): Promise<void> => {
+        if (event.origin === this.id) {
+            return;
+        }
+        if (event.type === "keys") {
+            await this.removeManyFromMemory(event.keys);
+        } else if (event.type === "prefix") {
+            await this.removeByKeyPrefixFromMemory(event.prefix);
+        } else {
+            await this.removeAllFromMemory();
+        }
+    };
+
+    /**
+     * Starts listening for evictions broadcasted by other processes.
+     * Note the `init` method needs to be called once before using the adapter.
+     */
+    async init(): Promise<void> {
+        await this.eventBus.addListener(
+            MULTI_TIER_CACHE_EVENTS.EVICTED,
+            this.evictedListener,
+        );
+    }
+
+    /**
+     * Stops listening for evictions broadcasted by other processes.
+     */
+    async deInit(): Promise<void> {
+        await this.eventBus.removeListener(
+            MULTI_TIER_CACHE_EVENTS.EVICTED,
+            this.evictedListener,
+        );
+    }
+
+    private async removeManyFromMemory(keys: Array<string>): Promise<void> {
+        for (const key of keys) {
+            this.remoteExpirationMap.delete(key);
+        }
+        await this.memoryAdapter.removeMany(keys);
+    }
+
+    private async removeByKeyPrefixFromMemory(prefix: string): Promise<void> {
+        for (const key of this.remoteExpirationMap.keys()) {
+            if (key.startsWith(prefix)) {
+                this.remoteExpirationMap.delete(key);
+            }
+        }
+        await this.memoryAdapter.removeByKeyPrefix(prefix);
+    }
+
+    private async removeAllFromMemory(): Promise<void> {
+        this.remoteExpirationMap.clear();
+        await this.memoryAdapter.removeAll();
+    }
+
+    private async evictKeys(keys: Array<string>): Promise<void> {
+        await this.eventBus.dispatch(MULTI_TIER_CACHE_EVENTS.EVICTED, {
+            origin: this.id,
+            type: "keys",
+            keys,
+        });
+    }
+
+    private async evictAll(): Promise<void> {
+        await this.eventBus.dispatch(MULTI_TIER_CACHE_EVENTS.EVICTED, {
+            origin: this.id,
+            type: "all",
+        });
+    }
+
+    /**
+     * Keys with a sliding period are not written to the memory tier, ensuring reads push their expiration forward in the remote tier.
+     */
+    private static isSliding(
+        settings: CacheAdapterWriteSettings = {},
+    ): boolean {
+        const { slidingTtl = null } = settings;
+        return slidingTtl !== null;
+    }
+
+    private async putInMemory(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<void> {
+        const slidingItems = items.filter((item) =>
+            MultiTierCacheAdapter.isSliding(item.settings),
+        );
+        const nonSlidingItems = items.filter(
+            (item) => !MultiTierCacheAdapter.isSliding(item.settings),
+        );
+        if (slidingItems.length > 0) {
+            await this.removeManyFromMemory(
+                slidingItems.map((item) => item.key),
+            );
+        }
+        if (nonSlidingItems.length > 0) {
+            await this.memoryAdapter.putMany(
+                nonSlidingItems.map((item) => ({
+                    ...item,
+                    ttl: this.getMemoryTtl(item.key, item.ttl),
+                })),
+            );
+        }
+    }
+
+    /**
+     * Keys keep their remaining ttl in the memory tier when it is shorter than `memoryTtl`, ensuring the memory tier never outlives the remote tier.
+     * Otherwise the expiration of the remote tier is remembered, ensuring entries read from the memory tier report the expiration of the remote tier.
+     */
+    private getMemoryTtl(key: string, ttl: TimeSpan | null): TimeSpan {
+        if (
+            ttl === null ||
+            ttl.toMilliseconds() > this.memoryTtl.toMilliseconds()
+        ) {
+            this.remoteExpirationMap.set(key, ttl?.toEndDate() ?? null);
+            return this.memoryTtl;
+        }
+        this.remoteExpirationMap.delete(key);
+        return ttl;
+    }
+
+    /**
+     * Keys filled from the remote tier keep their remaining fresh time and recompute duration, ensuring the memory tier reports staleness and early recomputation like the remote tier.
+     * Note stale entries are not stored in the memory tier, ensuring they are refreshed in the remote tier.
+     */
+    private async fillMemory(
+        key: string,
+        entry: ICacheEntry<TType>,
+    ): Promise<void> {
+        if (entry.isStale) {
+            return;
+        }
+        await this.memoryAdapter.put(
+            key,
+            entry.value,
+            this.getMemoryTtl(
+                key,
+                entry.expiration === undefined
+                    ? null
+                    : TimeSpan.fromDateRange({
+                          end: entry.expiration,
+                      }),
+            ),
+            {
+                freshTtl:
+                    entry.staleAt === undefined
+                        ? null
+                        : TimeSpan.fromDateRange({
+                              end: entry.staleAt,
+                          }),
+                recomputeDuration: entry.recomputeDuration ?? null,
+            },
+        );
+    }
+
+    async get(key: string): Promise<TType | null> {
+        const value = await this.memoryAdapter.get(key);
+        if (value !== null) {
+            return value;
+        }
+        const remoteEntry = await this.remoteAdapter.getEntry(key);
+        if (remoteEntry === null) {
+            return null;
+        }
+        await this.fillMemory(key, remoteEntry);
+        return remoteEntry.value;
+    }
+
+    /**
+     * Note keys read with `shouldSlide` set to false are not filled into the memory tier, because reading their entry from the remote tier would push their expiration forward.
+     */
+    async getMany(
+        keys: Array<string>,
+        settings: CacheAdapterReadSettings = {},
+    ): Promise<Array<TType | null>> {
+        const { shouldSlide = true } = settings;
+        const values = await this.memoryAdapter.getMany(keys, settings);
+        const missingKeys = keys.filter(
+            (_key, index) => values[index] === null,
+        );
+        if (missingKeys.length === 0) {
+            return values;
+        }
+
+        const remoteValuesByKey = new Map<string, TType | null>();
+        if (shouldSlide) {
+            for (const key of missingKeys) {
+                const remoteEntry = await this.remoteAdapter.getEntry(key);
+                if (remoteEntry !== null) {
+                    await this.fillMemory(key, remoteEntry);
+                }
+                remoteValuesByKey.set(key, remoteEntry?.value ?? null);
+            }
+        } else {
+            const remoteValues = await this.remoteAdapter.getMany(
+                missingKeys,
+                settings,
+            );
+            for (const [index, key] of missingKeys.entries()) {
+                remoteValuesByKey.set(key, remoteValues[index] ?? null);
+            }
+        }
+        return keys.map(
+            (key, index) => values[index] ?? remoteValuesByKey.get(key) ?? null,
+        );
+    }
+
+    async getEntry(key: string): Promise<ICacheEntry<TType> | null> {
+        const entry = await this.memoryAdapter.getEntry(key);
+        if (entry !== null && this.remoteExpirationMap.has(key)) {
+            return {
+                ...entry,
+                expiration: this.remoteExpirationMap.get(key) ?? undefined,
+            };
+        }
+        if (entry !== null) {
+            return entry;
+        }
+        this.remoteExpirationMap.delete(key);
+        const remoteEntry = await this.remoteAdapter.getEntry(key);
+        if (remoteEntry !== null) {
+            await this.fillMemory(key, remoteEntry);
+        }
+        return remoteEntry;
+    }
+
+    /**
+     * Note the version is always read from the remote tier, ensuring it matches the version used by {@link MultiTierCacheAdapter.updateIfVersion | `updateIfVersion`}.
+     */
+    async getWithVersion(
+        key: string,
+    ): Promise<ICacheVersionedEntry<TType> | null> {
+        return await this.remoteAdapter.getWithVersion(key);
+    }
+
+    async getAndRemove(key: string): Promise<TType | null> {
+        await this.removeManyFromMemory([key]);
+        const value = await this.remoteAdapter.getAndRemove(key);
+        await this.evictKeys([key]);
+        return value;
+    }
+
+    async add(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
+        const hasAdded = await this.remoteAdapter.add(
+            key,
+            value,
+            ttl,
+            settings,
+        );
+        if (hasAdded) {
+            await this.putInMemory([{ key, value, ttl, settings }]);
+            await this.evictKeys([key]);
+        }
+        return hasAdded;
+    }
+
+    async put(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
+        const hasReplaced = await this.remoteAdapter.put(
+            key,
+            value,
+            ttl,
+            settings,
+        );
+        await this.putInMemory([{ key, value, ttl, settings }]);
+        await this.evictKeys([key]);
+        return hasReplaced;
+    }
+
+    async addMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        const results = await this.remoteAdapter.addMany(items);
+        const addedItems = items.filter(
+            (_item, index) => results[index] === true,
+        );
+        if (addedItems.length > 0) {
+            await this.putInMemory(addedItems);
+            await this.evictKeys(addedItems.map((item) => item.key));
+        }
+        return results;
+    }
+
+    async putMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        const results = await this.remoteAdapter.putMany(items);
+        await this.putInMemory(items);
+        await this.evictKeys(items.map((item) => item.key));
+        return results;
+    }
+
+    async getTtl(key: string): Promise<TimeSpan | null> {
+        return await this.remoteAdapter.getTtl(key);
+    }
+
+    async touch(key: string, ttl: TimeSpan | null): Promise<boolean> {
+        const hasTouched = await this.remoteAdapter.touch(key, ttl);
+        await this.removeManyFromMemory([key]);
+        await this.evictKeys([key]);
+        return hasTouched;
+    }
+
+    async update(key: string, value: TType): Promise<boolean> {
+        const hasUpdated = await this.remoteAdapter.update(key, value);
+        await this.removeManyFromMemory([key]);
+        await this.evictKeys([key]);
+        return hasUpdated;
+    }
+
+    async updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean> {
+        const hasUpdated = await this.remoteAdapter.updateIfVersion(
+            key,
+            value,
+            version,
+        );
+        await this.removeManyFromMemory([key]);
+        await this.evictKeys([key]);
+        return hasUpdated;
+    }
+
+    async increment(key: string, value: number): Promise<boolean> {
+        const hasIncremented = await this.remoteAdapter.increment(key, value);
+        await this.removeManyFromMemory([key]);
+        await this.evictKeys([key]);
+        return hasIncremented;
+    }
+
+    /**
+     * Note hashes are always read from the remote tier, ensuring single fields are never served from a stale memory tier copy.
+     */
+    async hget(key: string, field: string): Promise<TType | null> {
+        return await this.remoteAdapter.hget(key, field);
+    }
+
+    async hset(key: string, field: string, value: TType): Promise<boolean> {
+        const hasAdded = await this.remoteAdapter.hset(key, field, value);
+        await this.removeManyFromMemory([key]);
+        await this.evictKeys([key]);
+        return hasAdded;
+    }
+
+    async hincrement(
+        key: string,
+        field: string,
+        value: number,
+    ): Promise<number> {
+        const newValue = await this.remoteAdapter.hincrement(key, field, value);
+        await this.removeManyFromMemory([key]);
+        await this.evictKeys([key]);
+        return newValue;
+    }
+
+    async hremove(key: string, fields: Array<string>): Promise<boolean> {
+        const hasRemoved = await this.remoteAdapter.hremove(key, fields);
+        await this.removeManyFromMemory([key]);
+        await this.evictKeys([key]);
+        return hasRemoved;
+    }
+
+    async sadd(key: string, members: Array<string>): Promise<boolean> {
+        const hasAdded = await this.remoteAdapter.sadd(key, members);
+        await this.removeManyFromMemory([key]);
+        await this.evictKeys([key]);
+        return hasAdded;
+    }
+
+    async sremove(key: string, members: Array<string>): Promise<boolean> {
+        const hasRemoved = await this.remoteAdapter.sremove(key, members);
+        await this.removeManyFromMemory([key]);
+        await this.evictKeys([key]);
+        return hasRemoved;
+    }
+
+    /**
+     * Note sets are always read from the remote tier.
+     */
+    async smembers(key: string): Promise<Array<string>> {
+        return await this.remoteAdapter.smembers(key);
+    }
+
+    async removeMany(keys: Array<string>): Promise<boolean> {
+        await this.removeManyFromMemory(keys);
+        const hasRemoved = await this.remoteAdapter.removeMany(keys);
+        await this.evictKeys(keys);
+        return hasRemoved;
+    }
+
+    async removeAll(): Promise<void> {
+        await this.removeAllFromMemory();
+        await this.remoteAdapter.removeAll();
+        await this.evictAll();
+    }
+
+    getKeysByKeyPrefix(prefix: string): AsyncIterable<string> {
+        return this.remoteAdapter.getKeysByKeyPrefix(prefix);
+    }
+
+    async removeByKeyPrefix(prefix: string): Promise<void> {
+        await this.removeByKeyPrefixFromMemory(prefix);
+        await this.remoteAdapter.removeByKeyPrefix(prefix);
+        await this.eventBus.dispatch(MULTI_TIER_CACHE_EVENTS.EVICTED, {
+            origin: this.id,
+            type: "prefix",
+            prefix,
+        });
+    }
+
+    /**
+     * Note the whole memory tier is evicted because keys filled from the remote tier are not associated with their tags.
+     */
+    async removeByTags(tags: Array<string>): Promise<void> {
+        await this.remoteAdapter.removeByTags(tags);
+        await this.removeAllFromMemory();
+        await this.evictAll();
+    }
+}
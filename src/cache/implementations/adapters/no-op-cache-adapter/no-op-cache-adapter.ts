@@ -4,6 +4,10 @@
 
 import {
     type ICacheAdapter,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
+    type CacheAdapterWriteSettings,
+    type CacheAdapterWriteManyItem,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     type ICache,
 } from "@/cache/contracts/_module.js";
@@ -21,15 +25,57 @@ export class NoOpCacheAdapter<TType = unknown> implements ICacheAdapter<TType> {
         return Promise.resolve(null);
     }
 
+    getMany(keys: Array<string>): Promise<Array<TType | null>> {
+        return Promise.resolve(keys.map(() => null));
+    }
+
+    getEntry(_key: string): Promise<ICacheEntry<TType> | null> {
+        return Promise.resolve(null);
+    }
+
+    getWithVersion(_key: string): Promise<ICacheVersionedEntry<TType> | null> {
+        return Promise.resolve(null);
+    }
+
     getAndRemove(_key: string): Promise<TType | null> {
         return Promise.resolve(null);
     }
 
-    add(_key: string, _value: TType, _ttl: TimeSpan | null): Promise<boolean> {
+    add(
+        _key: string,
+        _value: TType,
+        _ttl: TimeSpan | null,
+        _settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
         return Promise.resolve(true);
     }
 
-    put(_key: string, _value: TType, _ttl: TimeSpan | null): Promise<boolean> {
+    put(
+        _key: string,
+        _value: TType,
+        _ttl: TimeSpan | null,
+        _settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
+        return Promise.resolve(true);
+    }
+
+    addMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return Promise.resolve(items.map(() => true));
+    }
+
+    putMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return Promise.resolve(items.map(() => true));
+    }
+
+    getTtl(_key: string): Promise<TimeSpan | null> {
+        return Promise.resolve(null);
+    }
+
+    touch(_key: string, _ttl: TimeSpan | null): Promise<boolean> {
         return Promise.resolve(true);
     }
 
@@ -37,10 +83,46 @@ export class NoOpCacheAdapter<TType = unknown> implements ICacheAdapter<TType> {
         return Promise.resolve(true);
     }
 
+    updateIfVersion(
+        _key: string,
+        _value: TType,
+        _version: string,
+    ): Promise<boolean> {
+        return Promise.resolve(true);
+    }
+
     increment(_key: string, _value: number): Promise<boolean> {
         return Promise.resolve(true);
     }
 
+    hget(_key: string, _field: string): Promise<TType | null> {
+        return Promise.resolve(null);
+    }
+
+    hset(_key: string, _field: string, _value: TType): Promise<boolean> {
+        return Promise.resolve(true);
+    }
+
+    hincrement(_key: string, _field: string, value: number): Promise<number> {
+        return Promise.resolve(value);
+    }
+
+    hremove(_key: string, _fields: Array<string>): Promise<boolean> {
+        return Promise.resolve(true);
+    }
+
+    sadd(_key: string, _members: Array<string>): Promise<boolean> {
+        return Promise.resolve(true);
+    }
+
+    sremove(_key: string, _members: Array<string>): Promise<boolean> {
+        return Promise.resolve(true);
+    }
+
+    smembers(_key: string): Promise<Array<string>> {
+        return Promise.resolve([]);
+    }
+
     removeMany(_keys: Array<string>): Promise<boolean> {
         return Promise.resolve(true);
     }
@@ -49,7 +131,15 @@ export class NoOpCacheAdapter<TType = unknown> implements ICacheAdapter<TType> {
         return Promise.resolve();
     }
 
+    async *getKeysByKeyPrefix(_prefix: string): AsyncIterable<string> {
+        /* Empty */
+    }
+
     removeByKeyPrefix(_prefix: string): Promise<void> {
         return Promise.resolve();
     }
+
+    removeByTags(_tags: Array<string>): Promise<void> {
+        return Promise.resolve();
+    }
 }
@@ -2,15 +2,28 @@
  * @module Cache
  */
 
+import { createHash } from "node:crypto";
+
 import { ReplyError, type Redis, type Result } from "ioredis";
 
-import { type ICacheAdapter } from "@/cache/contracts/_module.js";
+import {
+    type CacheAdapterReadSettings,
+    type CacheAdapterWriteManyItem,
+    type CacheAdapterWriteSettings,
+    type ICacheAdapter,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
+    KeyTypeCacheError,
+} from "@/cache/contracts/_module.js";
 import { RedisCacheAdapterSerde } from "@/cache/implementations/adapters/redis-cache-adapter/redis-cache-adapter-serde.js";
-import { ClearIterable } from "@/cache/implementations/adapters/redis-cache-adapter/utilities.js";
+import {
+    ClearIterable,
+    ScanIterable,
+} from "@/cache/implementations/adapters/redis-cache-adapter/utilities.js";
 import { type ISerde } from "@/serde/contracts/_module.js";
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { type SuperJsonSerdeAdapter } from "@/serde/implementations/adapters/_module.js";
-import { type TimeSpan } from "@/time-span/implementations/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
 
 declare module "ioredis" {
     interface RedisCommander<Context> {
@@ -18,9 +31,148 @@ declare module "ioredis" {
             key: string,
             number: string,
         ): Result<number, Context>;
+
+        daiso_cache_write(
+            numberOfKeys: number,
+            ...keysAndArgs: Array<string>
+        ): Result<number, Context>;
+
+        /**
+         *
+         * @param mode `"SLIDE"` pushes the expiration forward when the key has a sliding period, `"READ"` only reads the key and `"REMOVE"` removes the key after reading it.
+         */
+        daiso_cache_get(
+            key: string,
+            staleKey: string,
+            slidingKey: string,
+            recomputeKey: string,
+            tagsKey: string,
+            mode: RedisCacheGetMode,
+        ): Result<RedisCacheGetResult, Context>;
+
+        daiso_cache_update_if_version(
+            key: string,
+            value: string,
+            version: string,
+        ): Result<number, Context>;
+
+        daiso_cache_touch(
+            key: string,
+            staleKey: string,
+            slidingKey: string,
+            recomputeKey: string,
+            tagsKey: string,
+            ttl: string,
+        ): Result<number, Context>;
+
+        /**
+         * @returns The number of the given keys that were removed.
+         */
+        daiso_cache_remove(
+            numberOfKeys: number,
+            ...keys: Array<string>
+        ): Result<number, Context>;
+
+        daiso_cache_remove_by_tags(
+            numberOfKeys: number,
+            ...keys: Array<string>
+        ): Result<number, Context>;
     }
 }
 
+type RedisCacheGetMode = "SLIDE" | "READ" | "REMOVE";
+
+/**
+ * The type is `"none"` when the key does not exist. The payload is the value for strings, the flattened fields and values for hashes and the members for sets.
+ * The ttl is the remaining ttl in ms, it is empty when the key has no expiration.
+ */
+type RedisCacheGetResult = [
+    type: string,
+    staleAt: string,
+    recomputeDuration: string,
+    ttl: string,
+    ...payload: Array<string>,
+];
+
+/**
+ * The keys storing the metadata of the keys and the tag sets are stored under this reserved prefix, ensuring they never collide with the keys.
+ * The meta key has the format `<prefix><meta-type>:<key>`, meaning the meta keys of a key prefix share the same prefix after the meta type.
+ */
+const META_KEY_PREFIX = "$daiso-cache:";
+
+const META_TYPES = ["stale", "sliding", "recompute", "tags", "tag"] as const;
+
+type MetaType = (typeof META_TYPES)[number];
+
+/**
+ * Lua functions shared by the scripts for keeping the tag sets in sync with the keys.
+ * Each key stores the keys of its tag sets in its `tags` meta set, ensuring the key can be removed from its tag sets when it is rewritten or removed.
+ * A tag set expires together with the last of its keys, an empty ttl means the key has no expiration.
+ */
+const TAG_SET_LUA_FUNCTIONS = `
+    local function getMetaKey(metaType, key)
+        return "${META_KEY_PREFIX}" .. metaType .. ":" .. key
+    end
+
+    local function extendTagSet(tagKey, ttl)
+        if redis.call("exists", tagKey) == 0 then
+            return
+        end
+        if ttl == "" then
+            redis.call("persist", tagKey)
+            return
+        end
+        local currentTtl = redis.call("pttl", tagKey)
+        if currentTtl ~= -1 and currentTtl < tonumber(ttl) then
+            redis.call("pexpire", tagKey, ttl)
+        end
+    end
+
+    local function addToTagSet(tagKey, key, ttl)
+        local isNew = redis.call("exists", tagKey) == 0
+        redis.call("sadd", tagKey, key)
+        if isNew and ttl ~= "" then
+            redis.call("pexpire", tagKey, ttl)
+        else
+            extendTagSet(tagKey, ttl)
+        end
+    end
+
+    local function removeFromTagSets(key, tagsKey)
+        for _, tagKey in ipairs(redis.call("smembers", tagsKey)) do
+            redis.call("srem", tagKey, key)
+        end
+        redis.call("del", tagsKey)
+    end
+
+    -- Hashes and sets are stored as native Redis hashes and sets, the payload is versioned with the byte length of each item as prefix.
+    local function getVersion(key, keyType)
+        if keyType == "string" then
+            return redis.sha1hex(redis.call("get", key))
+        end
+        local payload
+        if keyType == "hash" then
+            payload = redis.call("hgetall", key)
+        elseif keyType == "set" then
+            payload = redis.call("smembers", key)
+        else
+            return false
+        end
+        local encoded = {}
+        for _, item in ipairs(payload) do
+            table.insert(encoded, #item .. ":" .. item)
+        end
+        return redis.sha1hex(table.concat(encoded))
+    end
+
+    local function removeKey(key)
+        removeFromTagSets(key, getMetaKey("tags", key))
+        local count = redis.call("del", key)
+        redis.call("del", getMetaKey("stale", key), getMetaKey("sliding", key), getMetaKey("recompute", key))
+        return count
+    end
+`;
+
 /**
  *
  * IMPORT_PATH: `"@daiso-tech/core/cache/redis-cache-adapter"`
@@ -52,6 +204,126 @@ export class RedisCacheAdapter<TType = unknown>
         );
     }
 
+    /**
+     * The error is thrown when a command is used on a key holding another type, for example `HSET` on a string.
+     */
+    private static isRedisWrongTypeError(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/explicit-module-boundary-types
+        value: any,
+    ): boolean {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-return
+        return (
+            value instanceof ReplyError &&
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+            value.message.includes("WRONGTYPE")
+        );
+    }
+
+    private static isRedisNotFloatError(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/explicit-module-boundary-types
+        value: any,
+    ): boolean {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-return
+        return (
+            value instanceof ReplyError &&
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+            value.message.includes("hash value is not a float")
+        );
+    }
+
+    private static async withType<TValue>(
+        type: "hash" | "set",
+        key: string,
+        fn: () => Promise<TValue>,
+    ): Promise<TValue> {
+        try {
+            return await fn();
+        } catch (error: unknown) {
+            if (!RedisCacheAdapter.isRedisWrongTypeError(error)) {
+                throw error;
+            }
+            throw new KeyTypeCacheError(
+                `Unable to use none ${type} type key "${key}"`,
+                error,
+            );
+        }
+    }
+
+    /**
+     * The version is the SHA1 hash of the stored value, hashes and sets are hashed with the byte length of each item as prefix.
+     */
+    private static getVersion(type: string, payload: Array<string>): string {
+        const hash = createHash("sha1");
+        if (type === "string") {
+            return hash.update(payload[0] ?? "").digest("hex");
+        }
+        for (const item of payload) {
+            hash.update(`${String(Buffer.byteLength(item))}:${item}`);
+        }
+        return hash.digest("hex");
+    }
+
+    private static getMetaKey(metaType: MetaType, key: string): string {
+        return `${META_KEY_PREFIX}${metaType}:${key}`;
+    }
+
+    /**
+     * The set storing all keys associated with the tag.
+     */
+    private static getTagKey(tag: string): string {
+        return RedisCacheAdapter.getMetaKey("tag", tag);
+    }
+
+    /**
+     * The key storing when the value becomes stale.
+     */
+    private static getStaleKey(key: string): string {
+        return RedisCacheAdapter.getMetaKey("stale", key);
+    }
+
+    /**
+     * The key storing the sliding period.
+     */
+    private static getSlidingKey(key: string): string {
+        return RedisCacheAdapter.getMetaKey("sliding", key);
+    }
+
+    /**
+     * The key storing the recompute duration.
+     */
+    private static getRecomputeKey(key: string): string {
+        return RedisCacheAdapter.getMetaKey("recompute", key);
+    }
+
+    /**
+     * The set storing the tag keys of the key.
+     */
+    private static getTagsKey(key: string): string {
+        return RedisCacheAdapter.getMetaKey("tags", key);
+    }
+
+    private static getMetaKeys(
+        key: string,
+    ): [
+        key: string,
+        staleKey: string,
+        slidingKey: string,
+        recomputeKey: string,
+        tagsKey: string,
+    ] {
+        return [
+            key,
+            RedisCacheAdapter.getStaleKey(key),
+            RedisCacheAdapter.getSlidingKey(key),
+            RedisCacheAdapter.getRecomputeKey(key),
+            RedisCacheAdapter.getTagsKey(key),
+        ];
+    }
+
+    private static isMetaKey(key: string): boolean {
+        return key.startsWith(META_KEY_PREFIX);
+    }
+
     private readonly serde: ISerde<string>;
     private readonly database: Redis;
 
@@ -76,6 +348,12 @@ export class RedisCacheAdapter<TType = unknown>
         this.database = database;
         this.serde = new RedisCacheAdapterSerde(serde);
         this.initIncrementCommand();
+        this.initWriteCommand();
+        this.initGetCommand();
+        this.initTouchCommand();
+        this.initUpdateIfVersionCommand();
+        this.initRemoveCommand();
+        this.initRemoveByTagsCommand();
     }
 
     private initIncrementCommand(): void {
@@ -97,66 +375,468 @@ export class RedisCacheAdapter<TType = unknown>
         });
     }
 
-    async get(key: string): Promise<TType | null> {
-        const value = await this.database.get(key);
-        if (value === null) {
-            return null;
+    private initWriteCommand(): void {
+        if (typeof this.database.daiso_cache_write === "function") {
+            return;
         }
-        return await this.serde.deserialize(value);
+
+        this.database.defineCommand("daiso_cache_write", {
+            lua: `
+                ${TAG_SET_LUA_FUNCTIONS}
+
+                -- SET with GET fails on hashes and sets, so they are removed first and counted as existing keys.
+                local hasReplacedOtherType = false
+                if ARGV[1] == "GET" then
+                    local keyType = redis.call("type", KEYS[1]).ok
+                    if keyType ~= "none" and keyType ~= "string" then
+                        redis.call("del", KEYS[1])
+                        hasReplacedOtherType = true
+                    end
+                end
+
+                local args = { KEYS[1], ARGV[2] }
+                if ARGV[3] ~= "" then
+                    table.insert(args, "PX")
+                    table.insert(args, ARGV[3])
+                end
+                table.insert(args, ARGV[1])
+
+                local result = redis.call("set", unpack(args))
+                local hasWritten = ARGV[1] == "GET" or result ~= false
+
+                if hasWritten then
+                    if ARGV[4] ~= "" then
+                        local staleArgs = { KEYS[2], ARGV[4] }
+                        if ARGV[3] ~= "" then
+                            table.insert(staleArgs, "PX")
+                            table.insert(staleArgs, ARGV[3])
+                        end
+                        redis.call("set", unpack(staleArgs))
+                    else
+                        redis.call("del", KEYS[2])
+                    end
+
+                    if ARGV[5] ~= "" then
+                        local slidingArgs = { KEYS[3], ARGV[5] }
+                        if ARGV[3] ~= "" then
+                            table.insert(slidingArgs, "PX")
+                            table.insert(slidingArgs, ARGV[3])
+                        end
+                        redis.call("set", unpack(slidingArgs))
+                    else
+                        redis.call("del", KEYS[3])
+                    end
+
+                    if ARGV[6] ~= "" then
+                        local recomputeArgs = { KEYS[4], ARGV[6] }
+                        if ARGV[3] ~= "" then
+                            table.insert(recomputeArgs, "PX")
+                            table.insert(recomputeArgs, ARGV[3])
+                        end
+                        redis.call("set", unpack(recomputeArgs))
+                    else
+                        redis.call("del", KEYS[4])
+                    end
+
+                    -- The tags of the key are replaced, so the key is removed from its previous tag sets.
+                    removeFromTagSets(KEYS[1], KEYS[5])
+                    for i = 6, #KEYS do
+                        addToTagSet(KEYS[i], KEYS[1], ARGV[3])
+                        redis.call("sadd", KEYS[5], KEYS[i])
+                    end
+                    if #KEYS >= 6 and ARGV[3] ~= "" then
+                        redis.call("pexpire", KEYS[5], ARGV[3])
+                    end
+                end
+
+                if ARGV[1] == "NX" then
+                    if hasWritten then
+                        return 1
+                    end
+                    return 0
+                end
+
+                if result == false and not hasReplacedOtherType then
+                    return 0
+                end
+                return 1
+                `,
+        });
     }
 
-    async getAndRemove(key: string): Promise<TType | null> {
-        const value = await this.database.getdel(key);
-        if (value === null) {
-            return null;
+    /**
+     * Returns the type, the stale date, the recompute duration and the payload of the key, the expiration of the key will be pushed forward when it has a sliding period and the mode is `"SLIDE"`.
+     */
+    private initGetCommand(): void {
+        if (typeof this.database.daiso_cache_get === "function") {
+            return;
         }
-        return this.serde.deserialize(value);
+
+        this.database.defineCommand("daiso_cache_get", {
+            numberOfKeys: 5,
+            lua: `
+                ${TAG_SET_LUA_FUNCTIONS}
+
+                local keyType = redis.call("type", KEYS[1]).ok
+                if keyType == "none" then
+                    return { keyType, "", "", "" }
+                end
+
+                local payload
+                if keyType == "hash" then
+                    payload = redis.call("hgetall", KEYS[1])
+                elseif keyType == "set" then
+                    payload = redis.call("smembers", KEYS[1])
+                else
+                    payload = { redis.call("get", KEYS[1]) }
+                end
+
+                local slidingTtl = redis.call("get", KEYS[3])
+                if ARGV[1] == "SLIDE" and slidingTtl ~= false then
+                    for i = 1, #KEYS do
+                        redis.call("pexpire", KEYS[i], slidingTtl)
+                    end
+                    for _, tagKey in ipairs(redis.call("smembers", KEYS[5])) do
+                        extendTagSet(tagKey, slidingTtl)
+                    end
+                end
+
+                local staleAt = redis.call("get", KEYS[2])
+                if staleAt == false then
+                    staleAt = ""
+                end
+
+                local recomputeDuration = redis.call("get", KEYS[4])
+                if recomputeDuration == false then
+                    recomputeDuration = ""
+                end
+
+                local ttl = redis.call("pttl", KEYS[1])
+                if ttl < 0 then
+                    ttl = ""
+                else
+                    ttl = tostring(ttl)
+                end
+
+                if ARGV[1] == "REMOVE" then
+                    removeKey(KEYS[1])
+                end
+
+                local result = { keyType, staleAt, recomputeDuration, ttl }
+                for _, item in ipairs(payload) do
+                    table.insert(result, item)
+                end
+                return result
+                `,
+        });
     }
 
-    async add(
+    private initTouchCommand(): void {
+        if (typeof this.database.daiso_cache_touch === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_cache_touch", {
+            numberOfKeys: 5,
+            lua: `
+                ${TAG_SET_LUA_FUNCTIONS}
+
+                if redis.call("exists", KEYS[1]) == 0 then
+                    return 0
+                end
+
+                for i = 1, #KEYS do
+                    if ARGV[1] == "" then
+                        redis.call("persist", KEYS[i])
+                    else
+                        redis.call("pexpire", KEYS[i], ARGV[1])
+                    end
+                end
+                for _, tagKey in ipairs(redis.call("smembers", KEYS[5])) do
+                    extendTagSet(tagKey, ARGV[1])
+                end
+                return 1
+                `,
+        });
+    }
+
+    private initUpdateIfVersionCommand(): void {
+        if (typeof this.database.daiso_cache_update_if_version === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_cache_update_if_version", {
+            numberOfKeys: 1,
+            lua: `
+                ${TAG_SET_LUA_FUNCTIONS}
+
+                local keyType = redis.call("type", KEYS[1]).ok
+                if keyType == "none" or getVersion(KEYS[1], keyType) ~= ARGV[2] then
+                    return 0
+                end
+
+                redis.call("set", KEYS[1], ARGV[1], "KEEPTTL")
+                return 1
+                `,
+        });
+    }
+
+    private initRemoveCommand(): void {
+        if (typeof this.database.daiso_cache_remove === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_cache_remove", {
+            lua: `
+                ${TAG_SET_LUA_FUNCTIONS}
+
+                local count = 0
+                for i = 1, #KEYS do
+                    count = count + removeKey(KEYS[i])
+                end
+                return count
+                `,
+        });
+    }
+
+    private initRemoveByTagsCommand(): void {
+        if (typeof this.database.daiso_cache_remove_by_tags === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_cache_remove_by_tags", {
+            lua: `
+                ${TAG_SET_LUA_FUNCTIONS}
+
+                for i = 1, #KEYS do
+                    local keys = redis.call("smembers", KEYS[i])
+                    for _, key in ipairs(keys) do
+                        -- A key that expired and was rewritten without the tag can still be a member of the tag set.
+                        if redis.call("sismember", getMetaKey("tags", key), KEYS[i]) == 1 then
+                            removeKey(key)
+                        end
+                    end
+                    redis.call("del", KEYS[i])
+                end
+
+                return 1
+                `,
+        });
+    }
+
+    private getWriteArgs(
+        mode: "NX" | "GET",
         key: string,
         value: TType,
         ttl: TimeSpan | null,
+        settings: CacheAdapterWriteSettings = {},
+    ): [numberOfKeys: number, ...keysAndArgs: Array<string>] {
+        const {
+            tags = [],
+            freshTtl = null,
+            slidingTtl = null,
+            recomputeDuration = null,
+        } = settings;
+        const tagKeys = tags.map((tag) => RedisCacheAdapter.getTagKey(tag));
+        return [
+            tagKeys.length + 5,
+            ...RedisCacheAdapter.getMetaKeys(key),
+            ...tagKeys,
+            mode,
+            this.serde.serialize(value),
+            ttl === null ? "" : String(ttl.toMilliseconds()),
+            freshTtl === null ? "" : String(freshTtl.toEndDate().getTime()),
+            slidingTtl === null ? "" : String(slidingTtl.toMilliseconds()),
+            recomputeDuration === null
+                ? ""
+                : String(recomputeDuration.toMilliseconds()),
+        ];
+    }
+
+    private async write(
+        mode: "NX" | "GET",
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
     ): Promise<boolean> {
-        if (ttl === null) {
-            const result = await this.database.set(
-                key,
-                this.serde.serialize(value),
-                "NX",
+        const result = await this.database.daiso_cache_write(
+            ...this.getWriteArgs(mode, key, value, ttl, settings),
+        );
+        return result === 1;
+    }
+
+    private async writeMany(
+        mode: "NX" | "GET",
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        if (items.length === 0) {
+            return [];
+        }
+        const pipeline = this.database.pipeline();
+        for (const { key, value, ttl, settings } of items) {
+            pipeline.daiso_cache_write(
+                ...this.getWriteArgs(mode, key, value, ttl, settings),
             );
-            return result === "OK";
         }
-        const result = await this.database.set(
-            key,
-            this.serde.serialize(value),
-            "PX",
-            ttl.toMilliseconds(),
-            "NX",
+        const results = (await pipeline.exec()) ?? [];
+        return results.map(([error, result]) => {
+            if (error !== null) {
+                throw error;
+            }
+            return result === 1;
+        });
+    }
+
+    private toValue(type: string, payload: Array<string>): TType {
+        if (type === "hash") {
+            const hash: Record<string, unknown> = {};
+            for (let index = 0; index < payload.length; index += 2) {
+                hash[payload[index] as string] = this.serde.deserialize(
+                    payload[index + 1] as string,
+                );
+            }
+            return hash as TType;
+        }
+        if (type === "set") {
+            return payload as TType;
+        }
+        return this.serde.deserialize<TType>(payload[0] as string);
+    }
+
+    private toEntry(result: RedisCacheGetResult): ICacheEntry<TType> | null {
+        const [type, staleAt, recomputeDuration, ttl, ...payload] = result;
+        if (type === "none") {
+            return null;
+        }
+        return {
+            value: this.toValue(type, payload),
+            isStale: staleAt !== "" && Number(staleAt) <= Date.now(),
+            staleAt: staleAt === "" ? undefined : new Date(Number(staleAt)),
+            expiration:
+                ttl === ""
+                    ? undefined
+                    : TimeSpan.fromMilliseconds(Number(ttl)).toEndDate(),
+            recomputeDuration:
+                recomputeDuration === ""
+                    ? undefined
+                    : TimeSpan.fromMilliseconds(Number(recomputeDuration)),
+        };
+    }
+
+    async get(key: string): Promise<TType | null> {
+        const entry = await this.getEntry(key);
+        return entry?.value ?? null;
+    }
+
+    async getMany(
+        keys: Array<string>,
+        settings: CacheAdapterReadSettings = {},
+    ): Promise<Array<TType | null>> {
+        const { shouldSlide = true } = settings;
+        if (keys.length === 0) {
+            return [];
+        }
+        const pipeline = this.database.pipeline();
+        for (const key of keys) {
+            pipeline.daiso_cache_get(
+                ...RedisCacheAdapter.getMetaKeys(key),
+                shouldSlide ? "SLIDE" : "READ",
+            );
+        }
+        const results = (await pipeline.exec()) ?? [];
+        return results.map(([error, result]) => {
+            if (error !== null) {
+                throw error;
+            }
+            return this.toEntry(result as RedisCacheGetResult)?.value ?? null;
+        });
+    }
+
+    async getEntry(key: string): Promise<ICacheEntry<TType> | null> {
+        return this.toEntry(
+            await this.database.daiso_cache_get(
+                ...RedisCacheAdapter.getMetaKeys(key),
+                "SLIDE",
+            ),
         );
-        return result === "OK";
+    }
+
+    /**
+     * The version is the SHA1 hash of the stored value, meaning it changes every time the value changes.
+     */
+    async getWithVersion(
+        key: string,
+    ): Promise<ICacheVersionedEntry<TType> | null> {
+        const result = await this.database.daiso_cache_get(
+            ...RedisCacheAdapter.getMetaKeys(key),
+            "SLIDE",
+        );
+        const [type, , , , ...payload] = result;
+        if (type === "none") {
+            return null;
+        }
+        return {
+            value: this.toValue(type, payload),
+            version: RedisCacheAdapter.getVersion(type, payload),
+        };
+    }
+
+    async getAndRemove(key: string): Promise<TType | null> {
+        const entry = this.toEntry(
+            await this.database.daiso_cache_get(
+                ...RedisCacheAdapter.getMetaKeys(key),
+                "REMOVE",
+            ),
+        );
+        return entry?.value ?? null;
+    }
+
+    async add(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
+        return await this.write("NX", key, value, ttl, settings);
     }
 
     async put(
         key: string,
         value: TType,
         ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
     ): Promise<boolean> {
-        if (ttl === null) {
-            const result = await this.database.set(
-                key,
-                this.serde.serialize(value),
-                "GET",
-            );
-            return result !== null;
+        return await this.write("GET", key, value, ttl, settings);
+    }
+
+    async addMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await this.writeMany("NX", items);
+    }
+
+    async putMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await this.writeMany("GET", items);
+    }
+
+    async getTtl(key: string): Promise<TimeSpan | null> {
+        const ttlInMs = await this.database.pttl(key);
+        // Negative values means the key is not found or has no expiration.
+        if (ttlInMs < 0) {
+            return null;
         }
-        const result = await this.database.set(
-            key,
-            this.serde.serialize(value),
-            "PX",
-            ttl.toMilliseconds(),
-            "GET",
+        return TimeSpan.fromMilliseconds(ttlInMs);
+    }
+
+    async touch(key: string, ttl: TimeSpan | null): Promise<boolean> {
+        const result = await this.database.daiso_cache_touch(
+            ...RedisCacheAdapter.getMetaKeys(key),
+            ttl === null ? "" : String(ttl.toMilliseconds()),
         );
-        return result !== null;
+        return result === 1;
     }
 
     async update(key: string, value: TType): Promise<boolean> {
@@ -168,6 +848,19 @@ export class RedisCacheAdapter<TType = unknown>
         return result === "OK";
     }
 
+    async updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean> {
+        const result = await this.database.daiso_cache_update_if_version(
+            key,
+            this.serde.serialize(value),
+            version,
+        );
+        return result === 1;
+    }
+
     async increment(key: string, value: number): Promise<boolean> {
         try {
             const redisResult = await this.database.daiso_cache_increment(
@@ -177,27 +870,155 @@ export class RedisCacheAdapter<TType = unknown>
             const keyExists = redisResult === 1;
             return keyExists;
         } catch (error: unknown) {
-            if (!RedisCacheAdapter.isRedisTypeError(error)) {
+            if (
+                !RedisCacheAdapter.isRedisTypeError(error) &&
+                !RedisCacheAdapter.isRedisWrongTypeError(error)
+            ) {
                 throw error;
             }
-            throw new TypeError(
+            throw new KeyTypeCacheError(
                 `Unable to increment or decrement none number type key "${key}"`,
             );
         }
     }
 
+    async hget(key: string, field: string): Promise<TType | null> {
+        const value = await RedisCacheAdapter.withType("hash", key, () =>
+            this.database.hget(key, field),
+        );
+        if (value === null) {
+            return null;
+        }
+        return this.serde.deserialize(value);
+    }
+
+    /**
+     * Note hashes are stored as native Redis hashes with serialized field values, the `get` method returns them as objects.
+     */
+    async hset(key: string, field: string, value: TType): Promise<boolean> {
+        const result = await RedisCacheAdapter.withType("hash", key, () =>
+            this.database.hset(key, field, this.serde.serialize(value)),
+        );
+        return result === 1;
+    }
+
+    async hincrement(
+        key: string,
+        field: string,
+        value: number,
+    ): Promise<number> {
+        try {
+            const result = await this.database.hincrbyfloat(key, field, value);
+            return Number(result);
+        } catch (error: unknown) {
+            if (RedisCacheAdapter.isRedisWrongTypeError(error)) {
+                throw new KeyTypeCacheError(
+                    `Unable to use none hash type key "${key}"`,
+                    error,
+                );
+            }
+            if (RedisCacheAdapter.isRedisNotFloatError(error)) {
+                throw new KeyTypeCacheError(
+                    `Unable to increment or decrement none number type field "${field}" of key "${key}"`,
+                    error,
+                );
+            }
+            throw error;
+        }
+    }
+
+    async hremove(key: string, fields: Array<string>): Promise<boolean> {
+        if (fields.length === 0) {
+            return false;
+        }
+        const result = await RedisCacheAdapter.withType("hash", key, () =>
+            this.database.hdel(key, ...fields),
+        );
+        return result > 0;
+    }
+
+    /**
+     * Note sets are stored as native Redis sets, the `get` method returns them as arrays.
+     */
+    async sadd(key: string, members: Array<string>): Promise<boolean> {
+        if (members.length === 0) {
+            return false;
+        }
+        const result = await RedisCacheAdapter.withType("set", key, () =>
+            this.database.sadd(key, ...members),
+        );
+        return result > 0;
+    }
+
+    async sremove(key: string, members: Array<string>): Promise<boolean> {
+        if (members.length === 0) {
+            return false;
+        }
+        const result = await RedisCacheAdapter.withType("set", key, () =>
+            this.database.srem(key, ...members),
+        );
+        return result > 0;
+    }
+
+    async smembers(key: string): Promise<Array<string>> {
+        return await RedisCacheAdapter.withType("set", key, () =>
+            this.database.smembers(key),
+        );
+    }
+
     async removeMany(keys: Array<string>): Promise<boolean> {
-        const deleteResult = await this.database.del(...keys);
-        return deleteResult > 0;
+        if (keys.length === 0) {
+            return false;
+        }
+        const result = await this.database.daiso_cache_remove(
+            keys.length,
+            ...keys,
+        );
+        return result > 0;
     }
 
     async removeAll(): Promise<void> {
         await this.database.flushdb();
     }
 
+    /**
+     * Note `SCAN` can return the same key multiple times, thats why the yielded keys are tracked.
+     */
+    async *getKeysByKeyPrefix(prefix: string): AsyncIterable<string> {
+        const yieldedKeys = new Set<string>();
+        for await (const key of new ScanIterable(this.database, prefix)) {
+            if (RedisCacheAdapter.isMetaKey(key) || yieldedKeys.has(key)) {
+                continue;
+            }
+            yieldedKeys.add(key);
+            yield key;
+        }
+    }
+
+    /**
+     * Note the meta keys of the keys and the tag sets whose tag starts with the prefix are removed aswell.
+     */
     async removeByKeyPrefix(prefix: string): Promise<void> {
-        for await (const _ of new ClearIterable(this.database, prefix)) {
-            /* Empty */
+        const prefixes = [
+            prefix,
+            ...META_TYPES.map((metaType) =>
+                RedisCacheAdapter.getMetaKey(metaType, prefix),
+            ),
+        ];
+        for (const prefix_ of prefixes) {
+            for await (const _ of new ClearIterable(this.database, prefix_)) {
+                /* Empty */
+            }
         }
     }
+
+    async removeByTags(tags: Array<string>): Promise<void> {
+        if (tags.length === 0) {
+            return;
+        }
+        await this.database.daiso_cache_remove_by_tags(
+            tags.length,
+            ...tags.map((tag) => RedisCacheAdapter.getTagKey(tag)),
+        );
+    }
 }
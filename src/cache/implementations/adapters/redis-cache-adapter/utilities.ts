@@ -78,3 +78,28 @@ export class ClearIterable implements AsyncIterable<void> {
         } while (coursor !== 0);
     }
 }
+
+/**
+ * @internal
+ */
+export class ScanIterable implements AsyncIterable<string> {
+    constructor(
+        private readonly client: Redis,
+        private readonly pattern: string,
+    ) {
+        this.pattern = `${escapeRedisChars(pattern)}*`;
+    }
+
+    async *[Symbol.asyncIterator](): AsyncIterator<string> {
+        let coursor = "0";
+        do {
+            const [nextCoursor, elements] = await this.client.scan(
+                coursor,
+                "MATCH",
+                this.pattern,
+            );
+            yield* elements;
+            coursor = nextCoursor;
+        } while (coursor !== "0");
+    }
+}
@@ -0,0 +1 @@
+export * from "@/cache/implementations/adapters/sqlite-cache-adapter/sqlite-cache-adapter.js";
@@ -0,0 +1,32 @@
+import Sqlite, { type Database } from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+
+import { SqliteCacheAdapter } from "@/cache/implementations/adapters/sqlite-cache-adapter/_module.js";
+import { databaseCacheAdapterTestSuite } from "@/cache/implementations/test-utilities/_module.js";
+import { SuperJsonSerdeAdapter } from "@/serde/implementations/adapters/_module.js";
+import { Serde } from "@/serde/implementations/derivables/_module.js";
+
+describe("class: SqliteCacheAdapter", () => {
+    let database: Database;
+    beforeEach(() => {
+        database = new Sqlite(":memory:");
+    });
+    afterEach(() => {
+        database.close();
+    });
+    databaseCacheAdapterTestSuite({
+        createAdapter: async () => {
+            const adapter = new SqliteCacheAdapter({
+                database,
+                shouldRemoveExpiredKeys: false,
+                serde: new Serde(new SuperJsonSerdeAdapter()),
+            });
+            await adapter.init();
+            return adapter;
+        },
+        test,
+        beforeEach,
+        expect,
+        describe,
+    });
+});
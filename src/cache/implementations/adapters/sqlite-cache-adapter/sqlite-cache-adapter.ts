@@ -0,0 +1,532 @@
+/**
+ * @module Cache
+ */
+
+import { v4 } from "uuid";
+
+import {
+    type ICacheData,
+    type ICacheDataExpiration,
+    type DatabaseCacheUpsertSettings,
+    type IDatabaseCacheAdapter,
+    type IDatabaseCacheTransaction,
+} from "@/cache/contracts/_module.js";
+import { type ISerde } from "@/serde/contracts/_module.js";
+import { type ITimeSpan } from "@/time-span/contracts/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
+import {
+    type IDeinitizable,
+    type IInitizable,
+    type InvokableFn,
+    type IPrunable,
+    type ISqliteDatabase,
+    type ISqliteStatement,
+} from "@/utilities/_module.js";
+
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/cache/sqlite-cache-adapter"`
+ * @group Adapters
+ */
+export type SqliteCacheAdapterSettings = {
+    database: ISqliteDatabase;
+
+    serde: ISerde<string>;
+
+    /**
+     * @default
+     * ```ts
+     * import { TimeSpan } from "@daiso-tech/core/time-span";
+     *
+     * TimeSpan.fromMinutes(1)
+     * ```
+     */
+    expiredKeysRemovalInterval?: ITimeSpan;
+
+    /**
+     * @default true
+     */
+    shouldRemoveExpiredKeys?: boolean;
+
+    /**
+     * The number of keys fetched per page when listing keys.
+     * @default 100
+     */
+    keysPageSize?: number;
+};
+
+type SqliteCacheRow = {
+    key: string;
+    value: string;
+    // In ms since unix epoch
+    expiration: number | bigint | null;
+    // In ms since unix epoch
+    stale_at: number | bigint | null;
+    // In ms
+    sliding_ttl: number | bigint | null;
+    version: string | null;
+    // In ms
+    recompute_duration: number | bigint | null;
+};
+
+type SqliteCacheExpirationRow = Pick<SqliteCacheRow, "expiration">;
+
+type PrepareFn = InvokableFn<[sql: string], ISqliteStatement>;
+
+function toCacheData<TType>(
+    row: SqliteCacheRow,
+    serde: ISerde<string>,
+): ICacheData<TType> {
+    return {
+        value: serde.deserialize(row.value),
+        expiration:
+            row.expiration === null ? null : new Date(Number(row.expiration)),
+        staleAt:
+            row.stale_at === null ? undefined : new Date(Number(row.stale_at)),
+        slidingTtl:
+            row.sliding_ttl === null
+                ? undefined
+                : TimeSpan.fromMilliseconds(Number(row.sliding_ttl)),
+        version: row.version ?? "",
+        recomputeDuration:
+            row.recompute_duration === null
+                ? undefined
+                : TimeSpan.fromMilliseconds(Number(row.recompute_duration)),
+    };
+}
+
+function toCacheDataExpiration(
+    row: SqliteCacheExpirationRow,
+): ICacheDataExpiration {
+    return {
+        expiration:
+            row.expiration === null ? null : new Date(Number(row.expiration)),
+    };
+}
+
+/**
+ * Escapes the glob wildcards so the `value` is matched literally.
+ */
+function escapeGlob(value: string): string {
+    return value.replace(/[*?[]/g, (char) => `[${char}]`);
+}
+
+const SELECT_SQL = `SELECT key, value, expiration, stale_at, sliding_ttl, version, recompute_duration FROM cache WHERE key = ?`;
+
+const UPSERT_SQL = `
+INSERT INTO cache (key, value, expiration, stale_at, sliding_ttl, version, recompute_duration)
+VALUES (?, ?, ?, ?, ?, ?, ?)
+ON CONFLICT (key) DO UPDATE SET
+    value = excluded.value,
+    version = excluded.version,
+    expiration = CASE WHEN ? = 1 THEN excluded.expiration ELSE cache.expiration END,
+    stale_at = CASE WHEN ? = 1 THEN excluded.stale_at ELSE cache.stale_at END,
+    sliding_ttl = CASE WHEN ? = 1 THEN excluded.sliding_ttl ELSE cache.sliding_ttl END,
+    recompute_duration = CASE WHEN ? = 1 THEN excluded.recompute_duration ELSE cache.recompute_duration END`;
+
+const UNEXPIRED_SQL = `(expiration IS NULL OR expiration > ?)`;
+
+/**
+ * @internal
+ */
+class SqliteCacheTransaction<TType>
+    implements IDatabaseCacheTransaction<TType>
+{
+    constructor(
+        private readonly prepare: PrepareFn,
+        private readonly serde: ISerde<string>,
+    ) {}
+
+    find(key: string): Promise<ICacheData<TType> | null> {
+        const [row] = this.prepare(SELECT_SQL).all([key]) as Array<
+            SqliteCacheRow | undefined
+        >;
+        if (row === undefined) {
+            return Promise.resolve(null);
+        }
+        return Promise.resolve(toCacheData(row, this.serde));
+    }
+
+    upsert(
+        key: string,
+        value: TType,
+        expiration?: Date | null,
+        settings: DatabaseCacheUpsertSettings = {},
+    ): Promise<void> {
+        const { tags, staleAt, slidingTtl, recomputeDuration } = settings;
+        this.prepare(UPSERT_SQL).run([
+            key,
+            this.serde.serialize(value),
+            expiration?.getTime() ?? null,
+            staleAt?.getTime() ?? null,
+            slidingTtl?.toMilliseconds() ?? null,
+            v4(),
+            recomputeDuration?.toMilliseconds() ?? null,
+            Number(expiration !== undefined),
+            Number(staleAt !== undefined),
+            Number(slidingTtl !== undefined),
+            Number(recomputeDuration !== undefined),
+        ]);
+
+        if (tags === undefined) {
+            return Promise.resolve();
+        }
+        this.prepare(`DELETE FROM cache_tag WHERE key = ?`).run([key]);
+        const insertTag = this.prepare(
+            `INSERT INTO cache_tag (key, tag) VALUES (?, ?)`,
+        );
+        for (const tag of new Set(tags)) {
+            insertTag.run([key, tag]);
+        }
+        return Promise.resolve();
+    }
+}
+
+/**
+ * The `SqliteCacheAdapter` is built directly on {@link ISqliteDatabase | `ISqliteDatabase`} contract, meaning you can use it with [`better-sqlite3`](https://www.npmjs.com/package/better-sqlite3) without installing [`kysely`](https://www.npmjs.com/package/kysely).
+ * All statements are prepared once and reused, and all operations are executed one at a time as the database connection is shared.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache/sqlite-cache-adapter"`
+ * @group Adapters
+ */
+export class SqliteCacheAdapter<TType = unknown>
+    implements
+        IDatabaseCacheAdapter<TType>,
+        IInitizable,
+        IDeinitizable,
+        IPrunable
+{
+    private readonly database: ISqliteDatabase;
+    private readonly serde: ISerde<string>;
+    private readonly shouldRemoveExpiredKeys: boolean;
+    private readonly expiredKeysRemovalInterval: TimeSpan;
+    private readonly keysPageSize: number;
+    private readonly statements = new Map<string, ISqliteStatement>();
+    private timeoutId: NodeJS.Timeout | string | number | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * @example
+     * ```ts
+     * import { SqliteCacheAdapter } from "@daiso-tech/core/cache/sqlite-cache-adapter";
+     * import { Serde } from "@daiso-tech/core/serde";
+     * import { SuperJsonSerdeAdapter } from "@daiso-tech/core/serde/super-json-serde-adapter"
+     * import Sqlite from "better-sqlite3";
+     *
+     * const serde = new Serde(new SuperJsonSerdeAdapter());
+     * const cacheAdapter = new SqliteCacheAdapter({
+     *   database: new Sqlite("local.db"),
+     *   serde,
+     * });
+     * // You need initialize the adapter once before using it.
+     * await cacheAdapter.init();
+     * ```
+     */
+    constructor(settings: SqliteCacheAdapterSettings) {
+        const {
+            database,
+            serde,
+            expiredKeysRemovalInterval = TimeSpan.fromMinutes(1),
+            shouldRemoveExpiredKeys = true,
+            keysPageSize = 100,
+        } = settings;
+        this.database = database;
+        this.serde = serde;
+        this.expiredKeysRemovalInterval = TimeSpan.fromTimeSpan(
+            expiredKeysRemovalInterval,
+        );
+        this.shouldRemoveExpiredKeys = shouldRemoveExpiredKeys;
+        this.keysPageSize = keysPageSize;
+    }
+
+    private prepare(sql: string): ISqliteStatement {
+        let statement = this.statements.get(sql);
+        if (statement === undefined) {
+            statement = this.database.prepare(sql);
+            this.statements.set(sql, statement);
+        }
+        return statement;
+    }
+
+    /**
+     * Runs the `fn` after all previously queued operations have settled, ensuring a transaction never interleaves with other operations on the shared connection.
+     */
+    private exclusive<TValue>(
+        fn: () => Promise<TValue> | TValue,
+    ): Promise<TValue> {
+        const result = this.queue.then(fn);
+        this.queue = result.then(
+            () => undefined,
+            () => undefined,
+        );
+        return result;
+    }
+
+    async removeAllExpired(): Promise<void> {
+        await this.exclusive(() => {
+            this.prepare(`DELETE FROM cache WHERE expiration <= ?`).run([
+                Date.now(),
+            ]);
+            this.prepare(
+                `DELETE FROM cache_tag WHERE key NOT IN (SELECT key FROM cache)`,
+            ).run([]);
+        });
+    }
+
+    async init(): Promise<void> {
+        await this.exclusive(() => {
+            this.database
+                .prepare(
+                    `CREATE TABLE IF NOT EXISTS cache (
+                        key TEXT PRIMARY KEY,
+                        value TEXT NOT NULL,
+                        expiration INTEGER,
+                        stale_at INTEGER,
+                        sliding_ttl INTEGER,
+                        version TEXT,
+                        recompute_duration INTEGER
+                    )`,
+                )
+                .run([]);
+            this.database
+                .prepare(
+                    `CREATE INDEX IF NOT EXISTS cache_expiration ON cache (expiration)`,
+                )
+                .run([]);
+            this.database
+                .prepare(
+                    `CREATE TABLE IF NOT EXISTS cache_tag (
+                        key TEXT NOT NULL,
+                        tag TEXT NOT NULL,
+                        PRIMARY KEY (key, tag)
+                    )`,
+                )
+                .run([]);
+            this.database
+                .prepare(
+                    `CREATE INDEX IF NOT EXISTS cache_tag_tag ON cache_tag (tag)`,
+                )
+                .run([]);
+        });
+
+        if (this.shouldRemoveExpiredKeys && this.timeoutId === null) {
+            this.timeoutId = setInterval(() => {
+                // eslint-disable-next-line @typescript-eslint/no-floating-promises
+                this.removeAllExpired();
+            }, this.expiredKeysRemovalInterval.toMilliseconds());
+        }
+    }
+
+    /**
+     * Removes all related cache tables and their rows.
+     * Note all cache data will be removed.
+     */
+    async deInit(): Promise<void> {
+        if (this.shouldRemoveExpiredKeys && this.timeoutId !== null) {
+            clearInterval(this.timeoutId);
+            this.timeoutId = null;
+        }
+
+        await this.exclusive(() => {
+            this.statements.clear();
+            this.database.prepare(`DROP INDEX IF EXISTS cache_tag_tag`).run([]);
+            this.database.prepare(`DROP TABLE IF EXISTS cache_tag`).run([]);
+            this.database
+                .prepare(`DROP INDEX IF EXISTS cache_expiration`)
+                .run([]);
+            this.database.prepare(`DROP TABLE IF EXISTS cache`).run([]);
+        });
+    }
+
+    async find(key: string): Promise<ICacheData<TType> | null> {
+        const [row] = await this.exclusive(
+            () =>
+                this.prepare(SELECT_SQL).all([key]) as Array<
+                    SqliteCacheRow | undefined
+                >,
+        );
+        if (row === undefined) {
+            return null;
+        }
+        return toCacheData(row, this.serde);
+    }
+
+    async findMany(
+        keys: Array<string>,
+    ): Promise<Array<ICacheData<TType> | null>> {
+        if (keys.length === 0) {
+            return [];
+        }
+        const rows = await this.exclusive(
+            () =>
+                this.prepare(
+                    `SELECT key, value, expiration, stale_at, sliding_ttl, version, recompute_duration FROM cache WHERE key IN (SELECT value FROM json_each(?))`,
+                ).all([JSON.stringify(keys)]) as Array<SqliteCacheRow>,
+        );
+        const rowsByKey = new Map(rows.map((row) => [row.key, row]));
+        return keys.map((key) => {
+            const row = rowsByKey.get(key);
+            if (row === undefined) {
+                return null;
+            }
+            return toCacheData(row, this.serde);
+        });
+    }
+
+    async transaction<TValue>(
+        trxFn: InvokableFn<
+            [trx: IDatabaseCacheTransaction<TType>],
+            Promise<TValue>
+        >,
+    ): Promise<TValue> {
+        return await this.exclusive(async () => {
+            this.prepare(`BEGIN IMMEDIATE`).run([]);
+            try {
+                const value = await trxFn(
+                    new SqliteCacheTransaction(
+                        (sql) => this.prepare(sql),
+                        this.serde,
+                    ),
+                );
+                this.prepare(`COMMIT`).run([]);
+                return value;
+            } catch (error: unknown) {
+                this.prepare(`ROLLBACK`).run([]);
+                throw error;
+            }
+        });
+    }
+
+    async update(
+        key: string,
+        value: TType,
+    ): Promise<ICacheDataExpiration | null> {
+        const [row] = await this.exclusive(
+            () =>
+                this.prepare(
+                    `UPDATE cache SET value = ?, version = ? WHERE key = ? RETURNING expiration`,
+                ).all([this.serde.serialize(value), v4(), key]) as Array<
+                    SqliteCacheExpirationRow | undefined
+                >,
+        );
+        if (row === undefined) {
+            return null;
+        }
+        return toCacheDataExpiration(row);
+    }
+
+    /**
+     * Note a key without a version is matched by an empty `version`.
+     */
+    async updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean> {
+        const result = await this.exclusive(() =>
+            this.prepare(
+                `UPDATE cache SET value = ?, version = ? WHERE key = ? AND coalesce(version, '') = ? AND ${UNEXPIRED_SQL}`,
+            ).run([
+                this.serde.serialize(value),
+                v4(),
+                key,
+                version,
+                Date.now(),
+            ]),
+        );
+        return Number(result.changes) > 0;
+    }
+
+    async updateExpiration(
+        key: string,
+        expiration: Date | null,
+    ): Promise<boolean> {
+        const result = await this.exclusive(() =>
+            this.prepare(
+                `UPDATE cache SET expiration = ? WHERE key = ? AND ${UNEXPIRED_SQL}`,
+            ).run([expiration?.getTime() ?? null, key, Date.now()]),
+        );
+        return Number(result.changes) > 0;
+    }
+
+    async removeMany(
+        keys: Array<string>,
+    ): Promise<Array<ICacheDataExpiration>> {
+        const rows = await this.exclusive(() => {
+            const serializedKeys = JSON.stringify(keys);
+            const rows = this.prepare(
+                `DELETE FROM cache WHERE key IN (SELECT value FROM json_each(?)) RETURNING expiration`,
+            ).all([serializedKeys]) as Array<SqliteCacheExpirationRow>;
+            this.prepare(
+                `DELETE FROM cache_tag WHERE key IN (SELECT value FROM json_each(?))`,
+            ).run([serializedKeys]);
+            return rows;
+        });
+        return rows.map(toCacheDataExpiration);
+    }
+
+    async removeAll(): Promise<void> {
+        await this.exclusive(() => {
+            this.prepare(`DELETE FROM cache`).run([]);
+            this.prepare(`DELETE FROM cache_tag`).run([]);
+        });
+    }
+
+    /**
+     * The keys are fetched with keyset pagination on the key column.
+     */
+    async *findKeysByKeyPrefix(prefix: string): AsyncIterable<string> {
+        const pattern = `${escapeGlob(prefix)}*`;
+        let lastKey = "";
+        do {
+            const rows = await this.exclusive(
+                () =>
+                    this.prepare(
+                        `SELECT key FROM cache WHERE key GLOB ? AND key > ? AND ${UNEXPIRED_SQL} ORDER BY key LIMIT ?`,
+                    ).all([
+                        pattern,
+                        lastKey,
+                        Date.now(),
+                        this.keysPageSize,
+                    ]) as Array<Pick<SqliteCacheRow, "key">>,
+            );
+            for (const row of rows) {
+                yield row.key;
+            }
+            lastKey =
+                rows.length < this.keysPageSize ? "" : (rows.at(-1)?.key ?? "");
+        } while (lastKey !== "");
+    }
+
+    async removeByKeyPrefix(prefix: string): Promise<void> {
+        const pattern = `${escapeGlob(prefix)}*`;
+        await this.exclusive(() => {
+            this.prepare(`DELETE FROM cache WHERE key GLOB ?`).run([pattern]);
+            this.prepare(`DELETE FROM cache_tag WHERE key GLOB ?`).run([
+                pattern,
+            ]);
+        });
+    }
+
+    async removeByTags(tags: Array<string>): Promise<void> {
+        if (tags.length === 0) {
+            return;
+        }
+        await this.exclusive(() => {
+            const keys = JSON.stringify(
+                (
+                    this.prepare(
+                        `SELECT DISTINCT key FROM cache_tag WHERE tag IN (SELECT value FROM json_each(?))`,
+                    ).all([JSON.stringify(tags)]) as Array<
+                        Pick<SqliteCacheRow, "key">
+                    >
+                ).map((row) => row.key),
+            );
+            this.prepare(
+                `DELETE FROM cache WHERE key IN (SELECT value FROM json_each(?))`,
+            ).run([keys]);
+            this.prepare(
+                `DELETE FROM cache_tag WHERE key IN (SELECT value FROM json_each(?))`,
+            ).run([keys]);
+        });
+    }
+}
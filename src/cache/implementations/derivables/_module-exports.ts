@@ -1,2 +1,3 @@
 export * from "@/cache/implementations/derivables/cache/_module.js";
 export * from "@/cache/implementations/derivables/cache-factory/_module.js";
+export * from "@/cache/implementations/derivables/cache-metrics-collector/_module.js";
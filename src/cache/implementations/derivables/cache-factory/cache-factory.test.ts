@@ -0,0 +1,293 @@
+import { describe, expect, test, vi } from "vitest";
+
+import {
+    CACHE_EVENTS,
+    type UnexpectedErrorCacheEvent,
+} from "@/cache/contracts/_module.js";
+import { MemoryCacheAdapter } from "@/cache/implementations/adapters/_module.js";
+import {
+    Cache,
+    CacheFactory,
+} from "@/cache/implementations/derivables/_module.js";
+import { MemoryEventBusAdapter } from "@/event-bus/implementations/adapters/_module.js";
+import { EventBus } from "@/event-bus/implementations/derivables/_module.js";
+import { Namespace } from "@/namespace/implementations/_module.js";
+
+describe("class: CacheFactory", () => {
+    const namespace = new Namespace("cache");
+    describe("routes:", () => {
+        test("Should route keys starting with keyPrefix to the route adapter", async () => {
+            const memoryA = new MemoryCacheAdapter();
+            const memoryB = new MemoryCacheAdapter();
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA,
+                    memoryB,
+                },
+                defaultAdapter: "memoryA",
+                routes: [{ keyPrefix: "sessions/", adapter: "memoryB" }],
+            });
+
+            await cacheFactory.use().add("sessions/1", 1);
+            await cacheFactory.use().add("reports/1", 2);
+
+            const cacheA = new Cache({ namespace, adapter: memoryA });
+            const cacheB = new Cache({ namespace, adapter: memoryB });
+            expect(await cacheA.get("sessions/1")).toBeNull();
+            expect(await cacheB.get("sessions/1")).toBe(1);
+            expect(await cacheA.get("reports/1")).toBe(2);
+            expect(await cacheB.get("reports/1")).toBeNull();
+        });
+        test("Should route keys of the namespace to the route adapter", async () => {
+            const memoryA = new MemoryCacheAdapter();
+            const memoryB = new MemoryCacheAdapter();
+            const reportsNamespace = new Namespace("reports");
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA,
+                    memoryB,
+                },
+                defaultAdapter: "memoryA",
+                routes: [{ namespace: reportsNamespace, adapter: "memoryB" }],
+            });
+
+            await cacheFactory.setNamespace(reportsNamespace).use().add("a", 1);
+            await cacheFactory.use().add("a", 2);
+
+            const reportsCacheB = new Cache({
+                namespace: reportsNamespace,
+                adapter: memoryB,
+            });
+            const cacheA = new Cache({ namespace, adapter: memoryA });
+            expect(await reportsCacheB.get("a")).toBe(1);
+            expect(await cacheA.get("a")).toBe(2);
+        });
+        test("Should return values of keys routed to different adapters in the same order", async () => {
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA: new MemoryCacheAdapter(),
+                    memoryB: new MemoryCacheAdapter(),
+                },
+                defaultAdapter: "memoryA",
+                routes: [{ keyPrefix: "sessions/", adapter: "memoryB" }],
+            });
+            const cache = cacheFactory.use();
+
+            await cache.putMany({
+                "sessions/1": 1,
+                "reports/1": 2,
+                "sessions/2": 3,
+            });
+
+            expect(
+                await cache.getMany(["reports/1", "sessions/2", "sessions/1"]),
+            ).toEqual({
+                "reports/1": 2,
+                "sessions/2": 3,
+                "sessions/1": 1,
+            });
+        });
+        test("Should clear keys in all routed adapters", async () => {
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA: new MemoryCacheAdapter(),
+                    memoryB: new MemoryCacheAdapter(),
+                },
+                defaultAdapter: "memoryA",
+                routes: [{ keyPrefix: "sessions/", adapter: "memoryB" }],
+            });
+            const cache = cacheFactory.use();
+            await cache.add("sessions/1", 1);
+            await cache.add("reports/1", 2);
+
+            await cache.clear();
+
+            expect(await cache.getMany(["sessions/1", "reports/1"])).toEqual({
+                "sessions/1": null,
+                "reports/1": null,
+            });
+        });
+    });
+    describe("fallbackAdapter:", () => {
+        test("Should write and read with the fallback adapter when the adapter throws", async () => {
+            const memoryA = new MemoryCacheAdapter();
+            const memoryB = new MemoryCacheAdapter();
+            vi.spyOn(memoryA, "add").mockRejectedValue(
+                new Error("Unavailable"),
+            );
+            vi.spyOn(memoryA, "get").mockRejectedValue(
+                new Error("Unavailable"),
+            );
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA,
+                    memoryB,
+                },
+                defaultAdapter: "memoryA",
+                fallbackAdapter: "memoryB",
+            });
+            const cache = cacheFactory.use();
+
+            await cache.add("a", 1);
+
+            expect(await cache.get("a")).toBe(1);
+            expect(
+                await new Cache({ namespace, adapter: memoryB }).get("a"),
+            ).toBe(1);
+        });
+        test("Should dispatch UnexpectedErrorCacheEvent when the adapter throws", async () => {
+            const memoryA = new MemoryCacheAdapter();
+            const error = new Error("Unavailable");
+            vi.spyOn(memoryA, "add").mockRejectedValue(error);
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA,
+                    memoryB: new MemoryCacheAdapter(),
+                },
+                defaultAdapter: "memoryA",
+                fallbackAdapter: "memoryB",
+                eventBus: new EventBus({
+                    adapter: new MemoryEventBusAdapter(),
+                }),
+            });
+            const cache = cacheFactory.use();
+            const handlerFn = vi.fn((_event: UnexpectedErrorCacheEvent) => {});
+            await cache.events.addListener(
+                CACHE_EVENTS.UNEXPECTED_ERROR,
+                handlerFn,
+            );
+
+            await cache.add("a", 1);
+
+            expect(handlerFn).toHaveBeenCalledOnce();
+            expect(handlerFn.mock.calls[0]?.[0]).toEqual({
+                namespace: "cache:_rt:",
+                keys: ["a"],
+                method: "add",
+                error,
+            } satisfies UnexpectedErrorCacheEvent);
+        });
+        test("Should not use the fallback adapter when the adapter throws TypeError", async () => {
+            const memoryA = new MemoryCacheAdapter();
+            const memoryB = new MemoryCacheAdapter();
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA,
+                    memoryB,
+                },
+                defaultAdapter: "memoryA",
+                fallbackAdapter: "memoryB",
+            });
+            const cache = cacheFactory.setType<string | number>().use();
+            await cache.add("a", "string");
+
+            await expect(cache.increment("a", 1)).rejects.toBeInstanceOf(
+                TypeError,
+            );
+        });
+        test("Should use the fallback adapter when the adapter throws TypeError that is not caused by the key type", async () => {
+            const memoryA = new MemoryCacheAdapter();
+            const memoryB = new MemoryCacheAdapter();
+            vi.spyOn(memoryA, "get").mockRejectedValue(
+                new TypeError("fetch failed"),
+            );
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA,
+                    memoryB,
+                },
+                defaultAdapter: "memoryA",
+                fallbackAdapter: "memoryB",
+            });
+            await new Cache({ namespace, adapter: memoryB }).add("a", 1);
+            const cache = cacheFactory.use();
+
+            expect(await cache.get("a")).toBe(1);
+        });
+        test("Should remove the keys written during an outage from the adapter once it is available again", async () => {
+            const memoryA = new MemoryCacheAdapter();
+            const memoryB = new MemoryCacheAdapter();
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA,
+                    memoryB,
+                },
+                defaultAdapter: "memoryA",
+                fallbackAdapter: "memoryB",
+            });
+            const cache = cacheFactory.use();
+            await cache.add("a", 1);
+            await cache.add("b", 1);
+            vi.spyOn(memoryA, "put").mockRejectedValueOnce(
+                new Error("Unavailable"),
+            );
+            vi.spyOn(memoryA, "removeMany").mockRejectedValueOnce(
+                new Error("Unavailable"),
+            );
+
+            await cache.put("a", 2);
+            await cache.remove("b");
+
+            expect(await cache.get("a")).toBeNull();
+            expect(await cache.get("b")).toBeNull();
+        });
+        test("Should retry removing the keys written during an outage while the adapter is unavailable", async () => {
+            const memoryA = new MemoryCacheAdapter();
+            const memoryB = new MemoryCacheAdapter();
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA,
+                    memoryB,
+                },
+                defaultAdapter: "memoryA",
+                fallbackAdapter: "memoryB",
+            });
+            const cache = cacheFactory.use();
+            await cache.add("a", 1);
+            vi.spyOn(memoryA, "put").mockRejectedValueOnce(
+                new Error("Unavailable"),
+            );
+            await cache.put("a", 2);
+            vi.spyOn(memoryA, "removeMany").mockRejectedValueOnce(
+                new Error("Unavailable"),
+            );
+
+            expect(await cache.get("a")).toBe(2);
+            expect(await cache.get("a")).toBeNull();
+        });
+        test("Should remove the keys written during an outage from the fallback adapter once the adapter is available again", async () => {
+            const memoryA = new MemoryCacheAdapter();
+            const memoryB = new MemoryCacheAdapter();
+            const cacheFactory = new CacheFactory({
+                namespace,
+                adapters: {
+                    memoryA,
+                    memoryB,
+                },
+                defaultAdapter: "memoryA",
+                fallbackAdapter: "memoryB",
+            });
+            const cache = cacheFactory.use();
+            vi.spyOn(memoryA, "put").mockRejectedValueOnce(
+                new Error("Unavailable"),
+            );
+            await cache.put("a", 1);
+            await cache.put("a", 2);
+            vi.spyOn(memoryA, "get").mockRejectedValueOnce(
+                new Error("Unavailable"),
+            );
+
+            expect(await cache.get("a")).toBeNull();
+        });
+    });
+});
@@ -5,16 +5,22 @@
 import { type StandardSchemaV1 } from "@standard-schema/spec";
 
 import {
+    CACHE_EVENTS,
     type CacheAdapterVariants,
     type ICache,
+    type ICacheAdapter,
     type ICacheFactory,
 } from "@/cache/contracts/_module.js";
 import {
     Cache,
     type CacheSettingsBase,
 } from "@/cache/implementations/derivables/cache/_module.js";
+import { resolveCacheAdapter } from "@/cache/implementations/derivables/cache/resolve-cache-adapter.js";
+import { FailoverCacheAdapter } from "@/cache/implementations/derivables/cache-factory/failover-cache-adapter.js";
+import { RoutedCacheAdapter } from "@/cache/implementations/derivables/cache-factory/routed-cache-adapter.js";
 import { type IEventBus } from "@/event-bus/contracts/_module.js";
 import { type INamespace } from "@/namespace/contracts/_module.js";
+import { NoOpNamespace } from "@/namespace/implementations/_module.js";
 import { type ITimeSpan } from "@/time-span/contracts/_module.js";
 import {
     DefaultAdapterNotDefinedError,
@@ -30,6 +36,37 @@ export type CacheAdapters<TAdapters extends string = string> = Partial<
     Record<TAdapters, CacheAdapterVariants<any>>
 >;
 
+/**
+ * Keys starting with `keyPrefix` are routed to the `adapter`, note the `keyPrefix` is without the namespace prefix.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export type CacheKeyPrefixRoute<TAdapters extends string = string> = {
+    keyPrefix: string;
+    adapter: TAdapters;
+};
+
+/**
+ * All keys of caches using the `namespace` are routed to the `adapter`.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export type CacheNamespaceRoute<TAdapters extends string = string> = {
+    namespace: INamespace;
+    adapter: TAdapters;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export type CacheRoute<TAdapters extends string = string> =
+    | CacheKeyPrefixRoute<TAdapters>
+    | CacheNamespaceRoute<TAdapters>;
+
 /**
  *
  * IMPORT_PATH: `"@daiso-tech/core/cache"`
@@ -42,6 +79,23 @@ export type CacheFactorySettings<
     adapters: CacheAdapters<TAdapters>;
 
     defaultAdapter?: NoInfer<TAdapters>;
+
+    /**
+     * You can route keys to different adapters, the first matching route is used.
+     * Keys that does not match any route are stored in the adapter given to the {@link CacheFactory.use | `CacheFactory.use`} method.
+     * Note methods that are not bound to keys, like {@link ICache.clear | `ICache.clear`}, are applied to all routed adapters.
+     * @default []
+     */
+    routes?: Array<CacheRoute<NoInfer<TAdapters>>>;
+
+    /**
+     * If provided, reads and writes are done with the `fallbackAdapter` when the adapter given to the {@link CacheFactory.use | `CacheFactory.use`} method throws.
+     * The {@link CACHE_EVENTS.UNEXPECTED_ERROR | `CACHE_EVENTS.UNEXPECTED_ERROR`} event is dispatched with the error of the failing adapter.
+     * Note the adapters are not synchronized, values written during an outage will only be available in the `fallbackAdapter`.
+     * The keys written or removed during an outage are removed from the failing adapter once it is available again, ensuring it does not return outdated values.
+     * The state of which keys to remove is kept in memory, meaning it is lost when the process restarts.
+     */
+    fallbackAdapter?: NoInfer<TAdapters>;
 };
 
 /**
@@ -170,13 +224,83 @@ export class CacheFactory<TAdapters extends string = string, TType = unknown>
         if (adapterName === undefined) {
             throw new DefaultAdapterNotDefinedError(CacheFactory.name);
         }
+        return new Cache({
+            ...this.settings,
+            adapter: this.createAdapter(adapterName),
+        });
+    }
+
+    private getAdapter(adapterName: TAdapters): CacheAdapterVariants<any> {
         const adapter = this.settings.adapters[adapterName];
         if (adapter === undefined) {
             throw new UnregisteredAdapterError(adapterName);
         }
-        return new Cache({
-            ...this.settings,
-            adapter,
-        });
+        return adapter;
+    }
+
+    private static getKeyPrefix(namespace: INamespace): string {
+        const probeKey = "a";
+        const keyStr = namespace.create(probeKey).toString();
+        return keyStr.slice(0, keyStr.length - probeKey.length);
+    }
+
+    /**
+     * Wraps the adapter with routing and failover when `routes` or `fallbackAdapter` are provided.
+     */
+    private createAdapter(adapterName: TAdapters): CacheAdapterVariants<any> {
+        const {
+            routes = [],
+            fallbackAdapter,
+            namespace = new NoOpNamespace(),
+            eventBus,
+        } = this.settings;
+        if (routes.length === 0 && fallbackAdapter === undefined) {
+            return this.getAdapter(adapterName);
+        }
+
+        // Each adapter is resolved once, ensuring adapters used by multiple routes are recognized as the same adapter.
+        const resolvedAdapters = new Map<TAdapters, ICacheAdapter<any>>();
+        const resolveAdapter = (name: TAdapters): ICacheAdapter<any> => {
+            let resolvedAdapter = resolvedAdapters.get(name);
+            if (resolvedAdapter === undefined) {
+                resolvedAdapter = resolveCacheAdapter(this.getAdapter(name));
+                resolvedAdapters.set(name, resolvedAdapter);
+            }
+            return resolvedAdapter;
+        };
+
+        const keyPrefix = CacheFactory.getKeyPrefix(namespace);
+        let adapter = resolveAdapter(adapterName);
+        if (routes.length > 0) {
+            adapter = new RoutedCacheAdapter({
+                defaultAdapter: adapter,
+                routes: routes.map((route) => ({
+                    keyPrefix:
+                        "keyPrefix" in route
+                            ? keyPrefix + route.keyPrefix
+                            : CacheFactory.getKeyPrefix(route.namespace),
+                    adapter: resolveAdapter(route.adapter),
+                })),
+            });
+        }
+        if (fallbackAdapter !== undefined && fallbackAdapter !== adapterName) {
+            adapter = new FailoverCacheAdapter({
+                primaryAdapter: adapter,
+                fallbackAdapter: resolveAdapter(fallbackAdapter),
+                onFailover: (method, keys, error) => {
+                    eventBus
+                        ?.dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                            namespace: keyPrefix,
+                            keys: keys?.map((key) =>
+                                key.slice(keyPrefix.length),
+                            ),
+                            method,
+                            error,
+                        })
+                        .detach();
+                },
+            });
+        }
+        return adapter;
     }
 }
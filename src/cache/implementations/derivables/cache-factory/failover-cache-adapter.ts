@@ -0,0 +1,391 @@
+/**
+ * @module Cache
+ */
+
+import {
+    type CacheAdapterReadSettings,
+    type CacheAdapterWriteManyItem,
+    type CacheAdapterWriteSettings,
+    type ICacheAdapter,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
+    KeyTypeCacheError,
+} from "@/cache/contracts/_module.js";
+import { type TimeSpan } from "@/time-span/implementations/_module.js";
+
+/**
+ * @internal
+ */
+export type FailoverCacheAdapterSettings<TType> = {
+    primaryAdapter: ICacheAdapter<TType>;
+
+    fallbackAdapter: ICacheAdapter<TType>;
+
+    /**
+     * Called with the adapter `method` and the `keys` including the namespace prefix when the primary adapter throws.
+     */
+    onFailover: (
+        method: string,
+        keys: Array<string> | undefined,
+        error: unknown,
+    ) => void;
+};
+
+/**
+ * Reads and writes are done with the fallback adapter when the primary adapter throws.
+ * Note the adapters are not synchronized, values written to the fallback adapter will not be available in the primary adapter.
+ * The keys written or removed during an outage are instead removed from the primary adapter once it is reachable again, ensuring it does not return values that are older than the ones written to the fallback adapter.
+ * Likewise the keys written to the fallback adapter are removed from it once the primary adapter is reachable again, ensuring a later outage does not return values of a previous outage.
+ *
+ * @internal
+ */
+export class FailoverCacheAdapter<TType = unknown>
+    implements ICacheAdapter<TType>
+{
+    private readonly primaryAdapter: ICacheAdapter<TType>;
+    private readonly fallbackAdapter: ICacheAdapter<TType>;
+    private readonly onFailover: FailoverCacheAdapterSettings<TType>["onFailover"];
+    private readonly staleKeys = new Set<string>();
+    private readonly staleKeyPrefixes = new Set<string>();
+    private readonly staleTags = new Set<string>();
+    private shouldRemoveAll = false;
+    private readonly fallbackKeys = new Set<string>();
+
+    constructor(settings: FailoverCacheAdapterSettings<TType>) {
+        const { primaryAdapter, fallbackAdapter, onFailover } = settings;
+        this.primaryAdapter = primaryAdapter;
+        this.fallbackAdapter = fallbackAdapter;
+        this.onFailover = onFailover;
+    }
+
+    /**
+     * Errors of unexpected key types are caused by the caller and not by the primary adapter being unavailable.
+     * Other type errors, like `TypeError: fetch failed` thrown by fetch based drivers, are treated as the primary adapter being unavailable.
+     */
+    private static shouldFailover(error: unknown): boolean {
+        return !(error instanceof KeyTypeCacheError);
+    }
+
+    /**
+     * Removes the keys written or removed with the fallback adapter from the primary adapter.
+     * The stale keys are only cleared after they have been removed, meaning the removal is retried on the next call when the primary adapter is still unavailable.
+     */
+    private async invalidatePrimary(): Promise<void> {
+        if (this.shouldRemoveAll) {
+            await this.primaryAdapter.removeAll();
+            this.shouldRemoveAll = false;
+        }
+        for (const prefix of [...this.staleKeyPrefixes]) {
+            await this.primaryAdapter.removeByKeyPrefix(prefix);
+            this.staleKeyPrefixes.delete(prefix);
+        }
+        const tags = [...this.staleTags];
+        if (tags.length > 0) {
+            await this.primaryAdapter.removeByTags(tags);
+            for (const tag of tags) {
+                this.staleTags.delete(tag);
+            }
+        }
+        const keys = [...this.staleKeys];
+        if (keys.length > 0) {
+            await this.primaryAdapter.removeMany(keys);
+            for (const key of keys) {
+                this.staleKeys.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Removes the keys written during an outage from the fallback adapter, the keys are only cleared after they have been removed.
+     */
+    private async invalidateFallback(): Promise<void> {
+        const keys = [...this.fallbackKeys];
+        if (keys.length === 0) {
+            return;
+        }
+        await this.fallbackAdapter.removeMany(keys);
+        for (const key of keys) {
+            this.fallbackKeys.delete(key);
+        }
+    }
+
+    private markKeysStale(keys: Array<string>): void {
+        for (const key of keys) {
+            this.staleKeys.add(key);
+            this.fallbackKeys.add(key);
+        }
+    }
+
+    /**
+     * The `markStale` callback is called before a write is done with the fallback adapter.
+     */
+    private async withFallback<TValue>(
+        method: string,
+        keys: Array<string> | undefined,
+        fn: (adapter: ICacheAdapter<TType>) => Promise<TValue>,
+        markStale?: () => void,
+    ): Promise<TValue> {
+        let value: TValue;
+        try {
+            await this.invalidatePrimary();
+            value = await fn(this.primaryAdapter);
+        } catch (error: unknown) {
+            if (!FailoverCacheAdapter.shouldFailover(error)) {
+                throw error;
+            }
+            this.onFailover(method, keys, error);
+            markStale?.();
+            return await fn(this.fallbackAdapter);
+        }
+        await this.invalidateFallback();
+        return value;
+    }
+
+    private async writeWithFallback<TValue>(
+        method: string,
+        keys: Array<string>,
+        fn: (adapter: ICacheAdapter<TType>) => Promise<TValue>,
+    ): Promise<TValue> {
+        return await this.withFallback(method, keys, fn, () => {
+            this.markKeysStale(keys);
+        });
+    }
+
+    async get(key: string): Promise<TType | null> {
+        return await this.withFallback(this.get.name, [key], (adapter) =>
+            adapter.get(key),
+        );
+    }
+
+    async getMany(
+        keys: Array<string>,
+        settings?: CacheAdapterReadSettings,
+    ): Promise<Array<TType | null>> {
+        return await this.withFallback(this.getMany.name, keys, (adapter) =>
+            adapter.getMany(keys, settings),
+        );
+    }
+
+    async getAndRemove(key: string): Promise<TType | null> {
+        return await this.writeWithFallback(
+            this.getAndRemove.name,
+            [key],
+            (adapter) => adapter.getAndRemove(key),
+        );
+    }
+
+    async getEntry(key: string): Promise<ICacheEntry<TType> | null> {
+        return await this.withFallback(this.getEntry.name, [key], (adapter) =>
+            adapter.getEntry(key),
+        );
+    }
+
+    async getWithVersion(
+        key: string,
+    ): Promise<ICacheVersionedEntry<TType> | null> {
+        return await this.withFallback(
+            this.getWithVersion.name,
+            [key],
+            (adapter) => adapter.getWithVersion(key),
+        );
+    }
+
+    async add(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
+        return await this.writeWithFallback(this.add.name, [key], (adapter) =>
+            adapter.add(key, value, ttl, settings),
+        );
+    }
+
+    async put(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
+        return await this.writeWithFallback(this.put.name, [key], (adapter) =>
+            adapter.put(key, value, ttl, settings),
+        );
+    }
+
+    async addMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await this.writeWithFallback(
+            this.addMany.name,
+            items.map((item) => item.key),
+            (adapter) => adapter.addMany(items),
+        );
+    }
+
+    async putMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await this.writeWithFallback(
+            this.putMany.name,
+            items.map((item) => item.key),
+            (adapter) => adapter.putMany(items),
+        );
+    }
+
+    async getTtl(key: string): Promise<TimeSpan | null> {
+        return await this.withFallback(this.getTtl.name, [key], (adapter) =>
+            adapter.getTtl(key),
+        );
+    }
+
+    async touch(key: string, ttl: TimeSpan | null): Promise<boolean> {
+        return await this.writeWithFallback(this.touch.name, [key], (adapter) =>
+            adapter.touch(key, ttl),
+        );
+    }
+
+    async update(key: string, value: TType): Promise<boolean> {
+        return await this.writeWithFallback(
+            this.update.name,
+            [key],
+            (adapter) => adapter.update(key, value),
+        );
+    }
+
+    async updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean> {
+        return await this.writeWithFallback(
+            this.updateIfVersion.name,
+            [key],
+            (adapter) => adapter.updateIfVersion(key, value, version),
+        );
+    }
+
+    async increment(key: string, value: number): Promise<boolean> {
+        return await this.writeWithFallback(
+            this.increment.name,
+            [key],
+            (adapter) => adapter.increment(key, value),
+        );
+    }
+
+    async hget(key: string, field: string): Promise<TType | null> {
+        return await this.withFallback(this.hget.name, [key], (adapter) =>
+            adapter.hget(key, field),
+        );
+    }
+
+    async hset(key: string, field: string, value: TType): Promise<boolean> {
+        return await this.writeWithFallback(this.hset.name, [key], (adapter) =>
+            adapter.hset(key, field, value),
+        );
+    }
+
+    async hincrement(
+        key: string,
+        field: string,
+        value: number,
+    ): Promise<number> {
+        return await this.writeWithFallback(
+            this.hincrement.name,
+            [key],
+            (adapter) => adapter.hincrement(key, field, value),
+        );
+    }
+
+    async hremove(key: string, fields: Array<string>): Promise<boolean> {
+        return await this.writeWithFallback(
+            this.hremove.name,
+            [key],
+            (adapter) => adapter.hremove(key, fields),
+        );
+    }
+
+    async sadd(key: string, members: Array<string>): Promise<boolean> {
+        return await this.writeWithFallback(this.sadd.name, [key], (adapter) =>
+            adapter.sadd(key, members),
+        );
+    }
+
+    async sremove(key: string, members: Array<string>): Promise<boolean> {
+        return await this.writeWithFallback(
+            this.sremove.name,
+            [key],
+            (adapter) => adapter.sremove(key, members),
+        );
+    }
+
+    async smembers(key: string): Promise<Array<string>> {
+        return await this.withFallback(this.smembers.name, [key], (adapter) =>
+            adapter.smembers(key),
+        );
+    }
+
+    async removeMany(keys: Array<string>): Promise<boolean> {
+        return await this.writeWithFallback(
+            this.removeMany.name,
+            keys,
+            (adapter) => adapter.removeMany(keys),
+        );
+    }
+
+    async removeAll(): Promise<void> {
+        await this.withFallback(
+            this.removeAll.name,
+            undefined,
+            (adapter) => adapter.removeAll(),
+            () => {
+                this.shouldRemoveAll = true;
+            },
+        );
+    }
+
+    /**
+     * Falls back only when the primary adapter throws before any key has been returned, ensuring keys are never returned twice.
+     */
+    async *getKeysByKeyPrefix(prefix: string): AsyncIterable<string> {
+        let hasReturnedKey = false;
+        try {
+            await this.invalidatePrimary();
+            for await (const key of this.primaryAdapter.getKeysByKeyPrefix(
+                prefix,
+            )) {
+                hasReturnedKey = true;
+                yield key;
+            }
+        } catch (error: unknown) {
+            if (hasReturnedKey || !FailoverCacheAdapter.shouldFailover(error)) {
+                throw error;
+            }
+            this.onFailover(this.getKeysByKeyPrefix.name, undefined, error);
+            yield* this.fallbackAdapter.getKeysByKeyPrefix(prefix);
+        }
+    }
+
+    async removeByKeyPrefix(prefix: string): Promise<void> {
+        await this.withFallback(
+            this.removeByKeyPrefix.name,
+            undefined,
+            (adapter) => adapter.removeByKeyPrefix(prefix),
+            () => {
+                this.staleKeyPrefixes.add(prefix);
+            },
+        );
+    }
+
+    async removeByTags(tags: Array<string>): Promise<void> {
+        await this.withFallback(
+            this.removeByTags.name,
+            undefined,
+            (adapter) => adapter.removeByTags(tags),
+            () => {
+                for (const tag of tags) {
+                    this.staleTags.add(tag);
+                }
+            },
+        );
+    }
+}
@@ -0,0 +1,270 @@
+/**
+ * @module Cache
+ */
+
+import {
+    type CacheAdapterReadSettings,
+    type CacheAdapterWriteManyItem,
+    type CacheAdapterWriteSettings,
+    type ICacheAdapter,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
+} from "@/cache/contracts/_module.js";
+import { type TimeSpan } from "@/time-span/implementations/_module.js";
+
+/**
+ * The `keyPrefix` is matched against the keys including the namespace prefix.
+ *
+ * @internal
+ */
+export type ResolvedCacheRoute<TType> = {
+    keyPrefix: string;
+    adapter: ICacheAdapter<TType>;
+};
+
+/**
+ * @internal
+ */
+export type RoutedCacheAdapterSettings<TType> = {
+    /**
+     * The first matching route is used.
+     */
+    routes: Array<ResolvedCacheRoute<TType>>;
+
+    /**
+     * Used for keys that does not match any route.
+     */
+    defaultAdapter: ICacheAdapter<TType>;
+};
+
+/**
+ * Routes each key to the adapter of the first route its key prefix matches.
+ * Methods that are not bound to keys are applied to all adapters.
+ *
+ * @internal
+ */
+export class RoutedCacheAdapter<TType = unknown>
+    implements ICacheAdapter<TType>
+{
+    private readonly routes: Array<ResolvedCacheRoute<TType>>;
+    private readonly defaultAdapter: ICacheAdapter<TType>;
+
+    constructor(settings: RoutedCacheAdapterSettings<TType>) {
+        const { routes, defaultAdapter } = settings;
+        this.routes = routes;
+        this.defaultAdapter = defaultAdapter;
+    }
+
+    private getAdapter(key: string): ICacheAdapter<TType> {
+        const route = this.routes.find((route) =>
+            key.startsWith(route.keyPrefix),
+        );
+        return route?.adapter ?? this.defaultAdapter;
+    }
+
+    /**
+     * The same adapter can be used by multiple routes, ensuring each adapter is only called once.
+     */
+    private getAllAdapters(): Array<ICacheAdapter<TType>> {
+        return [
+            ...new Set([
+                this.defaultAdapter,
+                ...this.routes.map((route) => route.adapter),
+            ]),
+        ];
+    }
+
+    /**
+     * Groups the `items` by their adapter and returns the results in the same order as the `items`.
+     */
+    private async routeMany<TItem, TResult>(
+        items: Array<TItem>,
+        getKey: (item: TItem) => string,
+        fn: (
+            adapter: ICacheAdapter<TType>,
+            items: Array<TItem>,
+        ) => Promise<Array<TResult>>,
+    ): Promise<Array<TResult>> {
+        const groups = new Map<
+            ICacheAdapter<TType>,
+            Array<{ index: number; item: TItem }>
+        >();
+        for (const [index, item] of items.entries()) {
+            const adapter = this.getAdapter(getKey(item));
+            const group = groups.get(adapter) ?? [];
+            group.push({ index, item });
+            groups.set(adapter, group);
+        }
+
+        const results = new Array<TResult>(items.length);
+        for (const [adapter, group] of groups) {
+            const groupResults = await fn(
+                adapter,
+                group.map(({ item }) => item),
+            );
+            for (const [groupIndex, { index }] of group.entries()) {
+                results[index] = groupResults[groupIndex] as TResult;
+            }
+        }
+        return results;
+    }
+
+    async get(key: string): Promise<TType | null> {
+        return await this.getAdapter(key).get(key);
+    }
+
+    async getMany(
+        keys: Array<string>,
+        settings?: CacheAdapterReadSettings,
+    ): Promise<Array<TType | null>> {
+        return await this.routeMany(
+            keys,
+            (key) => key,
+            (adapter, keys) => adapter.getMany(keys, settings),
+        );
+    }
+
+    async getAndRemove(key: string): Promise<TType | null> {
+        return await this.getAdapter(key).getAndRemove(key);
+    }
+
+    async getEntry(key: string): Promise<ICacheEntry<TType> | null> {
+        return await this.getAdapter(key).getEntry(key);
+    }
+
+    async getWithVersion(
+        key: string,
+    ): Promise<ICacheVersionedEntry<TType> | null> {
+        return await this.getAdapter(key).getWithVersion(key);
+    }
+
+    async add(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
+        return await this.getAdapter(key).add(key, value, ttl, settings);
+    }
+
+    async put(
+        key: string,
+        value: TType,
+        ttl: TimeSpan | null,
+        settings?: CacheAdapterWriteSettings,
+    ): Promise<boolean> {
+        return await this.getAdapter(key).put(key, value, ttl, settings);
+    }
+
+    async addMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await this.routeMany(
+            items,
+            (item) => item.key,
+            (adapter, items) => adapter.addMany(items),
+        );
+    }
+
+    async putMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await this.routeMany(
+            items,
+            (item) => item.key,
+            (adapter, items) => adapter.putMany(items),
+        );
+    }
+
+    async getTtl(key: string): Promise<TimeSpan | null> {
+        return await this.getAdapter(key).getTtl(key);
+    }
+
+    async touch(key: string, ttl: TimeSpan | null): Promise<boolean> {
+        return await this.getAdapter(key).touch(key, ttl);
+    }
+
+    async update(key: string, value: TType): Promise<boolean> {
+        return await this.getAdapter(key).update(key, value);
+    }
+
+    async updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean> {
+        return await this.getAdapter(key).updateIfVersion(key, value, version);
+    }
+
+    async increment(key: string, value: number): Promise<boolean> {
+        return await this.getAdapter(key).increment(key, value);
+    }
+
+    async hget(key: string, field: string): Promise<TType | null> {
+        return await this.getAdapter(key).hget(key, field);
+    }
+
+    async hset(key: string, field: string, value: TType): Promise<boolean> {
+        return await this.getAdapter(key).hset(key, field, value);
+    }
+
+    async hincrement(
+        key: string,
+        field: string,
+        value: number,
+    ): Promise<number> {
+        return await this.getAdapter(key).hincrement(key, field, value);
+    }
+
+    async hremove(key: string, fields: Array<string>): Promise<boolean> {
+        return await this.getAdapter(key).hremove(key, fields);
+    }
+
+    async sadd(key: string, members: Array<string>): Promise<boolean> {
+        return await this.getAdapter(key).sadd(key, members);
+    }
+
+    async sremove(key: string, members: Array<string>): Promise<boolean> {
+        return await this.getAdapter(key).sremove(key, members);
+    }
+
+    async smembers(key: string): Promise<Array<string>> {
+        return await this.getAdapter(key).smembers(key);
+    }
+
+    async removeMany(keys: Array<string>): Promise<boolean> {
+        const results = await this.routeMany(
+            keys,
+            (key) => key,
+            async (adapter, keys) => {
+                const hasRemoved = await adapter.removeMany(keys);
+                return keys.map(() => hasRemoved);
+            },
+        );
+        return results.some((hasRemoved) => hasRemoved);
+    }
+
+    async removeAll(): Promise<void> {
+        for (const adapter of this.getAllAdapters()) {
+            await adapter.removeAll();
+        }
+    }
+
+    async *getKeysByKeyPrefix(prefix: string): AsyncIterable<string> {
+        for (const adapter of this.getAllAdapters()) {
+            yield* adapter.getKeysByKeyPrefix(prefix);
+        }
+    }
+
+    async removeByKeyPrefix(prefix: string): Promise<void> {
+        for (const adapter of this.getAllAdapters()) {
+            await adapter.removeByKeyPrefix(prefix);
+        }
+    }
+
+    async removeByTags(tags: Array<string>): Promise<void> {
+        for (const adapter of this.getAllAdapters()) {
+            await adapter.removeByTags(tags);
+        }
+    }
+}
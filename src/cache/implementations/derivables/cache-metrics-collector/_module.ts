@@ -0,0 +1 @@
+export * from "@/cache/implementations/derivables/cache-metrics-collector/cache-metrics-collector.js";
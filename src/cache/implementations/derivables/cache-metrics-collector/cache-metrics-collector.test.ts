@@ -0,0 +1,108 @@
+import { describe, expect, test } from "vitest";
+
+import {
+    CACHE_EVENTS,
+    CACHE_EVICTION_POLICY,
+    type StatsSnapshotCacheEvent,
+} from "@/cache/contracts/_module.js";
+import { CacheMetricsCollector } from "@/cache/implementations/derivables/cache-metrics-collector/_module.js";
+import { MemoryEventBusAdapter } from "@/event-bus/implementations/adapters/_module.js";
+import { EventBus } from "@/event-bus/implementations/derivables/_module.js";
+import { Namespace } from "@/namespace/implementations/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
+
+describe("class: CacheMetricsCollector", () => {
+    const namespace = new Namespace("cache");
+    const keyPrefix = "cache:_rt:";
+
+    test("Should attribute evictions to the longest known namespace", () => {
+        const metricsCollector = new CacheMetricsCollector();
+        metricsCollector.record(CACHE_EVENTS.NOT_FOUND, {
+            key: namespace.create("a"),
+        });
+        metricsCollector.record(CACHE_EVENTS.EVICTED, {
+            key: namespace.create("a").toString(),
+            policy: CACHE_EVICTION_POLICY.LRU,
+        });
+        metricsCollector.record(CACHE_EVENTS.EVICTED, {
+            key: "b",
+            policy: CACHE_EVICTION_POLICY.LRU,
+        });
+
+        expect(metricsCollector.getStats(keyPrefix).evictions).toBe(1);
+        expect(metricsCollector.getStats("").evictions).toBe(1);
+    });
+    test("Should put each duration in the matching buckets", () => {
+        const metricsCollector = new CacheMetricsCollector({
+            latencyBuckets: [10, 100],
+        });
+        for (const duration of [5, 50, 500]) {
+            metricsCollector.record(CACHE_EVENTS.METHOD_COMPLETED, {
+                namespace: keyPrefix,
+                method: "get",
+                duration: TimeSpan.fromMilliseconds(duration),
+            });
+        }
+
+        expect(metricsCollector.getStats(keyPrefix).latencies["get"]).toEqual({
+            count: 3,
+            sum: 555,
+            buckets: [
+                { upperBound: 10, count: 1 },
+                { upperBound: 100, count: 2 },
+                { upperBound: Infinity, count: 3 },
+            ],
+        });
+    });
+    test("Should clear all stats when reset is called", () => {
+        const metricsCollector = new CacheMetricsCollector();
+        metricsCollector.record(CACHE_EVENTS.NOT_FOUND, {
+            key: namespace.create("a"),
+        });
+
+        metricsCollector.reset();
+
+        expect(metricsCollector.getStats(keyPrefix).misses).toBe(0);
+        expect(metricsCollector.getSnapshot().namespaces).toEqual({});
+    });
+    test("Should record events dispatched on attached event bus until unsubscribed", async () => {
+        const eventBus = new EventBus<any>({
+            adapter: new MemoryEventBusAdapter(),
+        });
+        const metricsCollector = new CacheMetricsCollector();
+        const unsubscribe = await metricsCollector.attach(eventBus);
+
+        await eventBus.dispatch(CACHE_EVENTS.NOT_FOUND, {
+            key: namespace.create("a"),
+        });
+        await unsubscribe();
+        await eventBus.dispatch(CACHE_EVENTS.NOT_FOUND, {
+            key: namespace.create("a"),
+        });
+
+        expect(metricsCollector.getStats(keyPrefix).misses).toBe(1);
+    });
+    test("Should dispatch snapshots periodically after init is called", async () => {
+        const eventBus = new EventBus<any>({
+            adapter: new MemoryEventBusAdapter(),
+        });
+        const metricsCollector = new CacheMetricsCollector({
+            eventBus,
+            snapshotInterval: TimeSpan.fromMilliseconds(20),
+        });
+        let event_ = null as StatsSnapshotCacheEvent | null;
+        await eventBus.addListener(CACHE_EVENTS.STATS_SNAPSHOT, (event) => {
+            event_ = event as StatsSnapshotCacheEvent;
+        });
+        metricsCollector.record(CACHE_EVENTS.NOT_FOUND, {
+            key: namespace.create("a"),
+        });
+
+        await metricsCollector.init();
+        await Task.delay(TimeSpan.fromMilliseconds(50));
+        await metricsCollector.deInit();
+
+        expect(event_?.snapshot.namespaces[keyPrefix]?.misses).toBe(1);
+    });
+});
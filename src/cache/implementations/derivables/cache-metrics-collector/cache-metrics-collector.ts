@@ -0,0 +1,338 @@
+/**
+ * @module Cache
+ */
+
+import {
+    CACHE_EVENTS,
+    type AddedCacheEvent,
+    type CacheEventMap,
+    type CacheLatencyHistogram,
+    type CacheStats,
+    type CacheStatsSnapshot,
+    type DecrementedCacheEvent,
+    type EvictedCacheEvent,
+    type FoundCacheEvent,
+    type ICacheMetricsCollector,
+    type IncrementedCacheEvent,
+    type MethodCompletedCacheEvent,
+    type NegativeAddedCacheEvent,
+    type NegativeFoundCacheEvent,
+    type NotFoundCacheEvent,
+    type UnexpectedErrorCacheEvent,
+    type UpdatedCacheEvent,
+} from "@/cache/contracts/_module.js";
+import {
+    type IEventBus,
+    type IEventListenable,
+    type Unsubscribe,
+} from "@/event-bus/contracts/_module.js";
+import { type IKey } from "@/namespace/contracts/_module.js";
+import { type ITask } from "@/task/contracts/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { type ITimeSpan } from "@/time-span/contracts/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
+import { type IDeinitizable, type IInitizable } from "@/utilities/_module.js";
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export type CacheMetricsCollectorSettings = {
+    /**
+     * The upper bounds of the latency histogram buckets in milliseconds.
+     * @default [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+     */
+    latencyBuckets?: Array<number>;
+
+    /**
+     * You can provide an event bus that the {@link CACHE_EVENTS.STATS_SNAPSHOT | `CACHE_EVENTS.STATS_SNAPSHOT`} events will be dispatched on.
+     * If null is passed, no snapshots will be dispatched.
+     * @default null
+     */
+    eventBus?: IEventBus | null;
+
+    /**
+     * @default
+     * ```ts
+     * import { TimeSpan } from "@daiso-tech/core/time-span";
+     *
+     * TimeSpan.fromMinutes(1)
+     * ```
+     */
+    snapshotInterval?: ITimeSpan;
+};
+
+type NamespaceStats = {
+    hits: number;
+    misses: number;
+    writes: number;
+    evictions: number;
+    errors: number;
+    latencies: Map<string, CacheLatencyHistogram>;
+};
+
+/**
+ * Returns the key prefix of the namespace the `key` belongs to.
+ */
+function getNamespace(key: IKey): string {
+    const keyStr = key.toString();
+    return keyStr.slice(0, keyStr.length - key.get().length);
+}
+
+/**
+ * The `CacheMetricsCollector` class tracks per namespace hits, misses, writes, evictions, errors and latency histograms of each method from the cache events.
+ * You can either pass it to the {@link Cache | `Cache`} class or attach it to any event bus the cache events are dispatched on.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export class CacheMetricsCollector
+    implements ICacheMetricsCollector, IInitizable, IDeinitizable
+{
+    private readonly namespaceMap = new Map<string, NamespaceStats>();
+    private readonly latencyBuckets: Array<number>;
+    private readonly eventBus: IEventBus<CacheEventMap> | null;
+    private readonly snapshotInterval: TimeSpan;
+    private timeoutId: NodeJS.Timeout | string | number | null = null;
+
+    /**
+     * @example
+     * ```ts
+     * import { Cache, CacheMetricsCollector } from "@daiso-tech/core/cache";
+     * import { MemoryCacheAdapter } from "@daiso-tech/core/cache/memory-cache-adapter";
+     *
+     * const metricsCollector = new CacheMetricsCollector();
+     * const cache = new Cache({
+     *   adapter: new MemoryCacheAdapter(),
+     *   metricsCollector,
+     * });
+     *
+     * await cache.get("a");
+     *
+     * // Logs 1
+     * console.log(cache.getStats().misses);
+     * ```
+     */
+    constructor(settings: CacheMetricsCollectorSettings = {}) {
+        const {
+            latencyBuckets = [
+                5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+            ],
+            eventBus = null,
+            snapshotInterval = TimeSpan.fromMinutes(1),
+        } = settings;
+        this.latencyBuckets = [...latencyBuckets].sort((a, b) => a - b);
+        this.eventBus = eventBus;
+        this.snapshotInterval = TimeSpan.fromTimeSpan(snapshotInterval);
+    }
+
+    /**
+     * Starts dispatching {@link CACHE_EVENTS.STATS_SNAPSHOT | `CACHE_EVENTS.STATS_SNAPSHOT`} events periodically when an event bus is provided.
+     */
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async init(): Promise<void> {
+        if (this.eventBus === null || this.timeoutId !== null) {
+            return;
+        }
+        const eventBus = this.eventBus;
+        this.timeoutId = setInterval(() => {
+            eventBus
+                .dispatch(CACHE_EVENTS.STATS_SNAPSHOT, {
+                    snapshot: this.getSnapshot(),
+                })
+                .detach();
+        }, this.snapshotInterval.toMilliseconds());
+    }
+
+    /**
+     * Stops dispatching the periodic snapshots.
+     */
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async deInit(): Promise<void> {
+        if (this.timeoutId === null) {
+            return;
+        }
+        clearInterval(this.timeoutId);
+        this.timeoutId = null;
+    }
+
+    private getNamespaceStats(namespace: string): NamespaceStats {
+        let stats = this.namespaceMap.get(namespace);
+        if (stats === undefined) {
+            stats = {
+                hits: 0,
+                misses: 0,
+                writes: 0,
+                evictions: 0,
+                errors: 0,
+                latencies: new Map(),
+            };
+            this.namespaceMap.set(namespace, stats);
+        }
+        return stats;
+    }
+
+    /**
+     * Evicted keys are adapter keys, they are attributed to the longest known namespace key prefix.
+     * Note the empty namespace is returned when none of the known namespaces match, because the namespace can not be derived from an adapter key alone.
+     */
+    private findNamespace(adapterKey: string): string {
+        let namespace = "";
+        for (const knownNamespace of this.namespaceMap.keys()) {
+            if (
+                adapterKey.startsWith(knownNamespace) &&
+                knownNamespace.length > namespace.length
+            ) {
+                namespace = knownNamespace;
+            }
+        }
+        return namespace;
+    }
+
+    private recordLatency(
+        stats: NamespaceStats,
+        method: string,
+        duration: number,
+    ): void {
+        let histogram = stats.latencies.get(method);
+        if (histogram === undefined) {
+            histogram = {
+                count: 0,
+                sum: 0,
+                buckets: [...this.latencyBuckets, Infinity].map(
+                    (upperBound) => ({
+                        upperBound,
+                        count: 0,
+                    }),
+                ),
+            };
+            stats.latencies.set(method, histogram);
+        }
+        histogram.count++;
+        histogram.sum += duration;
+        for (const bucket of histogram.buckets) {
+            if (duration <= bucket.upperBound) {
+                bucket.count++;
+            }
+        }
+    }
+
+    record<TEventName extends keyof CacheEventMap>(
+        eventName: TEventName,
+        event: CacheEventMap[TEventName],
+    ): void {
+        switch (eventName) {
+            case CACHE_EVENTS.FOUND:
+            case CACHE_EVENTS.NEGATIVE_FOUND: {
+                const { key } = event as
+                    | FoundCacheEvent
+                    | NegativeFoundCacheEvent;
+                this.getNamespaceStats(getNamespace(key)).hits++;
+                break;
+            }
+            case CACHE_EVENTS.NOT_FOUND: {
+                const { key } = event as NotFoundCacheEvent;
+                this.getNamespaceStats(getNamespace(key)).misses++;
+                break;
+            }
+            case CACHE_EVENTS.ADDED:
+            case CACHE_EVENTS.NEGATIVE_ADDED:
+            case CACHE_EVENTS.UPDATED:
+            case CACHE_EVENTS.INCREMENTED:
+            case CACHE_EVENTS.DECREMENTED: {
+                const { key } = event as
+                    | AddedCacheEvent
+                    | NegativeAddedCacheEvent
+                    | UpdatedCacheEvent
+                    | IncrementedCacheEvent
+                    | DecrementedCacheEvent;
+                this.getNamespaceStats(getNamespace(key)).writes++;
+                break;
+            }
+            case CACHE_EVENTS.EVICTED: {
+                const { key } = event as EvictedCacheEvent;
+                this.getNamespaceStats(this.findNamespace(key)).evictions++;
+                break;
+            }
+            case CACHE_EVENTS.UNEXPECTED_ERROR: {
+                const { namespace } = event as UnexpectedErrorCacheEvent;
+                this.getNamespaceStats(namespace).errors++;
+                break;
+            }
+            case CACHE_EVENTS.METHOD_COMPLETED: {
+                const { namespace, method, duration } =
+                    event as MethodCompletedCacheEvent;
+                this.recordLatency(
+                    this.getNamespaceStats(namespace),
+                    method,
+                    duration.toMilliseconds(),
+                );
+                break;
+            }
+            default:
+                break;
+        }
+    }
+
+    attach(eventBus: IEventListenable<CacheEventMap>): ITask<Unsubscribe> {
+        return new Task<Unsubscribe>(async () => {
+            const unsubscribeArr: Array<Unsubscribe> = [];
+            for (const eventName of Object.values(CACHE_EVENTS)) {
+                unsubscribeArr.push(
+                    await eventBus.subscribe(eventName, (event) => {
+                        this.record(eventName, event);
+                    }),
+                );
+            }
+            return () =>
+                new Task(async () => {
+                    for (const unsubscribe of unsubscribeArr) {
+                        await unsubscribe();
+                    }
+                });
+        });
+    }
+
+    getStats(namespace: string): CacheStats {
+        const stats = this.namespaceMap.get(namespace);
+        const hits = stats?.hits ?? 0;
+        const misses = stats?.misses ?? 0;
+        return {
+            hits,
+            misses,
+            hitRatio: hits + misses === 0 ? 0 : hits / (hits + misses),
+            writes: stats?.writes ?? 0,
+            evictions: stats?.evictions ?? 0,
+            errors: stats?.errors ?? 0,
+            latencies: Object.fromEntries(
+                [...(stats?.latencies ?? [])].map(([method, histogram]) => [
+                    method,
+                    {
+                        count: histogram.count,
+                        sum: histogram.sum,
+                        buckets: histogram.buckets.map((bucket) => ({
+                            ...bucket,
+                        })),
+                    },
+                ]),
+            ),
+        };
+    }
+
+    getSnapshot(): CacheStatsSnapshot {
+        return {
+            createdAt: new Date(),
+            namespaces: Object.fromEntries(
+                [...this.namespaceMap.keys()].map((namespace) => [
+                    namespace,
+                    this.getStats(namespace),
+                ]),
+            ),
+        };
+    }
+
+    reset(): void {
+        this.namespaceMap.clear();
+    }
+}
@@ -1,3 +1,4 @@
 export * from "@/cache/implementations/derivables/cache/database-cache-adapter.js";
+export * from "@/cache/implementations/derivables/cache/cache-backing-store.js";
 export * from "@/cache/implementations/derivables/cache/cache.js";
 export * from "@/cache/implementations/derivables/cache/resolve-cache-adapter.js";
@@ -0,0 +1,115 @@
+/**
+ * @module Cache
+ */
+
+import { type BackoffPolicy } from "@/backoff-policies/_module.js";
+import { type ITimeSpan } from "@/time-span/contracts/_module.js";
+import { type Invokable, type Promisable } from "@/utilities/_module.js";
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export const CACHE_WRITE_MODE = {
+    WRITE_THROUGH: "WRITE_THROUGH",
+    WRITE_BEHIND: "WRITE_BEHIND",
+} as const;
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export type CacheWriteModeLiterals =
+    (typeof CACHE_WRITE_MODE)[keyof typeof CACHE_WRITE_MODE];
+
+/**
+ * The `key` is without the namespace prefix.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export type CacheBackingStoreItem<TType = unknown> = {
+    key: string;
+    value: TType;
+};
+
+/**
+ * The `loader` is called with the key without the namespace prefix and should return null when the record does not exist.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export type CacheBackingStoreLoader<TType = unknown> = Invokable<
+    [key: string],
+    Promisable<TType | null>
+>;
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export type CacheBackingStoreWriter<TType = unknown> = Invokable<
+    [items: Array<CacheBackingStoreItem<TType>>],
+    Promisable<void>
+>;
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/cache"`
+ * @group Derivables
+ */
+export type CacheBackingStoreSettings<TType = unknown> = {
+    /**
+     * When provided, missing keys will be loaded from the backing store and added to the cache.
+     */
+    loader?: CacheBackingStoreLoader<TType>;
+
+    /**
+     * Persists the values written with `put` and `putMany` methods of the cache.
+     * Note the other write methods like `add`, `update`, `increment` and `remove` only change the cache and are not persisted with the `writer`.
+     */
+    writer: CacheBackingStoreWriter<TType>;
+
+    /**
+     * In `WRITE_THROUGH` mode the `writer` is called before the values are written to the cache.
+     * In `WRITE_BEHIND` mode the values are queued, coalesced by key and written in batches by the `writer`.
+     * @default "WRITE_THROUGH"
+     */
+    mode?: CacheWriteModeLiterals;
+
+    /**
+     * The time after which queued values are flushed in `WRITE_BEHIND` mode.
+     * @default
+     * ```ts
+     * import { TimeSpan } from "@daiso-tech/core/time-span";
+     *
+     * TimeSpan.fromSeconds(1)
+     * ```
+     */
+    flushInterval?: ITimeSpan;
+
+    /**
+     * The queue is flushed immediately when it reaches the size in `WRITE_BEHIND` mode.
+     * @default 100
+     */
+    maxQueueSize?: number;
+
+    /**
+     * The maximal attempts of the `writer` when flushing in `WRITE_BEHIND` mode.
+     * @default 4
+     */
+    maxAttempts?: number;
+
+    /**
+     * @default
+     * ```ts
+     * import { exponentialBackoff } from "@daiso-tech/core/backoff-policies";
+     *
+     * exponentialBackoff();
+     * ```
+     */
+    backoffPolicy?: BackoffPolicy;
+};
@@ -0,0 +1,242 @@
+/**
+ * @module Cache
+ */
+
+import {
+    type ICacheAdapter,
+    KeyTypeCacheError,
+} from "@/cache/contracts/_module.js";
+import { UnexpectedError } from "@/utilities/_module.js";
+
+/**
+ * The result of modifying a hash or a set, `value` is the new value of the key and undefined means the key is left unchanged.
+ *
+ * @internal
+ */
+export type CacheDataStructureModification<TResult> = {
+    value?: unknown;
+    result: TResult;
+};
+
+/**
+ * Computes the new value of the key from its stored value, null means the key is not found.
+ * The stored value is never mutated, ensuring adapters holding values by reference can safely discard a failed modification.
+ *
+ * @internal
+ */
+export type CacheDataStructureModifier<TResult> = (
+    key: string,
+    storedValue: unknown,
+) => CacheDataStructureModification<TResult>;
+
+function isHash(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value) as unknown;
+    return prototype === Object.prototype || prototype === null;
+}
+
+function isSet(value: unknown): value is Array<string> {
+    return (
+        Array.isArray(value) &&
+        value.every((member) => typeof member === "string")
+    );
+}
+
+/**
+ * Hashes are stored as plain objects by adapters without native hash support.
+ *
+ * @internal
+ */
+export function toHash(
+    key: string,
+    storedValue: unknown,
+): Record<string, unknown> {
+    if (storedValue === null) {
+        return {};
+    }
+    if (!isHash(storedValue)) {
+        throw new KeyTypeCacheError(
+            `Unable to use none hash type key "${key}"`,
+        );
+    }
+    return storedValue;
+}
+
+/**
+ * Sets are stored as arrays of unique strings by adapters without native set support.
+ *
+ * @internal
+ */
+export function toSet(key: string, storedValue: unknown): Array<string> {
+    if (storedValue === null) {
+        return [];
+    }
+    if (!isSet(storedValue)) {
+        throw new KeyTypeCacheError(`Unable to use none set type key "${key}"`);
+    }
+    return storedValue;
+}
+
+/**
+ * @internal
+ */
+export function getHashField<TType>(
+    key: string,
+    storedValue: unknown,
+    field: string,
+): TType | null {
+    const hash = toHash(key, storedValue);
+    if (!Object.hasOwn(hash, field)) {
+        return null;
+    }
+    return hash[field] as TType;
+}
+
+/**
+ * @internal
+ */
+export function setHashField(
+    field: string,
+    value: unknown,
+): CacheDataStructureModifier<boolean> {
+    return (key, storedValue) => {
+        const hash = toHash(key, storedValue);
+        return {
+            value: { ...hash, [field]: value },
+            result: !Object.hasOwn(hash, field),
+        };
+    };
+}
+
+/**
+ * @internal
+ */
+export function incrementHashField(
+    field: string,
+    value: number,
+): CacheDataStructureModifier<number> {
+    return (key, storedValue) => {
+        const hash = toHash(key, storedValue);
+        const prevValue = hash[field] ?? 0;
+        if (typeof prevValue !== "number") {
+            throw new KeyTypeCacheError(
+                `Unable to increment or decrement none number type field "${field}" of key "${key}"`,
+            );
+        }
+        const newValue = prevValue + value;
+        return {
+            value: { ...hash, [field]: newValue },
+            result: newValue,
+        };
+    };
+}
+
+/**
+ * @internal
+ */
+export function removeHashFields(
+    fields: Array<string>,
+): CacheDataStructureModifier<boolean> {
+    return (key, storedValue) => {
+        const hash = toHash(key, storedValue);
+        const fieldsToRemove = fields.filter((field) =>
+            Object.hasOwn(hash, field),
+        );
+        if (fieldsToRemove.length === 0) {
+            return { result: false };
+        }
+        return {
+            value: Object.fromEntries(
+                Object.entries(hash).filter(
+                    ([field]) => !fieldsToRemove.includes(field),
+                ),
+            ),
+            result: true,
+        };
+    };
+}
+
+/**
+ * @internal
+ */
+export function addSetMembers(
+    members: Array<string>,
+): CacheDataStructureModifier<boolean> {
+    return (key, storedValue) => {
+        const set = toSet(key, storedValue);
+        const membersToAdd = [...new Set(members)].filter(
+            (member) => !set.includes(member),
+        );
+        if (membersToAdd.length === 0) {
+            return { result: false };
+        }
+        return {
+            value: [...set, ...membersToAdd],
+            result: true,
+        };
+    };
+}
+
+/**
+ * @internal
+ */
+export function removeSetMembers(
+    members: Array<string>,
+): CacheDataStructureModifier<boolean> {
+    return (key, storedValue) => {
+        const set = toSet(key, storedValue);
+        const newSet = set.filter((member) => !members.includes(member));
+        if (newSet.length === set.length) {
+            return { result: false };
+        }
+        return {
+            value: newSet,
+            result: true,
+        };
+    };
+}
+
+/**
+ * The number of times a key is read and written before giving up when it keeps being changed concurrently.
+ *
+ * @internal
+ */
+export const MAX_MODIFY_ATTEMPTS = 10;
+
+/**
+ * Modifies the key optimistically for adapters that store values serialized, the modification is retried when the key has been changed since it was read.
+ * A key that is not found is created without expiration.
+ * @throws {UnexpectedError} {@link UnexpectedError} when the key is changed concurrently on every attempt.
+ *
+ * @internal
+ */
+export async function modifyOptimistically<TType, TResult>(
+    adapter: ICacheAdapter<TType>,
+    key: string,
+    modifier: CacheDataStructureModifier<TResult>,
+): Promise<TResult> {
+    for (let attempt = 0; attempt < MAX_MODIFY_ATTEMPTS; attempt++) {
+        const entry = await adapter.getWithVersion(key);
+        const { value, result } = modifier(key, entry?.value ?? null);
+        if (value === undefined) {
+            return result;
+        }
+
+        const hasWritten =
+            entry === null
+                ? await adapter.add(key, value as TType, null)
+                : await adapter.updateIfVersion(
+                      key,
+                      value as TType,
+                      entry.version,
+                  );
+        if (hasWritten) {
+            return result;
+        }
+    }
+    throw new UnexpectedError(
+        `Unable to modify key "${key}" because it was changed concurrently ${String(MAX_MODIFY_ATTEMPTS)} times`,
+    );
+}
@@ -1,12 +1,27 @@
-import { beforeEach, describe, expect, test } from "vitest";
+import { beforeEach, describe, expect, test, vi } from "vitest";
 import { z } from "zod";
 
+import { constantBackoff } from "@/backoff-policies/_module.js";
+import {
+    CACHE_EVENTS,
+    CACHE_GET_STATUS,
+    type WriteBehindFlushFailedCacheEvent,
+} from "@/cache/contracts/_module.js";
 import { MemoryCacheAdapter } from "@/cache/implementations/adapters/_module.js";
-import { Cache } from "@/cache/implementations/derivables/_module.js";
+import {
+    Cache,
+    CACHE_WRITE_MODE,
+    CacheMetricsCollector,
+    type CacheBackingStoreItem,
+} from "@/cache/implementations/derivables/_module.js";
 import { cacheTestSuite } from "@/cache/implementations/test-utilities/_module.js";
 import { MemoryEventBusAdapter } from "@/event-bus/implementations/adapters/_module.js";
 import { EventBus } from "@/event-bus/implementations/derivables/_module.js";
+import { MemoryLockAdapter } from "@/lock/implementations/adapters/_module.js";
+import { LockProvider } from "@/lock/implementations/derivables/_module.js";
 import { Namespace } from "@/namespace/implementations/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
 import { ValidationError } from "@/utilities/_module.js";
 
 describe("class: Cache", () => {
@@ -102,6 +117,423 @@ describe("class: Cache", () => {
                 const promise = cache.getOrAdd("a", "1");
                 await expect(promise).rejects.toBeInstanceOf(ValidationError);
             });
+            test("method: entries", async () => {
+                await adapter.add(namespace.create("a").toString(), 1, null);
+                const promise = cache.entries().toArray();
+                await expect(promise).rejects.toBeInstanceOf(ValidationError);
+            });
+        });
+    });
+    describe("namespace:", () => {
+        test("method: keys should only return keys in the namespace", async () => {
+            const adapter = new MemoryCacheAdapter();
+            const cacheA = new Cache<number>({
+                namespace: new Namespace("a"),
+                adapter,
+            });
+            const cacheB = new Cache<number>({
+                namespace: new Namespace("b"),
+                adapter,
+            });
+            await cacheA.add("1", 1);
+            await cacheB.add("2", 2);
+
+            expect(await cacheA.keys().toArray()).toEqual(["1"]);
+            expect(await cacheB.keys().toArray()).toEqual(["2"]);
+        });
+    });
+    describe("lock provider:", () => {
+        const namespace = new Namespace("cache");
+        let lockProvider: LockProvider;
+        let cacheA: Cache<number>;
+        let cacheB: Cache<number>;
+        beforeEach(() => {
+            const adapter = new MemoryCacheAdapter();
+            lockProvider = new LockProvider({
+                adapter: new MemoryLockAdapter(),
+                defaultBlockingInterval: TimeSpan.fromMilliseconds(5),
+            });
+            const createCache = () =>
+                new Cache<number>({
+                    namespace,
+                    adapter,
+                    lockProvider,
+                    lockSettings: {
+                        time: TimeSpan.fromMilliseconds(100),
+                    },
+                });
+            cacheA = createCache();
+            cacheB = createCache();
+        });
+        test("method: getOrAdd should compute value once across cache instances", async () => {
+            const valueToAdd = vi.fn(async () => {
+                await Task.delay(TimeSpan.fromMilliseconds(20));
+                return -1;
+            });
+
+            const results = await Promise.all([
+                cacheA.getOrAdd("a", valueToAdd),
+                cacheB.getOrAdd("a", valueToAdd),
+            ]);
+
+            expect(results).toEqual([-1, -1]);
+            expect(valueToAdd).toHaveBeenCalledOnce();
+        });
+        test("method: getOrAdd should compute value when lock is not acquired within the blocking time", async () => {
+            await lockProvider
+                .create(namespace.create("a").toString())
+                .acquire();
+
+            const result = await cacheA.getOrAdd("a", -1);
+
+            expect(result).toBe(-1);
+        });
+    });
+    describe("metrics collector:", () => {
+        test("Should record stats per namespace when shared between caches", async () => {
+            const adapter = new MemoryCacheAdapter();
+            const metricsCollector = new CacheMetricsCollector();
+            const cacheA = new Cache<number>({
+                namespace: new Namespace("a"),
+                adapter,
+                metricsCollector,
+            });
+            const cacheB = new Cache<number>({
+                namespace: new Namespace("b"),
+                adapter,
+                metricsCollector,
+            });
+            await cacheA.add("1", 1);
+            await cacheA.get("1");
+            await cacheB.get("1");
+
+            expect(cacheA.getStats().hits).toBe(1);
+            expect(cacheA.getStats().misses).toBe(0);
+            expect(cacheB.getStats().hits).toBe(0);
+            expect(cacheB.getStats().misses).toBe(1);
+            expect(
+                Object.keys(metricsCollector.getSnapshot().namespaces),
+            ).toEqual(expect.arrayContaining(["a:_rt:", "b:_rt:"]));
+        });
+        test("Should count unexpected errors", async () => {
+            const adapter = new MemoryCacheAdapter();
+            vi.spyOn(adapter, "get").mockRejectedValue(new Error("Unexpected"));
+            const cache = new Cache<number>({
+                adapter,
+            });
+
+            await expect(cache.get("a")).rejects.toBeInstanceOf(Error);
+
+            expect(cache.getStats().errors).toBe(1);
+        });
+        test("Should only record the latency of the outermost method", async () => {
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+            });
+            await cache.missing("a");
+            await cache.addOrFail("a", 1);
+            await cache.decrementOrFail("a");
+
+            const { latencies } = cache.getStats();
+            expect(Object.keys(latencies)).toEqual([
+                "missing",
+                "addOrFail",
+                "decrementOrFail",
+            ]);
+            expect(latencies["missing"]?.count).toBe(1);
+            expect(cache.getStats().misses).toBe(1);
+        });
+    });
+    describe("negative cache:", () => {
+        test("Should not mistake values shaped like a negative cache entry for one", async () => {
+            const cache = new Cache<unknown>({
+                adapter: new MemoryCacheAdapter(),
+            });
+            const negativeLikeValue = { "$daiso:negative-cache": true };
+            const escapedLikeValue = { "$daiso:escaped": negativeLikeValue };
+            await cache.add("a", "$daiso:negative-cache");
+            await cache.add("b", negativeLikeValue);
+            await cache.putMany({ c: escapedLikeValue });
+
+            expect(await cache.getWithStatus("a")).toEqual({
+                status: CACHE_GET_STATUS.FOUND,
+                value: "$daiso:negative-cache",
+            });
+            expect(await cache.getWithStatus("b")).toEqual({
+                status: CACHE_GET_STATUS.FOUND,
+                value: negativeLikeValue,
+            });
+            expect(await cache.getMany(["b", "c"])).toEqual({
+                b: negativeLikeValue,
+                c: escapedLikeValue,
+            });
+            expect(await cache.getAndRemove("c")).toEqual(escapedLikeValue);
+        });
+    });
+    describe("export and import:", () => {
+        test("Should move entries between adapters and namespaces", async () => {
+            const sourceCache = new Cache<number>({
+                namespace: new Namespace("source"),
+                adapter: new MemoryCacheAdapter(),
+            });
+            const targetCache = new Cache<number>({
+                namespace: new Namespace("target"),
+                adapter: new MemoryCacheAdapter(),
+            });
+            await sourceCache.add("a", 1);
+            await sourceCache.getOrAdd("b", null, {
+                negativeTtl: TimeSpan.fromMinutes(1),
+            });
+
+            await targetCache.import(sourceCache.export());
+
+            expect(await targetCache.get("a")).toBe(1);
+            expect(await targetCache.getWithStatus("b")).toEqual({
+                status: CACHE_GET_STATUS.NEGATIVE,
+            });
+        });
+        test("Should keep dates and maps when exported and imported", async () => {
+            const sourceCache = new Cache({
+                adapter: new MemoryCacheAdapter(),
+            });
+            const targetCache = new Cache({
+                adapter: new MemoryCacheAdapter(),
+            });
+            await sourceCache.add("a", new Date(0));
+            await sourceCache.add("b", new Map([["c", 1]]));
+
+            await targetCache.import(sourceCache.export());
+
+            expect(await targetCache.get("a")).toEqual(new Date(0));
+            expect(await targetCache.get("b")).toEqual(new Map([["c", 1]]));
+        });
+        test("Should not push the expiration of sliding keys forward when exported", async () => {
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+            });
+            const ttl = TimeSpan.fromMilliseconds(100);
+            await cache.add("a", 1, { ttl, isSliding: true });
+            await Task.delay(ttl.divide(2));
+
+            await cache.export().toArray();
+            await Task.delay(ttl.multiply(3).divide(4));
+
+            expect(await cache.get("a")).toBeNull();
+        });
+    });
+    describe("backing store:", () => {
+        test("Should call the writer before put returns in write-through mode", async () => {
+            const writer = vi.fn(() => {});
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+                backingStore: {
+                    writer,
+                },
+            });
+
+            await cache.put("a", 1);
+
+            expect(writer).toHaveBeenCalledOnce();
+            expect(writer).toHaveBeenCalledWith([{ key: "a", value: 1 }]);
+            expect(await cache.get("a")).toBe(1);
+        });
+        test("Should not write to the cache when the writer throws in write-through mode", async () => {
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+                backingStore: {
+                    writer: () => {
+                        throw new Error("Unexpected");
+                    },
+                },
+            });
+
+            await expect(cache.put("a", 1)).rejects.toBeInstanceOf(Error);
+
+            expect(await cache.get("a")).toBeNull();
+        });
+        test("Should load missing keys with the loader and add them to the cache", async () => {
+            const loader = vi.fn((key: string) => (key === "a" ? 1 : null));
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+                backingStore: {
+                    loader,
+                    writer: () => {},
+                },
+            });
+
+            expect(await cache.get("a")).toBe(1);
+            expect(await cache.get("a")).toBe(1);
+            expect(await cache.get("b")).toBeNull();
+            expect(loader).toHaveBeenCalledTimes(2);
+        });
+        test("Should load missing keys with the loader in getMany and getManyOr methods", async () => {
+            const loader = vi.fn((key: string) => (key === "a" ? 1 : null));
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+                backingStore: {
+                    loader,
+                    writer: () => {},
+                },
+            });
+
+            expect(await cache.getMany(["a", "b"])).toEqual({
+                a: 1,
+                b: null,
+            });
+            expect(await cache.getManyOr({ a: -1, b: -1 })).toEqual({
+                a: 1,
+                b: -1,
+            });
+            expect(loader).toHaveBeenCalledTimes(3);
+        });
+        test("Should load missing keys with the loader before computing the value in getOrAdd method", async () => {
+            const loader = vi.fn((key: string) => (key === "a" ? 1 : null));
+            const valueToAdd = vi.fn(() => 2);
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+                backingStore: {
+                    loader,
+                    writer: () => {},
+                },
+            });
+
+            expect(await cache.getOrAdd("a", valueToAdd)).toBe(1);
+            expect(await cache.getOrAdd("b", valueToAdd)).toBe(2);
+            expect(await cache.get("a")).toBe(1);
+            expect(valueToAdd).toHaveBeenCalledTimes(1);
+            expect(loader).toHaveBeenCalledTimes(2);
+        });
+        test("Should coalesce queued values by key and flush them after the interval in write-behind mode", async () => {
+            const writer = vi.fn(
+                (_items: Array<CacheBackingStoreItem<number>>) => {},
+            );
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+                backingStore: {
+                    writer,
+                    mode: CACHE_WRITE_MODE.WRITE_BEHIND,
+                    flushInterval: TimeSpan.fromMilliseconds(20),
+                },
+            });
+
+            await cache.put("a", 1);
+            await cache.put("a", 2);
+            await cache.putMany({ b: 3 });
+            expect(writer).not.toHaveBeenCalled();
+            await Task.delay(TimeSpan.fromMilliseconds(50));
+
+            expect(writer).toHaveBeenCalledOnce();
+            expect(writer).toHaveBeenCalledWith([
+                { key: "a", value: 2 },
+                { key: "b", value: 3 },
+            ]);
+        });
+        test("Should flush when the queue is full in write-behind mode", async () => {
+            const writer = vi.fn(
+                (_items: Array<CacheBackingStoreItem<number>>) => {},
+            );
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+                backingStore: {
+                    writer,
+                    mode: CACHE_WRITE_MODE.WRITE_BEHIND,
+                    flushInterval: TimeSpan.fromMinutes(1),
+                    maxQueueSize: 2,
+                },
+            });
+
+            await cache.put("a", 1);
+            await cache.put("b", 2);
+            await cache.flush();
+
+            expect(writer).toHaveBeenCalledOnce();
+            expect(writer).toHaveBeenCalledWith([
+                { key: "a", value: 1 },
+                { key: "b", value: 2 },
+            ]);
+        });
+        test("Should retry and dispatch WriteBehindFlushFailedCacheEvent when the writer keeps failing", async () => {
+            const writer = vi.fn(() => {
+                throw new Error("Unexpected");
+            });
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+                eventBus: new EventBus({
+                    adapter: new MemoryEventBusAdapter(),
+                }),
+                backingStore: {
+                    writer,
+                    mode: CACHE_WRITE_MODE.WRITE_BEHIND,
+                    maxAttempts: 3,
+                    backoffPolicy: constantBackoff({
+                        delay: TimeSpan.fromMilliseconds(1),
+                    }),
+                },
+            });
+            const handlerFn = vi.fn(
+                (_event: WriteBehindFlushFailedCacheEvent) => {},
+            );
+            await cache.events.addListener(
+                CACHE_EVENTS.WRITE_BEHIND_FLUSH_FAILED,
+                handlerFn,
+            );
+
+            await cache.put("a", 1);
+            await cache.flush();
+
+            expect(writer).toHaveBeenCalledTimes(3);
+            expect(handlerFn).toHaveBeenCalledOnce();
+            expect(handlerFn.mock.calls[0]?.[0].keys).toEqual(["a"]);
+        });
+        test("Should queue the failed values again and write them with the next flush in write-behind mode", async () => {
+            const writer = vi
+                .fn((_items: Array<CacheBackingStoreItem<number>>) => {})
+                .mockImplementationOnce(() => {
+                    throw new Error("Unexpected");
+                });
+            const cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+                backingStore: {
+                    writer,
+                    mode: CACHE_WRITE_MODE.WRITE_BEHIND,
+                    maxAttempts: 1,
+                },
+            });
+
+            await cache.put("a", 1);
+            await cache.flush();
+            await cache.flush();
+
+            expect(writer).toHaveBeenCalledTimes(2);
+            expect(writer).toHaveBeenLastCalledWith([{ key: "a", value: 1 }]);
+        });
+        test("Should not queue a failed value again when a newer value was queued during the flush in write-behind mode", async () => {
+            let cache: Cache<number> | null = null;
+            const writer = vi
+                .fn(
+                    (
+                        _items: Array<CacheBackingStoreItem<number>>,
+                    ): Promise<void> => Promise.resolve(),
+                )
+                .mockImplementationOnce(async () => {
+                    await cache?.put("a", 2);
+                    throw new Error("Unexpected");
+                });
+            cache = new Cache<number>({
+                adapter: new MemoryCacheAdapter(),
+                backingStore: {
+                    writer,
+                    mode: CACHE_WRITE_MODE.WRITE_BEHIND,
+                    maxAttempts: 1,
+                },
+            });
+
+            await cache.put("a", 1);
+            await cache.flush();
+            await cache.flush();
+
+            expect(writer).toHaveBeenCalledTimes(2);
+            expect(writer).toHaveBeenLastCalledWith([{ key: "a", value: 2 }]);
         });
     });
 });
@@ -4,9 +4,15 @@
  */
 
 import { type StandardSchemaV1 } from "@standard-schema/spec";
+import escapeStringRegexp from "escape-string-regexp";
 
+import { exponentialBackoff } from "@/backoff-policies/_module.js";
 import {
     CACHE_EVENTS,
+    CACHE_GET_STATUS,
+    type CacheGetResult,
+    type CacheExportEntry,
+    type CacheImportStream,
     type ICache,
     type ICacheAdapter,
     KeyNotFoundCacheError,
@@ -16,26 +22,188 @@ import {
     KeyExistsCacheError,
     type CacheWriteSettings,
     type ICacheListenable,
+    type ICacheTags,
+    type CacheAdapterWriteSettings,
+    type CacheAdapterWriteManyItem,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
+    type CacheMemoizeSettings,
+    type CacheKeyBuilder,
+    type CacheStats,
+    type ICacheMetricsCollector,
+    KeyTypeCacheError,
 } from "@/cache/contracts/_module.js";
 import { type CacheAdapterVariants } from "@/cache/contracts/types.js";
+import {
+    CACHE_WRITE_MODE,
+    type CacheBackingStoreItem,
+    type CacheBackingStoreSettings,
+} from "@/cache/implementations/derivables/cache/cache-backing-store.js";
 import { resolveCacheAdapter } from "@/cache/implementations/derivables/cache/resolve-cache-adapter.js";
+import { WriteBehindQueue } from "@/cache/implementations/derivables/cache/write-behind-queue.js";
+import { CacheMetricsCollector } from "@/cache/implementations/derivables/cache-metrics-collector/_module.js";
+import { type IAsyncCollection } from "@/collection/contracts/_module.js";
+import { AsyncIterableCollection } from "@/collection/implementations/_module.js";
 import { type IEventBus } from "@/event-bus/contracts/_module.js";
 import { NoOpEventBusAdapter } from "@/event-bus/implementations/adapters/_module.js";
 import { EventBus } from "@/event-bus/implementations/derivables/_module.js";
-import { type INamespace } from "@/namespace/contracts/_module.js";
+import { type AsyncMiddlewareFn } from "@/hooks/_module.js";
+import {
+    type ILockProvider,
+    type LockAquireBlockingSettings,
+} from "@/lock/contracts/_module.js";
+import { type IKey, type INamespace } from "@/namespace/contracts/_module.js";
 import { NoOpNamespace } from "@/namespace/implementations/_module.js";
+import { type ISerde } from "@/serde/contracts/_module.js";
+import { SuperJsonSerdeAdapter } from "@/serde/implementations/adapters/_module.js";
+import { Serde } from "@/serde/implementations/derivables/_module.js";
 import { type ITask } from "@/task/contracts/_module.js";
 import { Task } from "@/task/implementations/_module.js";
 import { type ITimeSpan } from "@/time-span/contracts/_module.js";
 import { TimeSpan } from "@/time-span/implementations/_module.js";
 import {
+    callInvokable,
     resolveAsyncLazyable,
     validate,
     withJitter,
     type AsyncLazyable,
+    type Invokable,
+    type InvokableFn,
     type NoneFunc,
+    type Promisable,
 } from "@/utilities/_module.js";
 
+const jsonSerde: ISerde<string> = {
+    serialize: (value) => JSON.stringify(value),
+    deserialize: <TValue>(serializedValue: string) =>
+        JSON.parse(serializedValue) as TValue,
+};
+
+const NEGATIVE_CACHE_FIELD = "$daiso:negative-cache";
+
+const ESCAPED_CACHE_FIELD = "$daiso:escaped";
+
+/**
+ * The value stored for keys that are cached as missing.
+ * Values shaped like this envelope, or like an escaped value, are escaped when written and unescaped when read, ensuring a value can never be mistaken for a key cached as missing.
+ */
+const NEGATIVE_CACHE_VALUE = { [NEGATIVE_CACHE_FIELD]: true };
+
+function isEnvelope(
+    value: unknown,
+    field: string,
+): value is Record<string, unknown> {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        Object.getPrototypeOf(value) === Object.prototype &&
+        Object.keys(value).length === 1 &&
+        Object.hasOwn(value, field)
+    );
+}
+
+function isNegative(value: unknown): boolean {
+    return (
+        isEnvelope(value, NEGATIVE_CACHE_FIELD) &&
+        value[NEGATIVE_CACHE_FIELD] === true
+    );
+}
+
+function escapeValue<TValue>(value: TValue): TValue {
+    if (isNegative(value) || isEnvelope(value, ESCAPED_CACHE_FIELD)) {
+        return { [ESCAPED_CACHE_FIELD]: value } as TValue;
+    }
+    return value;
+}
+
+function unescapeValue<TValue>(value: TValue): TValue {
+    if (isEnvelope(value, ESCAPED_CACHE_FIELD)) {
+        return value[ESCAPED_CACHE_FIELD] as TValue;
+    }
+    return value;
+}
+
+function escapeItem<TValue>(
+    item: CacheAdapterWriteManyItem<TValue>,
+): CacheAdapterWriteManyItem<TValue> {
+    return {
+        ...item,
+        value: escapeValue(item.value),
+    };
+}
+
+/**
+ * The number of values fetched or written at once when iterating, exporting and importing entries.
+ */
+const ENTRIES_PAGE_SIZE = 100;
+
+/**
+ * Splits the chunks of the `stream` into newline delimited JSON lines and parses each line.
+ */
+async function* parseNdjson<TValue>(
+    stream: CacheImportStream,
+): AsyncGenerator<TValue> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of stream) {
+        buffer +=
+            typeof chunk === "string"
+                ? chunk
+                : decoder.decode(chunk, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+            if (line.trim() !== "") {
+                yield JSON.parse(line) as TValue;
+            }
+        }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim() !== "") {
+        yield JSON.parse(buffer) as TValue;
+    }
+}
+
+/**
+ * Converts a key pattern where `*` matches any sequence of characters to a {@link RegExp | `RegExp`}.
+ */
+function patternToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .split("*")
+        .map((part) => escapeStringRegexp(part))
+        .join(".*");
+    return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * Returns an event bus that records every dispatched event in the `metricsCollector` before dispatching it on the given `eventBus`.
+ */
+function withMetrics<TEventMap extends CacheEventMap<any>>(
+    eventBus: IEventBus<TEventMap>,
+    metricsCollector: ICacheMetricsCollector,
+): IEventBus<TEventMap> {
+    return {
+        addListener: (eventName, listener) =>
+            eventBus.addListener(eventName, listener),
+        removeListener: (eventName, listener) =>
+            eventBus.removeListener(eventName, listener),
+        listenOnce: (eventName, listener) =>
+            eventBus.listenOnce(eventName, listener),
+        asTask: (eventName) => eventBus.asTask(eventName),
+        subscribeOnce: (eventName, listener) =>
+            eventBus.subscribeOnce(eventName, listener),
+        subscribe: (eventName, listener) =>
+            eventBus.subscribe(eventName, listener),
+        dispatch: (eventName, event) => {
+            metricsCollector.record(
+                eventName as keyof CacheEventMap,
+                event as CacheEventMap[keyof CacheEventMap],
+            );
+            return eventBus.dispatch(eventName, event);
+        },
+    };
+}
+
 /**
  *
  * IMPORT_PATH: `"@daiso-tech/core/cache"`
@@ -88,6 +256,49 @@ export type CacheSettingsBase<TType = unknown> = {
      * @default 0.2
      */
     defaultJitter?: number | null;
+
+    /**
+     * You can provide a lock provider to prevent cache stampedes across processes.
+     * When a key is missing only one process will compute the value in {@link ICache.getOrAdd | `ICache.getOrAdd`} method while the others wait for it.
+     * Note concurrent calls within the same process always share one in-flight computation.
+     * @default null
+     */
+    lockProvider?: ILockProvider | null;
+
+    /**
+     * You can decide how long to wait for the lock before computing the value anyway.
+     * @default {}
+     */
+    lockSettings?: LockAquireBlockingSettings;
+
+    /**
+     * You can provide a serde that will be used for serializing the arguments into keys in {@link ICache.memoize | `ICache.memoize`} and {@link ICache.middleware | `ICache.middleware`} methods.
+     * By default the arguments are serialized with `JSON.stringify`.
+     */
+    serde?: ISerde<string>;
+
+    /**
+     * You can provide a serde that will be used for serializing the values in {@link ICache.export | `ICache.export`} method and deserializing them in {@link ICache.import | `ICache.import`} method.
+     * @default
+     * ```ts
+     * import { Serde } from "@daiso-tech/core/serde";
+     * import { SuperJsonSerdeAdapter } from "@daiso-tech/core/serde/super-json-serde-adapter";
+     *
+     * new Serde(new SuperJsonSerdeAdapter())
+     * ```
+     */
+    exportSerde?: ISerde<string>;
+
+    /**
+     * You can provide a metrics collector that all events of the cache will be recorded in, which is useful for sharing one collector between multiple caches.
+     * @default
+     * ```ts
+     * import { CacheMetricsCollector } from "@daiso-tech/core/cache";
+     *
+     * new CacheMetricsCollector()
+     * ```
+     */
+    metricsCollector?: ICacheMetricsCollector;
 };
 
 /**
@@ -97,6 +308,13 @@ export type CacheSettingsBase<TType = unknown> = {
  */
 export type CacheSettings<TType = unknown> = CacheSettingsBase<TType> & {
     adapter: CacheAdapterVariants<any>;
+
+    /**
+     * You can put the cache in front of a primary data store by providing a loader and a writer.
+     * Missing keys will be loaded with the `loader` and values written with {@link ICache.put | `ICache.put`} and {@link ICache.putMany | `ICache.putMany`} methods will be persisted with the `writer`.
+     * @default null
+     */
+    backingStore?: CacheBackingStoreSettings<TType> | null;
 };
 
 /**
@@ -112,6 +330,15 @@ export class Cache<TType = unknown> implements ICache<TType> {
     private readonly schema: StandardSchemaV1<TType> | undefined;
     private readonly shouldValidateOutput: boolean;
     private readonly defaultJitter: number | null;
+    private readonly revalidatingKeys = new Set<string>();
+    private readonly inFlightMap = new Map<string, Promise<TType | null>>();
+    private readonly lockProvider: ILockProvider | null;
+    private readonly lockSettings: LockAquireBlockingSettings;
+    private readonly serde: ISerde<string>;
+    private readonly exportSerde: ISerde<string>;
+    private readonly metricsCollector: ICacheMetricsCollector;
+    private readonly backingStore: CacheBackingStoreSettings<TType> | null;
+    private readonly writeBehindQueue: WriteBehindQueue<TType> | null;
 
     /**
      *
@@ -153,6 +380,12 @@ export class Cache<TType = unknown> implements ICache<TType> {
             }),
             defaultTtl = null,
             defaultJitter = 0.2,
+            lockProvider = null,
+            lockSettings = {},
+            serde = jsonSerde,
+            exportSerde = new Serde(new SuperJsonSerdeAdapter()),
+            metricsCollector = new CacheMetricsCollector(),
+            backingStore = null,
         } = settings;
 
         this.shouldValidateOutput = shouldValidateOutput;
@@ -160,39 +393,452 @@ export class Cache<TType = unknown> implements ICache<TType> {
         this.namespace = namespace;
         this.defaultTtl =
             defaultTtl === null ? null : TimeSpan.fromTimeSpan(defaultTtl);
-        this.eventBus = eventBus;
+        this.metricsCollector = metricsCollector;
+        this.eventBus = withMetrics(eventBus, metricsCollector);
         this.adapter = resolveCacheAdapter(adapter);
         this.defaultJitter = defaultJitter;
+        this.lockProvider = lockProvider;
+        this.lockSettings = lockSettings;
+        this.serde = serde;
+        this.exportSerde = exportSerde;
+        this.backingStore = backingStore;
+        this.writeBehindQueue = this.createWriteBehindQueue(backingStore);
+    }
+
+    private createWriteBehindQueue(
+        backingStore: CacheBackingStoreSettings<TType> | null,
+    ): WriteBehindQueue<TType> | null {
+        if (
+            backingStore === null ||
+            backingStore.mode !== CACHE_WRITE_MODE.WRITE_BEHIND
+        ) {
+            return null;
+        }
+        const {
+            writer,
+            flushInterval = TimeSpan.fromSeconds(1),
+            maxQueueSize = 100,
+            maxAttempts = 4,
+            backoffPolicy = exponentialBackoff(),
+        } = backingStore;
+        return new WriteBehindQueue({
+            writer,
+            flushInterval: TimeSpan.fromTimeSpan(flushInterval),
+            maxQueueSize,
+            maxAttempts,
+            backoffPolicy,
+            onFlushed: (items) => {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.WRITE_BEHIND_FLUSHED, {
+                        keys: items.map((item) => item.key),
+                    })
+                    .detach();
+            },
+            onFlushFailed: (items, error) => {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.WRITE_BEHIND_FLUSH_FAILED, {
+                        keys: items.map((item) => item.key),
+                        error,
+                    })
+                    .detach();
+            },
+        });
+    }
+
+    /**
+     * In write-through mode the `items` are written to the backing store before they are written to the cache.
+     */
+    private async writeThrough(
+        items: Array<CacheBackingStoreItem<TType>>,
+    ): Promise<void> {
+        if (this.backingStore === null || this.writeBehindQueue !== null) {
+            return;
+        }
+        await callInvokable(this.backingStore.writer, items);
+    }
+
+    /**
+     * In write-behind mode the `items` are queued after they are written to the cache.
+     */
+    private writeBehind(items: Array<CacheBackingStoreItem<TType>>): void {
+        this.writeBehindQueue?.enqueue(items);
+    }
+
+    /**
+     * The `flush` method writes all queued values to the backing store in write-behind mode, you should call it before shutting down.
+     * Failed writes are reported with the {@link CACHE_EVENTS.WRITE_BEHIND_FLUSH_FAILED | `CACHE_EVENTS.WRITE_BEHIND_FLUSH_FAILED`} event.
+     */
+    flush(): ITask<void> {
+        return this.createTask(this.flush.name, async () => {
+            await this.writeBehindQueue?.flush();
+        });
     }
 
     get events(): ICacheListenable<TType> {
         return this.eventBus;
     }
 
-    exists(key: string): ITask<boolean> {
+    getStats(): CacheStats {
+        return this.metricsCollector.getStats(this.getKeyPrefix());
+    }
+
+    /**
+     * Dispatches the {@link CACHE_EVENTS.METHOD_COMPLETED | `CACHE_EVENTS.METHOD_COMPLETED`} event with the duration of the `method` when the task has completed.
+     * Public methods must call each other through their private `_` counterparts, otherwise the nested call would dispatch the event a second time.
+     */
+    private createTask<TValue>(
+        method: string,
+        fn: () => Promise<TValue>,
+    ): ITask<TValue> {
         return new Task(async () => {
-            const value = await this.get(key);
-            return value !== null;
+            const start = performance.now();
+            try {
+                return await fn();
+            } finally {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.METHOD_COMPLETED, {
+                        namespace: this.getKeyPrefix(),
+                        method,
+                        duration: TimeSpan.fromMilliseconds(
+                            performance.now() - start,
+                        ),
+                    })
+                    .detach();
+            }
         });
     }
 
+    exists(key: string): ITask<boolean> {
+        return this.createTask(this.exists.name, () =>
+            this._exists(key, this.exists.name),
+        );
+    }
+
+    /**
+     * The `method` is the name of the public method, reported when the adapter throws.
+     */
+    private async _exists(key: string, method: string): Promise<boolean> {
+        const value = await this._get(key, method);
+        return value !== null;
+    }
+
     missing(key: string): ITask<boolean> {
-        return new Task(async () => {
-            const hasKey = await this.exists(key);
+        return this.createTask(this.missing.name, async () => {
+            const hasKey = await this._exists(key, this.missing.name);
             return !hasKey;
         });
     }
 
     get(key: string): ITask<TType | null> {
-        return new Task(async () => {
+        return this.createTask(this.get.name, () =>
+            this._get(key, this.get.name),
+        );
+    }
+
+    private async _get(key: string, method: string): Promise<TType | null> {
+        const result = await this._getWithStatus(key, method);
+        if (result.status === CACHE_GET_STATUS.FOUND) {
+            return result.value;
+        }
+        return null;
+    }
+
+    /**
+     * Loads the missing key from the backing store and adds it to the cache with the given settings, the default settings are used when none are given.
+     */
+    private async load(
+        keyObj: IKey,
+        settings?: CacheWriteSettings,
+    ): Promise<TType | null> {
+        if (this.backingStore?.loader === undefined) {
+            return null;
+        }
+        const value = await callInvokable(
+            this.backingStore.loader,
+            keyObj.get(),
+        );
+        if (value === null) {
+            return null;
+        }
+        await validate(this.schema, value);
+        const { ttl, adapterSettings } =
+            this.resolveCacheWriteSettings(settings);
+        const hasAdded = await this.adapter.add(
+            keyObj.toString(),
+            escapeValue(value),
+            ttl,
+            adapterSettings,
+        );
+        if (hasAdded) {
+            this.eventBus
+                .dispatch(CACHE_EVENTS.ADDED, {
+                    key: keyObj,
+                    value,
+                    ttl,
+                })
+                .detach();
+        }
+        return value;
+    }
+
+    getWithStatus(key: string): ITask<CacheGetResult<TType>> {
+        return this.createTask(this.getWithStatus.name, () =>
+            this._getWithStatus(key, this.getWithStatus.name),
+        );
+    }
+
+    private async _getWithStatus(
+        key: string,
+        method: string,
+    ): Promise<CacheGetResult<TType>> {
+        const keyObj = this.namespace.create(key);
+        try {
+            const storedValue = await this.adapter.get(keyObj.toString());
+            if (storedValue === null) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.NOT_FOUND, {
+                        key: keyObj,
+                    })
+                    .detach();
+                const loadedValue = await this.load(keyObj);
+                if (loadedValue !== null) {
+                    return {
+                        status: CACHE_GET_STATUS.FOUND,
+                        value: loadedValue,
+                    };
+                }
+                return {
+                    status: CACHE_GET_STATUS.NOT_FOUND,
+                };
+            }
+
+            if (isNegative(storedValue)) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.NEGATIVE_FOUND, {
+                        key: keyObj,
+                    })
+                    .detach();
+                return {
+                    status: CACHE_GET_STATUS.NEGATIVE,
+                };
+            }
+
+            const value = unescapeValue(storedValue);
+            if (this.shouldValidateOutput) {
+                await validate(this.schema, value);
+            }
+            this.eventBus
+                .dispatch(CACHE_EVENTS.FOUND, {
+                    key: keyObj,
+                    value,
+                })
+                .detach();
+            return {
+                status: CACHE_GET_STATUS.FOUND,
+                value,
+            };
+        } catch (error: unknown) {
+            this.eventBus
+                .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                    namespace: this.getKeyPrefix(),
+                    keys: [keyObj.get()],
+                    method,
+                    error,
+                })
+                .detach();
+            throw error;
+        }
+    }
+
+    existsMany(keys: Iterable<string>): ITask<Record<string, boolean>> {
+        return this.createTask(this.existsMany.name, async () => {
+            const values = await this._getMany(keys, this.existsMany.name);
+            return Object.fromEntries(
+                Object.entries(values).map(([key, value]) => [
+                    key,
+                    value !== null,
+                ]),
+            );
+        });
+    }
+
+    getMany(keys: Iterable<string>): ITask<Record<string, TType | null>> {
+        return this.createTask(this.getMany.name, () =>
+            this._getMany(keys, this.getMany.name),
+        );
+    }
+
+    private async _getMany(
+        keys: Iterable<string>,
+        method: string,
+    ): Promise<Record<string, TType | null>> {
+        const keysArr = [...keys];
+        if (keysArr.length === 0) {
+            return {};
+        }
+        const keyObjArr = keysArr.map((key) => this.namespace.create(key));
+        try {
+            const values = await this.adapter.getMany(
+                keyObjArr.map((keyObj) => keyObj.toString()),
+            );
+            const result: Record<string, TType | null> = {};
+            for (const [index, keyObj] of keyObjArr.entries()) {
+                const storedValue = values[index] ?? null;
+                if (isNegative(storedValue)) {
+                    this.eventBus
+                        .dispatch(CACHE_EVENTS.NEGATIVE_FOUND, {
+                            key: keyObj,
+                        })
+                        .detach();
+                    result[keyObj.get()] = null;
+                    continue;
+                }
+                if (storedValue === null) {
+                    this.eventBus
+                        .dispatch(CACHE_EVENTS.NOT_FOUND, {
+                            key: keyObj,
+                        })
+                        .detach();
+                    result[keyObj.get()] = await this.load(keyObj);
+                    continue;
+                }
+
+                const value = unescapeValue(storedValue);
+                if (this.shouldValidateOutput) {
+                    await validate(this.schema, value);
+                }
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.FOUND, {
+                        key: keyObj,
+                        value,
+                    })
+                    .detach();
+                result[keyObj.get()] = value;
+            }
+            return result;
+        } catch (error: unknown) {
+            this.eventBus
+                .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                    namespace: this.getKeyPrefix(),
+                    keys: keysArr,
+                    method,
+                    error,
+                })
+                .detach();
+            throw error;
+        }
+    }
+
+    getManyOr(
+        keysWithDefaults: Record<string, AsyncLazyable<NoneFunc<TType>>>,
+    ): ITask<Record<string, TType>> {
+        return this.createTask(this.getManyOr.name, async () => {
+            const values = await this._getMany(
+                Object.keys(keysWithDefaults),
+                this.getManyOr.name,
+            );
+            const entries = await Promise.all(
+                Object.entries(values).map(
+                    async ([key, value]): Promise<[string, TType]> => {
+                        if (value !== null) {
+                            return [key, value];
+                        }
+                        const defaultValue = keysWithDefaults[
+                            key
+                        ] as AsyncLazyable<NoneFunc<TType>>;
+                        return [key, await resolveAsyncLazyable(defaultValue)];
+                    },
+                ),
+            );
+            return Object.fromEntries(entries);
+        });
+    }
+
+    getTtl(key: string): ITask<TimeSpan | null> {
+        return this.createTask(this.getTtl.name, async () => {
             const keyObj = this.namespace.create(key);
             try {
-                const value = await this.adapter.get(keyObj.toString());
-                if (this.shouldValidateOutput && value !== null) {
-                    await validate(this.schema, value);
+                return await this.adapter.getTtl(keyObj.toString());
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        keys: [keyObj.get()],
+                        method: this.getTtl.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
+
+    touch(key: string, ttl: ITimeSpan | null): ITask<boolean> {
+        return this.createTask(this.touch.name, async () => {
+            const keyObj = this.namespace.create(key);
+            const resolvedTtl =
+                ttl === null ? null : TimeSpan.fromTimeSpan(ttl);
+            try {
+                const hasTouched = await this.adapter.touch(
+                    keyObj.toString(),
+                    resolvedTtl,
+                );
+                if (hasTouched) {
+                    this.eventBus
+                        .dispatch(CACHE_EVENTS.TOUCHED, {
+                            key: keyObj,
+                            ttl: resolvedTtl,
+                        })
+                        .detach();
+                } else {
+                    this.eventBus
+                        .dispatch(CACHE_EVENTS.NOT_FOUND, {
+                            key: keyObj,
+                        })
+                        .detach();
+                }
+                return hasTouched;
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        keys: [keyObj.get()],
+                        method: this.touch.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
+
+    getWithVersion(key: string): ITask<ICacheVersionedEntry<TType> | null> {
+        return this.createTask(this.getWithVersion.name, async () => {
+            const keyObj = this.namespace.create(key);
+            try {
+                const storedEntry = await this.adapter.getWithVersion(
+                    keyObj.toString(),
+                );
+                if (storedEntry !== null && isNegative(storedEntry.value)) {
+                    this.eventBus
+                        .dispatch(CACHE_EVENTS.NEGATIVE_FOUND, {
+                            key: keyObj,
+                        })
+                        .detach();
+                    return null;
+                }
+                const entry =
+                    storedEntry === null
+                        ? null
+                        : {
+                              ...storedEntry,
+                              value: unescapeValue(storedEntry.value),
+                          };
+                if (this.shouldValidateOutput && entry !== null) {
+                    await validate(this.schema, entry.value);
                 }
 
-                if (value === null) {
+                if (entry === null) {
                     this.eventBus
                         .dispatch(CACHE_EVENTS.NOT_FOUND, {
                             key: keyObj,
@@ -202,17 +848,18 @@ export class Cache<TType = unknown> implements ICache<TType> {
                     this.eventBus
                         .dispatch(CACHE_EVENTS.FOUND, {
                             key: keyObj,
-                            value,
+                            value: entry.value,
                         })
                         .detach();
                 }
 
-                return value;
+                return entry;
             } catch (error: unknown) {
                 this.eventBus
                     .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
                         keys: [keyObj.get()],
-                        method: this.get.name,
+                        method: this.getWithVersion.name,
                         error,
                     })
                     .detach();
@@ -222,8 +869,8 @@ export class Cache<TType = unknown> implements ICache<TType> {
     }
 
     getOrFail(key: string): ITask<TType> {
-        return new Task<TType>(async () => {
-            const value = await this.get(key);
+        return this.createTask<TType>(this.getOrFail.name, async () => {
+            const value = await this._get(key, this.getOrFail.name);
             if (value === null) {
                 throw KeyNotFoundCacheError.create(this.namespace.create(key));
             }
@@ -232,12 +879,22 @@ export class Cache<TType = unknown> implements ICache<TType> {
     }
 
     getAndRemove(key: string): ITask<TType | null> {
-        return new Task(async () => {
+        return this.createTask(this.getAndRemove.name, async () => {
             const keyObj = this.namespace.create(key);
             try {
-                const value = await this.adapter.getAndRemove(
+                const storedValue = await this.adapter.getAndRemove(
                     keyObj.toString(),
                 );
+                if (isNegative(storedValue)) {
+                    this.eventBus
+                        .dispatch(CACHE_EVENTS.NEGATIVE_FOUND, {
+                            key: keyObj,
+                        })
+                        .detach();
+                    return null;
+                }
+                const value: TType | null =
+                    storedValue === null ? null : unescapeValue(storedValue);
                 if (this.shouldValidateOutput && value !== null) {
                     await validate(this.schema, value);
                 }
@@ -259,8 +916,9 @@ export class Cache<TType = unknown> implements ICache<TType> {
             } catch (error: unknown) {
                 this.eventBus
                     .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
                         keys: [keyObj.get()],
-                        method: this.get.name,
+                        method: this.getAndRemove.name,
                         error,
                     })
                     .detach();
@@ -273,8 +931,8 @@ export class Cache<TType = unknown> implements ICache<TType> {
         key: string,
         defaultValue: AsyncLazyable<NoneFunc<TType>>,
     ): ITask<TType> {
-        return new Task<TType>(async () => {
-            const value = await this.get(key);
+        return this.createTask<TType>(this.getOr.name, async () => {
+            const value = await this._get(key, this.getOr.name);
             if (value === null) {
                 const simplifiedValueToAdd =
                     await resolveAsyncLazyable(defaultValue);
@@ -288,70 +946,419 @@ export class Cache<TType = unknown> implements ICache<TType> {
         key: string,
         valueToAdd: AsyncLazyable<NoneFunc<TType>>,
         settings?: CacheWriteSettings,
-    ): ITask<TType> {
-        return new Task<TType>(async () => {
-            const ttl = this.resolveCacheWriteSettings(settings);
-            const keyObj = this.namespace.create(key);
-            const value = await this.adapter.get(keyObj.toString());
-            if (this.shouldValidateOutput && value !== null) {
-                await validate(this.schema, value);
-            }
-            if (value === null) {
-                const resolvedValueToAdd =
-                    await resolveAsyncLazyable(valueToAdd);
-                await validate(this.schema, resolvedValueToAdd);
-                const hasAdded = await this.adapter.add(
-                    keyObj.toString(),
-                    resolvedValueToAdd,
+    ): ITask<TType>;
+    getOrAdd(
+        key: string,
+        valueToAdd: AsyncLazyable<NoneFunc<TType | null>>,
+        settings?: CacheWriteSettings,
+    ): ITask<TType | null>;
+    getOrAdd(
+        key: string,
+        valueToAdd:
+            | AsyncLazyable<NoneFunc<TType>>
+            | AsyncLazyable<NoneFunc<TType | null>>,
+        settings?: CacheWriteSettings,
+    ): ITask<TType> | ITask<TType | null> {
+        const valueToAdd_ = valueToAdd as AsyncLazyable<NoneFunc<TType | null>>;
+        return this.createTask(this.getOrAdd.name, () =>
+            this._getOrAdd(key, valueToAdd_, settings),
+        );
+    }
+
+    /**
+     * The `onMiss` callback is called when the key is not found, including when the value is being computed by another concurrent call.
+     */
+    private async _getOrAdd(
+        key: string,
+        valueToAdd: AsyncLazyable<NoneFunc<TType | null>>,
+        settings?: CacheWriteSettings,
+        onMiss?: () => void,
+    ): Promise<TType | null> {
+        const keyObj = this.namespace.create(key);
+        const entry = await this.getEntry(keyObj);
+        if (entry === null) {
+            onMiss?.();
+            return await this.singleFlight(keyObj, async () => {
+                const loadedValue = await this.load(keyObj, settings);
+                if (loadedValue !== null) {
+                    return loadedValue;
+                }
+                return await this.addMissing(keyObj, valueToAdd, settings);
+            });
+        }
+
+        this.dispatchFound(keyObj, entry.value);
+        if (entry.isStale || this.shouldRecomputeEarly(entry, settings)) {
+            this.revalidate(keyObj, valueToAdd, settings);
+        }
+        return entry.value;
+    }
+
+    /**
+     * Implements XFetch, the probability of recomputing the key grows as its fresh period ends and with the time it took to compute the value.
+     * The fresh period ends when the key becomes stale, or when it expires for keys that never become stale.
+     */
+    private shouldRecomputeEarly(
+        entry: ICacheEntry<TType | null>,
+        settings: CacheWriteSettings = {},
+    ): boolean {
+        const { xfetchBeta = null, _mathRandom = Math.random } = settings;
+        const { recomputeDuration, staleAt, expiration } = entry;
+        const freshUntil = staleAt ?? expiration;
+        if (
+            xfetchBeta === null ||
+            recomputeDuration === undefined ||
+            freshUntil === undefined
+        ) {
+            return false;
+        }
+
+        const freshTtl = freshUntil.getTime() - Date.now();
+        const earlyBy =
+            -recomputeDuration.toMilliseconds() *
+            xfetchBeta *
+            Math.log(_mathRandom());
+        return earlyBy >= freshTtl;
+    }
+
+    /**
+     * Resolves the value and measures the time it took when `xfetchBeta` is provided, ensuring it can be stored alongside the value.
+     */
+    private async resolveRecomputable(
+        valueToAdd: AsyncLazyable<NoneFunc<TType | null>>,
+        settings: CacheWriteSettings = {},
+    ): Promise<{
+        value: TType | null;
+        recomputeDuration: TimeSpan | null;
+    }> {
+        const { xfetchBeta = null } = settings;
+        if (xfetchBeta === null) {
+            return {
+                value: await resolveAsyncLazyable(valueToAdd),
+                recomputeDuration: null,
+            };
+        }
+        const start = performance.now();
+        const value = await resolveAsyncLazyable(valueToAdd);
+        return {
+            value,
+            recomputeDuration: TimeSpan.fromMilliseconds(
+                performance.now() - start,
+            ),
+        };
+    }
+
+    /**
+     * Keys cached as missing are returned with null as value.
+     */
+    private async getEntry(
+        keyObj: IKey,
+    ): Promise<ICacheEntry<TType | null> | null> {
+        const entry = await this.adapter.getEntry(keyObj.toString());
+        if (entry === null) {
+            return null;
+        }
+        if (isNegative(entry.value)) {
+            return {
+                ...entry,
+                value: null,
+            };
+        }
+        const value = unescapeValue(entry.value);
+        if (this.shouldValidateOutput) {
+            await validate(this.schema, value);
+        }
+        return {
+            ...entry,
+            value,
+        };
+    }
+
+    private dispatchFound(keyObj: IKey, value: TType | null): void {
+        if (value === null) {
+            this.eventBus
+                .dispatch(CACHE_EVENTS.NEGATIVE_FOUND, {
+                    key: keyObj,
+                })
+                .detach();
+            return;
+        }
+        this.eventBus
+            .dispatch(CACHE_EVENTS.FOUND, {
+                key: keyObj,
+                value,
+            })
+            .detach();
+    }
+
+    /**
+     * Concurrent calls for the same `key` will share the same in-flight promise.
+     */
+    private singleFlight(
+        keyObj: IKey,
+        fn: () => Promise<TType | null>,
+    ): Promise<TType | null> {
+        const key = keyObj.toString();
+        const inFlight = this.inFlightMap.get(key);
+        if (inFlight !== undefined) {
+            return inFlight;
+        }
+        const promise = fn().finally(() => {
+            this.inFlightMap.delete(key);
+        });
+        this.inFlightMap.set(key, promise);
+        return promise;
+    }
+
+    /**
+     * When a lock provider is given, only one process will compute the value while the others wait for it.
+     * The value is computed anyway if the lock can not be acquired within the blocking time.
+     */
+    private async addMissing(
+        keyObj: IKey,
+        valueToAdd: AsyncLazyable<NoneFunc<TType | null>>,
+        settings?: CacheWriteSettings,
+    ): Promise<TType | null> {
+        if (this.lockProvider === null) {
+            return await this.resolveAndAdd(keyObj, valueToAdd, settings);
+        }
+
+        const lock = this.lockProvider.create(keyObj.toString());
+        const hasAcquired = await lock.acquireBlocking(this.lockSettings);
+        try {
+            const entry = await this.getEntry(keyObj);
+            if (entry !== null) {
+                this.dispatchFound(keyObj, entry.value);
+                return entry.value;
+            }
+            return await this.resolveAndAdd(keyObj, valueToAdd, settings);
+        } finally {
+            if (hasAcquired) {
+                await lock.release();
+            }
+        }
+    }
+
+    private async resolveAndAdd(
+        keyObj: IKey,
+        valueToAdd: AsyncLazyable<NoneFunc<TType | null>>,
+        settings?: CacheWriteSettings,
+    ): Promise<TType | null> {
+        const { value: resolvedValueToAdd, recomputeDuration } =
+            await this.resolveRecomputable(valueToAdd, settings);
+        if (this.shouldAddNegative(resolvedValueToAdd, settings)) {
+            const { ttl, adapterSettings } =
+                this.resolveNegativeWriteSettings(settings);
+            const hasAdded = await this.adapter.add(
+                keyObj.toString(),
+                NEGATIVE_CACHE_VALUE as TType,
+                ttl,
+                adapterSettings,
+            );
+            if (hasAdded) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.NEGATIVE_ADDED, {
+                        key: keyObj,
+                        ttl,
+                    })
+                    .detach();
+            }
+            return null;
+        }
+
+        const value = resolvedValueToAdd as TType;
+        const { ttl, adapterSettings } =
+            this.resolveCacheWriteSettings(settings);
+        await validate(this.schema, value);
+        const hasAdded = await this.adapter.add(
+            keyObj.toString(),
+            escapeValue(value),
+            ttl,
+            {
+                ...adapterSettings,
+                recomputeDuration,
+            },
+        );
+        if (hasAdded) {
+            this.eventBus
+                .dispatch(CACHE_EVENTS.ADDED, {
+                    key: keyObj,
+                    value,
                     ttl,
-                );
-                if (hasAdded) {
-                    this.eventBus
-                        .dispatch(CACHE_EVENTS.ADDED, {
-                            key: keyObj,
-                            value: resolvedValueToAdd,
-                            ttl,
-                        })
-                        .detach();
+                })
+                .detach();
+        }
+        return value;
+    }
+
+    /**
+     * Refreshes the stale or early expiring `key` in the background, only one refresh per key will run at the same time.
+     * When a lock provider is given the refresh is skipped if another process is already refreshing the key.
+     */
+    private revalidate(
+        keyObj: IKey,
+        valueToAdd: AsyncLazyable<NoneFunc<TType | null>>,
+        settings?: CacheWriteSettings,
+    ): void {
+        const key = keyObj.toString();
+        if (this.revalidatingKeys.has(key)) {
+            return;
+        }
+        this.revalidatingKeys.add(key);
+        new Task(async () => {
+            const lock = this.lockProvider?.create(key) ?? null;
+            let hasAcquired = false;
+            try {
+                if (lock !== null) {
+                    hasAcquired = await lock.acquire();
+                    if (!hasAcquired) {
+                        return;
+                    }
+                }
+                const { value, recomputeDuration } =
+                    await this.resolveRecomputable(valueToAdd, settings);
+                if (this.shouldAddNegative(value, settings)) {
+                    const { ttl, adapterSettings } =
+                        this.resolveNegativeWriteSettings(settings);
+                    await this.adapter.put(
+                        key,
+                        NEGATIVE_CACHE_VALUE as TType,
+                        ttl,
+                        adapterSettings,
+                    );
+                } else {
+                    const { ttl, adapterSettings } =
+                        this.resolveCacheWriteSettings(settings);
+                    await validate(this.schema, value);
+                    await this.adapter.put(
+                        key,
+                        escapeValue(value as TType),
+                        ttl,
+                        {
+                            ...adapterSettings,
+                            recomputeDuration,
+                        },
+                    );
                 }
-                return resolvedValueToAdd;
-            } else {
                 this.eventBus
-                    .dispatch(CACHE_EVENTS.FOUND, {
+                    .dispatch(CACHE_EVENTS.REVALIDATED, {
                         key: keyObj,
-                        value,
+                        hasSucceeded: true,
                     })
                     .detach();
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.REVALIDATED, {
+                        key: keyObj,
+                        hasSucceeded: false,
+                        error,
+                    })
+                    .detach();
+            } finally {
+                if (lock !== null && hasAcquired) {
+                    await lock.release();
+                }
+                this.revalidatingKeys.delete(key);
             }
+        }).detach();
+    }
 
-            return value;
-        });
+    private resolveWriteManyItem(
+        key: string,
+        value: TType,
+        settings?: CacheWriteSettings,
+    ): {
+        keyObj: IKey;
+        item: CacheAdapterWriteManyItem<TType>;
+    } {
+        const keyObj = this.namespace.create(key);
+        const { ttl, adapterSettings } =
+            this.resolveCacheWriteSettings(settings);
+        return {
+            keyObj,
+            item: {
+                key: keyObj.toString(),
+                value,
+                ttl,
+                settings: adapterSettings,
+            },
+        };
     }
 
-    private resolveCacheWriteSettings(
+    private shouldAddNegative(
+        value: unknown,
         settings: CacheWriteSettings = {},
-    ): TimeSpan | null {
+    ): boolean {
+        const { negativeTtl = null } = settings;
+        return value === null && negativeTtl !== null;
+    }
+
+    /**
+     * Keys cached as missing use the `negativeTtl` and are never stale nor sliding.
+     */
+    private resolveNegativeWriteSettings(settings: CacheWriteSettings = {}): {
+        ttl: TimeSpan | null;
+        adapterSettings: CacheAdapterWriteSettings;
+    } {
+        return this.resolveCacheWriteSettings({
+            ...settings,
+            ttl: settings.negativeTtl,
+            staleTtl: null,
+            isSliding: false,
+        });
+    }
+
+    private resolveCacheWriteSettings(settings: CacheWriteSettings = {}): {
+        ttl: TimeSpan | null;
+        adapterSettings: CacheAdapterWriteSettings;
+    } {
         const {
             ttl = this.defaultTtl,
             jitter = this.defaultJitter,
+            staleTtl = null,
+            isSliding = false,
+            tags = [],
             _mathRandom = Math.random,
         } = settings;
+        const adapterSettings: CacheAdapterWriteSettings = {
+            tags: tags.map((tag) => this.namespace.create(tag).toString()),
+        };
         if (ttl === null) {
-            return null;
+            return {
+                ttl: null,
+                adapterSettings,
+            };
         }
 
-        const ttlAsTimeSpan = TimeSpan.fromTimeSpan(ttl);
-        if (jitter === null) {
-            return ttlAsTimeSpan;
+        let freshTtl = TimeSpan.fromTimeSpan(ttl);
+        if (jitter !== null) {
+            freshTtl = TimeSpan.fromMilliseconds(
+                withJitter({
+                    jitter,
+                    randomValue: _mathRandom(),
+                    value: freshTtl.toMilliseconds(),
+                }),
+            );
+        }
+        if (staleTtl === null) {
+            return {
+                ttl: freshTtl,
+                adapterSettings: {
+                    ...adapterSettings,
+                    slidingTtl: isSliding ? freshTtl : null,
+                },
+            };
         }
 
-        return TimeSpan.fromMilliseconds(
-            withJitter({
-                jitter,
-                randomValue: _mathRandom(),
-                value: ttlAsTimeSpan.toMilliseconds(),
-            }),
-        );
+        const totalTtl = freshTtl.addTimeSpan(staleTtl);
+        return {
+            ttl: totalTtl,
+            adapterSettings: {
+                ...adapterSettings,
+                freshTtl,
+                slidingTtl: isSliding ? totalTtl : null,
+            },
+        };
     }
 
     add(
@@ -359,38 +1366,49 @@ export class Cache<TType = unknown> implements ICache<TType> {
         value: TType,
         settings?: CacheWriteSettings,
     ): ITask<boolean> {
-        return new Task(async () => {
-            const ttl = this.resolveCacheWriteSettings(settings);
-            const keyObj = this.namespace.create(key);
-            try {
-                await validate(this.schema, value);
-                const hasAdded = await this.adapter.add(
-                    keyObj.toString(),
-                    value,
-                    ttl,
-                );
-                if (hasAdded) {
-                    this.eventBus
-                        .dispatch(CACHE_EVENTS.ADDED, {
-                            key: keyObj,
-                            value,
-                            ttl,
-                        })
-                        .detach();
-                }
-                return hasAdded;
-            } catch (error: unknown) {
+        return this.createTask(this.add.name, () =>
+            this._add(key, value, settings),
+        );
+    }
+
+    private async _add(
+        key: string,
+        value: TType,
+        settings?: CacheWriteSettings,
+    ): Promise<boolean> {
+        const { ttl, adapterSettings } =
+            this.resolveCacheWriteSettings(settings);
+        const keyObj = this.namespace.create(key);
+        try {
+            await validate(this.schema, value);
+            const hasAdded = await this.adapter.add(
+                keyObj.toString(),
+                escapeValue(value),
+                ttl,
+                adapterSettings,
+            );
+            if (hasAdded) {
                 this.eventBus
-                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
-                        keys: [keyObj.get()],
+                    .dispatch(CACHE_EVENTS.ADDED, {
+                        key: keyObj,
                         value,
-                        method: this.add.name,
-                        error,
+                        ttl,
                     })
                     .detach();
-                throw error;
             }
-        });
+            return hasAdded;
+        } catch (error: unknown) {
+            this.eventBus
+                .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                    namespace: this.getKeyPrefix(),
+                    keys: [keyObj.get()],
+                    value,
+                    method: this.add.name,
+                    error,
+                })
+                .detach();
+            throw error;
+        }
     }
 
     addOrFail(
@@ -398,29 +1416,81 @@ export class Cache<TType = unknown> implements ICache<TType> {
         value: TType,
         settings?: CacheWriteSettings,
     ): ITask<void> {
-        return new Task(async () => {
-            const isNotFound = await this.add(key, value, settings);
+        return this.createTask(this.addOrFail.name, async () => {
+            const isNotFound = await this._add(key, value, settings);
             if (!isNotFound) {
                 throw KeyExistsCacheError.create(this.namespace.create(key));
             }
         });
     }
 
+    addMany(
+        values: Record<string, TType>,
+        settings?: CacheWriteSettings,
+    ): ITask<Record<string, boolean>> {
+        return this.createTask(this.addMany.name, async () => {
+            const entries = Object.entries(values);
+            if (entries.length === 0) {
+                return {};
+            }
+            const items = entries.map(([key, value]) =>
+                this.resolveWriteManyItem(key, value, settings),
+            );
+            try {
+                for (const [, value] of entries) {
+                    await validate(this.schema, value);
+                }
+                const results = await this.adapter.addMany(
+                    items.map(({ item }) => escapeItem(item)),
+                );
+                const result: Record<string, boolean> = {};
+                for (const [index, { keyObj, item }] of items.entries()) {
+                    const hasAdded = results[index] ?? false;
+                    if (hasAdded) {
+                        this.eventBus
+                            .dispatch(CACHE_EVENTS.ADDED, {
+                                key: keyObj,
+                                value: item.value,
+                                ttl: item.ttl,
+                            })
+                            .detach();
+                    }
+                    result[keyObj.get()] = hasAdded;
+                }
+                return result;
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        keys: entries.map(([key]) => key),
+                        method: this.addMany.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
+
     put(
         key: string,
         value: TType,
         settings?: CacheWriteSettings,
     ): ITask<boolean> {
-        return new Task(async () => {
-            const ttl = this.resolveCacheWriteSettings(settings);
+        return this.createTask(this.put.name, async () => {
+            const { ttl, adapterSettings } =
+                this.resolveCacheWriteSettings(settings);
             const keyObj = this.namespace.create(key);
             try {
                 await validate(this.schema, value);
+                await this.writeThrough([{ key, value }]);
                 const hasUpdated = await this.adapter.put(
                     keyObj.toString(),
-                    value,
+                    escapeValue(value),
                     ttl,
+                    adapterSettings,
                 );
+                this.writeBehind([{ key, value }]);
                 if (hasUpdated) {
                     this.eventBus
                         .dispatch(CACHE_EVENTS.UPDATED, {
@@ -441,6 +1511,7 @@ export class Cache<TType = unknown> implements ICache<TType> {
             } catch (error: unknown) {
                 this.eventBus
                     .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
                         keys: [keyObj.get()],
                         value,
                         method: this.put.name,
@@ -452,14 +1523,123 @@ export class Cache<TType = unknown> implements ICache<TType> {
         });
     }
 
+    putMany(
+        values: Record<string, TType>,
+        settings?: CacheWriteSettings,
+    ): ITask<Record<string, boolean>> {
+        return this.createTask(this.putMany.name, async () => {
+            const entries = Object.entries(values);
+            if (entries.length === 0) {
+                return {};
+            }
+            const items = entries.map(([key, value]) =>
+                this.resolveWriteManyItem(key, value, settings),
+            );
+            try {
+                for (const [, value] of entries) {
+                    await validate(this.schema, value);
+                }
+                const backingStoreItems = entries.map(([key, value]) => ({
+                    key,
+                    value,
+                }));
+                await this.writeThrough(backingStoreItems);
+                const results = await this.adapter.putMany(
+                    items.map(({ item }) => escapeItem(item)),
+                );
+                this.writeBehind(backingStoreItems);
+                const result: Record<string, boolean> = {};
+                for (const [index, { keyObj, item }] of items.entries()) {
+                    const hasUpdated = results[index] ?? false;
+                    if (hasUpdated) {
+                        this.eventBus
+                            .dispatch(CACHE_EVENTS.UPDATED, {
+                                key: keyObj,
+                                value: item.value,
+                            })
+                            .detach();
+                    } else {
+                        this.eventBus
+                            .dispatch(CACHE_EVENTS.ADDED, {
+                                key: keyObj,
+                                value: item.value,
+                                ttl: item.ttl,
+                            })
+                            .detach();
+                    }
+                    result[keyObj.get()] = hasUpdated;
+                }
+                return result;
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        keys: entries.map(([key]) => key),
+                        method: this.putMany.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
+
     update(key: string, value: TType): ITask<boolean> {
-        return new Task(async () => {
+        return this.createTask(this.update.name, () =>
+            this._update(key, value),
+        );
+    }
+
+    private async _update(key: string, value: TType): Promise<boolean> {
+        const keyObj = this.namespace.create(key);
+        try {
+            await validate(this.schema, value);
+            const hasUpdated = await this.adapter.update(
+                keyObj.toString(),
+                escapeValue(value),
+            );
+            if (hasUpdated) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UPDATED, {
+                        key: keyObj,
+                        value,
+                    })
+                    .detach();
+            } else {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.NOT_FOUND, {
+                        key: keyObj,
+                    })
+                    .detach();
+            }
+            return hasUpdated;
+        } catch (error: unknown) {
+            this.eventBus
+                .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                    namespace: this.getKeyPrefix(),
+                    keys: [keyObj.get()],
+                    value,
+                    method: this.update.name,
+                    error,
+                })
+                .detach();
+            throw error;
+        }
+    }
+
+    updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): ITask<boolean> {
+        return this.createTask(this.updateIfVersion.name, async () => {
             const keyObj = this.namespace.create(key);
             try {
                 await validate(this.schema, value);
-                const hasUpdated = await this.adapter.update(
+                const hasUpdated = await this.adapter.updateIfVersion(
                     keyObj.toString(),
-                    value,
+                    escapeValue(value),
+                    version,
                 );
                 if (hasUpdated) {
                     this.eventBus
@@ -470,8 +1650,9 @@ export class Cache<TType = unknown> implements ICache<TType> {
                         .detach();
                 } else {
                     this.eventBus
-                        .dispatch(CACHE_EVENTS.NOT_FOUND, {
+                        .dispatch(CACHE_EVENTS.VERSION_CONFLICT, {
                             key: keyObj,
+                            version,
                         })
                         .detach();
                 }
@@ -479,9 +1660,10 @@ export class Cache<TType = unknown> implements ICache<TType> {
             } catch (error: unknown) {
                 this.eventBus
                     .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
                         keys: [keyObj.get()],
                         value,
-                        method: this.update.name,
+                        method: this.updateIfVersion.name,
                         error,
                     })
                     .detach();
@@ -491,8 +1673,8 @@ export class Cache<TType = unknown> implements ICache<TType> {
     }
 
     updateOrFail(key: string, value: TType): ITask<void> {
-        return new Task(async () => {
-            const isFound = await this.update(key, value);
+        return this.createTask(this.updateOrFail.name, async () => {
+            const isFound = await this._update(key, value);
             if (!isFound) {
                 throw KeyNotFoundCacheError.create(this.namespace.create(key));
             }
@@ -503,57 +1685,65 @@ export class Cache<TType = unknown> implements ICache<TType> {
         key: string,
         value = 1 as Extract<TType, number>,
     ): ITask<boolean> {
-        return new Task(async () => {
-            const keyObj = this.namespace.create(key);
-            try {
-                const hasUpdated = await this.adapter.increment(
-                    keyObj.toString(),
-                    value,
-                );
-                if (hasUpdated && value > 0) {
-                    this.eventBus
-                        .dispatch(CACHE_EVENTS.INCREMENTED, {
-                            key: keyObj,
-                            value,
-                        })
-                        .detach();
-                }
-                if (hasUpdated && value < 0) {
-                    this.eventBus
-                        .dispatch(CACHE_EVENTS.DECREMENTED, {
-                            key: keyObj,
-                            value: -value,
-                        })
-                        .detach();
-                }
-                if (!hasUpdated) {
-                    this.eventBus
-                        .dispatch(CACHE_EVENTS.NOT_FOUND, {
-                            key: keyObj,
-                        })
-                        .detach();
-                }
-                return hasUpdated;
-            } catch (error: unknown) {
+        return this.createTask(this.increment.name, () =>
+            this._increment(key, value),
+        );
+    }
+
+    private async _increment(
+        key: string,
+        value = 1 as Extract<TType, number>,
+    ): Promise<boolean> {
+        const keyObj = this.namespace.create(key);
+        try {
+            const hasUpdated = await this.adapter.increment(
+                keyObj.toString(),
+                value,
+            );
+            if (hasUpdated && value > 0) {
                 this.eventBus
-                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
-                        keys: [keyObj.get()],
+                    .dispatch(CACHE_EVENTS.INCREMENTED, {
+                        key: keyObj,
                         value,
-                        method: this.increment.name,
-                        error,
                     })
                     .detach();
-                throw new TypeError(
-                    `Unable to increment or decrement none number type key "${keyObj.get()}"`,
-                    { cause: error },
-                );
             }
-        });
+            if (hasUpdated && value < 0) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.DECREMENTED, {
+                        key: keyObj,
+                        value: -value,
+                    })
+                    .detach();
+            }
+            if (!hasUpdated) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.NOT_FOUND, {
+                        key: keyObj,
+                    })
+                    .detach();
+            }
+            return hasUpdated;
+        } catch (error: unknown) {
+            this.eventBus
+                .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                    namespace: this.getKeyPrefix(),
+                    keys: [keyObj.get()],
+                    value,
+                    method: this.increment.name,
+                    error,
+                })
+                .detach();
+            throw new KeyTypeCacheError(
+                `Unable to increment or decrement none number type key "${keyObj.get()}"`,
+                error,
+            );
+        }
     }
 
     incrementOrFail(key: string, value?: Extract<TType, number>): ITask<void> {
-        return new Task(async () => {
-            const isFound = await this.increment(key, value);
+        return this.createTask(this.incrementOrFail.name, async () => {
+            const isFound = await this._increment(key, value);
             if (!isFound) {
                 throw KeyNotFoundCacheError.create(this.namespace.create(key));
             }
@@ -564,46 +1754,169 @@ export class Cache<TType = unknown> implements ICache<TType> {
         key: string,
         value = 1 as Extract<TType, number>,
     ): ITask<boolean> {
-        return new Task(async () => {
-            return await this.increment(key, -value as Extract<TType, number>);
-        });
+        return this.createTask(this.decrement.name, () =>
+            this._decrement(key, value),
+        );
+    }
+
+    private async _decrement(
+        key: string,
+        value = 1 as Extract<TType, number>,
+    ): Promise<boolean> {
+        return await this._increment(key, -value as Extract<TType, number>);
     }
 
     decrementOrFail(key: string, value?: Extract<TType, number>): ITask<void> {
-        return new Task(async () => {
-            const isFound = await this.decrement(key, value);
+        return this.createTask(this.decrementOrFail.name, async () => {
+            const isFound = await this._decrement(key, value);
             if (!isFound) {
                 throw KeyNotFoundCacheError.create(this.namespace.create(key));
             }
         });
     }
 
-    remove(key: string): ITask<boolean> {
-        return new Task(async () => {
+    hget(key: string, field: string): ITask<TType | null> {
+        return this.createTask(this.hget.name, async () => {
+            const keyObj = this.namespace.create(key);
+            try {
+                const value = await this.adapter.hget(keyObj.toString(), field);
+                if (this.shouldValidateOutput && value !== null) {
+                    await validate(this.schema, value);
+                }
+                return value;
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        keys: [keyObj.get()],
+                        method: this.hget.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
+
+    hset(key: string, field: string, value: TType): ITask<boolean> {
+        return this.createTask(this.hset.name, async () => {
+            const keyObj = this.namespace.create(key);
+            try {
+                await validate(this.schema, value);
+                return await this.adapter.hset(keyObj.toString(), field, value);
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        keys: [keyObj.get()],
+                        method: this.hset.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
+
+    hincrement(
+        key: string,
+        field: string,
+        value = 1 as Extract<TType, number>,
+    ): ITask<number> {
+        return this.createTask(this.hincrement.name, async () => {
             const keyObj = this.namespace.create(key);
             try {
-                const hasRemoved = await this.adapter.removeMany([
+                return await this.adapter.hincrement(
                     keyObj.toString(),
+                    field,
+                    value,
+                );
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        keys: [keyObj.get()],
+                        method: this.hincrement.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
+
+    hremove(key: string, fields: Iterable<string>): ITask<boolean> {
+        return this.createTask(this.hremove.name, async () => {
+            const keyObj = this.namespace.create(key);
+            try {
+                return await this.adapter.hremove(keyObj.toString(), [
+                    ...fields,
                 ]);
-                if (hasRemoved) {
-                    this.eventBus
-                        .dispatch(CACHE_EVENTS.REMOVED, {
-                            key: keyObj,
-                        })
-                        .detach();
-                } else {
-                    this.eventBus
-                        .dispatch(CACHE_EVENTS.NOT_FOUND, {
-                            key: keyObj,
-                        })
-                        .detach();
-                }
-                return hasRemoved;
             } catch (error: unknown) {
                 this.eventBus
                     .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
                         keys: [keyObj.get()],
-                        method: this.remove.name,
+                        method: this.hremove.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
+
+    sadd(key: string, members: Iterable<string>): ITask<boolean> {
+        return this.createTask(this.sadd.name, async () => {
+            const keyObj = this.namespace.create(key);
+            try {
+                return await this.adapter.sadd(keyObj.toString(), [...members]);
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        keys: [keyObj.get()],
+                        method: this.sadd.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
+
+    sremove(key: string, members: Iterable<string>): ITask<boolean> {
+        return this.createTask(this.sremove.name, async () => {
+            const keyObj = this.namespace.create(key);
+            try {
+                return await this.adapter.sremove(keyObj.toString(), [
+                    ...members,
+                ]);
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        keys: [keyObj.get()],
+                        method: this.sremove.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
+
+    smembers(key: string): ITask<Array<string>> {
+        return this.createTask(this.smembers.name, async () => {
+            const keyObj = this.namespace.create(key);
+            try {
+                return await this.adapter.smembers(keyObj.toString());
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        keys: [keyObj.get()],
+                        method: this.smembers.name,
                         error,
                     })
                     .detach();
@@ -612,9 +1925,46 @@ export class Cache<TType = unknown> implements ICache<TType> {
         });
     }
 
+    remove(key: string): ITask<boolean> {
+        return this.createTask(this.remove.name, () => this._remove(key));
+    }
+
+    private async _remove(key: string): Promise<boolean> {
+        const keyObj = this.namespace.create(key);
+        try {
+            const hasRemoved = await this.adapter.removeMany([
+                keyObj.toString(),
+            ]);
+            if (hasRemoved) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.REMOVED, {
+                        key: keyObj,
+                    })
+                    .detach();
+            } else {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.NOT_FOUND, {
+                        key: keyObj,
+                    })
+                    .detach();
+            }
+            return hasRemoved;
+        } catch (error: unknown) {
+            this.eventBus
+                .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                    namespace: this.getKeyPrefix(),
+                    keys: [keyObj.get()],
+                    method: this.remove.name,
+                    error,
+                })
+                .detach();
+            throw error;
+        }
+    }
+
     removeOrFail(key: string): ITask<void> {
-        return new Task(async () => {
-            const isFound = await this.remove(key);
+        return this.createTask(this.removeOrFail.name, async () => {
+            const isFound = await this._remove(key);
             if (!isFound) {
                 throw KeyNotFoundCacheError.create(this.namespace.create(key));
             }
@@ -622,7 +1972,7 @@ export class Cache<TType = unknown> implements ICache<TType> {
     }
 
     removeMany(keys: Iterable<string>): ITask<boolean> {
-        return new Task(async () => {
+        return this.createTask(this.removeMany.name, async () => {
             const keysArr = [...keys];
             if (keysArr.length === 0) {
                 return true;
@@ -670,6 +2020,7 @@ export class Cache<TType = unknown> implements ICache<TType> {
             } catch (error: unknown) {
                 this.eventBus
                     .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
                         keys: keyObjArr.map((keyObj) => keyObj.get()),
                         method: this.remove.name,
                         error,
@@ -681,7 +2032,7 @@ export class Cache<TType = unknown> implements ICache<TType> {
     }
 
     clear(): ITask<void> {
-        return new Task(async () => {
+        return this.createTask(this.clear.name, async () => {
             try {
                 const promise = this.eventBus.dispatch(
                     CACHE_EVENTS.CLEARED,
@@ -692,6 +2043,7 @@ export class Cache<TType = unknown> implements ICache<TType> {
             } catch (error: unknown) {
                 this.eventBus
                     .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
                         method: this.clear.name,
                         error,
                     })
@@ -700,4 +2052,280 @@ export class Cache<TType = unknown> implements ICache<TType> {
             }
         });
     }
+
+    tags(tags: Iterable<string>): ICacheTags {
+        const tagsArr = [...tags];
+        return {
+            invalidate: (): ITask<void> => {
+                return this.createTask("invalidate", async () => {
+                    if (tagsArr.length === 0) {
+                        return;
+                    }
+                    try {
+                        await this.adapter.removeByTags(
+                            tagsArr.map((tag) =>
+                                this.namespace.create(tag).toString(),
+                            ),
+                        );
+                        this.eventBus
+                            .dispatch(CACHE_EVENTS.TAGS_INVALIDATED, {
+                                tags: tagsArr,
+                            })
+                            .detach();
+                    } catch (error: unknown) {
+                        this.eventBus
+                            .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                                namespace: this.getKeyPrefix(),
+                                method: "invalidate",
+                                error,
+                            })
+                            .detach();
+                        throw error;
+                    }
+                });
+            },
+        };
+    }
+
+    private resolveMemoizeKey<TParameters extends Array<unknown>>(
+        key: string | CacheKeyBuilder<TParameters>,
+        args: TParameters,
+    ): string {
+        if (typeof key !== "string") {
+            return callInvokable(key, ...args);
+        }
+        if (args.length === 0) {
+            return key;
+        }
+        return `${key}:${this.serde.serialize(args)}`;
+    }
+
+    private async runMemoized<TParameters extends Array<unknown>>(
+        args: TParameters,
+        fn: (...args: TParameters) => PromiseLike<TType>,
+        settings: CacheMemoizeSettings<TParameters>,
+    ): Promise<TType> {
+        const { key, ...writeSettings } = settings;
+        const keyStr = this.resolveMemoizeKey(key, args);
+        let isMiss = false as boolean;
+        const value = (await this.createTask(this.getOrAdd.name, () =>
+            this._getOrAdd(
+                keyStr,
+                async (): Promise<NoneFunc<TType>> =>
+                    (await fn(...args)) as NoneFunc<TType>,
+                writeSettings,
+                () => {
+                    isMiss = true;
+                },
+            ),
+        )) as TType;
+        this.eventBus
+            .dispatch(
+                isMiss ? CACHE_EVENTS.MEMOIZE_MISS : CACHE_EVENTS.MEMOIZE_HIT,
+                {
+                    key: this.namespace.create(keyStr),
+                    arguments: args,
+                    value,
+                },
+            )
+            .detach();
+        return value;
+    }
+
+    memoize<TParameters extends Array<unknown>>(
+        fn: Invokable<TParameters, Promisable<TType>>,
+        settings: CacheMemoizeSettings<TParameters>,
+    ): InvokableFn<TParameters, ITask<TType>> {
+        return (...args) =>
+            new Task(() =>
+                this.runMemoized(
+                    args,
+                    async (...args_) => await callInvokable(fn, ...args_),
+                    settings,
+                ),
+            );
+    }
+
+    middleware<TParameters extends Array<unknown>>(
+        settings: CacheMemoizeSettings<TParameters>,
+    ): AsyncMiddlewareFn<TParameters, TType> {
+        return (args, next) => this.runMemoized(args, next, settings);
+    }
+
+    /**
+     * The namespace does not expose its delimeter, thats why the key prefix is derived from a created key.
+     */
+    private getKeyPrefix(): string {
+        const probeKey = "a";
+        const keyStr = this.namespace.create(probeKey).toString();
+        return keyStr.slice(0, keyStr.length - probeKey.length);
+    }
+
+    private async *iterateKeys(pattern: string): AsyncGenerator<IKey> {
+        const keyPrefix = this.getKeyPrefix();
+        const [patternPrefix = ""] = pattern.split("*");
+        const regExp = patternToRegExp(pattern);
+        for await (const keyStr of this.adapter.getKeysByKeyPrefix(
+            `${keyPrefix}${patternPrefix}`,
+        )) {
+            if (!keyStr.startsWith(keyPrefix)) {
+                continue;
+            }
+            const key = keyStr.slice(keyPrefix.length);
+            if (regExp.test(key)) {
+                yield this.namespace.create(key);
+            }
+        }
+    }
+
+    private async *fetchEntries(
+        keyObjs: Array<IKey>,
+    ): AsyncGenerator<[string, TType]> {
+        if (keyObjs.length === 0) {
+            return;
+        }
+        const values = await this.adapter.getMany(
+            keyObjs.map((keyObj) => keyObj.toString()),
+        );
+        for (const [index, keyObj] of keyObjs.entries()) {
+            const storedValue = values[index] ?? null;
+            if (storedValue === null || isNegative(storedValue)) {
+                continue;
+            }
+            const value = unescapeValue(storedValue);
+            if (this.shouldValidateOutput) {
+                await validate(this.schema, value);
+            }
+            yield [keyObj.get(), value];
+        }
+    }
+
+    private async *iterateEntries(
+        pattern: string,
+    ): AsyncGenerator<[string, TType]> {
+        let keyObjs: Array<IKey> = [];
+        for await (const keyObj of this.iterateKeys(pattern)) {
+            keyObjs.push(keyObj);
+            if (keyObjs.length >= ENTRIES_PAGE_SIZE) {
+                yield* this.fetchEntries(keyObjs);
+                keyObjs = [];
+            }
+        }
+        yield* this.fetchEntries(keyObjs);
+    }
+
+    keys(pattern = "*"): IAsyncCollection<string> {
+        return new AsyncIterableCollection<IKey>({
+            [Symbol.asyncIterator]: () => this.iterateKeys(pattern),
+        }).map((keyObj) => keyObj.get());
+    }
+
+    entries(pattern = "*"): IAsyncCollection<[string, TType]> {
+        return new AsyncIterableCollection({
+            [Symbol.asyncIterator]: () => this.iterateEntries(pattern),
+        });
+    }
+
+    /**
+     * Keys cached as missing are exported as they are, meaning they stay cached as missing after being imported.
+     * The values are read without pushing the expiration of keys with a sliding period forward.
+     */
+    private async *fetchExportLines(
+        keyObjs: Array<IKey>,
+    ): AsyncGenerator<string> {
+        if (keyObjs.length === 0) {
+            return;
+        }
+        const keys = keyObjs.map((keyObj) => keyObj.toString());
+        const values = await this.adapter.getMany(keys, {
+            shouldSlide: false,
+        });
+        const ttls = await Promise.all(
+            keys.map((key, index) =>
+                (values[index] ?? null) === null
+                    ? null
+                    : this.adapter.getTtl(key),
+            ),
+        );
+        for (const [index, keyObj] of keyObjs.entries()) {
+            const value = values[index] ?? null;
+            if (value === null) {
+                continue;
+            }
+            const ttl = ttls[index] ?? null;
+            const entry: CacheExportEntry = {
+                key: keyObj.get(),
+                value: this.exportSerde.serialize(value),
+                ttl: ttl === null ? null : ttl.toMilliseconds(),
+            };
+            yield `${JSON.stringify(entry)}\n`;
+        }
+    }
+
+    private async *iterateExport(pattern: string): AsyncGenerator<string> {
+        let keyObjs: Array<IKey> = [];
+        for await (const keyObj of this.iterateKeys(pattern)) {
+            keyObjs.push(keyObj);
+            if (keyObjs.length >= ENTRIES_PAGE_SIZE) {
+                yield* this.fetchExportLines(keyObjs);
+                keyObjs = [];
+            }
+        }
+        yield* this.fetchExportLines(keyObjs);
+    }
+
+    export(pattern = "*"): IAsyncCollection<string> {
+        return new AsyncIterableCollection({
+            [Symbol.asyncIterator]: () => this.iterateExport(pattern),
+        });
+    }
+
+    private async resolveImportItem(
+        entry: CacheExportEntry,
+    ): Promise<CacheAdapterWriteManyItem<TType>> {
+        const value = this.exportSerde.deserialize<TType>(entry.value);
+        if (!isNegative(value)) {
+            await validate(this.schema, unescapeValue(value));
+        }
+        return {
+            key: this.namespace.create(entry.key).toString(),
+            value,
+            ttl:
+                entry.ttl === null
+                    ? null
+                    : TimeSpan.fromMilliseconds(entry.ttl),
+        };
+    }
+
+    import(stream: CacheImportStream): ITask<void> {
+        return this.createTask(this.import.name, async () => {
+            try {
+                let items: Array<CacheAdapterWriteManyItem<TType>> = [];
+                for await (const entry of parseNdjson<CacheExportEntry>(
+                    stream,
+                )) {
+                    if (entry.ttl !== null && entry.ttl <= 0) {
+                        continue;
+                    }
+                    items.push(await this.resolveImportItem(entry));
+                    if (items.length >= ENTRIES_PAGE_SIZE) {
+                        await this.adapter.putMany(items);
+                        items = [];
+                    }
+                }
+                if (items.length > 0) {
+                    await this.adapter.putMany(items);
+                }
+            } catch (error: unknown) {
+                this.eventBus
+                    .dispatch(CACHE_EVENTS.UNEXPECTED_ERROR, {
+                        namespace: this.getKeyPrefix(),
+                        method: this.import.name,
+                        error,
+                    })
+                    .detach();
+                throw error;
+            }
+        });
+    }
 }
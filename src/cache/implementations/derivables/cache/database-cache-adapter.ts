@@ -7,8 +7,24 @@ import {
     type ICacheAdapter,
     type ICacheData,
     type ICacheDataExpiration,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
+    type CacheAdapterReadSettings,
+    type CacheAdapterWriteSettings,
+    type CacheAdapterWriteManyItem,
+    KeyTypeCacheError,
 } from "@/cache/contracts/_module.js";
-import { type TimeSpan } from "@/time-span/implementations/_module.js";
+import {
+    addSetMembers,
+    getHashField,
+    incrementHashField,
+    removeHashFields,
+    removeSetMembers,
+    setHashField,
+    toSet,
+    type CacheDataStructureModifier,
+} from "@/cache/implementations/derivables/cache/cache-data-structures.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
 
 /**
  * @internal
@@ -45,12 +61,82 @@ export class DatabaseCacheAdapter<TType = unknown>
         return cacheExpiration.expiration <= new Date();
     }
 
+    /**
+     * Pushes the expiration of the `key` forward when it has a sliding period.
+     */
+    /**
+     * @returns Returns the expiration of the key after it has been pushed forward.
+     */
+    private async slide(
+        key: string,
+        data: ICacheData<TType> | null,
+    ): Promise<Date | null> {
+        if (
+            data?.slidingTtl === undefined ||
+            DatabaseCacheAdapter.handleData(data) === null
+        ) {
+            return data?.expiration ?? null;
+        }
+        const expiration = data.slidingTtl.toEndDate();
+        await this.adapter.updateExpiration(key, expiration);
+        return expiration;
+    }
+
     async get(key: string): Promise<TType | null> {
-        return DatabaseCacheAdapter.handleData(await this.adapter.find(key));
+        const data = await this.adapter.find(key);
+        await this.slide(key, data);
+        return DatabaseCacheAdapter.handleData(data);
+    }
+
+    async getMany(
+        keys: Array<string>,
+        settings: CacheAdapterReadSettings = {},
+    ): Promise<Array<TType | null>> {
+        const { shouldSlide = true } = settings;
+        const dataArr = await this.adapter.findMany(keys);
+        if (shouldSlide) {
+            for (const [index, key] of keys.entries()) {
+                await this.slide(key, dataArr[index] ?? null);
+            }
+        }
+        return dataArr.map((data) => DatabaseCacheAdapter.handleData(data));
+    }
+
+    async getEntry(key: string): Promise<ICacheEntry<TType> | null> {
+        const data = await this.adapter.find(key);
+        const value = DatabaseCacheAdapter.handleData(data);
+        if (data === null || value === null) {
+            return null;
+        }
+        const expiration = await this.slide(key, data);
+        return {
+            value,
+            isStale: data.staleAt !== undefined && data.staleAt <= new Date(),
+            staleAt: data.staleAt,
+            expiration: expiration ?? undefined,
+            recomputeDuration: data.recomputeDuration,
+        };
+    }
+
+    async getWithVersion(
+        key: string,
+    ): Promise<ICacheVersionedEntry<TType> | null> {
+        const data = await this.adapter.find(key);
+        const value = DatabaseCacheAdapter.handleData(data);
+        if (data === null || value === null) {
+            return null;
+        }
+        await this.slide(key, data);
+        return {
+            value,
+            version: data.version ?? "",
+        };
     }
 
     async getAndRemove(key: string): Promise<TType | null> {
-        const value = await this.get(key);
+        const value = DatabaseCacheAdapter.handleData(
+            await this.adapter.find(key),
+        );
         if (value !== null) {
             await this.removeMany([key]);
         }
@@ -61,8 +147,16 @@ export class DatabaseCacheAdapter<TType = unknown>
         key: string,
         value: TType,
         ttl: TimeSpan | null,
+        settings: CacheAdapterWriteSettings = {},
     ): Promise<boolean> {
         const expiration = ttl?.toEndDate() ?? null;
+        const {
+            tags = [],
+            freshTtl = null,
+            slidingTtl = null,
+            recomputeDuration = null,
+        } = settings;
+        const staleAt = freshTtl?.toEndDate() ?? null;
         return await this.adapter.transaction(async (trx) => {
             const storedValue = DatabaseCacheAdapter.handleData(
                 await trx.find(key),
@@ -71,7 +165,12 @@ export class DatabaseCacheAdapter<TType = unknown>
                 return false;
             }
 
-            await trx.upsert(key, value, expiration);
+            await trx.upsert(key, value, expiration, {
+                tags,
+                staleAt,
+                slidingTtl,
+                recomputeDuration,
+            });
 
             return true;
         });
@@ -81,23 +180,124 @@ export class DatabaseCacheAdapter<TType = unknown>
         key: string,
         value: TType,
         ttl: TimeSpan | null,
+        settings: CacheAdapterWriteSettings = {},
     ): Promise<boolean> {
         const expiration = ttl?.toEndDate() ?? null;
+        const {
+            tags = [],
+            freshTtl = null,
+            slidingTtl = null,
+            recomputeDuration = null,
+        } = settings;
+        const staleAt = freshTtl?.toEndDate() ?? null;
         return await this.adapter.transaction(async (trx) => {
             const storedValue = DatabaseCacheAdapter.handleData(
                 await trx.find(key),
             );
-            await trx.upsert(key, value, expiration);
+            await trx.upsert(key, value, expiration, {
+                tags,
+                staleAt,
+                slidingTtl,
+                recomputeDuration,
+            });
             return storedValue !== null;
         });
     }
 
+    async addMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await this.adapter.transaction(async (trx) => {
+            const results: Array<boolean> = [];
+            for (const { key, value, ttl, settings = {} } of items) {
+                const {
+                    tags = [],
+                    freshTtl = null,
+                    slidingTtl = null,
+                    recomputeDuration = null,
+                } = settings;
+                const storedValue = DatabaseCacheAdapter.handleData(
+                    await trx.find(key),
+                );
+                if (storedValue !== null) {
+                    results.push(false);
+                    continue;
+                }
+
+                await trx.upsert(key, value, ttl?.toEndDate() ?? null, {
+                    tags,
+                    staleAt: freshTtl?.toEndDate() ?? null,
+                    slidingTtl,
+                    recomputeDuration,
+                });
+                results.push(true);
+            }
+            return results;
+        });
+    }
+
+    async putMany(
+        items: Array<CacheAdapterWriteManyItem<TType>>,
+    ): Promise<Array<boolean>> {
+        return await this.adapter.transaction(async (trx) => {
+            const results: Array<boolean> = [];
+            for (const { key, value, ttl, settings = {} } of items) {
+                const {
+                    tags = [],
+                    freshTtl = null,
+                    slidingTtl = null,
+                    recomputeDuration = null,
+                } = settings;
+                const storedValue = DatabaseCacheAdapter.handleData(
+                    await trx.find(key),
+                );
+                await trx.upsert(key, value, ttl?.toEndDate() ?? null, {
+                    tags,
+                    staleAt: freshTtl?.toEndDate() ?? null,
+                    slidingTtl,
+                    recomputeDuration,
+                });
+                results.push(storedValue !== null);
+            }
+            return results;
+        });
+    }
+
+    async getTtl(key: string): Promise<TimeSpan | null> {
+        const data = await this.adapter.find(key);
+        if (
+            data === null ||
+            data.expiration === null ||
+            DatabaseCacheAdapter.handleData(data) === null
+        ) {
+            return null;
+        }
+        return TimeSpan.fromDateRange({
+            end: data.expiration,
+        });
+    }
+
+    async touch(key: string, ttl: TimeSpan | null): Promise<boolean> {
+        return await this.adapter.updateExpiration(
+            key,
+            ttl?.toEndDate() ?? null,
+        );
+    }
+
     async update(key: string, value: TType): Promise<boolean> {
         return !DatabaseCacheAdapter.isExpired(
             await this.adapter.update(key, value),
         );
     }
 
+    async updateIfVersion(
+        key: string,
+        value: TType,
+        version: string,
+    ): Promise<boolean> {
+        return await this.adapter.updateIfVersion(key, value, version);
+    }
+
     async increment(key: string, value: number): Promise<boolean> {
         return await this.adapter.transaction(async (trx) => {
             const storedValue = DatabaseCacheAdapter.handleData(
@@ -108,7 +308,9 @@ export class DatabaseCacheAdapter<TType = unknown>
             }
 
             if (typeof storedValue !== "number") {
-                throw new TypeError("!!__MESSAGE__!!");
+                throw new KeyTypeCacheError(
+                    `Unable to increment or decrement none number type key "${key}"`,
+                );
             }
 
             await trx.upsert(key, (storedValue + value) as TType);
@@ -117,6 +319,69 @@ export class DatabaseCacheAdapter<TType = unknown>
         });
     }
 
+    /**
+     * Reads and writes the key in a transaction that locks the row of the key, a key that is not found is created without expiration, tags, stale date and sliding period.
+     */
+    private async modify<TResult>(
+        key: string,
+        modifier: CacheDataStructureModifier<TResult>,
+    ): Promise<TResult> {
+        return await this.adapter.transaction(async (trx) => {
+            const storedValue = DatabaseCacheAdapter.handleData(
+                await trx.find(key),
+            );
+            const { value, result } = modifier(key, storedValue);
+            if (value === undefined) {
+                return result;
+            }
+
+            if (storedValue === null) {
+                await trx.upsert(key, value as TType, null, {
+                    tags: [],
+                    staleAt: null,
+                    slidingTtl: null,
+                    recomputeDuration: null,
+                });
+            } else {
+                await trx.upsert(key, value as TType);
+            }
+
+            return result;
+        });
+    }
+
+    async hget(key: string, field: string): Promise<TType | null> {
+        return getHashField(key, await this.get(key), field);
+    }
+
+    async hset(key: string, field: string, value: TType): Promise<boolean> {
+        return await this.modify(key, setHashField(field, value));
+    }
+
+    async hincrement(
+        key: string,
+        field: string,
+        value: number,
+    ): Promise<number> {
+        return await this.modify(key, incrementHashField(field, value));
+    }
+
+    async hremove(key: string, fields: Array<string>): Promise<boolean> {
+        return await this.modify(key, removeHashFields(fields));
+    }
+
+    async sadd(key: string, members: Array<string>): Promise<boolean> {
+        return await this.modify(key, addSetMembers(members));
+    }
+
+    async sremove(key: string, members: Array<string>): Promise<boolean> {
+        return await this.modify(key, removeSetMembers(members));
+    }
+
+    async smembers(key: string): Promise<Array<string>> {
+        return toSet(key, await this.get(key));
+    }
+
     async removeMany(keys: Array<string>): Promise<boolean> {
         const results = await this.adapter.removeMany(keys);
         for (const result of results) {
@@ -131,7 +396,15 @@ export class DatabaseCacheAdapter<TType = unknown>
         await this.adapter.removeAll();
     }
 
+    getKeysByKeyPrefix(prefix: string): AsyncIterable<string> {
+        return this.adapter.findKeysByKeyPrefix(prefix);
+    }
+
     async removeByKeyPrefix(prefix: string): Promise<void> {
         await this.adapter.removeByKeyPrefix(prefix);
     }
+
+    async removeByTags(tags: Array<string>): Promise<void> {
+        await this.adapter.removeByTags(tags);
+    }
 }
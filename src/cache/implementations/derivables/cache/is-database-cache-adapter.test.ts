@@ -1,9 +1,12 @@
 import { describe, expect, test } from "vitest";
 
 import {
+    type CacheAdapterWriteManyItem,
     type ICacheAdapter,
     type ICacheData,
     type ICacheDataExpiration,
+    type ICacheEntry,
+    type ICacheVersionedEntry,
     type IDatabaseCacheAdapter,
     type IDatabaseCacheTransaction,
 } from "@/cache/contracts/_module.js";
@@ -17,6 +20,11 @@ describe("function: isDatabaseCacheAdapter", () => {
             find: function (_key: string): Promise<ICacheData | null> {
                 throw new Error("Function not implemented.");
             },
+            findMany: function (
+                _keys: Array<string>,
+            ): Promise<Array<ICacheData | null>> {
+                throw new Error("Function not implemented.");
+            },
             transaction: function <TValue>(
                 _trxFn: InvokableFn<
                     [trx: IDatabaseCacheTransaction],
@@ -31,6 +39,19 @@ describe("function: isDatabaseCacheAdapter", () => {
             ): Promise<ICacheDataExpiration | null> {
                 throw new Error("Function not implemented.");
             },
+            updateIfVersion: function (
+                _key: string,
+                _value: unknown,
+                _version: string,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+            updateExpiration: function (
+                _key: string,
+                _expiration: Date | null,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
             removeMany: function (
                 _keys: Array<string>,
             ): Promise<Array<ICacheDataExpiration>> {
@@ -39,9 +60,17 @@ describe("function: isDatabaseCacheAdapter", () => {
             removeAll: function (): Promise<void> {
                 throw new Error("Function not implemented.");
             },
+            findKeysByKeyPrefix: function (
+                _prefix: string,
+            ): AsyncIterable<string> {
+                throw new Error("Function not implemented.");
+            },
             removeByKeyPrefix: function (_prefix: string): Promise<void> {
                 throw new Error("Function not implemented.");
             },
+            removeByTags: function (_tags: Array<string>): Promise<void> {
+                throw new Error("Function not implemented.");
+            },
         };
         expect(isDatabaseCacheAdapter(adapter)).toBe(true);
     });
@@ -50,6 +79,12 @@ describe("function: isDatabaseCacheAdapter", () => {
             get: function (_key: string): Promise<unknown> {
                 throw new Error("Function not implemented.");
             },
+            getMany: function (_keys: Array<string>): Promise<Array<unknown>> {
+                throw new Error("Function not implemented.");
+            },
+            getEntry: function (_key: string): Promise<ICacheEntry | null> {
+                throw new Error("Function not implemented.");
+            },
             getAndRemove: function (_key: string): Promise<unknown> {
                 throw new Error("Function not implemented.");
             },
@@ -67,6 +102,37 @@ describe("function: isDatabaseCacheAdapter", () => {
             ): Promise<boolean> {
                 throw new Error("Function not implemented.");
             },
+            addMany: function (
+                _items: Array<CacheAdapterWriteManyItem>,
+            ): Promise<Array<boolean>> {
+                throw new Error("Function not implemented.");
+            },
+            putMany: function (
+                _items: Array<CacheAdapterWriteManyItem>,
+            ): Promise<Array<boolean>> {
+                throw new Error("Function not implemented.");
+            },
+            getWithVersion: function (
+                _key: string,
+            ): Promise<ICacheVersionedEntry | null> {
+                throw new Error("Function not implemented.");
+            },
+            updateIfVersion: function (
+                _key: string,
+                _value: unknown,
+                _version: string,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+            getTtl: function (_key: string): Promise<TimeSpan | null> {
+                throw new Error("Function not implemented.");
+            },
+            touch: function (
+                _key: string,
+                _ttl: TimeSpan | null,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
             update: function (_key: string, _value: unknown): Promise<boolean> {
                 throw new Error("Function not implemented.");
             },
@@ -76,15 +142,61 @@ describe("function: isDatabaseCacheAdapter", () => {
             ): Promise<boolean> {
                 throw new Error("Function not implemented.");
             },
+            hget: function (_key: string, _field: string): Promise<unknown> {
+                throw new Error("Function not implemented.");
+            },
+            hset: function (
+                _key: string,
+                _field: string,
+                _value: unknown,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+            hincrement: function (
+                _key: string,
+                _field: string,
+                _value: number,
+            ): Promise<number> {
+                throw new Error("Function not implemented.");
+            },
+            hremove: function (
+                _key: string,
+                _fields: Array<string>,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+            sadd: function (
+                _key: string,
+                _members: Array<string>,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+            sremove: function (
+                _key: string,
+                _members: Array<string>,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+            smembers: function (_key: string): Promise<Array<string>> {
+                throw new Error("Function not implemented.");
+            },
             removeMany: function (_keys: Array<string>): Promise<boolean> {
                 throw new Error("Function not implemented.");
             },
             removeAll: function (): Promise<void> {
                 throw new Error("Function not implemented.");
             },
+            getKeysByKeyPrefix: function (
+                _prefix: string,
+            ): AsyncIterable<string> {
+                throw new Error("Function not implemented.");
+            },
             removeByKeyPrefix: function (_prefix: string): Promise<void> {
                 throw new Error("Function not implemented.");
             },
+            removeByTags: function (_tags: Array<string>): Promise<void> {
+                throw new Error("Function not implemented.");
+            },
         };
         expect(isDatabaseCacheAdapter(adapter)).toBe(false);
     });
@@ -17,14 +17,24 @@ export function isDatabaseCacheAdapter<TType>(
     return (
         typeof adapter_["find"] === "function" &&
         adapter_["find"].length === 1 &&
+        typeof adapter_["findMany"] === "function" &&
+        adapter_["findMany"].length === 1 &&
         typeof adapter_["transaction"] === "function" &&
         adapter_["transaction"].length === 1 &&
         typeof adapter_["update"] === "function" &&
         adapter_["update"].length === 2 &&
+        typeof adapter_["updateIfVersion"] === "function" &&
+        adapter_["updateIfVersion"].length === 3 &&
+        typeof adapter_["updateExpiration"] === "function" &&
+        adapter_["updateExpiration"].length === 2 &&
         typeof adapter_["removeMany"] === "function" &&
         typeof adapter_["removeAll"] === "function" &&
         adapter_["removeAll"].length === 0 &&
+        typeof adapter_["findKeysByKeyPrefix"] === "function" &&
+        adapter_["findKeysByKeyPrefix"].length === 1 &&
         typeof adapter_["removeByKeyPrefix"] === "function" &&
-        adapter_["removeByKeyPrefix"].length === 1
+        adapter_["removeByKeyPrefix"].length === 1 &&
+        typeof adapter_["removeByTags"] === "function" &&
+        adapter_["removeByTags"].length === 1
     );
 }
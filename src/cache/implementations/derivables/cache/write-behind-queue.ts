@@ -0,0 +1,100 @@
+/**
+ * @module Cache
+ */
+
+import { type BackoffPolicy } from "@/backoff-policies/_module.js";
+import {
+    type CacheBackingStoreItem,
+    type CacheBackingStoreWriter,
+} from "@/cache/implementations/derivables/cache/cache-backing-store.js";
+import { retry } from "@/resilience/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { type TimeSpan } from "@/time-span/implementations/_module.js";
+import { callInvokable } from "@/utilities/_module.js";
+
+/**
+ * @internal
+ */
+export type WriteBehindQueueSettings<TType> = {
+    writer: CacheBackingStoreWriter<TType>;
+    flushInterval: TimeSpan;
+    maxQueueSize: number;
+    maxAttempts: number;
+    backoffPolicy: BackoffPolicy;
+    onFlushed: (items: Array<CacheBackingStoreItem<TType>>) => void;
+    onFlushFailed: (
+        items: Array<CacheBackingStoreItem<TType>>,
+        error: unknown,
+    ) => void;
+};
+
+/**
+ * Queues the values by key, meaning only the latest value of each key is written.
+ * The flush is scheduled when the first value is queued, so no timer is running while the queue is empty.
+ * Values of a failed flush are queued again, unless a newer value of the key has been queued in the meantime, and are retried with the next flush.
+ *
+ * @internal
+ */
+export class WriteBehindQueue<TType> {
+    private readonly queue = new Map<string, TType>();
+    private timeoutId: NodeJS.Timeout | string | number | null = null;
+    private flushPromise: Promise<void> = Promise.resolve();
+
+    constructor(private readonly settings: WriteBehindQueueSettings<TType>) {}
+
+    enqueue(items: Array<CacheBackingStoreItem<TType>>): void {
+        for (const { key, value } of items) {
+            this.queue.set(key, value);
+        }
+        if (this.queue.size >= this.settings.maxQueueSize) {
+            void this.flush();
+            return;
+        }
+        if (this.timeoutId === null && this.queue.size > 0) {
+            this.timeoutId = setTimeout(() => {
+                void this.flush();
+            }, this.settings.flushInterval.toMilliseconds());
+        }
+    }
+
+    /**
+     * Flushes are run one at a time, the returned promise resolves when all values queued before the call are flushed.
+     */
+    flush(): Promise<void> {
+        this.flushPromise = this.flushPromise.then(() => this.flushQueue());
+        return this.flushPromise;
+    }
+
+    private async flushQueue(): Promise<void> {
+        if (this.timeoutId !== null) {
+            clearTimeout(this.timeoutId);
+            this.timeoutId = null;
+        }
+        if (this.queue.size === 0) {
+            return;
+        }
+        const items = [...this.queue].map(([key, value]) => ({
+            key,
+            value,
+        }));
+        this.queue.clear();
+        try {
+            await new Task(async () => {
+                await callInvokable(this.settings.writer, items);
+            }).pipe(
+                retry({
+                    maxAttempts: this.settings.maxAttempts,
+                    backoffPolicy: this.settings.backoffPolicy,
+                }),
+            );
+            this.settings.onFlushed(items);
+        } catch (error: unknown) {
+            for (const { key, value } of items) {
+                if (!this.queue.has(key)) {
+                    this.queue.set(key, value);
+                }
+            }
+            this.settings.onFlushFailed(items, error);
+        }
+    }
+}
@@ -98,6 +98,121 @@ export function cacheAdapterTestSuite(
                 expect(await adapter.get("a")).toBeNull();
             });
         });
+        describe("method: getMany", () => {
+            test("Should return values in the same order as the keys", async () => {
+                await adapter.add("a", 1, null);
+                await adapter.add("b", 2, null);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.getMany(["b", "c", "a"])).toEqual([
+                    2,
+                    null,
+                    1,
+                ]);
+            });
+            test("Should return null when key is expired", async () => {
+                await adapter.add("a", 1, TTL);
+                await adapter.add("b", 2, null);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.getMany(["a", "b"])).toEqual([null, 2]);
+            });
+            test("Should return empty array when keys is empty", async () => {
+                expect(await adapter.getMany([])).toEqual([]);
+            });
+        });
+        describe("method: getEntry", () => {
+            test("Should return null when key doesnt exists", async () => {
+                expect(await adapter.getEntry("a")).toBeNull();
+            });
+            test("Should return null when key is expired", async () => {
+                await adapter.add("a", 1, TTL);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.getEntry("a")).toBeNull();
+            });
+            test("Should return fresh entry when key exists and freshTtl is not set", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.getEntry("a")).toEqual({
+                    value: 1,
+                    isStale: false,
+                });
+            });
+            test("Should return fresh entry when freshTtl has not passed", async () => {
+                await adapter.add("a", 1, TTL.multiply(4), {
+                    freshTtl: TTL,
+                });
+                await Task.delay(TTL.divide(4));
+                const entry = await adapter.getEntry("a");
+                expect(entry?.value).toBe(1);
+                expect(entry?.isStale).toBe(false);
+            });
+            test("Should return stale entry when freshTtl has passed", async () => {
+                await adapter.add("a", 1, TTL.multiply(4), {
+                    freshTtl: TTL,
+                });
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                const entry = await adapter.getEntry("a");
+                expect(entry?.value).toBe(1);
+                expect(entry?.isStale).toBe(true);
+            });
+            test("Should return staleAt when key is added with freshTtl", async () => {
+                const staleAt = TTL.toEndDate();
+                await adapter.add("a", 1, TTL.multiply(4), {
+                    freshTtl: TTL,
+                });
+                await Task.delay(TTL.divide(4));
+                const entry = await adapter.getEntry("a");
+                expect(entry?.staleAt?.getTime()).toBeGreaterThanOrEqual(
+                    staleAt.getTime(),
+                );
+                expect(entry?.staleAt?.getTime()).toBeLessThanOrEqual(
+                    TTL.toEndDate().getTime(),
+                );
+            });
+            test("Should return expiration when key is added with ttl", async () => {
+                const expiration = TTL.toEndDate();
+                await adapter.add("a", 1, TTL);
+                await Task.delay(TTL.divide(4));
+                const entry = await adapter.getEntry("a");
+                expect(entry?.expiration?.getTime()).toBeGreaterThanOrEqual(
+                    expiration.getTime(),
+                );
+                expect(entry?.expiration?.getTime()).toBeLessThanOrEqual(
+                    TTL.toEndDate().getTime(),
+                );
+            });
+            test("Should return fresh entry when stale key is put without freshTtl", async () => {
+                await adapter.add("a", 1, TTL.multiply(4), {
+                    freshTtl: TTL,
+                });
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                await adapter.put("a", 2, null);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.getEntry("a")).toEqual({
+                    value: 2,
+                    isStale: false,
+                });
+            });
+            test("Should return recomputeDuration when key is added with recomputeDuration", async () => {
+                await adapter.add("a", 1, TTL, {
+                    recomputeDuration: TimeSpan.fromMilliseconds(20),
+                });
+                await Task.delay(TTL.divide(4));
+                const entry = await adapter.getEntry("a");
+                expect(entry?.recomputeDuration?.toMilliseconds()).toBe(20);
+            });
+            test("Should replace recomputeDuration when key is put without recomputeDuration", async () => {
+                await adapter.add("a", 1, TTL, {
+                    recomputeDuration: TimeSpan.fromMilliseconds(20),
+                });
+                await Task.delay(TTL.divide(4));
+                await adapter.put("a", 2, TTL);
+                await Task.delay(TTL.divide(4));
+                const entry = await adapter.getEntry("a");
+                expect(entry?.value).toBe(2);
+                expect(entry?.isStale).toBe(false);
+                expect(entry?.recomputeDuration).toBeUndefined();
+            });
+        });
         describe("method: getAndRemove", () => {
             test("Should return value when key exists", async () => {
                 await adapter.add("a", 1, null);
@@ -198,6 +313,145 @@ export function cacheAdapterTestSuite(
                 expect(await adapter.get("a")).toBeNull();
             });
         });
+        describe("method: addMany", () => {
+            test("Should return true only for keys that doesnt exists", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                const result = await adapter.addMany([
+                    { key: "a", value: -1, ttl: null },
+                    { key: "b", value: 2, ttl: null },
+                ]);
+                expect(result).toEqual([false, true]);
+            });
+            test("Should persist values only for keys that doesnt exists", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                await adapter.addMany([
+                    { key: "a", value: -1, ttl: null },
+                    { key: "b", value: 2, ttl: null },
+                ]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.getMany(["a", "b"])).toEqual([1, 2]);
+            });
+            test("Should persist values with ttl", async () => {
+                await adapter.addMany([
+                    { key: "a", value: 1, ttl: TTL },
+                    { key: "b", value: 2, ttl: null },
+                ]);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.getMany(["a", "b"])).toEqual([null, 2]);
+            });
+        });
+        describe("method: putMany", () => {
+            test("Should return true only for keys that exists", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                const result = await adapter.putMany([
+                    { key: "a", value: -1, ttl: null },
+                    { key: "b", value: 2, ttl: null },
+                ]);
+                expect(result).toEqual([true, false]);
+            });
+            test("Should persist all values", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                await adapter.putMany([
+                    { key: "a", value: -1, ttl: null },
+                    { key: "b", value: 2, ttl: null },
+                ]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.getMany(["a", "b"])).toEqual([-1, 2]);
+            });
+            test("Should persist values with ttl", async () => {
+                await adapter.putMany([
+                    { key: "a", value: 1, ttl: TTL },
+                    { key: "b", value: 2, ttl: null },
+                ]);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.getMany(["a", "b"])).toEqual([null, 2]);
+            });
+        });
+        describe("method: getTtl", () => {
+            test("Should return null when key doesnt exists", async () => {
+                expect(await adapter.getTtl("a")).toBeNull();
+            });
+            test("Should return null when key has no expiration", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.getTtl("a")).toBeNull();
+            });
+            test("Should return null when key is expired", async () => {
+                await adapter.add("a", 1, TTL);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.getTtl("a")).toBeNull();
+            });
+            test("Should return the remaining time when key has expiration", async () => {
+                await adapter.add("a", 1, TTL);
+                const ttl = await adapter.getTtl("a");
+                expect(ttl?.toMilliseconds()).toBeGreaterThan(0);
+                expect(ttl?.toMilliseconds()).toBeLessThanOrEqual(
+                    TTL.toMilliseconds(),
+                );
+            });
+        });
+        describe("method: touch", () => {
+            test("Should return false when key doesnt exists", async () => {
+                expect(await adapter.touch("a", TTL)).toBe(false);
+            });
+            test("Should return false when key is expired", async () => {
+                await adapter.add("a", 1, TTL);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.touch("a", TTL)).toBe(false);
+            });
+            test("Should return true when key exists", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.touch("a", TTL)).toBe(true);
+            });
+            test("Should persist the new expiration", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                await adapter.touch("a", TTL);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.get("a")).toBeNull();
+            });
+            test("Should remove the expiration when ttl is null", async () => {
+                await adapter.add("a", 1, TTL);
+                await Task.delay(TTL.divide(4));
+                await adapter.touch("a", null);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.get("a")).toBe(1);
+            });
+        });
+        describe("setting: slidingTtl", () => {
+            test("Should push the expiration forward when key is read", async () => {
+                await adapter.add("a", 1, TTL, {
+                    slidingTtl: TTL,
+                });
+                await Task.delay(TTL.divide(2));
+                await adapter.get("a");
+                await Task.delay(TTL.multiply(3).divide(4));
+                expect(await adapter.get("a")).toBe(1);
+            });
+            test("Should expire the key when it is not read", async () => {
+                await adapter.add("a", 1, TTL, {
+                    slidingTtl: TTL,
+                });
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.get("a")).toBeNull();
+            });
+            test("Should not push the expiration forward when key is read with getMany method and shouldSlide is false", async () => {
+                await adapter.add("a", 1, TTL, {
+                    slidingTtl: TTL,
+                });
+                await Task.delay(TTL.divide(2));
+                expect(
+                    await adapter.getMany(["a"], { shouldSlide: false }),
+                ).toEqual([1]);
+                await Task.delay(TTL.multiply(3).divide(4));
+                expect(await adapter.get("a")).toBeNull();
+            });
+        });
         describe("method: update", () => {
             test("Should return true when key exists", async () => {
                 await adapter.add("a", 1, null);
@@ -231,6 +485,105 @@ export function cacheAdapterTestSuite(
                 expect(await adapter.get("a")).toBeNull();
             });
         });
+        describe("method: getWithVersion", () => {
+            test("Should return null when key doesnt exists", async () => {
+                expect(await adapter.getWithVersion("a")).toBeNull();
+            });
+            test("Should return null when key is expired", async () => {
+                await adapter.add("a", 1, TTL);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.getWithVersion("a")).toBeNull();
+            });
+            test("Should return the value when key exists", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.getWithVersion("a")).toEqual({
+                    value: 1,
+                    version: expect.any(String) as string,
+                });
+            });
+            test("Should return the same version when key is not changed", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                const entryA = await adapter.getWithVersion("a");
+                const entryB = await adapter.getWithVersion("a");
+                expect(entryA?.version).toBe(entryB?.version);
+            });
+            test("Should return a new version when key is updated", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                const entryA = await adapter.getWithVersion("a");
+                await adapter.update("a", 2);
+                await Task.delay(TTL.divide(4));
+                const entryB = await adapter.getWithVersion("a");
+                expect(entryA?.version).not.toBe(entryB?.version);
+            });
+            test("Should return a new version when key is incremented", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                const entryA = await adapter.getWithVersion("a");
+                await adapter.increment("a", 1);
+                await Task.delay(TTL.divide(4));
+                const entryB = await adapter.getWithVersion("a");
+                expect(entryA?.version).not.toBe(entryB?.version);
+            });
+        });
+        describe("method: updateIfVersion", () => {
+            test("Should return false when key doesnt exists", async () => {
+                expect(await adapter.updateIfVersion("a", 1, "1")).toBe(false);
+            });
+            test("Should return true when version matches", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                const entry = await adapter.getWithVersion("a");
+                expect(
+                    await adapter.updateIfVersion("a", 2, entry?.version ?? ""),
+                ).toBe(true);
+            });
+            test("Should persist value when version matches", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                const entry = await adapter.getWithVersion("a");
+                await adapter.updateIfVersion("a", 2, entry?.version ?? "");
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.get("a")).toBe(2);
+            });
+            test("Should return false when key is changed after version is retrieved", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                const entry = await adapter.getWithVersion("a");
+                await adapter.update("a", 2);
+                await Task.delay(TTL.divide(4));
+                expect(
+                    await adapter.updateIfVersion("a", 3, entry?.version ?? ""),
+                ).toBe(false);
+            });
+            test("Should not persist value when key is changed after version is retrieved", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                const entry = await adapter.getWithVersion("a");
+                await adapter.update("a", 2);
+                await adapter.updateIfVersion("a", 3, entry?.version ?? "");
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.get("a")).toBe(2);
+            });
+            test("Should return false when the version is used twice", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                const entry = await adapter.getWithVersion("a");
+                await adapter.updateIfVersion("a", 2, entry?.version ?? "");
+                expect(
+                    await adapter.updateIfVersion("a", 3, entry?.version ?? ""),
+                ).toBe(false);
+            });
+            test("Should keep the ttl", async () => {
+                await adapter.add("a", 1, TTL);
+                const entry = await adapter.getWithVersion("a");
+                await adapter.updateIfVersion("a", 2, entry?.version ?? "");
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.get("a")).toBeNull();
+            });
+        });
         describe("method: increment", () => {
             test("Should return true when key exists", async () => {
                 await adapter.add("a", 1, null);
@@ -271,6 +624,175 @@ export function cacheAdapterTestSuite(
                 );
             });
         });
+        describe("method: hget", () => {
+            test("Should return the value when field exists", async () => {
+                await adapter.hset("a", "b", 1);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.hget("a", "b")).toBe(1);
+            });
+            test("Should return null when field doesnt exists", async () => {
+                await adapter.hset("a", "b", 1);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.hget("a", "c")).toBeNull();
+            });
+            test("Should return null when key doesnt exists", async () => {
+                expect(await adapter.hget("a", "b")).toBeNull();
+            });
+            test("Should return null when key is expired", async () => {
+                await adapter.hset("a", "b", 1);
+                await adapter.touch("a", TTL);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.hget("a", "b")).toBeNull();
+            });
+        });
+        describe("method: hset", () => {
+            test("Should return true when field doesnt exists", async () => {
+                expect(await adapter.hset("a", "b", 1)).toBe(true);
+            });
+            test("Should return false when field exists", async () => {
+                await adapter.hset("a", "b", 1);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.hset("a", "b", 2)).toBe(false);
+            });
+            test("Should persist the fields", async () => {
+                await adapter.hset("a", "b", 1);
+                await adapter.hset("a", "c", "str");
+                await adapter.hset("a", "b", 2);
+                await Task.delay(TTL.divide(4));
+                expect([
+                    await adapter.hget("a", "b"),
+                    await adapter.hget("a", "c"),
+                ]).toEqual([2, "str"]);
+            });
+            test("Should throw TypeError when key is not a hash", async () => {
+                await adapter.add("a", "str", null);
+                await Task.delay(TTL.divide(4));
+                await expect(adapter.hset("a", "b", 1)).rejects.toBeInstanceOf(
+                    TypeError,
+                );
+            });
+            test("Should return the hash as object with get method", async () => {
+                await adapter.hset("a", "b", 1);
+                await adapter.hset("a", "c", "str");
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.get("a")).toEqual({ b: 1, c: "str" });
+                expect(await adapter.getMany(["a"])).toEqual([
+                    { b: 1, c: "str" },
+                ]);
+            });
+        });
+        describe("method: hincrement", () => {
+            test("Should return the incremented value when field exists", async () => {
+                await adapter.hset("a", "b", 1);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.hincrement("a", "b", 2)).toBe(3);
+            });
+            test("Should start from 0 when key doesnt exists", async () => {
+                expect(await adapter.hincrement("a", "b", 2)).toBe(2);
+            });
+            test("Should persist increment", async () => {
+                await adapter.hincrement("a", "b", 2);
+                await adapter.hincrement("a", "b", -1);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.hget("a", "b")).toBe(1);
+            });
+            test("Should throw TypeError when field is not number type", async () => {
+                await adapter.hset("a", "b", "str");
+                await Task.delay(TTL.divide(4));
+                await expect(
+                    adapter.hincrement("a", "b", 1),
+                ).rejects.toBeInstanceOf(TypeError);
+            });
+        });
+        describe("method: hremove", () => {
+            test("Should return true when one field exists", async () => {
+                await adapter.hset("a", "b", 1);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.hremove("a", ["b", "c"])).toBe(true);
+            });
+            test("Should return false when fields doesnt exists", async () => {
+                await adapter.hset("a", "b", 1);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.hremove("a", ["c"])).toBe(false);
+            });
+            test("Should persist removal of the fields that exists", async () => {
+                await adapter.hset("a", "b", 1);
+                await adapter.hset("a", "c", 2);
+                await Task.delay(TTL.divide(4));
+                await adapter.hremove("a", ["b"]);
+                await Task.delay(TTL.divide(4));
+                expect([
+                    await adapter.hget("a", "b"),
+                    await adapter.hget("a", "c"),
+                ]).toEqual([null, 2]);
+            });
+        });
+        describe("method: sadd", () => {
+            test("Should return true when one member doesnt exists", async () => {
+                await adapter.sadd("a", ["b"]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.sadd("a", ["b", "c"])).toBe(true);
+            });
+            test("Should return false when all members exists", async () => {
+                await adapter.sadd("a", ["b", "c"]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.sadd("a", ["b", "c"])).toBe(false);
+            });
+            test("Should persist the members without duplicates", async () => {
+                await adapter.sadd("a", ["b", "c"]);
+                await adapter.sadd("a", ["c", "d"]);
+                await Task.delay(TTL.divide(4));
+                expect((await adapter.smembers("a")).sort()).toEqual([
+                    "b",
+                    "c",
+                    "d",
+                ]);
+            });
+            test("Should throw TypeError when key is not a set", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                await expect(adapter.sadd("a", ["b"])).rejects.toBeInstanceOf(
+                    TypeError,
+                );
+            });
+            test("Should return the members as array with get method", async () => {
+                await adapter.sadd("a", ["b", "c"]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.get("a")).toEqual(
+                    expect.arrayContaining(["b", "c"]),
+                );
+            });
+        });
+        describe("method: sremove", () => {
+            test("Should return true when one member exists", async () => {
+                await adapter.sadd("a", ["b"]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.sremove("a", ["b", "c"])).toBe(true);
+            });
+            test("Should return false when members doesnt exists", async () => {
+                await adapter.sadd("a", ["b"]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.sremove("a", ["c"])).toBe(false);
+            });
+            test("Should persist removal of the members that exists", async () => {
+                await adapter.sadd("a", ["b", "c"]);
+                await Task.delay(TTL.divide(4));
+                await adapter.sremove("a", ["b"]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.smembers("a")).toEqual(["c"]);
+            });
+        });
+        describe("method: smembers", () => {
+            test("Should return empty array when key doesnt exists", async () => {
+                expect(await adapter.smembers("a")).toEqual([]);
+            });
+            test("Should return empty array when key is expired", async () => {
+                await adapter.sadd("a", ["b"]);
+                await adapter.touch("a", TTL);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await adapter.smembers("a")).toEqual([]);
+            });
+        });
         describe("method: removeMany", () => {
             test("Should return true when one key exists", async () => {
                 await adapter.add("a", 1, null);
@@ -312,6 +834,64 @@ export function cacheAdapterTestSuite(
                 ]).toEqual([null, null, null]);
             });
         });
+        describe("method: getKeysByKeyPrefix", () => {
+            test("Should return only keys that starts with the prefix", async () => {
+                await adapter.add("cache/a", 1, null);
+                await adapter.add("cache/b", 2, null);
+                await adapter.add("c", 3, null);
+                await Task.delay(TTL.divide(4));
+
+                const keys: Array<string> = [];
+                for await (const key of adapter.getKeysByKeyPrefix("cache/")) {
+                    keys.push(key);
+                }
+
+                expect(keys.sort()).toEqual(["cache/a", "cache/b"]);
+            });
+            test("Should not return expired keys", async () => {
+                await adapter.add("cache/a", 1, TTL);
+                await adapter.add("cache/b", 2, null);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+
+                const keys: Array<string> = [];
+                for await (const key of adapter.getKeysByKeyPrefix("cache/")) {
+                    keys.push(key);
+                }
+
+                expect(keys).toEqual(["cache/b"]);
+            });
+            test("Should not return internal keys used for tags and stale entries", async () => {
+                await adapter.add("cache/a", 1, null, {
+                    tags: ["cache/tag"],
+                    freshTtl: TTL,
+                });
+                await Task.delay(TTL.divide(4));
+
+                const keys: Array<string> = [];
+                for await (const key of adapter.getKeysByKeyPrefix("cache/")) {
+                    keys.push(key);
+                }
+
+                expect(keys).toEqual(["cache/a"]);
+            });
+            test("Should return keys that end like internal keys", async () => {
+                await adapter.add("cache/a:_stale", 1, null);
+                await adapter.add("cache/a:_tags", 2, null);
+                await adapter.add("cache/b:_tag", 3, null);
+                await Task.delay(TTL.divide(4));
+
+                const keys: Array<string> = [];
+                for await (const key of adapter.getKeysByKeyPrefix("cache/")) {
+                    keys.push(key);
+                }
+
+                expect(keys.sort()).toEqual([
+                    "cache/a:_stale",
+                    "cache/a:_tags",
+                    "cache/b:_tag",
+                ]);
+            });
+        });
         describe("method: removeByKeyPrefix", () => {
             test(`Should remove all keys that start with prefix "cache"`, async () => {
                 await adapter.add("cache/a", 1, null);
@@ -327,6 +907,82 @@ export function cacheAdapterTestSuite(
                 ];
                 expect(result).toEqual([null, null, 3]);
             });
+            test("Should remove the stale date and tags of the removed keys", async () => {
+                await adapter.add("cache/a", 1, null, {
+                    tags: ["cache/tag"],
+                    freshTtl: TTL,
+                });
+                await Task.delay(TTL.divide(4));
+                await adapter.removeByKeyPrefix("cache");
+                await adapter.add("cache/a", 2, null);
+                await Task.delay(TTL.addTimeSpan(TTL.divide(4)));
+                await adapter.removeByTags(["cache/tag"]);
+
+                const entry = await adapter.getEntry("cache/a");
+                expect(entry?.value).toBe(2);
+                expect(entry?.isStale).toBe(false);
+                expect(entry?.staleAt).toBeUndefined();
+            });
+        });
+        describe("method: removeByTags", () => {
+            test("Should remove all keys associated with the tag", async () => {
+                await adapter.add("a", 1, null, { tags: ["tag-a"] });
+                await adapter.put("b", 2, null, { tags: ["tag-a"] });
+                await adapter.add("c", 3, null);
+                await Task.delay(TTL.divide(4));
+                await adapter.removeByTags(["tag-a"]);
+                await Task.delay(TTL.divide(4));
+                const result = [
+                    await adapter.get("a"),
+                    await adapter.get("b"),
+                    await adapter.get("c"),
+                ];
+                expect(result).toEqual([null, null, 3]);
+            });
+            test("Should remove all keys associated with at least one of the tags", async () => {
+                await adapter.add("a", 1, null, { tags: ["tag-a"] });
+                await adapter.add("b", 2, null, { tags: ["tag-b", "tag-c"] });
+                await adapter.add("c", 3, null, { tags: ["tag-c"] });
+                await adapter.add("d", 4, null, { tags: ["tag-d"] });
+                await Task.delay(TTL.divide(4));
+                await adapter.removeByTags(["tag-a", "tag-b"]);
+                await Task.delay(TTL.divide(4));
+                const result = [
+                    await adapter.get("a"),
+                    await adapter.get("b"),
+                    await adapter.get("c"),
+                    await adapter.get("d"),
+                ];
+                expect(result).toEqual([null, null, 3, 4]);
+            });
+            test("Should not associate tags when key exists", async () => {
+                await adapter.add("a", 1, null);
+                await Task.delay(TTL.divide(4));
+                await adapter.add("a", 2, null, { tags: ["tag-a"] });
+                await Task.delay(TTL.divide(4));
+                await adapter.removeByTags(["tag-a"]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.get("a")).toBe(1);
+            });
+            test("Should not remove key when it was replaced with different tags", async () => {
+                await adapter.put("a", 1, null, { tags: ["tag-a"] });
+                await Task.delay(TTL.divide(4));
+                await adapter.put("a", 2, null, { tags: ["tag-b"] });
+                await Task.delay(TTL.divide(4));
+                await adapter.removeByTags(["tag-a"]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.get("a")).toBe(2);
+            });
+            test("Should not remove key when it was removed and added again without the tag", async () => {
+                await adapter.add("a", 1, null, { tags: ["tag-a"] });
+                await Task.delay(TTL.divide(4));
+                await adapter.removeMany(["a"]);
+                await adapter.add("a", 2, null);
+                await Task.delay(TTL.divide(4));
+                await adapter.removeByTags(["tag-a"]);
+                await Task.delay(TTL.divide(4));
+                expect(await adapter.get("a")).toBe(2);
+            });
         });
     });
 }
@@ -21,9 +21,22 @@ import {
     type RemovedCacheEvent,
     type ClearedCacheEvent,
     type UpdatedCacheEvent,
+    type TagsInvalidatedCacheEvent,
+    type RevalidatedCacheEvent,
+    type MemoizeHitCacheEvent,
+    type MemoizeMissCacheEvent,
+    type TouchedCacheEvent,
+    type VersionConflictCacheEvent,
+    type ICacheVersionedEntry,
+    type NegativeAddedCacheEvent,
+    type NegativeFoundCacheEvent,
+    type CacheGetResult,
+    type CacheExportEntry,
     CACHE_EVENTS,
+    CACHE_GET_STATUS,
     KeyExistsCacheError,
 } from "@/cache/contracts/_module.js";
+import { AsyncHooks } from "@/hooks/_module.js";
 import { type IKey } from "@/namespace/contracts/_module.js";
 import { Task } from "@/task/implementations/_module.js";
 import { type ITimeSpan } from "@/time-span/contracts/time-span.contract.js";
@@ -212,6 +225,53 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(result).toBe(value);
             });
         });
+        describe("method: getMany", () => {
+            test("Should return null for keys that does not exists", async () => {
+                await cache.add("a", 1);
+
+                const result = await cache.getMany(["a", "b"]);
+
+                expect(result).toEqual({ a: 1, b: null });
+            });
+            test("Should return null for keys that are expired", async () => {
+                await cache.add("a", 1, { ttl: TTL });
+                await cache.add("b", 2);
+                await delay(TTL.addMilliseconds(10));
+
+                const result = await cache.getMany(["a", "b"]);
+
+                expect(result).toEqual({ a: null, b: 2 });
+            });
+            test("Should return empty object when keys is empty", async () => {
+                const result = await cache.getMany([]);
+
+                expect(result).toEqual({});
+            });
+        });
+        describe("method: getManyOr", () => {
+            test("Should return default value for keys that does not exists", async () => {
+                await cache.add("a", 1);
+
+                const result = await cache.getManyOr({
+                    a: -1,
+                    b: () => -2,
+                    c: () => Promise.resolve(-3),
+                });
+
+                expect(result).toEqual({ a: 1, b: -2, c: -3 });
+            });
+        });
+        describe("method: existsMany", () => {
+            test("Should return true only for keys that exists", async () => {
+                await cache.add("a", 1);
+                await cache.add("b", 2, { ttl: TTL });
+                await delay(TTL.addMilliseconds(10));
+
+                const result = await cache.existsMany(["a", "b", "c"]);
+
+                expect(result).toEqual({ a: true, b: false, c: false });
+            });
+        });
         describe("method: getOrFail", () => {
             test("Should throw KeyNotFoundCacheError when key does not exists", async () => {
                 const key = "a";
@@ -362,7 +422,71 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(result).toBeNull();
             });
         });
+        describe("method: getWithStatus", () => {
+            test("Should return NOT_FOUND status when key is not cached", async () => {
+                expect(await cache.getWithStatus("a")).toEqual({
+                    status: CACHE_GET_STATUS.NOT_FOUND,
+                } satisfies CacheGetResult<number>);
+            });
+            test("Should return NEGATIVE status when key is cached as missing", async () => {
+                await cache.getOrAdd("a", null, { negativeTtl: TTL });
+
+                expect(await cache.getWithStatus("a")).toEqual({
+                    status: CACHE_GET_STATUS.NEGATIVE,
+                } satisfies CacheGetResult<number>);
+            });
+            test("Should return FOUND status and value when key exists", async () => {
+                await cache.add("a", 1);
+
+                expect(await cache.getWithStatus("a")).toEqual({
+                    status: CACHE_GET_STATUS.FOUND,
+                    value: 1,
+                } satisfies CacheGetResult<number>);
+            });
+            test("Should return NOT_FOUND status when negativeTtl has elapsed", async () => {
+                await cache.getOrAdd("a", null, { negativeTtl: TTL });
+                await delay(TTL.addMilliseconds(10));
+
+                expect(await cache.getWithStatus("a")).toEqual({
+                    status: CACHE_GET_STATUS.NOT_FOUND,
+                } satisfies CacheGetResult<number>);
+            });
+        });
         describe("method: getOrAdd", () => {
+            test("Should return null and cache key as missing when value to add is null and negativeTtl is provided", async () => {
+                const valueToAdd = vi.fn((): number | null => null);
+
+                const result1 = await cache.getOrAdd("a", valueToAdd, {
+                    negativeTtl: TTL,
+                });
+                const result2 = await cache.getOrAdd("a", valueToAdd, {
+                    negativeTtl: TTL,
+                });
+
+                expect(result1).toBeNull();
+                expect(result2).toBeNull();
+                expect(valueToAdd).toHaveBeenCalledOnce();
+            });
+            test("Should call value to add again when negativeTtl has elapsed", async () => {
+                const valueToAdd = vi.fn((): number | null => null);
+
+                await cache.getOrAdd("a", valueToAdd, {
+                    negativeTtl: TTL,
+                });
+                await delay(TTL.addMilliseconds(10));
+                await cache.getOrAdd("a", valueToAdd, {
+                    negativeTtl: TTL,
+                });
+
+                expect(valueToAdd).toHaveBeenCalledTimes(2);
+            });
+            test("Should return null from get method when key is cached as missing", async () => {
+                await cache.getOrAdd("a", null, { negativeTtl: TTL });
+
+                expect(await cache.get("a")).toBeNull();
+                expect(await cache.exists("a")).toBe(false);
+                expect(await cache.getMany(["a"])).toEqual({ a: null });
+            });
             test("Should return value to add when key does not exists", async () => {
                 const key = "a";
 
@@ -451,6 +575,128 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 const result = await cache.get(key);
                 expect(result).toBe(value);
             });
+            test("Should return stale value when key is stale", async () => {
+                const key = "a";
+
+                const value = 1;
+                await cache.add(key, value, { ttl: TTL, staleTtl: LONG_TTL });
+                await delay(TTL.addMilliseconds(10));
+
+                const valueToAdd = -1;
+                const result = await cache.getOrAdd(key, valueToAdd, {
+                    ttl: TTL,
+                    staleTtl: LONG_TTL,
+                });
+
+                expect(result).toBe(value);
+            });
+            test("Should persist value in the background when key is stale", async () => {
+                const key = "a";
+
+                const value = 1;
+                await cache.add(key, value, { ttl: TTL, staleTtl: LONG_TTL });
+                await delay(TTL.addMilliseconds(10));
+
+                const valueToAdd = -1;
+                await cache.getOrAdd(key, valueToAdd, {
+                    ttl: TTL,
+                    staleTtl: LONG_TTL,
+                });
+                await delay(TTL.divide(2));
+
+                const result = await cache.get(key);
+                expect(result).toBe(valueToAdd);
+            });
+            test("Should compute value once when called concurrently", async () => {
+                const key = "a";
+                const valueToAdd = vi.fn(async () => {
+                    await delay(TTL.divide(5));
+                    return -1;
+                });
+
+                const results = await Promise.all([
+                    cache.getOrAdd(key, valueToAdd),
+                    cache.getOrAdd(key, valueToAdd),
+                    cache.getOrAdd(key, valueToAdd),
+                ]);
+
+                expect(results).toEqual([-1, -1, -1]);
+                expect(valueToAdd).toHaveBeenCalledOnce();
+            });
+            test("Should return value to add when key is expired after staleTtl", async () => {
+                const key = "a";
+                await cache.add(key, 1, { ttl: TTL, staleTtl: TTL });
+                await delay(TTL.multiply(2).addMilliseconds(10));
+
+                const valueToAdd = -1;
+                const result = await cache.getOrAdd(key, valueToAdd);
+
+                expect(result).toBe(valueToAdd);
+            });
+            test("Should refresh value in the background before it expires when xfetchBeta is set", async () => {
+                const key = "a";
+                const settings = {
+                    ttl: LONG_TTL,
+                    xfetchBeta: 1,
+                    _mathRandom: () => 0,
+                };
+                await cache.getOrAdd(
+                    key,
+                    async () => {
+                        await delay(TTL.divide(5));
+                        return 1;
+                    },
+                    settings,
+                );
+
+                const valueToAdd = -1;
+                const result = await cache.getOrAdd(key, valueToAdd, settings);
+                await delay(TTL.divide(2));
+
+                expect(result).toBe(1);
+                expect(await cache.get(key)).toBe(valueToAdd);
+            });
+            test("Should not refresh value before it expires when xfetchBeta is set and the random value is 1", async () => {
+                const key = "a";
+                const settings = {
+                    ttl: LONG_TTL,
+                    xfetchBeta: 1,
+                    _mathRandom: () => 1,
+                };
+                await cache.getOrAdd(
+                    key,
+                    async () => {
+                        await delay(TTL.divide(5));
+                        return 1;
+                    },
+                    settings,
+                );
+
+                await cache.getOrAdd(key, -1, settings);
+                await delay(TTL.divide(2));
+
+                expect(await cache.get(key)).toBe(1);
+            });
+            test("Should not refresh value before it expires when xfetchBeta is not set", async () => {
+                const key = "a";
+                const settings = {
+                    ttl: LONG_TTL,
+                    _mathRandom: () => 0,
+                };
+                await cache.getOrAdd(
+                    key,
+                    async () => {
+                        await delay(TTL.divide(5));
+                        return 1;
+                    },
+                    settings,
+                );
+
+                await cache.getOrAdd(key, -1, settings);
+                await delay(TTL.divide(2));
+
+                expect(await cache.get(key)).toBe(1);
+            });
         });
         describe("method: add", () => {
             test("Should return true when key does not exists", async () => {
@@ -544,6 +790,30 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(result).toBe(value1);
             });
         });
+        describe("method: addMany", () => {
+            test("Should return true only for keys that does not exists", async () => {
+                await cache.add("a", 1);
+
+                const result = await cache.addMany({ a: -1, b: 2 });
+
+                expect(result).toEqual({ a: false, b: true });
+            });
+            test("Should persist values only for keys that does not exists", async () => {
+                await cache.add("a", 1);
+
+                await cache.addMany({ a: -1, b: 2 });
+
+                const result = await cache.getMany(["a", "b"]);
+                expect(result).toEqual({ a: 1, b: 2 });
+            });
+            test("Should persist values with ttl", async () => {
+                await cache.addMany({ a: 1, b: 2 }, { ttl: TTL });
+                await delay(TTL.addMilliseconds(10));
+
+                const result = await cache.getMany(["a", "b"]);
+                expect(result).toEqual({ a: null, b: null });
+            });
+        });
         describe("method: addOrFail", () => {
             test("Should not throw error when key does not exists", async () => {
                 const key = "a";
@@ -747,6 +1017,30 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(result).toBeNull();
             });
         });
+        describe("method: putMany", () => {
+            test("Should return true only for keys that exists", async () => {
+                await cache.add("a", 1);
+
+                const result = await cache.putMany({ a: -1, b: 2 });
+
+                expect(result).toEqual({ a: true, b: false });
+            });
+            test("Should persist all values", async () => {
+                await cache.add("a", 1);
+
+                await cache.putMany({ a: -1, b: 2 });
+
+                const result = await cache.getMany(["a", "b"]);
+                expect(result).toEqual({ a: -1, b: 2 });
+            });
+            test("Should persist values with ttl", async () => {
+                await cache.putMany({ a: 1, b: 2 }, { ttl: TTL });
+                await delay(TTL.addMilliseconds(10));
+
+                const result = await cache.getMany(["a", "b"]);
+                expect(result).toEqual({ a: null, b: null });
+            });
+        });
         describe("method: update", () => {
             test("Should return false when key does not exists", async () => {
                 const key = "a";
@@ -1335,6 +1629,114 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(result).toBe(-1);
             });
         });
+        describe("method: hget", () => {
+            test("Should return null when key does not exists", async () => {
+                expect(await cache.hget("a", "b")).toBeNull();
+            });
+            test("Should return the value when field exists", async () => {
+                await cache.hset("a", "b", 1);
+
+                expect(await cache.hget("a", "b")).toBe(1);
+            });
+            test("Should throw TypeError when key is not a hash", async () => {
+                await cache.add("a", 1);
+
+                await expect(cache.hget("a", "b")).rejects.toBeInstanceOf(
+                    TypeError,
+                );
+            });
+        });
+        describe("method: hset", () => {
+            test("Should return true when field does not exists", async () => {
+                expect(await cache.hset("a", "b", 1)).toBe(true);
+            });
+            test("Should return false when field exists", async () => {
+                await cache.hset("a", "b", 1);
+
+                expect(await cache.hset("a", "b", 2)).toBe(false);
+            });
+            test("Should persist the value of the field", async () => {
+                await cache.hset("a", "b", 1);
+                await cache.hset("a", "b", 2);
+
+                expect(await cache.hget("a", "b")).toBe(2);
+            });
+        });
+        describe("method: hincrement", () => {
+            test("Should increment by 1 when value is not defined", async () => {
+                await cache.hincrement("a", "b");
+
+                expect(await cache.hincrement("a", "b")).toBe(2);
+            });
+            test("Should persist the incremented value", async () => {
+                await cache.hset("a", "b", 1);
+                await cache.hincrement("a", "b", 2);
+
+                expect(await cache.hget("a", "b")).toBe(3);
+            });
+            test("Should not change the other fields", async () => {
+                await cache.hset("a", "b", 1);
+                await cache.hincrement("a", "c", 2);
+
+                expect(await cache.hget("a", "b")).toBe(1);
+            });
+        });
+        describe("method: hremove", () => {
+            test("Should return false when key does not exists", async () => {
+                expect(await cache.hremove("a", ["b"])).toBe(false);
+            });
+            test("Should persist removal of the fields", async () => {
+                await cache.hset("a", "b", 1);
+                await cache.hset("a", "c", 2);
+
+                expect(await cache.hremove("a", ["b"])).toBe(true);
+                expect(await cache.hget("a", "b")).toBeNull();
+                expect(await cache.hget("a", "c")).toBe(2);
+            });
+        });
+        describe("method: sadd", () => {
+            test("Should return true when one member does not exists", async () => {
+                expect(await cache.sadd("a", ["b", "c"])).toBe(true);
+            });
+            test("Should return false when all members exists", async () => {
+                await cache.sadd("a", ["b", "c"]);
+
+                expect(await cache.sadd("a", ["c", "b"])).toBe(false);
+            });
+            test("Should throw TypeError when key is not a set", async () => {
+                await cache.add("a", 1);
+
+                await expect(cache.sadd("a", ["b"])).rejects.toBeInstanceOf(
+                    TypeError,
+                );
+            });
+        });
+        describe("method: sremove", () => {
+            test("Should return false when key does not exists", async () => {
+                expect(await cache.sremove("a", ["b"])).toBe(false);
+            });
+            test("Should persist removal of the members", async () => {
+                await cache.sadd("a", ["b", "c"]);
+
+                expect(await cache.sremove("a", ["b"])).toBe(true);
+                expect(await cache.smembers("a")).toEqual(["c"]);
+            });
+        });
+        describe("method: smembers", () => {
+            test("Should return empty array when key does not exists", async () => {
+                expect(await cache.smembers("a")).toEqual([]);
+            });
+            test("Should return all members", async () => {
+                await cache.sadd("a", ["b", "c"]);
+                await cache.sadd("a", ["d"]);
+
+                expect((await cache.smembers("a")).sort()).toEqual([
+                    "b",
+                    "c",
+                    "d",
+                ]);
+            });
+        });
         describe("method: remove", () => {
             test("Should return false when key does not exists", async () => {
                 const key = "a";
@@ -1497,106 +1899,543 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(resultC).toBeNull();
             });
         });
-    });
-    describe.skipIf(excludeEventTests)("Event tests:", () => {
-        describe("method: exists", () => {
-            test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
-                const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
-                await cache.events.addListener(
-                    CACHE_EVENTS.NOT_FOUND,
-                    handlerFn,
-                );
-
-                const key = "a";
-                await cache.exists(key);
+        describe("method: tags", () => {
+            test("Should remove all keys associated with the tag when invalidated", async () => {
+                await cache.add("a", 1, { tags: ["tag-a"] });
+                await cache.put("b", 2, { tags: ["tag-a", "tag-b"] });
+                await cache.getOrAdd("c", 3, { tags: ["tag-a"] });
 
-                expect(handlerFn).toHaveBeenCalledOnce();
-                expect(handlerFn).toHaveBeenCalledWith({
-                    key: expect.objectContaining({
-                        get: expect.any(Function) as IKey["get"],
-                        toString: expect.any(Function) as IKey["toString"],
-                    } satisfies IKey) as IKey,
-                } satisfies NotFoundCacheEvent);
+                await cache.tags(["tag-a"]).invalidate();
 
-                const keyObj = handlerFn.mock.calls[0]?.[0].key;
-                expect(keyObj?.get()).toBe(key);
+                expect(await cache.get("a")).toBeNull();
+                expect(await cache.get("b")).toBeNull();
+                expect(await cache.get("c")).toBeNull();
             });
-            test("Should dispatch FoundCacheEvent when key exists", async () => {
-                const handlerFn = vi.fn((_event: FoundCacheEvent) => {});
-                await cache.events.addListener(CACHE_EVENTS.FOUND, handlerFn);
-
-                const key = "a";
-                const value = 1;
-                await cache.add(key, value);
-                await cache.exists(key);
+            test("Should remove all keys associated with at least one of the tags when invalidated", async () => {
+                await cache.add("a", 1, { tags: ["tag-a"] });
+                await cache.add("b", 2, { tags: ["tag-b"] });
+                await cache.add("c", 3, { tags: ["tag-c"] });
 
-                expect(handlerFn).toHaveBeenCalledOnce();
-                expect(handlerFn).toHaveBeenCalledWith({
-                    key: expect.objectContaining({
-                        get: expect.any(Function) as IKey["get"],
-                        toString: expect.any(Function) as IKey["toString"],
-                    } satisfies IKey) as IKey,
-                    value,
-                } satisfies FoundCacheEvent);
+                await cache.tags(["tag-a", "tag-b"]).invalidate();
 
-                const keyObj = handlerFn.mock.calls[0]?.[0].key;
-                expect(keyObj?.get()).toBe(key);
+                expect(await cache.get("a")).toBeNull();
+                expect(await cache.get("b")).toBeNull();
+                expect(await cache.get("c")).toBe(3);
             });
-        });
-        describe("method: missing", () => {
-            test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
-                const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
-                await cache.events.addListener(
-                    CACHE_EVENTS.NOT_FOUND,
-                    handlerFn,
-                );
-
-                const key = "a";
-                await cache.missing(key);
+            test("Should not remove keys that are not associated with the tags when invalidated", async () => {
+                await cache.add("a", 1, { tags: ["tag-a"] });
+                await cache.add("b", 2);
 
-                expect(handlerFn).toHaveBeenCalledOnce();
-                expect(handlerFn).toHaveBeenCalledWith({
-                    key: expect.objectContaining({
-                        get: expect.any(Function) as IKey["get"],
-                        toString: expect.any(Function) as IKey["toString"],
-                    } satisfies IKey) as IKey,
-                } satisfies NotFoundCacheEvent);
+                await cache.tags(["tag-a"]).invalidate();
 
-                const keyObj = handlerFn.mock.calls[0]?.[0].key;
-                expect(keyObj?.get()).toBe(key);
+                expect(await cache.get("b")).toBe(2);
             });
-            test("Should dispatch FoundCacheEvent when key exists", async () => {
-                const handlerFn = vi.fn((_event: FoundCacheEvent) => {});
-                await cache.events.addListener(CACHE_EVENTS.FOUND, handlerFn);
+            test("Should not remove keys with tag of same name but differnt key when invalidated", async () => {
+                await cache.add("tag-a", 1);
 
-                const key = "a";
-                const value = 1;
-                await cache.add(key, value);
-                await cache.missing(key);
-
-                expect(handlerFn).toHaveBeenCalledOnce();
-                expect(handlerFn).toHaveBeenCalledWith({
-                    key: expect.objectContaining({
-                        get: expect.any(Function) as IKey["get"],
-                        toString: expect.any(Function) as IKey["toString"],
-                    } satisfies IKey) as IKey,
-                    value,
-                } satisfies FoundCacheEvent);
+                await cache.tags(["tag-a"]).invalidate();
 
-                const keyObj = handlerFn.mock.calls[0]?.[0].key;
-                expect(keyObj?.get()).toBe(key);
+                expect(await cache.get("tag-a")).toBe(1);
             });
         });
-        describe("method: get", () => {
-            test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
-                const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
-                await cache.events.addListener(
-                    CACHE_EVENTS.NOT_FOUND,
-                    handlerFn,
+        describe("method: getTtl", () => {
+            test("Should return null when key doesnt exists", async () => {
+                expect(await cache.getTtl("a")).toBeNull();
+            });
+            test("Should return null when key has no ttl", async () => {
+                await cache.add("a", 1, { ttl: null });
+                expect(await cache.getTtl("a")).toBeNull();
+            });
+            test("Should return the remaining ttl when key has ttl", async () => {
+                await cache.add("a", 1, { ttl: LONG_TTL });
+                const ttl = await cache.getTtl("a");
+                expect(ttl?.toMilliseconds()).toBeGreaterThan(0);
+                expect(ttl?.toMilliseconds()).toBeLessThanOrEqual(
+                    LONG_TTL.toMilliseconds(),
                 );
-
-                const key = "a";
-                await cache.get(key);
+            });
+        });
+        describe("method: touch", () => {
+            test("Should return false when key doesnt exists", async () => {
+                expect(await cache.touch("a", TTL)).toBe(false);
+            });
+            test("Should return true when key exists", async () => {
+                await cache.add("a", 1, { ttl: null });
+                expect(await cache.touch("a", TTL)).toBe(true);
+            });
+            test("Should expire the key after the new ttl", async () => {
+                await cache.add("a", 1, { ttl: null });
+                await cache.touch("a", TTL);
+                await delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await cache.get("a")).toBeNull();
+            });
+            test("Should remove the ttl when ttl is null", async () => {
+                await cache.add("a", 1, { ttl: TTL });
+                await cache.touch("a", null);
+                await delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await cache.get("a")).toBe(1);
+            });
+        });
+        describe("setting: isSliding", () => {
+            test("Should keep the key alive when it is read within the ttl", async () => {
+                await cache.add("a", 1, { ttl: TTL, isSliding: true });
+                await delay(TTL.divide(2));
+                await cache.get("a");
+                await delay(TTL.multiply(3).divide(4));
+                expect(await cache.get("a")).toBe(1);
+            });
+            test("Should expire the key when it is not read within the ttl", async () => {
+                await cache.add("a", 1, { ttl: TTL, isSliding: true });
+                await delay(TTL.addTimeSpan(TTL.divide(4)));
+                expect(await cache.get("a")).toBeNull();
+            });
+            test("Should not push the expiration forward when isSliding is false", async () => {
+                await cache.add("a", 1, { ttl: TTL });
+                await delay(TTL.divide(2));
+                await cache.get("a");
+                await delay(TTL.multiply(3).divide(4));
+                expect(await cache.get("a")).toBeNull();
+            });
+        });
+        describe("method: getWithVersion", () => {
+            test("Should return null when key doesnt exists", async () => {
+                expect(await cache.getWithVersion("a")).toBeNull();
+            });
+            test("Should return value and version when key exists", async () => {
+                await cache.add("a", 1);
+                expect(await cache.getWithVersion("a")).toEqual({
+                    value: 1,
+                    version: expect.any(String) as string,
+                } satisfies ICacheVersionedEntry<number>);
+            });
+            test("Should return a new version when key is updated", async () => {
+                await cache.add("a", 1);
+                const entry1 = await cache.getWithVersion("a");
+                await cache.update("a", 2);
+                const entry2 = await cache.getWithVersion("a");
+                expect(entry2?.version).not.toBe(entry1?.version);
+            });
+        });
+        describe("method: updateIfVersion", () => {
+            test("Should return false when key doesnt exists", async () => {
+                expect(await cache.updateIfVersion("a", 1, "")).toBe(false);
+            });
+            test("Should return true when version is unchanged", async () => {
+                await cache.add("a", 1);
+                const entry = await cache.getWithVersion("a");
+                expect(
+                    await cache.updateIfVersion("a", 2, entry?.version ?? ""),
+                ).toBe(true);
+                expect(await cache.get("a")).toBe(2);
+            });
+            test("Should return false when version is changed", async () => {
+                await cache.add("a", 1);
+                const entry = await cache.getWithVersion("a");
+                await cache.update("a", 2);
+                expect(
+                    await cache.updateIfVersion("a", 3, entry?.version ?? ""),
+                ).toBe(false);
+                expect(await cache.get("a")).toBe(2);
+            });
+            test("Should return false when version is used twice", async () => {
+                await cache.add("a", 1);
+                const entry = await cache.getWithVersion("a");
+                await cache.updateIfVersion("a", 2, entry?.version ?? "");
+                expect(
+                    await cache.updateIfVersion("a", 3, entry?.version ?? ""),
+                ).toBe(false);
+                expect(await cache.get("a")).toBe(2);
+            });
+        });
+        describe("method: export", () => {
+            test("Should return each entry as a newline delimited JSON line", async () => {
+                await cache.add("a", 1);
+                await cache.add("b", 2, { ttl: LONG_TTL });
+
+                const lines = await cache.export().toArray();
+
+                expect(lines.every((line) => line.endsWith("\n"))).toBe(true);
+                const entries = lines
+                    .map((line) => JSON.parse(line) as CacheExportEntry)
+                    .sort((a, b) => a.key.localeCompare(b.key));
+                expect(entries).toEqual([
+                    {
+                        key: "a",
+                        value: expect.any(String) as string,
+                        ttl: null,
+                    },
+                    {
+                        key: "b",
+                        value: expect.any(String) as string,
+                        ttl: expect.any(Number) as number,
+                    },
+                ] satisfies Array<CacheExportEntry>);
+                expect(entries[1]?.ttl).toBeLessThanOrEqual(
+                    LONG_TTL.toMilliseconds(),
+                );
+            });
+            test("Should only return entries matching the pattern", async () => {
+                await cache.add("user/1", 1);
+                await cache.add("post/1", 2);
+
+                const lines = await cache.export("user/*").toArray();
+
+                expect(
+                    lines.map(
+                        (line) => (JSON.parse(line) as CacheExportEntry).key,
+                    ),
+                ).toEqual(["user/1"]);
+            });
+        });
+        describe("method: import", () => {
+            test("Should add the exported entries", async () => {
+                await cache.add("a", 1);
+                await cache.add("b", 2, { ttl: LONG_TTL });
+                const lines = await cache.export().toArray();
+                await cache.clear();
+
+                await cache.import(lines);
+
+                expect(await cache.get("a")).toBe(1);
+                expect(await cache.get("b")).toBe(2);
+                expect(await cache.getTtl("a")).toBeNull();
+                expect(await cache.getTtl("b")).toBeInstanceOf(TimeSpan);
+            });
+            test("Should add the entries when the stream is split at any position", async () => {
+                await cache.add("a", 1);
+                await cache.add("b", 2);
+                const content = (await cache.export().toArray()).join("");
+                await cache.clear();
+
+                await cache.import([
+                    content.slice(0, 5),
+                    new TextEncoder().encode(content.slice(5)),
+                ]);
+
+                expect(await cache.get("a")).toBe(1);
+                expect(await cache.get("b")).toBe(2);
+            });
+            test("Should replace existing keys", async () => {
+                await cache.add("a", 1);
+                const lines = await cache.export().toArray();
+                await cache.put("a", 2);
+
+                await cache.import(lines);
+
+                expect(await cache.get("a")).toBe(1);
+            });
+            test("Should expire imported keys after their remaining ttl", async () => {
+                await cache.add("a", 1, { ttl: TTL });
+                const lines = await cache.export().toArray();
+                await cache.clear();
+
+                await cache.import(lines);
+                await delay(TTL.addMilliseconds(10));
+
+                expect(await cache.get("a")).toBeNull();
+            });
+        });
+        describe("method: getStats", () => {
+            test("Should count hits and misses", async () => {
+                await cache.add("a", 1);
+                await cache.get("a");
+                await cache.get("b");
+                await cache.get("c");
+
+                const stats = cache.getStats();
+                expect(stats.hits).toBe(1);
+                expect(stats.misses).toBe(2);
+                expect(stats.hitRatio).toBeCloseTo(1 / 3);
+            });
+            test("Should return 0 as hitRatio when there are no reads", () => {
+                expect(cache.getStats().hitRatio).toBe(0);
+            });
+            test("Should count writes", async () => {
+                await cache.add("a", 1);
+                await cache.put("a", 2);
+                await cache.update("a", 3);
+                await cache.increment("a", 1);
+
+                expect(cache.getStats().writes).toBe(4);
+            });
+            test("Should record latency histogram of each method", async () => {
+                await cache.get("a");
+                await cache.get("b");
+
+                const histogram = cache.getStats().latencies["get"];
+                expect(histogram?.count).toBe(2);
+                expect(histogram?.buckets.at(-1)).toEqual({
+                    upperBound: Infinity,
+                    count: 2,
+                });
+            });
+        });
+        describe("method: memoize", () => {
+            test("Should call the function once when called with same arguments", async () => {
+                const fn = vi.fn((a: number, b: number) => a + b);
+                const memoizedFn = cache.memoize(fn, { key: "sum" });
+
+                expect(await memoizedFn(1, 2)).toBe(3);
+                expect(await memoizedFn(1, 2)).toBe(3);
+
+                expect(fn).toHaveBeenCalledOnce();
+            });
+            test("Should call the function for each distinct arguments", async () => {
+                const fn = vi.fn((a: number, b: number) => a + b);
+                const memoizedFn = cache.memoize(fn, { key: "sum" });
+
+                expect(await memoizedFn(1, 2)).toBe(3);
+                expect(await memoizedFn(2, 2)).toBe(4);
+
+                expect(fn).toHaveBeenCalledTimes(2);
+            });
+            test("Should work with async function", async () => {
+                const fn = vi.fn(async (a: number) => {
+                    await delay(TimeSpan.fromMilliseconds(5));
+                    return a * 2;
+                });
+                const memoizedFn = cache.memoize(fn, { key: "double" });
+
+                expect(await memoizedFn(2)).toBe(4);
+                expect(await memoizedFn(2)).toBe(4);
+
+                expect(fn).toHaveBeenCalledOnce();
+            });
+            test("Should use the key builder when provided", async () => {
+                const memoizedFn = cache.memoize((a: number) => a * 2, {
+                    key: (a) => `double/${String(a)}`,
+                });
+
+                await memoizedFn(2);
+
+                expect(await cache.get("double/2")).toBe(4);
+            });
+            test("Should call the function again when the key is removed", async () => {
+                const fn = vi.fn((a: number) => a * 2);
+                const memoizedFn = cache.memoize(fn, {
+                    key: (a) => `double/${String(a)}`,
+                });
+
+                await memoizedFn(2);
+                await cache.remove("double/2");
+                await memoizedFn(2);
+
+                expect(fn).toHaveBeenCalledTimes(2);
+            });
+            test("Should call the function again when the ttl has expired", async () => {
+                const fn = vi.fn((a: number) => a * 2);
+                const memoizedFn = cache.memoize(fn, {
+                    key: "double",
+                    ttl: TTL,
+                });
+
+                await memoizedFn(2);
+                await delay(TTL.addMilliseconds(25));
+                await memoizedFn(2);
+
+                expect(fn).toHaveBeenCalledTimes(2);
+            });
+            test("Should call the function again when the tags are invalidated", async () => {
+                const fn = vi.fn((a: number) => a * 2);
+                const memoizedFn = cache.memoize(fn, {
+                    key: "double",
+                    tags: ["tag-a"],
+                });
+
+                await memoizedFn(2);
+                await cache.tags(["tag-a"]).invalidate();
+                await memoizedFn(2);
+
+                expect(fn).toHaveBeenCalledTimes(2);
+            });
+        });
+        describe("method: middleware", () => {
+            test("Should cache the value when used with Task.pipe", async () => {
+                const fn = vi.fn(() => 1);
+
+                const task = new Task(fn).pipe(cache.middleware({ key: "a" }));
+
+                expect(await task).toBe(1);
+                expect(await task).toBe(1);
+                expect(fn).toHaveBeenCalledOnce();
+                expect(await cache.get("a")).toBe(1);
+            });
+            test("Should cache the value when used with AsyncHooks", async () => {
+                const fn = vi.fn((a: number, b: number) => a + b);
+
+                const hooks = new AsyncHooks(fn, [
+                    cache.middleware({ key: "sum" }),
+                ]);
+
+                expect(await hooks.invoke(1, 2)).toBe(3);
+                expect(await hooks.invoke(1, 2)).toBe(3);
+                expect(await hooks.invoke(2, 2)).toBe(4);
+                expect(fn).toHaveBeenCalledTimes(2);
+            });
+        });
+        describe("method: keys", () => {
+            test("Should return all keys when pattern is not given", async () => {
+                await cache.add("a", 1);
+                await cache.add("b", 2);
+
+                const keys = await cache.keys().toArray();
+
+                expect(keys.sort()).toEqual(["a", "b"]);
+            });
+            test("Should return only keys matching the pattern", async () => {
+                await cache.add("user/1", 1);
+                await cache.add("user/2", 2);
+                await cache.add("post/1", 3);
+
+                const keys = await cache.keys("user/*").toArray();
+
+                expect(keys.sort()).toEqual(["user/1", "user/2"]);
+            });
+            test("Should support wildcards in the middle of the pattern", async () => {
+                await cache.add("user/1/name", 1);
+                await cache.add("user/1/age", 2);
+                await cache.add("user/2/name", 3);
+
+                const keys = await cache.keys("user/*/name").toArray();
+
+                expect(keys.sort()).toEqual(["user/1/name", "user/2/name"]);
+            });
+            test("Should not return expired keys", async () => {
+                await cache.add("a", 1, { ttl: TTL });
+                await cache.add("b", 2, { ttl: null });
+                await delay(TTL.addTimeSpan(TTL.divide(4)));
+
+                const keys = await cache.keys().toArray();
+
+                expect(keys).toEqual(["b"]);
+            });
+            test("Should return empty collection when cache is empty", async () => {
+                expect(await cache.keys().toArray()).toEqual([]);
+            });
+        });
+        describe("method: entries", () => {
+            test("Should return all key-value pairs", async () => {
+                await cache.add("a", 1);
+                await cache.add("b", 2);
+
+                const entries = await cache.entries().toArray();
+
+                expect(
+                    entries.sort(([keyA], [keyB]) => keyA.localeCompare(keyB)),
+                ).toEqual([
+                    ["a", 1],
+                    ["b", 2],
+                ]);
+            });
+            test("Should return only key-value pairs matching the pattern", async () => {
+                await cache.add("user/1", 1);
+                await cache.add("post/1", 2);
+
+                const entries = await cache.entries("user/*").toArray();
+
+                expect(entries).toEqual([["user/1", 1]]);
+            });
+        });
+    });
+    describe.skipIf(excludeEventTests)("Event tests:", () => {
+        describe("method: exists", () => {
+            test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
+                const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
+                await cache.events.addListener(
+                    CACHE_EVENTS.NOT_FOUND,
+                    handlerFn,
+                );
+
+                const key = "a";
+                await cache.exists(key);
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                } satisfies NotFoundCacheEvent);
+
+                const keyObj = handlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe(key);
+            });
+            test("Should dispatch FoundCacheEvent when key exists", async () => {
+                const handlerFn = vi.fn((_event: FoundCacheEvent) => {});
+                await cache.events.addListener(CACHE_EVENTS.FOUND, handlerFn);
+
+                const key = "a";
+                const value = 1;
+                await cache.add(key, value);
+                await cache.exists(key);
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    value,
+                } satisfies FoundCacheEvent);
+
+                const keyObj = handlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe(key);
+            });
+        });
+        describe("method: missing", () => {
+            test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
+                const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
+                await cache.events.addListener(
+                    CACHE_EVENTS.NOT_FOUND,
+                    handlerFn,
+                );
+
+                const key = "a";
+                await cache.missing(key);
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                } satisfies NotFoundCacheEvent);
+
+                const keyObj = handlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe(key);
+            });
+            test("Should dispatch FoundCacheEvent when key exists", async () => {
+                const handlerFn = vi.fn((_event: FoundCacheEvent) => {});
+                await cache.events.addListener(CACHE_EVENTS.FOUND, handlerFn);
+
+                const key = "a";
+                const value = 1;
+                await cache.add(key, value);
+                await cache.missing(key);
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    value,
+                } satisfies FoundCacheEvent);
+
+                const keyObj = handlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe(key);
+            });
+        });
+        describe("method: get", () => {
+            test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
+                const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
+                await cache.events.addListener(
+                    CACHE_EVENTS.NOT_FOUND,
+                    handlerFn,
+                );
+
+                const key = "a";
+                await cache.get(key);
 
                 expect(handlerFn).toHaveBeenCalledOnce();
                 expect(handlerFn).toHaveBeenCalledWith({
@@ -1631,6 +2470,40 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(keyObj?.get()).toBe(key);
             });
         });
+        describe("method: getMany", () => {
+            test("Should dispatch NotFoundCacheEvent and FoundCacheEvent for each key", async () => {
+                const notFoundHandlerFn = vi.fn(
+                    (_event: NotFoundCacheEvent) => {},
+                );
+                await cache.events.addListener(
+                    CACHE_EVENTS.NOT_FOUND,
+                    notFoundHandlerFn,
+                );
+                const foundHandlerFn = vi.fn((_event: FoundCacheEvent) => {});
+                await cache.events.addListener(
+                    CACHE_EVENTS.FOUND,
+                    foundHandlerFn,
+                );
+
+                await cache.add("a", 1);
+                await cache.getMany(["a", "b"]);
+
+                expect(foundHandlerFn).toHaveBeenCalledOnce();
+                expect(foundHandlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    value: 1,
+                } satisfies FoundCacheEvent);
+                expect(foundHandlerFn.mock.calls[0]?.[0].key.get()).toBe("a");
+
+                expect(notFoundHandlerFn).toHaveBeenCalledOnce();
+                expect(notFoundHandlerFn.mock.calls[0]?.[0].key.get()).toBe(
+                    "b",
+                );
+            });
+        });
         describe("method: getOr", () => {
             test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
                 const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
@@ -1749,6 +2622,26 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(ttl_?.toMilliseconds()).toBe(TTL.toMilliseconds());
             });
         });
+        describe("method: addMany", () => {
+            test("Should dispatch AddedCacheEvent only for keys that does not exists", async () => {
+                await cache.add("a", 1);
+                const handlerFn = vi.fn((_event: AddedCacheEvent) => {});
+                await cache.events.addListener(CACHE_EVENTS.ADDED, handlerFn);
+
+                await cache.addMany({ a: -1, b: 2 }, { ttl: TTL });
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    value: 2,
+                    ttl: expect.any(TimeSpan) as TimeSpan,
+                } satisfies AddedCacheEvent);
+                expect(handlerFn.mock.calls[0]?.[0].key.get()).toBe("b");
+            });
+        });
         describe("method: update", () => {
             test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
                 const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
@@ -1795,6 +2688,58 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(keyObj?.get()).toBe(key);
             });
         });
+        describe("method: updateIfVersion", () => {
+            test("Should dispatch UpdatedCacheEvent when version is unchanged", async () => {
+                const handlerFn = vi.fn((_event: UpdatedCacheEvent) => {});
+                await cache.events.addListener(CACHE_EVENTS.UPDATED, handlerFn);
+
+                const key = "a";
+                await cache.add(key, 1);
+                const entry = await cache.getWithVersion(key);
+                const value = 2;
+                await cache.updateIfVersion(key, value, entry?.version ?? "");
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    value,
+                } satisfies UpdatedCacheEvent);
+
+                const keyObj = handlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe(key);
+            });
+            test("Should dispatch VersionConflictCacheEvent when version is changed", async () => {
+                const handlerFn = vi.fn(
+                    (_event: VersionConflictCacheEvent) => {},
+                );
+                await cache.events.addListener(
+                    CACHE_EVENTS.VERSION_CONFLICT,
+                    handlerFn,
+                );
+
+                const key = "a";
+                await cache.add(key, 1);
+                const entry = await cache.getWithVersion(key);
+                await cache.update(key, 2);
+                const version = entry?.version ?? "";
+                await cache.updateIfVersion(key, 3, version);
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    version,
+                } satisfies VersionConflictCacheEvent);
+
+                const keyObj = handlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe(key);
+            });
+        });
         describe("method: updateOrFail", () => {
             test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
                 const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
@@ -1892,6 +2837,32 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(keyObj?.get()).toBe(key);
             });
         });
+        describe("method: putMany", () => {
+            test("Should dispatch UpdatedCacheEvent for keys that exists and AddedCacheEvent for keys that does not exists", async () => {
+                await cache.add("a", 1);
+                const updatedHandlerFn = vi.fn(
+                    (_event: UpdatedCacheEvent) => {},
+                );
+                await cache.events.addListener(
+                    CACHE_EVENTS.UPDATED,
+                    updatedHandlerFn,
+                );
+                const addedHandlerFn = vi.fn((_event: AddedCacheEvent) => {});
+                await cache.events.addListener(
+                    CACHE_EVENTS.ADDED,
+                    addedHandlerFn,
+                );
+
+                await cache.putMany({ a: -1, b: 2 });
+
+                expect(updatedHandlerFn).toHaveBeenCalledOnce();
+                expect(updatedHandlerFn.mock.calls[0]?.[0].key.get()).toBe("a");
+                expect(updatedHandlerFn.mock.calls[0]?.[0].value).toBe(-1);
+                expect(addedHandlerFn).toHaveBeenCalledOnce();
+                expect(addedHandlerFn.mock.calls[0]?.[0].key.get()).toBe("b");
+                expect(addedHandlerFn.mock.calls[0]?.[0].value).toBe(2);
+            });
+        });
         describe("method: remove", () => {
             test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
                 const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
@@ -2089,6 +3060,47 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
             });
         });
         describe("method: getOrAdd", () => {
+            test("Should dispatch NegativeAddedCacheEvent when value to add is null and negativeTtl is provided", async () => {
+                const handlerFn = vi.fn(
+                    (_event: NegativeAddedCacheEvent) => {},
+                );
+                await cache.events.addListener(
+                    CACHE_EVENTS.NEGATIVE_ADDED,
+                    handlerFn,
+                );
+
+                const key = "a";
+                await cache.getOrAdd(key, null, { negativeTtl: TTL });
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                const event = handlerFn.mock.calls[0]?.[0];
+                expect(event?.key.get()).toBe(key);
+                expect(event?.ttl?.toMilliseconds()).toBe(TTL.toMilliseconds());
+            });
+            test("Should dispatch NegativeFoundCacheEvent and not FoundCacheEvent when key is cached as missing", async () => {
+                const negativeFoundHandlerFn = vi.fn(
+                    (_event: NegativeFoundCacheEvent) => {},
+                );
+                await cache.events.addListener(
+                    CACHE_EVENTS.NEGATIVE_FOUND,
+                    negativeFoundHandlerFn,
+                );
+                const foundHandlerFn = vi.fn((_event: FoundCacheEvent) => {});
+                await cache.events.addListener(
+                    CACHE_EVENTS.FOUND,
+                    foundHandlerFn,
+                );
+
+                const key = "a";
+                await cache.getOrAdd(key, null, { negativeTtl: TTL });
+                await cache.getOrAdd(key, null, { negativeTtl: TTL });
+
+                expect(negativeFoundHandlerFn).toHaveBeenCalledOnce();
+                expect(
+                    negativeFoundHandlerFn.mock.calls[0]?.[0].key.get(),
+                ).toBe(key);
+                expect(foundHandlerFn).not.toHaveBeenCalled();
+            });
             test("Should not dispatch NotFoundCacheEvent when key doesnt exists", async () => {
                 const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
                 await cache.events.addListener(
@@ -2147,6 +3159,61 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 const ttl = handlerFn.mock.calls[0]?.[0].ttl;
                 expect(ttl?.toMilliseconds()).toBe(TTL.toMilliseconds());
             });
+            test("Should dispatch RevalidatedCacheEvent when stale key is refreshed", async () => {
+                const handlerFn = vi.fn((_event: RevalidatedCacheEvent) => {});
+                await cache.events.addListener(
+                    CACHE_EVENTS.REVALIDATED,
+                    handlerFn,
+                );
+
+                const key = "a";
+                await cache.add(key, 1, { ttl: TTL, staleTtl: LONG_TTL });
+                await delay(TTL.addMilliseconds(10));
+                await cache.getOrAdd(key, -1, { ttl: TTL, staleTtl: LONG_TTL });
+                await delay(TTL.divide(2));
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    hasSucceeded: true,
+                } satisfies RevalidatedCacheEvent);
+
+                const keyObj = handlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe(key);
+            });
+            test("Should dispatch RevalidatedCacheEvent with error when refreshing stale key fails", async () => {
+                const handlerFn = vi.fn((_event: RevalidatedCacheEvent) => {});
+                await cache.events.addListener(
+                    CACHE_EVENTS.REVALIDATED,
+                    handlerFn,
+                );
+
+                const key = "a";
+                const error = new Error("Unexpected error");
+                await cache.add(key, 1, { ttl: TTL, staleTtl: LONG_TTL });
+                await delay(TTL.addMilliseconds(10));
+                await cache.getOrAdd(
+                    key,
+                    (): number => {
+                        throw error;
+                    },
+                    { ttl: TTL, staleTtl: LONG_TTL },
+                );
+                await delay(TTL.divide(2));
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    hasSucceeded: false,
+                    error,
+                } satisfies RevalidatedCacheEvent);
+            });
         });
         describe("method: increment", () => {
             test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
@@ -2366,5 +3433,168 @@ export function cacheTestSuite(settings: CacheTestSuiteSettings): void {
                 expect(handler).toHaveBeenCalledWith({});
             });
         });
+        describe("method: tags", () => {
+            test("Should dispatch TagsInvalidatedCacheEvent when invalidated", async () => {
+                const handler = vi.fn(
+                    (_event: TagsInvalidatedCacheEvent) => {},
+                );
+                await cache.events.addListener(
+                    CACHE_EVENTS.TAGS_INVALIDATED,
+                    handler,
+                );
+
+                await cache.add("a", 1, { tags: ["tag-a"] });
+                await cache.tags(["tag-a", "tag-b"]).invalidate();
+
+                expect(handler).toHaveBeenCalledOnce();
+                expect(handler).toHaveBeenCalledWith({
+                    tags: ["tag-a", "tag-b"],
+                } satisfies TagsInvalidatedCacheEvent);
+            });
+            test("Should not dispatch RemovedCacheEvent when invalidated", async () => {
+                const handler = vi.fn((_event: RemovedCacheEvent) => {});
+                await cache.events.addListener(CACHE_EVENTS.REMOVED, handler);
+
+                await cache.add("a", 1, { tags: ["tag-a"] });
+                await cache.tags(["tag-a"]).invalidate();
+
+                expect(handler).not.toHaveBeenCalled();
+            });
+        });
+        describe("method: touch", () => {
+            test("Should dispatch NotFoundCacheEvent when key doesnt exists", async () => {
+                const handlerFn = vi.fn((_event: NotFoundCacheEvent) => {});
+                await cache.events.addListener(
+                    CACHE_EVENTS.NOT_FOUND,
+                    handlerFn,
+                );
+
+                const key = "a";
+                await cache.touch(key, TTL);
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                } satisfies NotFoundCacheEvent);
+
+                const keyObj = handlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe(key);
+            });
+            test("Should dispatch TouchedCacheEvent when key exists", async () => {
+                const handlerFn = vi.fn((_event: TouchedCacheEvent) => {});
+                await cache.events.addListener(CACHE_EVENTS.TOUCHED, handlerFn);
+
+                const key = "a";
+                await cache.add(key, 1);
+                await cache.touch(key, LONG_TTL);
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    ttl: LONG_TTL,
+                } satisfies TouchedCacheEvent);
+
+                const keyObj = handlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe(key);
+            });
+        });
+        describe("method: memoize", () => {
+            test("Should dispatch MemoizeMissCacheEvent when the function is called", async () => {
+                const handlerFn = vi.fn((_event: MemoizeMissCacheEvent) => {});
+                await cache.events.addListener(
+                    CACHE_EVENTS.MEMOIZE_MISS,
+                    handlerFn,
+                );
+
+                const memoizedFn = cache.memoize((a: number) => a * 2, {
+                    key: (a) => `double/${String(a)}`,
+                });
+                await memoizedFn(2);
+
+                expect(handlerFn).toHaveBeenCalledOnce();
+                expect(handlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    arguments: [2],
+                    value: 4,
+                } satisfies MemoizeMissCacheEvent);
+
+                const keyObj = handlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe("double/2");
+            });
+            test("Should dispatch MemoizeHitCacheEvent when the value is cached", async () => {
+                const missHandlerFn = vi.fn(
+                    (_event: MemoizeMissCacheEvent) => {},
+                );
+                await cache.events.addListener(
+                    CACHE_EVENTS.MEMOIZE_MISS,
+                    missHandlerFn,
+                );
+                const hitHandlerFn = vi.fn(
+                    (_event: MemoizeHitCacheEvent) => {},
+                );
+                await cache.events.addListener(
+                    CACHE_EVENTS.MEMOIZE_HIT,
+                    hitHandlerFn,
+                );
+
+                const memoizedFn = cache.memoize((a: number) => a * 2, {
+                    key: (a) => `double/${String(a)}`,
+                });
+                await memoizedFn(2);
+                await memoizedFn(2);
+
+                expect(missHandlerFn).toHaveBeenCalledOnce();
+                expect(hitHandlerFn).toHaveBeenCalledOnce();
+                expect(hitHandlerFn).toHaveBeenCalledWith({
+                    key: expect.objectContaining({
+                        get: expect.any(Function) as IKey["get"],
+                        toString: expect.any(Function) as IKey["toString"],
+                    } satisfies IKey) as IKey,
+                    arguments: [2],
+                    value: 4,
+                } satisfies MemoizeHitCacheEvent);
+
+                const keyObj = hitHandlerFn.mock.calls[0]?.[0].key;
+                expect(keyObj?.get()).toBe("double/2");
+            });
+            test("Should dispatch MemoizeMissCacheEvent for concurrent calls waiting on the same computation", async () => {
+                const missHandlerFn = vi.fn(
+                    (_event: MemoizeMissCacheEvent) => {},
+                );
+                await cache.events.addListener(
+                    CACHE_EVENTS.MEMOIZE_MISS,
+                    missHandlerFn,
+                );
+                const hitHandlerFn = vi.fn(
+                    (_event: MemoizeHitCacheEvent) => {},
+                );
+                await cache.events.addListener(
+                    CACHE_EVENTS.MEMOIZE_HIT,
+                    hitHandlerFn,
+                );
+
+                const fn = vi.fn(async (a: number): Promise<number> => {
+                    await Task.delay(TimeSpan.fromMilliseconds(50));
+                    return a * 2;
+                });
+                const memoizedFn = cache.memoize(fn, {
+                    key: (a) => `double/${String(a)}`,
+                });
+                await Promise.all([memoizedFn(2), memoizedFn(2)]);
+
+                expect(fn).toHaveBeenCalledOnce();
+                expect(missHandlerFn).toHaveBeenCalledTimes(2);
+                expect(hitHandlerFn).not.toHaveBeenCalled();
+            });
+        });
     });
 }
@@ -106,9 +106,37 @@ export function databaseCacheAdapterTestSuite(
                 expect(storedValue).toEqual({
                     value,
                     expiration: null,
+                    version: expect.any(String) as string,
                 } satisfies ICacheData<string>);
             });
         });
+        describe("method: findMany", () => {
+            test("Should return data in the same order as the keys", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert("a", "1");
+                    await trx.upsert("b", "2");
+                });
+
+                const dataArr = await adapter.findMany(["b", "c", "a"]);
+
+                expect(dataArr).toEqual([
+                    {
+                        value: "2",
+                        expiration: null,
+                        version: expect.any(String) as string,
+                    },
+                    null,
+                    {
+                        value: "1",
+                        expiration: null,
+                        version: expect.any(String) as string,
+                    },
+                ] satisfies Array<ICacheData<string> | null>);
+            });
+            test("Should return empty array when keys is empty", async () => {
+                expect(await adapter.findMany([])).toEqual([]);
+            });
+        });
         describe("method: transaction find", () => {
             test("Should return null when key does not exists", async () => {
                 const data = await adapter.transaction(async (trx) => {
@@ -128,6 +156,7 @@ export function databaseCacheAdapterTestSuite(
                 expect(storedValue).toEqual({
                     value,
                     expiration: null,
+                    version: expect.any(String) as string,
                 } satisfies ICacheData<string>);
             });
         });
@@ -145,6 +174,7 @@ export function databaseCacheAdapterTestSuite(
                 expect(storedValue).toEqual({
                     value,
                     expiration,
+                    version: expect.any(String) as string,
                 } satisfies ICacheData<string>);
             });
             test("Should add without expiration when key doesnt exists and expiration is an Date", async () => {
@@ -162,6 +192,7 @@ export function databaseCacheAdapterTestSuite(
                 expect(storedValue).toEqual({
                     value,
                     expiration,
+                    version: expect.any(String) as string,
                 } satisfies ICacheData<string>);
             });
             test("Should add without expiration when key doesnt exists and expiration is undefined", async () => {
@@ -176,6 +207,7 @@ export function databaseCacheAdapterTestSuite(
                 expect(storedValue).toEqual({
                     value,
                     expiration: null,
+                    version: expect.any(String) as string,
                 } satisfies ICacheData<string>);
             });
             test("Should update only value when key exists and expiration is undefined", async () => {
@@ -195,6 +227,7 @@ export function databaseCacheAdapterTestSuite(
                 expect(storedValue).toEqual({
                     value: newValue,
                     expiration,
+                    version: expect.any(String) as string,
                 } satisfies ICacheData<string>);
             });
             test("Should update value and expiration when key exists and expiration is null", async () => {
@@ -216,6 +249,7 @@ export function databaseCacheAdapterTestSuite(
                 expect(storedValue).toEqual({
                     value: newValue,
                     expiration: newExpiration,
+                    version: expect.any(String) as string,
                 } satisfies ICacheData<string>);
             });
             test("Should update value and expiration when key exists and expiration is an Date", async () => {
@@ -238,6 +272,7 @@ export function databaseCacheAdapterTestSuite(
                 expect(storedValue).toEqual({
                     value: newValue,
                     expiration: newExpiration,
+                    version: expect.any(String) as string,
                 } satisfies ICacheData<string>);
             });
         });
@@ -344,6 +379,43 @@ export function databaseCacheAdapterTestSuite(
                 expect(storedValue3).toBeNull();
             });
         });
+        describe("method: findKeysByKeyPrefix", () => {
+            test("Should return only keys that starts with the prefix", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert("cache/a", "1");
+                    await trx.upsert("cache/b", "2");
+                    await trx.upsert("c", "3");
+                });
+
+                const keys: Array<string> = [];
+                for await (const key of adapter.findKeysByKeyPrefix("cache/")) {
+                    keys.push(key);
+                }
+
+                expect(keys.sort()).toEqual(["cache/a", "cache/b"]);
+            });
+            test("Should not return expired keys", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(
+                        "cache/a",
+                        "1",
+                        TimeSpan.fromMinutes(5).toStartDate(),
+                    );
+                    await trx.upsert(
+                        "cache/b",
+                        "2",
+                        TimeSpan.fromMinutes(5).toEndDate(),
+                    );
+                });
+
+                const keys: Array<string> = [];
+                for await (const key of adapter.findKeysByKeyPrefix("cache/")) {
+                    keys.push(key);
+                }
+
+                expect(keys).toEqual(["cache/b"]);
+            });
+        });
         describe("method: removeByKeyPrefix", () => {
             test("Should remove all keys that match prefix", async () => {
                 const keyA1 = "a/1";
@@ -374,10 +446,269 @@ export function databaseCacheAdapterTestSuite(
                 expect(storedValueB1).toEqual({
                     value: valueB1,
                     expiration: null,
+                    version: expect.any(String) as string,
                 } satisfies ICacheData<string>);
                 expect(storedValueB2).toEqual({
                     value: valueB2,
                     expiration: null,
+                    version: expect.any(String) as string,
+                } satisfies ICacheData<string>);
+            });
+        });
+        describe("method: removeByTags", () => {
+            test("Should remove all keys associated with at least one of the tags", async () => {
+                const keyA = "a";
+                const keyB = "b";
+                const keyC = "c";
+                const keyD = "d";
+
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(keyA, "a", null, { tags: ["tag-a"] });
+                    await trx.upsert(keyB, "b", null, {
+                        tags: ["tag-b", "tag-c"],
+                    });
+                    await trx.upsert(keyC, "c", null, { tags: ["tag-c"] });
+                    await trx.upsert(keyD, "d", null);
+                });
+                await adapter.removeByTags(["tag-a", "tag-b"]);
+
+                expect(await adapter.find(keyA)).toBeNull();
+                expect(await adapter.find(keyB)).toBeNull();
+                expect(await adapter.find(keyC)).toEqual({
+                    value: "c",
+                    expiration: null,
+                    version: expect.any(String) as string,
+                } satisfies ICacheData<string>);
+                expect(await adapter.find(keyD)).toEqual({
+                    value: "d",
+                    expiration: null,
+                    version: expect.any(String) as string,
+                } satisfies ICacheData<string>);
+            });
+            test("Should keep the tags when key is upserted and tags is undefined", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a", null, { tags: ["tag-a"] });
+                    await trx.upsert(KEY, "b");
+                });
+                await adapter.removeByTags(["tag-a"]);
+
+                expect(await adapter.find(KEY)).toBeNull();
+            });
+            test("Should replace the tags when key is upserted and tags is an array", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a", null, { tags: ["tag-a"] });
+                    await trx.upsert(KEY, "b", null, { tags: ["tag-b"] });
+                });
+                await adapter.removeByTags(["tag-a"]);
+
+                expect(await adapter.find(KEY)).toEqual({
+                    value: "b",
+                    expiration: null,
+                    version: expect.any(String) as string,
+                } satisfies ICacheData<string>);
+            });
+        });
+        describe("method: transaction upsert staleAt", () => {
+            test("Should store staleAt when staleAt is a Date", async () => {
+                const staleAt = new Date("2026-01-17");
+
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a", null, { staleAt });
+                });
+
+                expect(await adapter.find(KEY)).toEqual({
+                    value: "a",
+                    expiration: null,
+                    staleAt,
+                    version: expect.any(String) as string,
+                } satisfies ICacheData<string>);
+            });
+            test("Should keep staleAt when key is upserted and staleAt is undefined", async () => {
+                const staleAt = new Date("2026-01-17");
+
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a", null, { staleAt });
+                    await trx.upsert(KEY, "b");
+                });
+
+                expect(await adapter.find(KEY)).toEqual({
+                    value: "b",
+                    expiration: null,
+                    staleAt,
+                    version: expect.any(String) as string,
+                } satisfies ICacheData<string>);
+            });
+            test("Should remove staleAt when key is upserted and staleAt is null", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a", null, {
+                        staleAt: new Date("2026-01-17"),
+                    });
+                    await trx.upsert(KEY, "b", null, { staleAt: null });
+                });
+
+                expect(await adapter.find(KEY)).toEqual({
+                    value: "b",
+                    expiration: null,
+                    version: expect.any(String) as string,
+                } satisfies ICacheData<string>);
+            });
+        });
+        describe("method: transaction upsert slidingTtl", () => {
+            test("Should store slidingTtl when slidingTtl is a TimeSpan", async () => {
+                const slidingTtl = TimeSpan.fromMinutes(5);
+
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a", null, { slidingTtl });
+                });
+
+                const data = await adapter.find(KEY);
+                expect(data?.slidingTtl?.toMilliseconds()).toBe(
+                    slidingTtl.toMilliseconds(),
+                );
+            });
+            test("Should remove slidingTtl when key is upserted and slidingTtl is null", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a", null, {
+                        slidingTtl: TimeSpan.fromMinutes(5),
+                    });
+                    await trx.upsert(KEY, "b", null, { slidingTtl: null });
+                });
+
+                expect(await adapter.find(KEY)).toEqual({
+                    value: "b",
+                    expiration: null,
+                    version: expect.any(String) as string,
+                } satisfies ICacheData<string>);
+            });
+        });
+        describe("method: updateIfVersion", () => {
+            test("Should return false when key doesnt exists", async () => {
+                const result = await adapter.updateIfVersion(KEY, "a", "1");
+
+                expect(result).toBe(false);
+            });
+            test("Should return true when version matches", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a");
+                });
+                const data = await adapter.find(KEY);
+
+                const result = await adapter.updateIfVersion(
+                    KEY,
+                    "b",
+                    data?.version ?? "",
+                );
+
+                expect(result).toBe(true);
+                expect((await adapter.find(KEY))?.value).toBe("b");
+            });
+            test("Should return false when version doesnt match", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a");
+                });
+                const data = await adapter.find(KEY);
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "b");
+                });
+
+                const result = await adapter.updateIfVersion(
+                    KEY,
+                    "c",
+                    data?.version ?? "",
+                );
+
+                expect(result).toBe(false);
+                expect((await adapter.find(KEY))?.value).toBe("b");
+            });
+            test("Should return false when key is expired", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(
+                        KEY,
+                        "a",
+                        TimeSpan.fromMinutes(5).toStartDate(),
+                    );
+                });
+                const data = await adapter.find(KEY);
+
+                const result = await adapter.updateIfVersion(
+                    KEY,
+                    "b",
+                    data?.version ?? "",
+                );
+
+                expect(result).toBe(false);
+            });
+            test("Should change the version when key is updated", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a");
+                });
+                const dataA = await adapter.find(KEY);
+                await adapter.update(KEY, "b");
+                const dataB = await adapter.find(KEY);
+
+                expect(dataA?.version).not.toBe(dataB?.version);
+            });
+        });
+        describe("method: updateExpiration", () => {
+            test("Should return false when key doesnt exists", async () => {
+                const result = await adapter.updateExpiration(KEY, null);
+
+                expect(result).toBe(false);
+            });
+            test("Should return false when key is expired", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(
+                        KEY,
+                        "a",
+                        TimeSpan.fromMinutes(5).toStartDate(),
+                    );
+                });
+
+                const result = await adapter.updateExpiration(
+                    KEY,
+                    TimeSpan.fromMinutes(5).toEndDate(),
+                );
+
+                expect(result).toBe(false);
+            });
+            test("Should return true when key exists", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a");
+                });
+
+                const result = await adapter.updateExpiration(KEY, null);
+
+                expect(result).toBe(true);
+            });
+            test("Should persist the expiration when key exists", async () => {
+                const expiration = TimeSpan.fromMinutes(5).toEndDate();
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(KEY, "a");
+                });
+
+                await adapter.updateExpiration(KEY, expiration);
+
+                expect(await adapter.find(KEY)).toEqual({
+                    value: "a",
+                    expiration,
+                    version: expect.any(String) as string,
+                } satisfies ICacheData<string>);
+            });
+            test("Should remove the expiration when expiration is null", async () => {
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(
+                        KEY,
+                        "a",
+                        TimeSpan.fromMinutes(5).toEndDate(),
+                    );
+                });
+
+                await adapter.updateExpiration(KEY, null);
+
+                expect(await adapter.find(KEY)).toEqual({
+                    value: "a",
+                    expiration: null,
+                    version: expect.any(String) as string,
                 } satisfies ICacheData<string>);
             });
         });
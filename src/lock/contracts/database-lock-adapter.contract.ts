@@ -27,6 +27,11 @@ export type ILockData = ILockExpirationData & {
      * The identifier of the entity currently holding the lock.
      */
     owner: string;
+
+    /**
+     * The number of times the lock is held by the owner, always `1` for locks that are not reentrant.
+     */
+    count: number;
 };
 
 /**
@@ -47,8 +52,30 @@ export type IDatabaseLockTransaction = {
      * The `upsert` inserts a lock if it doesnt exist otherwise it will be updated.
      *
      * @param key The unique identifier for the lock.
+     * @param count The hold count of the lock, defaults to `1` when not provided.
+     */
+    upsert(
+        key: string,
+        lockId: string,
+        expiration: Date | null,
+        count?: number,
+    ): Promise<void>;
+
+    /**
+     * The `findFencingToken` method retrieves the last fencing token for a given key.
+     * Note the fencing token must be kept when the lock is removed.
+     *
+     * @param key The unique identifier for the lock.
+     * @returns Returns the fencing token if found, otherwise `null`.
+     */
+    findFencingToken(key: string): Promise<number | null>;
+
+    /**
+     * The `upsertFencingToken` inserts the fencing token if it doesnt exist otherwise it will be updated.
+     *
+     * @param key The unique identifier for the lock.
      */
-    upsert(key: string, lockId: string, expiration: Date | null): Promise<void>;
+    upsertFencingToken(key: string, fencingToken: number): Promise<void>;
 };
 
 /**
@@ -13,6 +13,23 @@ import { type TimeSpan } from "@/time-span/implementations/_module.js";
 export type ILockAdapterState = {
     owner: string;
     expiration: Date | null;
+
+    /**
+     * The number of times the lock is held by the owner, always `1` for locks that are not reentrant.
+     */
+    count: number;
+};
+
+/**
+ * IMPORT_PATH: `"@daiso-tech/core/lock/contracts"`
+ * @group Contracts
+ */
+export type LockAdapterAcquireSettings = {
+    /**
+     * If true, acquiring the lock again by the same owner will increment the hold count of the lock.
+     * @default false
+     */
+    reentrant?: boolean;
 };
 
 /**
@@ -25,17 +42,22 @@ export type ILockAdapterState = {
 export type ILockAdapter = {
     /**
      * The `acquire` method acquires a lock only if expired.
+     * The fencing token of the `key` must be incremented each time the lock is acquired by a new owner and it must never decrease, even when the lock is released or expires.
+     * Fencing tokens start at `1`.
+     * When `settings.reentrant` is true and the lock is already acquired by the same owner, the hold count of the lock must be incremented atomically.
      *
-     * @returns Returns `true` if expired otherwise `false` is returned.
+     * @returns Returns the fencing token if expired or already acquired by the same owner otherwise `null` is returned.
      */
     acquire(
         key: string,
         lockId: string,
         ttl: TimeSpan | null,
-    ): Promise<boolean>;
+        settings?: LockAdapterAcquireSettings,
+    ): Promise<number | null>;
 
     /**
      * The `release` method releases a lock if the owner matches.
+     * When the hold count of the lock is greater than `1`, the hold count must be decremented atomically instead and the lock is kept.
      *
      * @returns Returns `true` if released otherwise `false` is returned.
      */
@@ -57,3 +79,68 @@ export type ILockAdapter = {
 
     getState(key: string): Promise<ILockAdapterState | null>;
 };
+
+/**
+ * The `IFairLockAdapter` contract extends {@link ILockAdapter | `ILockAdapter`} with a waiting queue, allowing waiters to be granted the lock in arrival order.
+ * The waiters of a key must be woken when the lock is released or when a waiter is removed from the waiting queue.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/lock/contracts"`
+ * @group Contracts
+ */
+export type IFairLockAdapter = ILockAdapter & {
+    /**
+     * The `enqueue` method adds `lockId` to the end of the waiting queue of the `key` if not already queued, otherwise only the expiration of the waiter is updated.
+     * Waiters that are not enqueued again within `ttl` must be removed from the waiting queue, ensuring crashed waiters never block the waiting queue.
+     *
+     * @returns Returns `true` if `lockId` is first in the waiting queue otherwise `false` is returned.
+     */
+    enqueue(key: string, lockId: string, ttl: TimeSpan): Promise<boolean>;
+
+    /**
+     * The `dequeue` method removes `lockId` from the waiting queue of the `key` and wakes the other waiters.
+     */
+    dequeue(key: string, lockId: string): Promise<void>;
+
+    /**
+     * The `wait` method waits until the waiters of the `key` are woken or `timeout` has elapsed.
+     */
+    wait(key: string, timeout: TimeSpan): Promise<void>;
+};
+
+/**
+ * The `IMultiLockAdapter` contract extends {@link ILockAdapter | `ILockAdapter`} with methods for managing multiple keys as a single lock in one atomic operation.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/lock/contracts"`
+ * @group Contracts
+ */
+export type IMultiLockAdapter = ILockAdapter & {
+    /**
+     * The `acquireMany` method acquires all the `keys` only if none of them is acquired by a different owner, otherwise none of the `keys` are acquired.
+     *
+     * @returns Returns the fencing tokens in the same order as the `keys` if acquired otherwise `null` is returned.
+     */
+    acquireMany(
+        keys: Array<string>,
+        lockId: string,
+        ttl: TimeSpan | null,
+        settings?: LockAdapterAcquireSettings,
+    ): Promise<Array<number> | null>;
+
+    /**
+     * The `releaseMany` method releases all the `keys` only if all of them are owned by the `lockId`, otherwise none of the `keys` are released.
+     *
+     * @returns Returns `true` if released otherwise `false` is returned.
+     */
+    releaseMany(keys: Array<string>, lockId: string): Promise<boolean>;
+
+    /**
+     * The `refreshMany` method updates the `ttl` of all the `keys` only if all of them are expireable and owned by the `lockId`, otherwise none of the `keys` are refreshed.
+     *
+     * @returns Returns `true` if refreshed otherwise `false` is returned.
+     */
+    refreshMany(
+        keys: Array<string>,
+        lockId: string,
+        ttl: TimeSpan,
+    ): Promise<boolean>;
+};
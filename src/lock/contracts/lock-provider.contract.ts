@@ -30,6 +30,20 @@ export type LockProviderCreateSettings = {
      * You can provide a custom lock id. If not specified a unique lock id will be generated by default.
      */
     lockId?: string;
+
+    /**
+     * If true, the lock will be refreshed in the background while the callback of the `runOrFail` and `runBlockingOrFail` methods executes.
+     * Note the setting has no effect when the lock has no `ttl`.
+     * If not specified it defaults to the `defaultAutoRefresh` setting of the provider.
+     */
+    autoRefresh?: boolean;
+
+    /**
+     * If true, the lock can be acquired again by the same `lockId` while it is held, incrementing its hold count.
+     * The lock is only released when it has been released as many times as it has been acquired.
+     * If not specified it defaults to false.
+     */
+    reentrant?: boolean;
 };
 
 /**
@@ -42,6 +56,17 @@ export type ILockProviderBase = {
      * The `create` method is used to create an instance of {@link ILock | `ILock`}.
      */
     create(key: string, settings?: LockProviderCreateSettings): ILock;
+
+    /**
+     * The `createMany` method is used to create an instance of {@link ILock | `ILock`} that acquires all the `keys` or none of them.
+     * The `key` of the returned {@link ILock | `ILock`} is the sorted `keys` joined by a comma and its fencing token is the highest fencing token of the `keys`.
+     * Note the `fair` setting of the `acquireBlocking` methods has no effect.
+     * @throws {TypeError} {@link TypeError}
+     */
+    createMany(
+        keys: Array<string>,
+        settings?: LockProviderCreateSettings,
+    ): ILock;
 };
 
 /**
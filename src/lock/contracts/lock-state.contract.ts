@@ -49,6 +49,11 @@ export type ILockUnavailableState = {
 export type ILockAcquiredState = {
     type: (typeof LOCK_STATE)["ACQUIRED"];
     remainingTime: TimeSpan | null;
+
+    /**
+     * The number of times the lock is held, always `1` for locks that are not reentrant.
+     */
+    count: number;
 };
 
 /**
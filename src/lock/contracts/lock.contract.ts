@@ -2,6 +2,8 @@
  * @module Lock
  */
 
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { type IFairLockAdapter } from "@/lock/contracts/lock-adapter.contract.js";
 import { type ILockState } from "@/lock/contracts/lock-state.contract.js";
 import {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -14,7 +16,7 @@ import {
 import { type ITask } from "@/task/contracts/_module.js";
 import { type ITimeSpan } from "@/time-span/contracts/_module.js";
 import {
-    type AsyncLazy,
+    type AbortableAsyncLazy,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     type Invokable,
 } from "@/utilities/_module.js";
@@ -27,6 +29,14 @@ import {
 export type LockAquireBlockingSettings = {
     time?: ITimeSpan;
     interval?: ITimeSpan;
+
+    /**
+     * If true, the lock is granted to the waiters in arrival order and the waiters are woken when the lock is released instead of retrying every `interval`.
+     * Note expired locks are still only detected every `interval`.
+     * Note the setting has no effect when the adapter does not implement {@link IFairLockAdapter | `IFairLockAdapter`} or when the lock has multiple keys.
+     * @default false
+     */
+    fair?: boolean;
 };
 
 /**
@@ -61,16 +71,32 @@ export type ILockStateMethods = {
 export type ILockBase = {
     /**
      * The `runOrFail` method wraps an {@link Invokable | `Invokable`} or {@link ITask | `ITask`} with the `acquireOrFail` and `release` method.
+     * The fencing token and the fencing tokens of each key are passed to `asyncFn` after the {@link AbortSignal | `AbortSignal`}, see {@link ILockBase.getFencingToken | `getFencingToken`} and {@link ILockBase.getFencingTokens | `getFencingTokens`}.
+     * When auto refresh is enabled the lock is refreshed in the background while `asyncFn` executes,
+     * if the refresh fails the {@link AbortSignal | `AbortSignal`} passed to `asyncFn` is aborted and an error is thrown.
      * @throws {FailedAcquireLockError} {@link FailedAcquireLockError}
+     * @throws {FailedRefreshLockError} {@link FailedRefreshLockError}
      */
-    runOrFail<TValue = void>(asyncFn: AsyncLazy<TValue>): ITask<TValue>;
+    runOrFail<TValue = void>(
+        asyncFn: AbortableAsyncLazy<
+            TValue,
+            [fencingToken: number | null, fencingTokens: Record<string, number>]
+        >,
+    ): ITask<TValue>;
 
     /**
      * The `runBlockingOrFail` method wraps an {@link Invokable | `Invokable`} or {@link ITask | `ITask`} with the `acquireBlockingOrFail` and `release` method.
+     * The fencing token and the fencing tokens of each key are passed to `asyncFn` after the {@link AbortSignal | `AbortSignal`}, see {@link ILockBase.getFencingToken | `getFencingToken`} and {@link ILockBase.getFencingTokens | `getFencingTokens`}.
+     * When auto refresh is enabled the lock is refreshed in the background while `asyncFn` executes,
+     * if the refresh fails the {@link AbortSignal | `AbortSignal`} passed to `asyncFn` is aborted and an error is thrown.
      * @throws {FailedAcquireLockError} {@link FailedAcquireLockError}
+     * @throws {FailedRefreshLockError} {@link FailedRefreshLockError}
      */
     runBlockingOrFail<TValue = void>(
-        asyncFn: AsyncLazy<TValue>,
+        asyncFn: AbortableAsyncLazy<
+            TValue,
+            [fencingToken: number | null, fencingTokens: Record<string, number>]
+        >,
         settings?: LockAquireBlockingSettings,
     ): ITask<TValue>;
 
@@ -143,6 +169,21 @@ export type ILockBase = {
      * @throws {FailedRefreshLockError} {@link FailedRefreshLockError}
      */
     refreshOrFail(ttl?: ITimeSpan): ITask<void>;
+
+    /**
+     * The `getFencingToken` method returns the fencing token of the last successful acquire, null is returned if the lock has not been acquired.
+     * The fencing token increases each time the lock is acquired by a new owner.
+     * You can pass it to downstream stores so they can reject writes from owners whose lock has expired and been acquired by another owner.
+     * Note null is also returned when the lock has multiple keys, because each key has its own fencing token, use {@link ILockBase.getFencingTokens | `getFencingTokens`} instead.
+     */
+    getFencingToken(): number | null;
+
+    /**
+     * The `getFencingTokens` method returns the fencing token of each key of the last successful acquire, keyed by the key without the namespace prefix.
+     * Null is returned if the lock has not been acquired.
+     * Note the fencing tokens of different keys are not comparable, each fencing token must be checked by the downstream store guarding its key.
+     */
+    getFencingTokens(): Record<string, number> | null;
 };
 
 /**
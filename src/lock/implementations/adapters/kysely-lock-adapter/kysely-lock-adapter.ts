@@ -31,6 +31,20 @@ export type KyselyLockTable = {
     // The type in mysql is bigint and will be returned as a string.
     // Some sql database drivers have support for js bigint if enabled. Meaning bigint will be returned.
     expiration: number | bigint | string | null;
+    count: number;
+};
+
+/**
+ * The fencing tokens are stored in a separate table because they must be kept when the locks are removed.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/lock/kysely-lock-adapter"`
+ * @group Adapters
+ */
+export type KyselyLockFencingTokenTable = {
+    key: string;
+    // The type in mysql is bigint and will be returned as a string.
+    // Some sql database drivers have support for js bigint if enabled. Meaning bigint will be returned.
+    fencing_token: number | bigint | string;
 };
 
 /**
@@ -40,6 +54,7 @@ export type KyselyLockTable = {
  */
 export type KyselyLockTables = {
     lock: KyselyLockTable;
+    lock_fencing_token: KyselyLockFencingTokenTable;
 };
 
 /**
@@ -83,7 +98,7 @@ async function find(
     const row = await kysely
         .selectFrom("lock")
         .where("lock.key", "=", key)
-        .select(["lock.owner", "lock.expiration"])
+        .select(["lock.owner", "lock.expiration", "lock.count"])
         .executeTakeFirst();
     if (row === undefined) {
         return null;
@@ -92,11 +107,13 @@ async function find(
         return {
             owner: row.owner,
             expiration: null,
+            count: Number(row.count),
         };
     }
     return {
         owner: row.owner,
         expiration: new Date(Number(row.expiration)),
+        count: Number(row.count),
     };
 }
 
@@ -119,6 +136,7 @@ class DatabaseLockTransaction implements IDatabaseLockTransaction {
         key: string,
         lockId: string,
         expiration: Date | null,
+        count = 1,
     ): Promise<void> {
         const expirationAsMs = expiration?.getTime() ?? null;
         await this.kysely
@@ -127,6 +145,7 @@ class DatabaseLockTransaction implements IDatabaseLockTransaction {
                 key,
                 owner: lockId,
                 expiration: expirationAsMs,
+                count,
             })
             .$if(!this.isMysql, (eb) =>
                 eb.onConflict((eb) =>
@@ -134,6 +153,7 @@ class DatabaseLockTransaction implements IDatabaseLockTransaction {
                         key,
                         owner: lockId,
                         expiration: expirationAsMs,
+                        count,
                     }),
                 ),
             )
@@ -142,6 +162,41 @@ class DatabaseLockTransaction implements IDatabaseLockTransaction {
                     key,
                     owner: lockId,
                     expiration: expirationAsMs,
+                    count,
+                }),
+            )
+            .execute();
+    }
+
+    async findFencingToken(key: string): Promise<number | null> {
+        const row = await this.kysely
+            .selectFrom("lock_fencing_token")
+            .where("lock_fencing_token.key", "=", key)
+            .select("lock_fencing_token.fencing_token")
+            .executeTakeFirst();
+        if (row === undefined) {
+            return null;
+        }
+        return Number(row.fencing_token);
+    }
+
+    async upsertFencingToken(key: string, fencingToken: number): Promise<void> {
+        await this.kysely
+            .insertInto("lock_fencing_token")
+            .values({
+                key,
+                fencing_token: fencingToken,
+            })
+            .$if(!this.isMysql, (eb) =>
+                eb.onConflict((eb) =>
+                    eb.column("key").doUpdateSet({
+                        fencing_token: fencingToken,
+                    }),
+                ),
+            )
+            .$if(this.isMysql, (eb) =>
+                eb.onDuplicateKeyUpdate({
+                    fencing_token: fencingToken,
                 }),
             )
             .execute();
@@ -242,6 +297,13 @@ export class KyselyLockAdapter
         } catch {
             /* EMPTY */
         }
+
+        // Should throw if the table does not exists thats why the try catch is used.
+        try {
+            await this.kysely.schema.dropTable("lock_fencing_token").execute();
+        } catch {
+            /* EMPTY */
+        }
     }
 
     /**
@@ -258,6 +320,34 @@ export class KyselyLockAdapter
                 )
                 .addColumn("owner", "varchar(255)", (col) => col.notNull())
                 .addColumn("expiration", "bigint")
+                .addColumn("count", "integer", (col) =>
+                    col.notNull().defaultTo(1),
+                )
+                .execute();
+        } catch {
+            /* EMPTY */
+        }
+
+        // Should throw if the column already exists thats why the try catch is used.
+        try {
+            await this.kysely.schema
+                .alterTable("lock")
+                .addColumn("count", "integer", (col) =>
+                    col.notNull().defaultTo(1),
+                )
+                .execute();
+        } catch {
+            /* EMPTY */
+        }
+
+        // Should throw if the table already exists thats why the try catch is used.
+        try {
+            await this.kysely.schema
+                .createTable("lock_fencing_token")
+                .addColumn("key", "varchar(255)", (col) =>
+                    col.primaryKey().notNull(),
+                )
+                .addColumn("fencing_token", "bigint", (col) => col.notNull())
                 .execute();
         } catch {
             /* EMPTY */
@@ -338,14 +428,16 @@ export class KyselyLockAdapter
         key: string,
         lockId: string,
     ): Promise<ILockData | null> {
-        let row: Pick<KyselyLockTable, "owner" | "expiration"> | undefined;
+        let row:
+            | Pick<KyselyLockTable, "owner" | "expiration" | "count">
+            | undefined;
         if (this.isMysql) {
             row = await this._transaction(async (trx) => {
                 const row = await trx
                     .selectFrom("lock")
                     .where("lock.key", "=", key)
                     .where("lock.owner", "=", lockId)
-                    .select(["lock.expiration", "lock.owner"])
+                    .select(["lock.expiration", "lock.owner", "lock.count"])
                     .executeTakeFirst();
                 await trx
                     .deleteFrom("lock")
@@ -359,7 +451,7 @@ export class KyselyLockAdapter
                 .deleteFrom("lock")
                 .where("lock.key", "=", key)
                 .where("lock.owner", "=", lockId)
-                .returning(["lock.expiration", "lock.owner"])
+                .returning(["lock.expiration", "lock.owner", "lock.count"])
                 .executeTakeFirst();
         }
 
@@ -372,12 +464,14 @@ export class KyselyLockAdapter
             return {
                 owner: row.owner,
                 expiration: null,
+                count: Number(row.count),
             };
         }
 
         return {
             owner: row.owner,
             expiration: new Date(Number(expiration)),
+            count: Number(row.count),
         };
     }
 
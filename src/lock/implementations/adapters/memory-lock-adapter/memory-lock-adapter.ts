@@ -3,8 +3,9 @@
  */
 
 import {
-    type ILockAdapter,
+    type IFairLockAdapter,
     type ILockAdapterState,
+    type LockAdapterAcquireSettings,
 } from "@/lock/contracts/_module.js";
 import { type TimeSpan } from "@/time-span/implementations/_module.js";
 import { type IDeinitizable } from "@/utilities/_module.js";
@@ -17,12 +18,14 @@ import { type IDeinitizable } from "@/utilities/_module.js";
 export type MemoryLockData =
     | {
           owner: string;
+          count: number;
           hasExpiration: true;
           timeoutId: string | number | NodeJS.Timeout;
           expiration: Date;
       }
     | {
           owner: string;
+          count: number;
           hasExpiration: false;
       };
 
@@ -33,7 +36,7 @@ export type MemoryLockData =
  * IMPORT_PATH: `"@daiso-tech/core/lock/memory-lock-adapter"`
  * @group Adapters
  */
-export class MemoryLockAdapter implements ILockAdapter, IDeinitizable {
+export class MemoryLockAdapter implements IFairLockAdapter, IDeinitizable {
     /**
      *  @example
      * ```ts
@@ -52,6 +55,43 @@ export class MemoryLockAdapter implements ILockAdapter, IDeinitizable {
      */
     constructor(private readonly map = new Map<string, MemoryLockData>()) {}
 
+    /**
+     * The fencing tokens are stored separately from the locks because they must be kept when the locks are released or expires.
+     */
+    private readonly fencingTokens = new Map<string, number>();
+
+    /**
+     * The waiting queues keep the arrival order of the waiters because a `Map` is iterated in insertion order.
+     */
+    private readonly waitQueues = new Map<string, Map<string, Date>>();
+
+    private readonly waitListeners = new Map<string, Set<() => void>>();
+
+    /**
+     * Returns true when the waiting queue of the `key` is empty or `lockId` is first in it, ensuring callers that are not queued can not jump ahead of fair waiters.
+     */
+    private isFirstWaiter(key: string, lockId: string): boolean {
+        const waitQueue = this.waitQueues.get(key);
+        if (waitQueue === undefined) {
+            return true;
+        }
+        const now = new Date();
+        for (const [waiterId, expiration] of waitQueue) {
+            if (expiration > now) {
+                return waiterId === lockId;
+            }
+            waitQueue.delete(waiterId);
+        }
+        this.waitQueues.delete(key);
+        return true;
+    }
+
+    private wakeWaiters(key: string): void {
+        for (const listener of this.waitListeners.get(key) ?? []) {
+            listener();
+        }
+    }
+
     /**
      * Removes all in-memory lock data.
      */
@@ -63,6 +103,11 @@ export class MemoryLockAdapter implements ILockAdapter, IDeinitizable {
             }
             this.map.delete(key);
         }
+        this.fencingTokens.clear();
+        this.waitQueues.clear();
+        for (const key of this.waitListeners.keys()) {
+            this.wakeWaiters(key);
+        }
     }
 
     // eslint-disable-next-line @typescript-eslint/require-await
@@ -70,24 +115,38 @@ export class MemoryLockAdapter implements ILockAdapter, IDeinitizable {
         key: string,
         lockId: string,
         ttl: TimeSpan | null,
-    ): Promise<boolean> {
+        settings: LockAdapterAcquireSettings = {},
+    ): Promise<number | null> {
+        const { reentrant = false } = settings;
         let lock = this.map.get(key);
         if (lock !== undefined) {
-            return lock.owner === lockId;
+            if (lock.owner !== lockId) {
+                return null;
+            }
+            if (reentrant) {
+                lock.count++;
+            }
+            return this.fencingTokens.get(key) ?? null;
+        }
+        if (!this.isFirstWaiter(key, lockId)) {
+            return null;
         }
 
         if (ttl === null) {
             lock = {
                 owner: lockId,
+                count: 1,
                 hasExpiration: false,
             };
             this.map.set(key, lock);
         } else {
             const timeoutId = setTimeout(() => {
                 this.map.delete(key);
+                this.wakeWaiters(key);
             }, ttl.toMilliseconds());
             lock = {
                 owner: lockId,
+                count: 1,
                 hasExpiration: true,
                 timeoutId,
                 expiration: ttl.toEndDate(),
@@ -95,7 +154,9 @@ export class MemoryLockAdapter implements ILockAdapter, IDeinitizable {
             this.map.set(key, lock);
         }
 
-        return true;
+        const fencingToken = (this.fencingTokens.get(key) ?? 0) + 1;
+        this.fencingTokens.set(key, fencingToken);
+        return fencingToken;
     }
 
     // eslint-disable-next-line @typescript-eslint/require-await
@@ -107,11 +168,16 @@ export class MemoryLockAdapter implements ILockAdapter, IDeinitizable {
         if (lock.owner !== lockId) {
             return false;
         }
+        if (lock.count > 1) {
+            lock.count--;
+            return true;
+        }
 
         if (lock.hasExpiration) {
             clearTimeout(lock.timeoutId);
         }
         this.map.delete(key);
+        this.wakeWaiters(key);
 
         return true;
     }
@@ -129,6 +195,7 @@ export class MemoryLockAdapter implements ILockAdapter, IDeinitizable {
         }
 
         this.map.delete(key);
+        this.wakeWaiters(key);
 
         return true;
     }
@@ -153,9 +220,11 @@ export class MemoryLockAdapter implements ILockAdapter, IDeinitizable {
         clearTimeout(lock.timeoutId);
         const timeoutId = setTimeout(() => {
             this.map.delete(key);
+            this.wakeWaiters(key);
         }, ttl.toMilliseconds());
         this.map.set(key, {
             ...lock,
+            expiration: ttl.toEndDate(),
             timeoutId,
         });
 
@@ -172,6 +241,7 @@ export class MemoryLockAdapter implements ILockAdapter, IDeinitizable {
             return {
                 owner: lockData.owner,
                 expiration: null,
+                count: lockData.count,
             };
         }
         if (lockData.expiration <= new Date()) {
@@ -180,6 +250,57 @@ export class MemoryLockAdapter implements ILockAdapter, IDeinitizable {
         return {
             owner: lockData.owner,
             expiration: lockData.expiration,
+            count: lockData.count,
         };
     }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async enqueue(
+        key: string,
+        lockId: string,
+        ttl: TimeSpan,
+    ): Promise<boolean> {
+        const waitQueue = this.waitQueues.get(key) ?? new Map<string, Date>();
+        const now = new Date();
+        for (const [waiterId, expiration] of waitQueue) {
+            if (expiration <= now) {
+                waitQueue.delete(waiterId);
+            }
+        }
+        waitQueue.set(lockId, ttl.toEndDate());
+        this.waitQueues.set(key, waitQueue);
+
+        const [firstWaiterId] = waitQueue.keys();
+        return firstWaiterId === lockId;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async dequeue(key: string, lockId: string): Promise<void> {
+        const waitQueue = this.waitQueues.get(key);
+        if (waitQueue === undefined) {
+            return;
+        }
+        waitQueue.delete(lockId);
+        if (waitQueue.size === 0) {
+            this.waitQueues.delete(key);
+        }
+        this.wakeWaiters(key);
+    }
+
+    async wait(key: string, timeout: TimeSpan): Promise<void> {
+        const listeners = this.waitListeners.get(key) ?? new Set<() => void>();
+        this.waitListeners.set(key, listeners);
+        await new Promise<void>((resolve) => {
+            const listener = (): void => {
+                clearTimeout(timeoutId);
+                listeners.delete(listener);
+                if (listeners.size === 0) {
+                    this.waitListeners.delete(key);
+                }
+                resolve();
+            };
+            const timeoutId = setTimeout(listener, timeout.toMilliseconds());
+            listeners.add(listener);
+        });
+    }
 }
@@ -12,9 +12,14 @@ import {
 import {
     type ILockAdapter,
     type ILockAdapterState,
+    type LockAdapterAcquireSettings,
 } from "@/lock/contracts/_module.js";
 import { type TimeSpan } from "@/time-span/implementations/_module.js";
-import { type IDeinitizable, type IInitizable } from "@/utilities/_module.js";
+import {
+    type IDeinitizable,
+    type IInitizable,
+    UnexpectedError,
+} from "@/utilities/_module.js";
 
 /**
  *
@@ -28,6 +33,11 @@ export type MongodbLockAdapterSettings = {
      */
     collectionName?: string;
     collectionSettings?: CollectionOptions;
+    /**
+     * The fencing tokens are stored in a separate collection because they must be kept when the locks are removed.
+     * @default "lock_fencing_token"
+     */
+    fencingTokenCollectionName?: string;
 };
 
 /**
@@ -40,6 +50,19 @@ export type MongodbLockDocument = {
     key: string;
     owner: string;
     expiration: Date | null;
+    fencingToken: number;
+    count: number;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/lock/mongodb-lock-adapter"`
+ * @group Adapters
+ */
+export type MongodbLockFencingTokenDocument = {
+    _id: ObjectId;
+    key: string;
+    fencingToken: number;
 };
 
 /**
@@ -54,6 +77,7 @@ export class MongodbLockAdapter
     implements ILockAdapter, IDeinitizable, IInitizable
 {
     private readonly collection: Collection<MongodbLockDocument>;
+    private readonly fencingTokenCollection: Collection<MongodbLockFencingTokenDocument>;
 
     /**
      * @example
@@ -74,12 +98,17 @@ export class MongodbLockAdapter
         const {
             collectionName = "lock",
             collectionSettings,
+            fencingTokenCollectionName = "lock_fencing_token",
             database,
         } = settings;
         this.collection = database.collection(
             collectionName,
             collectionSettings,
         );
+        this.fencingTokenCollection = database.collection(
+            fencingTokenCollectionName,
+            collectionSettings,
+        );
     }
 
     /**
@@ -109,34 +138,89 @@ export class MongodbLockAdapter
         } catch {
             /* EMPTY */
         }
+
+        // Should throw if the index already exists thats why the try catch is used.
+        try {
+            await this.fencingTokenCollection.createIndex(
+                {
+                    key: 1,
+                },
+                {
+                    unique: true,
+                },
+            );
+        } catch {
+            /* EMPTY */
+        }
     }
 
     /**
-     * Removes the collection where the lock keys are stored and all it's related indexes.
+     * Removes the collections where the lock keys and fencing tokens are stored and all it's related indexes.
      * Note all lock data will be removed.
      */
     async deInit(): Promise<void> {
-        // Should throw if the collection already does not exists thats why the try catch is used.
-        try {
-            await this.collection.dropIndexes();
-        } catch {
-            /* EMPTY */
-        }
+        for (const collection of [
+            this.collection,
+            this.fencingTokenCollection,
+        ]) {
+            // Should throw if the collection already does not exists thats why the try catch is used.
+            try {
+                await collection.dropIndexes();
+            } catch {
+                /* EMPTY */
+            }
 
-        // Should throw if the collection already does not exists thats why the try catch is used.
-        try {
-            await this.collection.drop();
-        } catch {
-            /* EMPTY */
+            // Should throw if the collection already does not exists thats why the try catch is used.
+            try {
+                await collection.drop();
+            } catch {
+                /* EMPTY */
+            }
         }
     }
 
+    private async findFencingToken(key: string): Promise<number> {
+        const fencingTokenData = await this.fencingTokenCollection.findOne({
+            key,
+        });
+        return fencingTokenData?.fencingToken ?? 0;
+    }
+
+    /**
+     * The fencing token is only raised, ensuring a slower acquire can never lower the fencing token of a newer owner.
+     */
+    private async upsertFencingToken(
+        key: string,
+        fencingToken: number,
+    ): Promise<void> {
+        await this.fencingTokenCollection.updateOne(
+            {
+                key,
+            },
+            {
+                $max: {
+                    fencingToken,
+                },
+            },
+            {
+                upsert: true,
+            },
+        );
+    }
+
+    /**
+     * The fencing token is assigned in the same update that changes the owner of the lock and is afterwards stored in the fencing token collection, ensuring failed acquires do not consume fencing tokens.
+     * When the lock is taken over from an expired owner, the new fencing token is always greater than the fencing token of the expired owner.
+     */
     async acquire(
         key: string,
         lockId: string,
         ttl: TimeSpan | null,
-    ): Promise<boolean> {
+        settings: LockAdapterAcquireSettings = {},
+    ): Promise<number | null> {
+        const { reentrant = false } = settings;
         const expiration = ttl?.toEndDate() ?? null;
+        const fencingToken = (await this.findFencingToken(key)) + 1;
         const isExpiredQuery = {
             $and: [
                 {
@@ -161,6 +245,13 @@ export class MongodbLockAdapter
                         expiration: {
                             $ifNull: ["$expiration", expiration],
                         },
+                        fencingToken: {
+                            $ifNull: ["$fencingToken", fencingToken],
+                        },
+                        // The count is 0 when the document is inserted.
+                        count: {
+                            $ifNull: ["$count", 0],
+                        },
                     },
                 },
                 {
@@ -179,23 +270,65 @@ export class MongodbLockAdapter
                                 else: "$expiration",
                             },
                         },
+                        fencingToken: {
+                            $cond: {
+                                if: isExpiredQuery,
+                                then: {
+                                    $max: [
+                                        fencingToken,
+                                        {
+                                            $add: ["$fencingToken", 1],
+                                        },
+                                    ],
+                                },
+                                else: "$fencingToken",
+                            },
+                        },
+                        count: {
+                            $switch: {
+                                branches: [
+                                    {
+                                        case: isExpiredQuery,
+                                        then: 1,
+                                    },
+                                    {
+                                        case: {
+                                            $eq: ["$count", 0],
+                                        },
+                                        then: 1,
+                                    },
+                                    {
+                                        case: {
+                                            $eq: ["$owner", lockId],
+                                        },
+                                        then: reentrant
+                                            ? {
+                                                  $add: ["$count", 1],
+                                              }
+                                            : "$count",
+                                    },
+                                ],
+                                default: "$count",
+                            },
+                        },
                     },
                 },
             ],
             {
                 upsert: true,
+                returnDocument: "after",
             },
         );
         if (lockData === null) {
-            return true;
-        }
-        if (lockData.owner === lockId) {
-            return true;
+            throw new UnexpectedError(
+                "Invalid MongodbLockDocument, expected the document to be upserted.",
+            );
         }
-        if (lockData.expiration === null) {
-            return false;
+        if (lockData.owner !== lockId) {
+            return null;
         }
-        return lockData.expiration <= new Date();
+        await this.upsertFencingToken(key, lockData.fencingToken);
+        return lockData.fencingToken;
     }
 
     async release(key: string, lockId: string): Promise<boolean> {
@@ -209,6 +342,25 @@ export class MongodbLockAdapter
                 $gt: new Date(),
             },
         };
+        const decrementedLockData = await this.collection.findOneAndUpdate(
+            {
+                key,
+                owner: lockId,
+                count: {
+                    $gt: 1,
+                },
+                $or: [isUnexpirableQuery, isUnexpiredQuery],
+            },
+            {
+                $inc: {
+                    count: -1,
+                },
+            },
+        );
+        if (decrementedLockData !== null) {
+            return true;
+        }
+
         const lockData = await this.collection.findOneAndDelete({
             key,
             owner: lockId,
@@ -310,6 +462,7 @@ export class MongodbLockAdapter
         return {
             owner: lockData.owner,
             expiration: lockData.expiration,
+            count: lockData.count,
         };
     }
 }
@@ -21,8 +21,8 @@ export class NoOpLockAdapter implements ILockAdapter {
         _key: string,
         _lockId: string,
         _ttl: TimeSpan | null,
-    ): Promise<boolean> {
-        return Promise.resolve(true);
+    ): Promise<number | null> {
+        return Promise.resolve(1);
     }
 
     release(_key: string, _lockId: string): Promise<boolean> {
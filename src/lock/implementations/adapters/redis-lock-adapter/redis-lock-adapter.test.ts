@@ -12,17 +12,22 @@ import { TimeSpan } from "@/time-span/implementations/_module.js";
 const timeout = TimeSpan.fromMinutes(2);
 describe("class: RedisLockAdapter", () => {
     let client: Redis;
+    let adapter: RedisLockAdapter | null = null;
     let startedContainer: StartedRedisContainer;
     beforeEach(async () => {
         startedContainer = await new RedisContainer("redis:7.4.2").start();
         client = new Redis(startedContainer.getConnectionUrl());
     }, timeout.toMilliseconds());
     afterEach(async () => {
+        await adapter?.deInit();
         await client.quit();
         await startedContainer.stop();
     }, timeout.toMilliseconds());
     lockAdapterTestSuite({
-        createAdapter: () => new RedisLockAdapter(client),
+        createAdapter: () => {
+            adapter = new RedisLockAdapter(client);
+            return adapter;
+        },
         test,
         beforeEach,
         expect,
@@ -5,10 +5,27 @@
 import { type Result, type Redis } from "ioredis";
 
 import {
-    type ILockAdapter,
+    type IFairLockAdapter,
     type ILockAdapterState,
+    type IMultiLockAdapter,
+    type LockAdapterAcquireSettings,
 } from "@/lock/contracts/_module.js";
 import { type TimeSpan } from "@/time-span/implementations/_module.js";
+import { type IDeinitizable } from "@/utilities/_module.js";
+
+/**
+ * Lua function that removes the expired waiters and returns the first waiter of the waiting queue, false is returned when the waiting queue is empty.
+ */
+const WAIT_QUEUE_LUA_FUNCTIONS = `
+    local function getFirstWaiterId(waitQueueKey, waitQueueExpirationKey, now)
+        local expiredWaiterIds = redis.call("zrangebyscore", waitQueueExpirationKey, "-inf", now);
+        for _, expiredWaiterId in ipairs(expiredWaiterIds) do
+            redis.call("lrem", waitQueueKey, 0, expiredWaiterId);
+            redis.call("zrem", waitQueueExpirationKey, expiredWaiterId);
+        end
+        return redis.call("lindex", waitQueueKey, 0);
+    end
+`;
 
 /**
  * @internal
@@ -16,6 +33,7 @@ import { type TimeSpan } from "@/time-span/implementations/_module.js";
 type IRedisJsonLockState = {
     owner: string;
     expiration: number;
+    count: number;
 };
 
 declare module "ioredis" {
@@ -23,25 +41,52 @@ declare module "ioredis" {
         /**
          *
          * @param key
+         * @param fencingTokenKey
+         * @param countKey
+         * @param waitQueueKey
+         * @param waitQueueExpirationKey
          * @param lockId
          * @param expiration As unix timestamp in miliseconds
+         * @param reentrant 1 if the lock is reentrant otherwise 0.
+         * @param now As unix timestamp in miliseconds
+         * @returns The fencing token if acquired otherwise 0.
          */
         daiso_lock_acquire(
             key: string,
+            fencingTokenKey: string,
+            countKey: string,
+            waitQueueKey: string,
+            waitQueueExpirationKey: string,
             lockId: string,
             expiration: number | null,
-        ): Result<1 | 0, Context>;
+            reentrant: 1 | 0,
+            now: number,
+        ): Result<number, Context>;
 
-        daiso_lock_release(key: string, lockId: string): Result<1 | 0, Context>;
+        /**
+         *
+         * @param key
+         * @param countKey
+         * @param lockId
+         * @param waitChannel The channel the waiters are woken through when the lock is released.
+         */
+        daiso_lock_release(
+            key: string,
+            countKey: string,
+            lockId: string,
+            waitChannel: string,
+        ): Result<1 | 0, Context>;
 
         /**
          *
          * @param key
+         * @param countKey
          * @param lockId
          * @param expiration As unix timestamp in miliseconds
          */
         daiso_lock_refresh(
             key: string,
+            countKey: string,
             lockId: string,
             expiration: number,
         ): Result<1 | 0, Context>;
@@ -49,7 +94,59 @@ declare module "ioredis" {
         /**
          * @returns {string} {@link IRedisJsonLockState | `IRedisJsonLockState | null`} as json string.
          */
-        daiso_lock_get_state(key: string): Result<string, Context>;
+        daiso_lock_get_state(
+            key: string,
+            countKey: string,
+        ): Result<string, Context>;
+
+        /**
+         *
+         * @param waitQueueKey
+         * @param waitQueueExpirationKey
+         * @param lockId
+         * @param expiration As unix timestamp in miliseconds
+         * @param now As unix timestamp in miliseconds
+         * @returns 1 if the waiter is first in the waiting queue otherwise 0.
+         */
+        daiso_lock_enqueue(
+            waitQueueKey: string,
+            waitQueueExpirationKey: string,
+            lockId: string,
+            expiration: number,
+            now: number,
+        ): Result<1 | 0, Context>;
+
+        daiso_lock_dequeue(
+            waitQueueKey: string,
+            waitQueueExpirationKey: string,
+            lockId: string,
+            waitChannel: string,
+        ): Result<1, Context>;
+
+        /**
+         * The keys are passed as `key`, `fencingTokenKey`, `countKey`, `waitQueueKey` and `waitQueueExpirationKey` for each lock key, followed by `lockId`, `expiration`, `reentrant` and `now`.
+         * @returns The fencing tokens in the same order as the keys if acquired otherwise an empty array.
+         */
+        daiso_lock_acquire_many(
+            numberOfKeys: number,
+            ...keysAndArgs: Array<string>
+        ): Result<Array<number>, Context>;
+
+        /**
+         * The keys are passed as `key` and `countKey` for each lock key, followed by `lockId` and the wait channel of each lock key.
+         */
+        daiso_lock_release_many(
+            numberOfKeys: number,
+            ...keysAndArgs: Array<string>
+        ): Result<1 | 0, Context>;
+
+        /**
+         * The keys are passed as `key` and `countKey` for each lock key, followed by `lockId` and `expiration`.
+         */
+        daiso_lock_refresh_many(
+            numberOfKeys: number,
+            ...keysAndArgs: Array<string>
+        ): Result<1 | 0, Context>;
     }
 }
 
@@ -61,7 +158,16 @@ declare module "ioredis" {
  * IMPORT_PATH: `"@daiso-tech/core/lock/redis-lock-adapter"`
  * @group Adapters
  */
-export class RedisLockAdapter implements ILockAdapter {
+export class RedisLockAdapter
+    implements IFairLockAdapter, IMultiLockAdapter, IDeinitizable
+{
+    /**
+     * The listener client is created on the first wait and shared by all waits because a client subscribed to a channel can not execute other commands.
+     */
+    private listenerClient: Redis | null = null;
+
+    private readonly waitListeners = new Map<string, Set<() => void>>();
+
     /**
      * @example
      * ```ts
@@ -77,32 +183,106 @@ export class RedisLockAdapter implements ILockAdapter {
         this.initReleaseCommand();
         this.initRefreshComand();
         this.initGetStateComand();
+        this.initEnqueueCommand();
+        this.initDequeueCommand();
+        this.initAcquireManyCommand();
+        this.initReleaseManyCommand();
+        this.initRefreshManyCommand();
+    }
+
+    private static getFencingTokenKey(key: string): string {
+        return `${key}:_fencing_token`;
+    }
+
+    /**
+     * The hold count is only stored when it is greater than 1 and it expires together with the lock.
+     */
+    private static getCountKey(key: string): string {
+        return `${key}:_count`;
+    }
+
+    private static getWaitQueueKey(key: string): string {
+        return `${key}:_wait_queue`;
     }
 
+    private static getWaitQueueExpirationKey(key: string): string {
+        return `${key}:_wait_queue_expiration`;
+    }
+
+    private static getWaitChannel(key: string): string {
+        return `${key}:_wait`;
+    }
+
+    private getListenerClient(): Redis {
+        if (this.listenerClient === null) {
+            this.listenerClient = this.database.duplicate();
+            this.listenerClient.on("message", this.redisListener);
+        }
+        return this.listenerClient;
+    }
+
+    private readonly redisListener = (channel: string): void => {
+        for (const listener of this.waitListeners.get(channel) ?? []) {
+            listener();
+        }
+    };
+
     private initAquireCommand(): void {
         if (typeof this.database.daiso_lock_acquire === "function") {
             return;
         }
         this.database.defineCommand("daiso_lock_acquire", {
-            numberOfKeys: 1,
+            numberOfKeys: 5,
             lua: `
+                ${WAIT_QUEUE_LUA_FUNCTIONS}
+
                 local key = KEYS[1];
+                local fencingTokenKey = KEYS[2];
+                local countKey = KEYS[3];
+                local waitQueueKey = KEYS[4];
+                local waitQueueExpirationKey = KEYS[5];
                 local lockId = ARGV[1];
 
                 -- Expiration time as unix timestamp in ms
                 local expiration = tonumber(ARGV[2]);
+                local reentrant = tonumber(ARGV[3]) == 1;
+
+                -- Current time as unix timestamp in ms
+                local now = tonumber(ARGV[4]);
 
                 if redis.call("exists", key) == 1 then
-                    return redis.call("get", key) == lockId;
+                    if redis.call("get", key) ~= lockId then
+                        return 0;
+                    end
+                    if reentrant then
+                        local count = tonumber(redis.call("get", countKey) or "1") + 1;
+                        redis.call("set", countKey, count);
+                        local currentExpiration = redis.call("pexpiretime", key);
+                        if currentExpiration ~= -1 then
+                            redis.call("pexpireat", countKey, currentExpiration);
+                        end
+                    end
+                    if redis.call("exists", fencingTokenKey) == 0 then
+                        return redis.call("incr", fencingTokenKey);
+                    end
+                    return tonumber(redis.call("get", fencingTokenKey));
+                end
+
+                -- Callers that are not first in the waiting queue can not jump ahead of fair waiters.
+                local firstWaiterId = getFirstWaiterId(waitQueueKey, waitQueueExpirationKey, now);
+                if firstWaiterId ~= false and firstWaiterId ~= lockId then
+                    return 0;
                 end
                 
+                redis.call("del", countKey);
                 if expiration == nil then
                     redis.call("set", key, lockId, "nx");
                 else
                     redis.call("set", key, lockId, "pxat", expiration, "nx");
                 end
                 
-                return 1;
+                -- The fencing token key has no expiration because the fencing token must never decrease.
+                return redis.call("incr", fencingTokenKey);
             `,
         });
     }
@@ -113,10 +293,12 @@ export class RedisLockAdapter implements ILockAdapter {
         }
 
         this.database.defineCommand("daiso_lock_release", {
-            numberOfKeys: 1,
+            numberOfKeys: 2,
             lua: `
                 local key = KEYS[1];
+                local countKey = KEYS[2];
                 local lockId = ARGV[1];
+                local waitChannel = ARGV[2];
 
                 if redis.call("exists", key) == 0 then
                     return 0
@@ -127,7 +309,18 @@ export class RedisLockAdapter implements ILockAdapter {
                     return 0
                 end
 
+                local count = tonumber(redis.call("get", countKey) or "1")
+                if count > 2 then
+                    redis.call("decr", countKey)
+                    return 1
+                end
+                if count == 2 then
+                    redis.call("del", countKey)
+                    return 1
+                end
+
                 redis.call("del", key)
+                redis.call("publish", waitChannel, "")
                 
                 return 1
             `,
@@ -140,10 +333,11 @@ export class RedisLockAdapter implements ILockAdapter {
         }
 
         this.database.defineCommand("daiso_lock_refresh", {
-            numberOfKeys: 1,
+            numberOfKeys: 2,
             lua: `
                 -- Arguments
                 local key = KEYS[1];
+                local countKey = KEYS[2];
                 local lockId = ARGV[1];
 
                 -- Expiration time as unix timestamp in ms
@@ -165,6 +359,7 @@ export class RedisLockAdapter implements ILockAdapter {
                 end
 
                 redis.call("pexpireat", key, expiration)
+                redis.call("pexpireat", countKey, expiration)
                 return 1
             `,
         });
@@ -176,10 +371,11 @@ export class RedisLockAdapter implements ILockAdapter {
         }
 
         this.database.defineCommand("daiso_lock_get_state", {
-            numberOfKeys: 1,
+            numberOfKeys: 2,
             lua: `
                 -- Arguments
                 local key = KEYS[1];
+                local countKey = KEYS[2];
 
                 if tonumber(redis.call("exists", key)) == 0 then
                     return cjson.encode(nil);
@@ -187,7 +383,8 @@ export class RedisLockAdapter implements ILockAdapter {
 
                 local state = {
                     owner = redis.call("get", key),
-                    expiration = tonumber(redis.call("pexpiretime", key))
+                    expiration = tonumber(redis.call("pexpiretime", key)),
+                    count = tonumber(redis.call("get", countKey) or "1")
                 };
 
                 return cjson.encode(state); 
@@ -195,26 +392,248 @@ export class RedisLockAdapter implements ILockAdapter {
         });
     }
 
+    private initEnqueueCommand(): void {
+        if (typeof this.database.daiso_lock_enqueue === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_lock_enqueue", {
+            numberOfKeys: 2,
+            lua: `
+                local waitQueueKey = KEYS[1];
+                local waitQueueExpirationKey = KEYS[2];
+                local lockId = ARGV[1];
+
+                -- Expiration time as unix timestamp in ms
+                local expiration = tonumber(ARGV[2]);
+
+                -- Current time as unix timestamp in ms
+                local now = tonumber(ARGV[3]);
+
+                local expiredWaiterIds = redis.call("zrangebyscore", waitQueueExpirationKey, "-inf", now);
+                for _, expiredWaiterId in ipairs(expiredWaiterIds) do
+                    redis.call("lrem", waitQueueKey, 0, expiredWaiterId);
+                    redis.call("zrem", waitQueueExpirationKey, expiredWaiterId);
+                end
+
+                if redis.call("zscore", waitQueueExpirationKey, lockId) == false then
+                    redis.call("rpush", waitQueueKey, lockId);
+                end
+                redis.call("zadd", waitQueueExpirationKey, expiration, lockId);
+
+                -- The waiting queue is removed when all waiters are expired.
+                local lastExpiration = redis.call("zrange", waitQueueExpirationKey, -1, -1, "withscores")[2];
+                redis.call("pexpireat", waitQueueKey, lastExpiration);
+                redis.call("pexpireat", waitQueueExpirationKey, lastExpiration);
+
+                if redis.call("lindex", waitQueueKey, 0) == lockId then
+                    return 1;
+                end
+                return 0;
+            `,
+        });
+    }
+
+    private initDequeueCommand(): void {
+        if (typeof this.database.daiso_lock_dequeue === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_lock_dequeue", {
+            numberOfKeys: 2,
+            lua: `
+                local waitQueueKey = KEYS[1];
+                local waitQueueExpirationKey = KEYS[2];
+                local lockId = ARGV[1];
+                local waitChannel = ARGV[2];
+
+                redis.call("lrem", waitQueueKey, 0, lockId);
+                redis.call("zrem", waitQueueExpirationKey, lockId);
+                redis.call("publish", waitChannel, "");
+
+                return 1;
+            `,
+        });
+    }
+
+    private initAcquireManyCommand(): void {
+        if (typeof this.database.daiso_lock_acquire_many === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_lock_acquire_many", {
+            lua: `
+                ${WAIT_QUEUE_LUA_FUNCTIONS}
+
+                local lockId = ARGV[1];
+
+                -- Expiration time as unix timestamp in ms
+                local expiration = tonumber(ARGV[2]);
+                local reentrant = tonumber(ARGV[3]) == 1;
+
+                -- Current time as unix timestamp in ms
+                local now = tonumber(ARGV[4]);
+
+                -- None of the keys are acquired when one of them is acquired by a different owner,
+                -- or when a free key has fair waiters queued ahead of the caller.
+                for i = 1, #KEYS, 5 do
+                    local owner = redis.call("get", KEYS[i]);
+                    if owner ~= false and owner ~= lockId then
+                        return {};
+                    end
+                    if owner == false then
+                        local firstWaiterId = getFirstWaiterId(KEYS[i + 3], KEYS[i + 4], now);
+                        if firstWaiterId ~= false and firstWaiterId ~= lockId then
+                            return {};
+                        end
+                    end
+                end
+
+                local fencingTokens = {};
+                for i = 1, #KEYS, 5 do
+                    local key = KEYS[i];
+                    local fencingTokenKey = KEYS[i + 1];
+                    local countKey = KEYS[i + 2];
+
+                    if redis.call("exists", key) == 1 then
+                        if reentrant then
+                            local count = tonumber(redis.call("get", countKey) or "1") + 1;
+                            redis.call("set", countKey, count);
+                            local currentExpiration = redis.call("pexpiretime", key);
+                            if currentExpiration ~= -1 then
+                                redis.call("pexpireat", countKey, currentExpiration);
+                            end
+                        end
+                        if redis.call("exists", fencingTokenKey) == 0 then
+                            table.insert(fencingTokens, redis.call("incr", fencingTokenKey));
+                        else
+                            table.insert(fencingTokens, tonumber(redis.call("get", fencingTokenKey)));
+                        end
+                    else
+                        redis.call("del", countKey);
+                        if expiration == nil then
+                            redis.call("set", key, lockId, "nx");
+                        else
+                            redis.call("set", key, lockId, "pxat", expiration, "nx");
+                        end
+                        table.insert(fencingTokens, redis.call("incr", fencingTokenKey));
+                    end
+                end
+
+                return fencingTokens;
+            `,
+        });
+    }
+
+    private initReleaseManyCommand(): void {
+        if (typeof this.database.daiso_lock_release_many === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_lock_release_many", {
+            lua: `
+                local lockId = ARGV[1];
+
+                -- None of the keys are released when one of them is not owned by the lockId.
+                for i = 1, #KEYS, 2 do
+                    if redis.call("get", KEYS[i]) ~= lockId then
+                        return 0;
+                    end
+                end
+
+                for i = 1, #KEYS, 2 do
+                    local key = KEYS[i];
+                    local countKey = KEYS[i + 1];
+                    local waitChannel = ARGV[(i + 1) / 2 + 1];
+
+                    local count = tonumber(redis.call("get", countKey) or "1");
+                    if count > 2 then
+                        redis.call("decr", countKey);
+                    elseif count == 2 then
+                        redis.call("del", countKey);
+                    else
+                        redis.call("del", key);
+                        redis.call("publish", waitChannel, "");
+                    end
+                end
+
+                return 1;
+            `,
+        });
+    }
+
+    private initRefreshManyCommand(): void {
+        if (typeof this.database.daiso_lock_refresh_many === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_lock_refresh_many", {
+            lua: `
+                local lockId = ARGV[1];
+
+                -- Expiration time as unix timestamp in ms
+                local expiration = tonumber(ARGV[2]);
+
+                -- None of the keys are refreshed when one of them is not owned by the lockId or is unexpireable.
+                for i = 1, #KEYS, 2 do
+                    if redis.call("get", KEYS[i]) ~= lockId then
+                        return 0;
+                    end
+                    if redis.call("pttl", KEYS[i]) == -1 then
+                        return 0;
+                    end
+                end
+
+                for i = 1, #KEYS, 2 do
+                    redis.call("pexpireat", KEYS[i], expiration);
+                    redis.call("pexpireat", KEYS[i + 1], expiration);
+                end
+
+                return 1;
+            `,
+        });
+    }
+
     async acquire(
         key: string,
         lockId: string,
         ttl: TimeSpan | null,
-    ): Promise<boolean> {
-        const result = await this.database.daiso_lock_acquire(
+        settings: LockAdapterAcquireSettings = {},
+    ): Promise<number | null> {
+        const { reentrant = false } = settings;
+        const fencingToken = await this.database.daiso_lock_acquire(
             key,
+            RedisLockAdapter.getFencingTokenKey(key),
+            RedisLockAdapter.getCountKey(key),
+            RedisLockAdapter.getWaitQueueKey(key),
+            RedisLockAdapter.getWaitQueueExpirationKey(key),
             lockId,
             ttl?.toEndDate().getTime() ?? null,
+            reentrant ? 1 : 0,
+            Date.now(),
         );
-        return result === 1;
+        if (fencingToken === 0) {
+            return null;
+        }
+        return fencingToken;
     }
 
     async release(key: string, lockId: string): Promise<boolean> {
-        const result = await this.database.daiso_lock_release(key, lockId);
+        const result = await this.database.daiso_lock_release(
+            key,
+            RedisLockAdapter.getCountKey(key),
+            lockId,
+            RedisLockAdapter.getWaitChannel(key),
+        );
         return result === 1;
     }
 
     async forceRelease(key: string): Promise<boolean> {
-        const result = await this.database.del(key);
+        const [result] = await Promise.all([
+            this.database.del(key),
+            this.database.del(RedisLockAdapter.getCountKey(key)),
+            this.database.publish(RedisLockAdapter.getWaitChannel(key), ""),
+        ]);
         return result > 0;
     }
 
@@ -225,6 +644,7 @@ export class RedisLockAdapter implements ILockAdapter {
     ): Promise<boolean> {
         const result = await this.database.daiso_lock_refresh(
             key,
+            RedisLockAdapter.getCountKey(key),
             lockId,
             ttl.toEndDate().getTime(),
         );
@@ -233,7 +653,10 @@ export class RedisLockAdapter implements ILockAdapter {
 
     async getState(key: string): Promise<ILockAdapterState | null> {
         const json = JSON.parse(
-            await this.database.daiso_lock_get_state(key),
+            await this.database.daiso_lock_get_state(
+                key,
+                RedisLockAdapter.getCountKey(key),
+            ),
         ) as IRedisJsonLockState | null;
         if (json === null) {
             return null;
@@ -242,6 +665,132 @@ export class RedisLockAdapter implements ILockAdapter {
             owner: json.owner,
             expiration:
                 json.expiration === -1 ? null : new Date(json.expiration),
+            count: json.count,
         };
     }
+
+    async acquireMany(
+        keys: Array<string>,
+        lockId: string,
+        ttl: TimeSpan | null,
+        settings: LockAdapterAcquireSettings = {},
+    ): Promise<Array<number> | null> {
+        const { reentrant = false } = settings;
+        const fencingTokens = await this.database.daiso_lock_acquire_many(
+            keys.length * 5,
+            ...keys.flatMap((key) => [
+                key,
+                RedisLockAdapter.getFencingTokenKey(key),
+                RedisLockAdapter.getCountKey(key),
+                RedisLockAdapter.getWaitQueueKey(key),
+                RedisLockAdapter.getWaitQueueExpirationKey(key),
+            ]),
+            lockId,
+            String(ttl?.toEndDate().getTime() ?? ""),
+            reentrant ? "1" : "0",
+            String(Date.now()),
+        );
+        if (fencingTokens.length === 0) {
+            return null;
+        }
+        return fencingTokens;
+    }
+
+    async releaseMany(keys: Array<string>, lockId: string): Promise<boolean> {
+        const result = await this.database.daiso_lock_release_many(
+            keys.length * 2,
+            ...keys.flatMap((key) => [key, RedisLockAdapter.getCountKey(key)]),
+            lockId,
+            ...keys.map((key) => RedisLockAdapter.getWaitChannel(key)),
+        );
+        return result === 1;
+    }
+
+    async refreshMany(
+        keys: Array<string>,
+        lockId: string,
+        ttl: TimeSpan,
+    ): Promise<boolean> {
+        const result = await this.database.daiso_lock_refresh_many(
+            keys.length * 2,
+            ...keys.flatMap((key) => [key, RedisLockAdapter.getCountKey(key)]),
+            lockId,
+            String(ttl.toEndDate().getTime()),
+        );
+        return result === 1;
+    }
+
+    async enqueue(
+        key: string,
+        lockId: string,
+        ttl: TimeSpan,
+    ): Promise<boolean> {
+        const result = await this.database.daiso_lock_enqueue(
+            RedisLockAdapter.getWaitQueueKey(key),
+            RedisLockAdapter.getWaitQueueExpirationKey(key),
+            lockId,
+            ttl.toEndDate().getTime(),
+            Date.now(),
+        );
+        return result === 1;
+    }
+
+    async dequeue(key: string, lockId: string): Promise<void> {
+        await this.database.daiso_lock_dequeue(
+            RedisLockAdapter.getWaitQueueKey(key),
+            RedisLockAdapter.getWaitQueueExpirationKey(key),
+            lockId,
+            RedisLockAdapter.getWaitChannel(key),
+        );
+    }
+
+    async wait(key: string, timeout: TimeSpan): Promise<void> {
+        const channel = RedisLockAdapter.getWaitChannel(key);
+        const listenerClient = this.getListenerClient();
+
+        const listeners =
+            this.waitListeners.get(channel) ?? new Set<() => void>();
+        const isFirstListener = listeners.size === 0;
+        this.waitListeners.set(channel, listeners);
+        const promise = new Promise<void>((resolve) => {
+            const listener = (): void => {
+                clearTimeout(timeoutId);
+                listeners.delete(listener);
+                if (listeners.size === 0) {
+                    this.waitListeners.delete(channel);
+                }
+                resolve();
+            };
+            const timeoutId = setTimeout(listener, timeout.toMilliseconds());
+            listeners.add(listener);
+        });
+
+        try {
+            if (isFirstListener) {
+                await listenerClient.subscribe(channel);
+            }
+            await promise;
+        } finally {
+            if (
+                !this.waitListeners.has(channel) &&
+                this.listenerClient === listenerClient
+            ) {
+                await listenerClient.unsubscribe(channel);
+            }
+        }
+    }
+
+    /**
+     * Wakes up all waiters and closes the listener client used for waiting.
+     */
+    async deInit(): Promise<void> {
+        const listenerClient = this.listenerClient;
+        this.listenerClient = null;
+        for (const listeners of [...this.waitListeners.values()]) {
+            for (const listener of [...listeners]) {
+                listener();
+            }
+        }
+        await listenerClient?.quit();
+    }
 }
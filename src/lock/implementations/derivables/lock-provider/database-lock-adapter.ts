@@ -7,6 +7,7 @@ import {
     type IDatabaseLockAdapter,
     type ILockAdapter,
     type ILockAdapterState,
+    type LockAdapterAcquireSettings,
 } from "@/lock/contracts/_module.js";
 import { type TimeSpan } from "@/time-span/implementations/_module.js";
 
@@ -20,30 +21,92 @@ export class DatabaseLockAdapter implements ILockAdapter {
         key: string,
         lockId: string,
         ttl: TimeSpan | null,
-    ): Promise<boolean> {
+        settings: LockAdapterAcquireSettings = {},
+    ): Promise<number | null> {
+        const { reentrant = false } = settings;
         const expiration = ttl?.toEndDate() ?? null;
-        return await this.adapter.transaction<boolean>(async (trx) => {
+        return await this.adapter.transaction<number | null>(async (trx) => {
+            const upsert = async (): Promise<number> => {
+                const fencingToken =
+                    ((await trx.findFencingToken(key)) ?? 0) + 1;
+                await trx.upsert(key, lockId, expiration);
+                await trx.upsertFencingToken(key, fencingToken);
+                return fencingToken;
+            };
+
             const lockData = await trx.find(key);
             if (lockData === null) {
-                await trx.upsert(key, lockId, expiration);
-                return true;
+                return await upsert();
+            }
+            if (
+                lockData.owner === lockId &&
+                lockData.expiration !== null &&
+                lockData.expiration <= new Date()
+            ) {
+                return await upsert();
             }
             if (lockData.owner === lockId) {
-                return true;
+                if (reentrant) {
+                    await trx.upsert(
+                        key,
+                        lockId,
+                        lockData.expiration,
+                        lockData.count + 1,
+                    );
+                }
+                return (await trx.findFencingToken(key)) ?? (await upsert());
             }
             if (lockData.expiration === null) {
-                return false;
+                return null;
             }
             if (lockData.expiration <= new Date()) {
-                await trx.upsert(key, lockId, expiration);
-                return true;
+                return await upsert();
             }
 
-            return lockData.expiration <= new Date();
+            return null;
+        });
+    }
+
+    /**
+     * Decrements the hold count when the lock is held more than once by the owner.
+     * Returns true if the hold count was decremented.
+     */
+    private async decrementCount(
+        key: string,
+        lockId: string,
+    ): Promise<boolean> {
+        return await this.adapter.transaction(async (trx) => {
+            const lockData = await trx.find(key);
+            if (lockData === null) {
+                return false;
+            }
+            if (lockData.owner !== lockId) {
+                return false;
+            }
+            if (lockData.count <= 1) {
+                return false;
+            }
+            if (
+                lockData.expiration !== null &&
+                lockData.expiration <= new Date()
+            ) {
+                return false;
+            }
+            await trx.upsert(
+                key,
+                lockId,
+                lockData.expiration,
+                lockData.count - 1,
+            );
+            return true;
         });
     }
 
     async release(key: string, lockId: string): Promise<boolean> {
+        if (await this.decrementCount(key, lockId)) {
+            return true;
+        }
+
         const lockData = await this.adapter.removeIfOwner(key, lockId);
         if (lockData === null) {
             return false;
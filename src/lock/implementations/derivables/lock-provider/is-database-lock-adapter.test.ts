@@ -53,7 +53,7 @@ describe("function: isDatabaseLockAdapter", () => {
                 _key: string,
                 _lockId: string,
                 _ttl: TimeSpan | null,
-            ): Promise<boolean> {
+            ): Promise<number | null> {
                 throw new Error("Function not implemented.");
             },
             release: function (
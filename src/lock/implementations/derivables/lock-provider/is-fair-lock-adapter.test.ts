@@ -0,0 +1,59 @@
+import { describe, expect, test } from "vitest";
+
+import {
+    type IFairLockAdapter,
+    type ILockAdapter,
+    type ILockAdapterState,
+} from "@/lock/contracts/_module.js";
+import { isFairLockAdapter } from "@/lock/implementations/derivables/lock-provider/is-fair-lock-adapter.js";
+import { type TimeSpan } from "@/time-span/implementations/_module.js";
+
+describe("function: isFairLockAdapter", () => {
+    const adapter: ILockAdapter = {
+        acquire: function (
+            _key: string,
+            _lockId: string,
+            _ttl: TimeSpan | null,
+        ): Promise<number | null> {
+            throw new Error("Function not implemented.");
+        },
+        release: function (_key: string, _lockId: string): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        forceRelease: function (_key: string): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        refresh: function (
+            _key: string,
+            _lockId: string,
+            _ttl: TimeSpan,
+        ): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        getState(_key: string): Promise<ILockAdapterState> {
+            throw new Error("Function not implemented.");
+        },
+    };
+    test("Should return true when given IFairLockAdapter", () => {
+        const fairAdapter: IFairLockAdapter = {
+            ...adapter,
+            enqueue: function (
+                _key: string,
+                _lockId: string,
+                _ttl: TimeSpan,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+            dequeue: function (_key: string, _lockId: string): Promise<void> {
+                throw new Error("Function not implemented.");
+            },
+            wait: function (_key: string, _timeout: TimeSpan): Promise<void> {
+                throw new Error("Function not implemented.");
+            },
+        };
+        expect(isFairLockAdapter(fairAdapter)).toBe(true);
+    });
+    test("Should return false when given ILockAdapter", () => {
+        expect(isFairLockAdapter(adapter)).toBe(false);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, test } from "vitest";
+
+import {
+    type ILockAdapter,
+    type ILockAdapterState,
+    type IMultiLockAdapter,
+} from "@/lock/contracts/_module.js";
+import { isMultiLockAdapter } from "@/lock/implementations/derivables/lock-provider/is-multi-lock-adapter.js";
+import { type TimeSpan } from "@/time-span/implementations/_module.js";
+
+describe("function: isMultiLockAdapter", () => {
+    const adapter: ILockAdapter = {
+        acquire: function (
+            _key: string,
+            _lockId: string,
+            _ttl: TimeSpan | null,
+        ): Promise<number | null> {
+            throw new Error("Function not implemented.");
+        },
+        release: function (_key: string, _lockId: string): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        forceRelease: function (_key: string): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        refresh: function (
+            _key: string,
+            _lockId: string,
+            _ttl: TimeSpan,
+        ): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        getState(_key: string): Promise<ILockAdapterState> {
+            throw new Error("Function not implemented.");
+        },
+    };
+    test("Should return true when given IMultiLockAdapter", () => {
+        const multiAdapter: IMultiLockAdapter = {
+            ...adapter,
+            acquireMany: function (
+                _keys: Array<string>,
+                _lockId: string,
+                _ttl: TimeSpan | null,
+            ): Promise<Array<number> | null> {
+                throw new Error("Function not implemented.");
+            },
+            releaseMany: function (
+                _keys: Array<string>,
+                _lockId: string,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+            refreshMany: function (
+                _keys: Array<string>,
+                _lockId: string,
+                _ttl: TimeSpan,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+        };
+        expect(isMultiLockAdapter(multiAdapter)).toBe(true);
+    });
+    test("Should return false when given ILockAdapter", () => {
+        expect(isMultiLockAdapter(adapter)).toBe(false);
+    });
+});
@@ -0,0 +1,27 @@
+/**
+ * @module Lock
+ */
+import {
+    type ILockAdapter,
+    type IMultiLockAdapter,
+} from "@/lock/contracts/_module.js";
+
+/**
+ * @internal
+ */
+export function isMultiLockAdapter(
+    adapter: ILockAdapter,
+): adapter is IMultiLockAdapter {
+    const adapter_ = adapter as Partial<
+        Record<string, (...args_: Array<unknown>) => unknown>
+    >;
+
+    return (
+        typeof adapter_["acquireMany"] === "function" &&
+        adapter_["acquireMany"].length >= 3 &&
+        typeof adapter_["releaseMany"] === "function" &&
+        adapter_["releaseMany"].length === 2 &&
+        typeof adapter_["refreshMany"] === "function" &&
+        adapter_["refreshMany"].length === 3
+    );
+}
@@ -1,10 +1,14 @@
 import Sqlite from "better-sqlite3";
 import { Kysely, SqliteDialect } from "kysely";
-import { beforeEach, describe, expect, test } from "vitest";
+import { beforeEach, describe, expect, test, vi } from "vitest";
 
 import { MemoryEventBusAdapter } from "@/event-bus/implementations/adapters/_module.js";
 import { EventBus } from "@/event-bus/implementations/derivables/_module.js";
-import { type ILock } from "@/lock/contracts/lock.contract.js";
+import {
+    FailedRefreshLockError,
+    type ILock,
+    LOCK_EVENTS,
+} from "@/lock/contracts/_module.js";
 import {
     KyselyLockAdapter,
     MemoryLockAdapter,
@@ -14,6 +18,8 @@ import { lockProviderTestSuite } from "@/lock/implementations/test-utilities/_mo
 import { Namespace } from "@/namespace/implementations/_module.js";
 import { SuperJsonSerdeAdapter } from "@/serde/implementations/adapters/_module.js";
 import { Serde } from "@/serde/implementations/derivables/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
 
 describe("class: LockProvider", () => {
     lockProviderTestSuite({
@@ -157,6 +163,263 @@ describe("class: LockProvider", () => {
             );
             const result = await deserializeLock2.acquire();
 
+            expect(result).toBe(true);
+        });
+    });
+    describe("Auto refresh tests:", () => {
+        test("Should throw TypeError when autoRefreshRatio is not between 0 and 1", () => {
+            for (const autoRefreshRatio of [0, 1, -0.5, 1.5, Number.NaN]) {
+                expect(
+                    () =>
+                        new LockProvider({
+                            adapter: new MemoryLockAdapter(),
+                            autoRefreshRatio,
+                        }),
+                ).toThrow(TypeError);
+            }
+        });
+        test("Should keep the lock acquired past its ttl while the callback executes", async () => {
+            const lockProvider = new LockProvider({
+                adapter: new MemoryLockAdapter(),
+                defaultAutoRefresh: true,
+            });
+            const ttl = TimeSpan.fromMilliseconds(100);
+            const lock1 = lockProvider.create("a", { ttl });
+            const lock2 = lockProvider.create("a", { ttl });
+
+            const result = await lock1.runOrFail(async () => {
+                await Task.delay(TimeSpan.fromMilliseconds(250));
+                return await lock2.acquire();
+            });
+
+            expect(result).toBe(false);
+        });
+        test("Should not refresh the lock when autoRefresh is false", async () => {
+            const lockProvider = new LockProvider({
+                adapter: new MemoryLockAdapter(),
+                defaultAutoRefresh: true,
+            });
+            const ttl = TimeSpan.fromMilliseconds(100);
+            const lock1 = lockProvider.create("a", { ttl, autoRefresh: false });
+            const lock2 = lockProvider.create("a", { ttl });
+
+            const result = await lock1.runOrFail(async () => {
+                await Task.delay(TimeSpan.fromMilliseconds(250));
+                return await lock2.acquire();
+            });
+
+            expect(result).toBe(true);
+        });
+        test("Should abort the signal and throw FailedRefreshLockError when the refresh fails", async () => {
+            const adapter = new MemoryLockAdapter();
+            vi.spyOn(adapter, "refresh").mockResolvedValue(false);
+            const lockProvider = new LockProvider({
+                adapter,
+                defaultAutoRefresh: true,
+            });
+            const lock = lockProvider.create("a", {
+                ttl: TimeSpan.fromMilliseconds(100),
+            });
+            let signal: AbortSignal | undefined;
+
+            const promise = lock.runOrFail(async (signal_) => {
+                signal = signal_;
+                await Task.delay(TimeSpan.fromMilliseconds(250));
+            });
+
+            await expect(promise).rejects.toBeInstanceOf(
+                FailedRefreshLockError,
+            );
+            expect(signal?.aborted).toBe(true);
+        });
+        test("Should dispatch FailedRefreshLockEvent when the refresh fails", async () => {
+            const adapter = new MemoryLockAdapter();
+            vi.spyOn(adapter, "refresh").mockResolvedValue(false);
+            const lockProvider = new LockProvider({
+                adapter,
+                defaultAutoRefresh: true,
+                eventBus: new EventBus({
+                    adapter: new MemoryEventBusAdapter(),
+                }),
+            });
+            const lock = lockProvider.create("a", {
+                ttl: TimeSpan.fromMilliseconds(100),
+            });
+            const handlerFn = vi.fn(() => {});
+            await lockProvider.events.addListener(
+                LOCK_EVENTS.FAILED_REFRESH,
+                handlerFn,
+            );
+
+            await expect(
+                lock.runOrFail(async () => {
+                    await Task.delay(TimeSpan.fromMilliseconds(250));
+                }),
+            ).rejects.toBeInstanceOf(FailedRefreshLockError);
+
+            expect(handlerFn).toHaveBeenCalledOnce();
+        });
+    });
+    describe("Multi lock tests:", () => {
+        test("Should release the acquired keys when the adapter throws while acquiring", async () => {
+            const adapter = new MemoryLockAdapter();
+            const acquire = adapter.acquire.bind(adapter);
+            const acquireSpy = vi
+                .spyOn(adapter, "acquire")
+                .mockImplementation((key, ...args) => {
+                    if (key.endsWith("b")) {
+                        return Promise.reject(new Error("Unexpected error"));
+                    }
+                    return acquire(key, ...args);
+                });
+            const lockProvider = new LockProvider({
+                adapter,
+            });
+            const lock = lockProvider.createMany(["a", "b"]);
+
+            await expect(lock.acquire()).rejects.toBeInstanceOf(Error);
+
+            acquireSpy.mockRestore();
+            expect(await lockProvider.create("a").acquire()).toBe(true);
+        });
+        test("Should restore the expirations of the refreshed keys when a key fails to refresh", async () => {
+            const adapter = new MemoryLockAdapter();
+            const refresh = adapter.refresh.bind(adapter);
+            const lockProvider = new LockProvider({
+                adapter,
+            });
+            const ttl = TimeSpan.fromMilliseconds(50);
+            const lock = lockProvider.createMany(["a", "b"], { ttl });
+            await lock.acquire();
+            const refreshSpy = vi
+                .spyOn(adapter, "refresh")
+                .mockImplementation((key, ...args) => {
+                    if (key.endsWith("b")) {
+                        return Promise.resolve(false);
+                    }
+                    return refresh(key, ...args);
+                });
+
+            const result = await lock.refresh(TimeSpan.fromMinutes(1));
+            refreshSpy.mockRestore();
+            await Task.delay(ttl.addMilliseconds(10));
+
+            expect(result).toBe(false);
+            expect(await lockProvider.create("a").acquire()).toBe(true);
+        });
+    });
+    describe("Fair blocking tests:", () => {
+        test("Should acquire the lock in arrival order", async () => {
+            const lockProvider = new LockProvider({
+                adapter: new MemoryLockAdapter(),
+            });
+            const lock = lockProvider.create("a");
+            await lock.acquire();
+
+            const order: Array<string> = [];
+            const promises: Array<Promise<void>> = [];
+            for (const name of ["b", "c", "d"]) {
+                const waiter = lockProvider.create("a");
+                promises.push(
+                    (async () => {
+                        await waiter.acquireBlockingOrFail({
+                            fair: true,
+                            time: TimeSpan.fromSeconds(5),
+                            interval: TimeSpan.fromSeconds(1),
+                        });
+                        order.push(name);
+                        await Task.delay(TimeSpan.fromMilliseconds(10));
+                        await waiter.release();
+                    })(),
+                );
+                await Task.delay(TimeSpan.fromMilliseconds(10));
+            }
+            await lock.release();
+            await Promise.all(promises);
+
+            expect(order).toEqual(["b", "c", "d"]);
+        });
+        test("Should not let a non-fair acquire jump ahead of fair waiters", async () => {
+            const lockProvider = new LockProvider({
+                adapter: new MemoryLockAdapter(),
+            });
+            const lock1 = lockProvider.create("a");
+            await lock1.acquire();
+            const lock2 = lockProvider.create("a");
+            const lock3 = lockProvider.create("a");
+
+            const promise = (async () => {
+                return await lock2.acquireBlocking({
+                    fair: true,
+                    time: TimeSpan.fromSeconds(5),
+                    interval: TimeSpan.fromSeconds(1),
+                });
+            })();
+            await Task.delay(TimeSpan.fromMilliseconds(50));
+            await lock1.release();
+            const result = await lock3.acquire();
+
+            expect(result).toBe(false);
+            expect(await promise).toBe(true);
+        });
+        test("Should be woken when the lock is released instead of waiting the interval", async () => {
+            const lockProvider = new LockProvider({
+                adapter: new MemoryLockAdapter(),
+            });
+            const lock1 = lockProvider.create("a");
+            await lock1.acquire();
+            const lock2 = lockProvider.create("a");
+
+            const start = Date.now();
+            const promise = lock2.acquireBlocking({
+                fair: true,
+                time: TimeSpan.fromSeconds(10),
+                interval: TimeSpan.fromSeconds(5),
+            });
+            await Task.delay(TimeSpan.fromMilliseconds(50));
+            await lock1.release();
+
+            expect(await promise).toBe(true);
+            expect(Date.now() - start).toBeLessThan(1000);
+        });
+        test("Should remove the waiter from the waiting queue when time has elapsed", async () => {
+            const lockProvider = new LockProvider({
+                adapter: new MemoryLockAdapter(),
+            });
+            const lock1 = lockProvider.create("a");
+            await lock1.acquire();
+            const lock2 = lockProvider.create("a");
+            const lock3 = lockProvider.create("a");
+
+            const result1 = await lock2.acquireBlocking({
+                fair: true,
+                time: TimeSpan.fromMilliseconds(50),
+                interval: TimeSpan.fromMilliseconds(10),
+            });
+            await lock1.release();
+            const result2 = await lock3.acquireBlocking({
+                fair: true,
+                time: TimeSpan.fromMilliseconds(50),
+                interval: TimeSpan.fromMilliseconds(10),
+            });
+
+            expect(result1).toBe(false);
+            expect(result2).toBe(true);
+        });
+        test("Should not block the waiting queue when a waiter is not enqueued again within its ttl", async () => {
+            const adapter = new MemoryLockAdapter();
+            const lockProvider = new LockProvider({
+                adapter,
+            });
+            await adapter.enqueue("a", "b", TimeSpan.fromMilliseconds(20));
+            const lock = lockProvider.create("a");
+
+            const result = await lock.acquireBlocking({
+                fair: true,
+                time: TimeSpan.fromMilliseconds(200),
+                interval: TimeSpan.fromMilliseconds(10),
+            });
+
             expect(result).toBe(true);
         });
     });
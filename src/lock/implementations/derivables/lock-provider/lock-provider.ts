@@ -21,6 +21,8 @@ import {
 } from "@/lock/contracts/_module.js";
 import { LockSerdeTransformer } from "@/lock/implementations/derivables/lock-provider/lock-serde-transformer.js";
 import { Lock } from "@/lock/implementations/derivables/lock-provider/lock.js";
+import { MultiLockSerdeTransformer } from "@/lock/implementations/derivables/lock-provider/multi-lock-serde-transformer.js";
+import { MultiLock } from "@/lock/implementations/derivables/lock-provider/multi-lock.js";
 import { resolveLockAdapter } from "@/lock/implementations/derivables/lock-provider/resolve-lock-adapter.js";
 import { type INamespace } from "@/namespace/contracts/_module.js";
 import { NoOpNamespace } from "@/namespace/implementations/_module.js";
@@ -35,6 +37,7 @@ import {
     resolveOneOrMore,
     type Invokable,
     callInvokable,
+    isRatio,
 } from "@/utilities/_module.js";
 
 /**
@@ -134,6 +137,20 @@ export type LockProviderSettingsBase = {
      * ```
      */
     defaultRefreshTime?: ITimeSpan;
+
+    /**
+     * If true, the {@link ILock | `ILock`} `runOrFail` and `runBlockingOrFail` methods will refresh the lock with its `ttl` in the background while the callback executes.
+     * When a refresh fails the {@link AbortSignal | `AbortSignal`} passed to the callback is aborted and the {@link LOCK_EVENTS.FAILED_REFRESH | `LOCK_EVENTS.FAILED_REFRESH`} event is dispatched.
+     * @default false
+     */
+    defaultAutoRefresh?: boolean;
+
+    /**
+     * The fraction of the lock `ttl` that elapses between each background refresh when auto refresh is enabled.
+     * Must be larger than 0 and smaller than 1, otherwise a {@link TypeError | `TypeError`} is thrown.
+     * @default 0.5
+     */
+    autoRefreshRatio?: number;
 };
 
 /**
@@ -165,6 +182,8 @@ export class LockProvider implements ILockProvider {
     private readonly defaultBlockingInterval: TimeSpan;
     private readonly defaultBlockingTime: TimeSpan;
     private readonly defaultRefreshTime: TimeSpan;
+    private readonly defaultAutoRefresh: boolean;
+    private readonly autoRefreshRatio: number;
     private readonly serde: OneOrMore<ISerderRegister>;
     private readonly serdeTransformerName: string;
 
@@ -201,6 +220,8 @@ export class LockProvider implements ILockProvider {
             defaultBlockingInterval = TimeSpan.fromSeconds(1),
             defaultBlockingTime = TimeSpan.fromMinutes(1),
             defaultRefreshTime = TimeSpan.fromMinutes(5),
+            defaultAutoRefresh = false,
+            autoRefreshRatio = 0.5,
             createLockId = () => v4(),
             serde = new Serde(new NoOpSerdeAdapter()),
             namespace = new NoOpNamespace(),
@@ -217,6 +238,9 @@ export class LockProvider implements ILockProvider {
         );
         this.defaultBlockingTime = TimeSpan.fromTimeSpan(defaultBlockingTime);
         this.defaultRefreshTime = TimeSpan.fromTimeSpan(defaultRefreshTime);
+        this.defaultAutoRefresh = defaultAutoRefresh;
+        isRatio(autoRefreshRatio, "autoRefreshRatio");
+        this.autoRefreshRatio = autoRefreshRatio;
         this.creatLockId = createLockId;
         this.namespace = namespace;
         this.defaultTtl =
@@ -230,18 +254,25 @@ export class LockProvider implements ILockProvider {
     }
 
     private registerToSerde(): void {
-        const transformer = new LockSerdeTransformer({
+        const transformerSettings = {
             originalAdapter: this.originalAdapter,
             adapter: this.adapter,
             defaultBlockingInterval: this.defaultBlockingInterval,
             defaultBlockingTime: this.defaultBlockingTime,
             defaultRefreshTime: this.defaultRefreshTime,
+            defaultAutoRefresh: this.defaultAutoRefresh,
+            autoRefreshRatio: this.autoRefreshRatio,
             eventBus: this.eventBus,
             namespace: this.namespace,
             serdeTransformerName: this.serdeTransformerName,
-        });
+        };
+        const transformer = new LockSerdeTransformer(transformerSettings);
+        const multiLockTransformer = new MultiLockSerdeTransformer(
+            transformerSettings,
+        );
         for (const serde of resolveOneOrMore(this.serde)) {
             serde.registerCustom(transformer, CORE);
+            serde.registerCustom(multiLockTransformer, CORE);
         }
     }
 
@@ -271,6 +302,8 @@ export class LockProvider implements ILockProvider {
         const {
             ttl = this.defaultTtl,
             lockId = callInvokable(this.creatLockId),
+            autoRefresh = this.defaultAutoRefresh,
+            reentrant = false,
         } = settings;
 
         const keyObj = this.namespace.create(key);
@@ -283,10 +316,69 @@ export class LockProvider implements ILockProvider {
             key: keyObj,
             lockId,
             ttl: ttl === null ? null : TimeSpan.fromTimeSpan(ttl),
+            fencingToken: null,
+            reentrant,
+            serdeTransformerName: this.serdeTransformerName,
+            defaultBlockingInterval: this.defaultBlockingInterval,
+            defaultBlockingTime: this.defaultBlockingTime,
+            defaultRefreshTime: this.defaultRefreshTime,
+            autoRefresh,
+            autoRefreshRatio: this.autoRefreshRatio,
+        });
+    }
+
+    /**
+     * @example
+     * ```ts
+     * import { LockProvider } from "@daiso-tech/core/lock";
+     * import { MemoryLockAdapter } from "@daiso-tech/core/lock/memory-lock-adapter";
+     * import { Namespace } from "@daiso-tech/core/namespace";
+     * import { Serde } from "@daiso-tech/core/serde";
+     * import { SuperJsonSerdeAdapter } from "@daiso-tech/core/serde/super-json-serde-adapter";
+     *
+     * const lockProvider = new LockProvider({
+     *   adapter: new MemoryLockAdapter(),
+     *   namespace: new Namespace("lock"),
+     *   serde: new Serde(new SuperJsonSerdeAdapter())
+     * });
+     *
+     * const lock = lockProvider.createMany(["account/1", "account/2"]);
+     * ```
+     */
+    createMany(
+        keys: Array<string>,
+        settings: LockProviderCreateSettings = {},
+    ): ILock {
+        if (keys.length === 0) {
+            throw new TypeError("At least one key must be provided");
+        }
+        const {
+            ttl = this.defaultTtl,
+            lockId = callInvokable(this.creatLockId),
+            autoRefresh = this.defaultAutoRefresh,
+            reentrant = false,
+        } = settings;
+
+        const keyObjs = [...new Set(keys)]
+            .sort()
+            .map((key) => this.namespace.create(key));
+
+        return new MultiLock({
+            namespace: this.namespace,
+            adapter: this.adapter,
+            originalAdapter: this.originalAdapter,
+            eventDispatcher: this.eventBus,
+            keys: keyObjs,
+            lockId,
+            ttl: ttl === null ? null : TimeSpan.fromTimeSpan(ttl),
+            fencingTokens: null,
+            reentrant,
             serdeTransformerName: this.serdeTransformerName,
             defaultBlockingInterval: this.defaultBlockingInterval,
             defaultBlockingTime: this.defaultBlockingTime,
             defaultRefreshTime: this.defaultRefreshTime,
+            autoRefresh,
+            autoRefreshRatio: this.autoRefreshRatio,
         });
     }
 }
@@ -27,6 +27,8 @@ export type LockSerdeTransformerSettings = {
     defaultBlockingInterval: TimeSpan;
     defaultBlockingTime: TimeSpan;
     defaultRefreshTime: TimeSpan;
+    defaultAutoRefresh: boolean;
+    autoRefreshRatio: number;
     eventBus: IEventBus<LockEventMap>;
     serdeTransformerName: string;
 };
@@ -43,6 +45,8 @@ export class LockSerdeTransformer
     private readonly defaultBlockingInterval: TimeSpan;
     private readonly defaultBlockingTime: TimeSpan;
     private readonly defaultRefreshTime: TimeSpan;
+    private readonly defaultAutoRefresh: boolean;
+    private readonly autoRefreshRatio: number;
     private readonly eventBus: IEventBus<LockEventMap>;
     private readonly serdeTransformerName: string;
 
@@ -54,6 +58,8 @@ export class LockSerdeTransformer
             defaultBlockingInterval,
             defaultBlockingTime,
             defaultRefreshTime,
+            defaultAutoRefresh,
+            autoRefreshRatio,
             eventBus,
             serdeTransformerName,
         } = settings;
@@ -64,6 +70,8 @@ export class LockSerdeTransformer
         this.defaultBlockingInterval = defaultBlockingInterval;
         this.defaultBlockingTime = defaultBlockingTime;
         this.defaultRefreshTime = defaultRefreshTime;
+        this.defaultAutoRefresh = defaultAutoRefresh;
+        this.autoRefreshRatio = autoRefreshRatio;
         this.eventBus = eventBus;
     }
 
@@ -103,7 +111,8 @@ export class LockSerdeTransformer
     }
 
     deserialize(serializedValue: ISerializedLock): Lock {
-        const { key, ttlInMs, lockId } = serializedValue;
+        const { key, ttlInMs, lockId, fencingToken, reentrant } =
+            serializedValue;
         const keyObj = this.namespace.create(key);
 
         return new Lock({
@@ -115,9 +124,13 @@ export class LockSerdeTransformer
             lockId,
             serdeTransformerName: this.serdeTransformerName,
             ttl: ttlInMs === null ? null : TimeSpan.fromMilliseconds(ttlInMs),
+            fencingToken,
+            reentrant,
             defaultBlockingInterval: this.defaultBlockingInterval,
             defaultBlockingTime: this.defaultBlockingTime,
             defaultRefreshTime: this.defaultRefreshTime,
+            autoRefresh: this.defaultAutoRefresh,
+            autoRefreshRatio: this.autoRefreshRatio,
         });
     }
 
@@ -20,13 +20,20 @@ import {
     type ILockExpiredState,
     type ILockAcquiredState,
     type ILockUnavailableState,
+    type IFairLockAdapter,
 } from "@/lock/contracts/_module.js";
+import { isFairLockAdapter } from "@/lock/implementations/derivables/lock-provider/is-fair-lock-adapter.js";
 import { type IKey, type INamespace } from "@/namespace/contracts/_module.js";
 import { type ITask } from "@/task/contracts/_module.js";
 import { Task } from "@/task/implementations/_module.js";
 import { type ITimeSpan } from "@/time-span/contracts/_module.js";
 import { TimeSpan } from "@/time-span/implementations/_module.js";
-import { type AsyncLazy, resolveLazyable } from "@/utilities/_module.js";
+import {
+    type AbortableAsyncLazy,
+    type HeartbeatSettings,
+    resolveAbortableAsyncLazy,
+    withHeartbeat,
+} from "@/utilities/_module.js";
 
 /**
  * @internal
@@ -36,6 +43,8 @@ export type ISerializedLock = {
     key: string;
     lockId: string;
     ttlInMs: number | null;
+    fencingToken: number | null;
+    reentrant: boolean;
 };
 
 /**
@@ -50,9 +59,13 @@ export type LockSettings = {
     key: IKey;
     lockId: string;
     ttl: TimeSpan | null;
+    fencingToken: number | null;
+    reentrant: boolean;
     defaultBlockingInterval: TimeSpan;
     defaultBlockingTime: TimeSpan;
     defaultRefreshTime: TimeSpan;
+    autoRefresh: boolean;
+    autoRefreshRatio: number;
 };
 
 /**
@@ -68,6 +81,8 @@ export class Lock implements ILock {
             key: deserializedValue._key.get(),
             lockId: deserializedValue.lockId,
             ttlInMs: deserializedValue._ttl?.toMilliseconds() ?? null,
+            fencingToken: deserializedValue.fencingToken,
+            reentrant: deserializedValue.reentrant,
         };
     }
 
@@ -78,9 +93,13 @@ export class Lock implements ILock {
     private readonly _key: IKey;
     private readonly lockId: string;
     private _ttl: TimeSpan | null;
+    private fencingToken: number | null;
+    private readonly reentrant: boolean;
     private readonly defaultBlockingInterval: TimeSpan;
     private readonly defaultBlockingTime: TimeSpan;
     private readonly defaultRefreshTime: TimeSpan;
+    private readonly autoRefresh: boolean;
+    private readonly autoRefreshRatio: number;
     private readonly serdeTransformerName: string;
 
     constructor(settings: LockSettings) {
@@ -92,10 +111,14 @@ export class Lock implements ILock {
             key,
             lockId,
             ttl,
+            fencingToken,
+            reentrant,
             serdeTransformerName,
             defaultBlockingInterval,
             defaultBlockingTime,
             defaultRefreshTime,
+            autoRefresh,
+            autoRefreshRatio,
         } = settings;
         this.namespace = namespace;
         this.originalAdapter = originalAdapter;
@@ -105,9 +128,13 @@ export class Lock implements ILock {
         this._key = key;
         this.lockId = lockId;
         this._ttl = ttl;
+        this.fencingToken = fencingToken;
+        this.reentrant = reentrant;
         this.defaultBlockingInterval = defaultBlockingInterval;
         this.defaultBlockingTime = defaultBlockingTime;
         this.defaultRefreshTime = defaultRefreshTime;
+        this.autoRefresh = autoRefresh;
+        this.autoRefreshRatio = autoRefreshRatio;
     }
 
     _internal_getNamespace(): INamespace {
@@ -122,11 +149,55 @@ export class Lock implements ILock {
         return this.originalAdapter;
     }
 
-    runOrFail<TValue = void>(asyncFn: AsyncLazy<TValue>): ITask<TValue> {
+    /**
+     * The lock is refreshed with its current `ttl`, null is returned when auto refresh is disabled or the lock is unexpireable.
+     */
+    private getHeartbeatSettings(): HeartbeatSettings | null {
+        const ttl = this._ttl;
+        if (!this.autoRefresh || ttl === null) {
+            return null;
+        }
+        return {
+            interval: ttl.multiply(this.autoRefreshRatio),
+            beat: async () => {
+                await this.refreshOrFail(ttl);
+            },
+        };
+    }
+
+    /**
+     * Should only be called after the lock is acquired, ensuring the fencing token is set.
+     */
+    private async runAcquired<TValue>(
+        asyncFn: AbortableAsyncLazy<
+            TValue,
+            [fencingToken: number | null, fencingTokens: Record<string, number>]
+        >,
+    ): Promise<TValue> {
+        const fencingToken = this.fencingToken;
+        const fencingTokens = this.getFencingTokens() ?? {};
+        return await withHeartbeat(
+            (signal) =>
+                resolveAbortableAsyncLazy(
+                    asyncFn,
+                    signal,
+                    fencingToken,
+                    fencingTokens,
+                ),
+            this.getHeartbeatSettings(),
+        );
+    }
+
+    runOrFail<TValue = void>(
+        asyncFn: AbortableAsyncLazy<
+            TValue,
+            [fencingToken: number | null, fencingTokens: Record<string, number>]
+        >,
+    ): ITask<TValue> {
         return new Task(async () => {
             try {
                 await this.acquireOrFail();
-                return await resolveLazyable(asyncFn);
+                return await this.runAcquired(asyncFn);
             } finally {
                 await this.release();
             }
@@ -134,14 +205,17 @@ export class Lock implements ILock {
     }
 
     runBlockingOrFail<TValue = void>(
-        asyncFn: AsyncLazy<TValue>,
+        asyncFn: AbortableAsyncLazy<
+            TValue,
+            [fencingToken: number | null, fencingTokens: Record<string, number>]
+        >,
         settings?: LockAquireBlockingSettings,
     ): ITask<TValue> {
         return new Task(async () => {
             try {
                 await this.acquireBlockingOrFail(settings);
 
-                return await resolveLazyable(asyncFn);
+                return await this.runAcquired(asyncFn);
             } finally {
                 await this.release();
             }
@@ -199,11 +273,19 @@ export class Lock implements ILock {
 
     acquire(): ITask<boolean> {
         return new Task(async () => {
-            return await this.adapter.acquire(
+            const fencingToken = await this.adapter.acquire(
                 this._key.toString(),
                 this.lockId,
                 this._ttl,
+                {
+                    reentrant: this.reentrant,
+                },
             );
+            if (fencingToken === null) {
+                return false;
+            }
+            this.fencingToken = fencingToken;
+            return true;
         }).pipe([
             this.handleUnexpectedError(),
             this.handleDispatch({
@@ -232,16 +314,52 @@ export class Lock implements ILock {
         });
     }
 
+    /**
+     * Only the first waiter in the waiting queue tries to acquire the lock, the other waiters wait until they are woken.
+     * The waiter is removed from the waiting queue when it is not enqueued again within 2 intervals, ensuring a crashed waiter never blocks the waiting queue.
+     */
+    private async acquireFairBlocking(
+        adapter: IFairLockAdapter,
+        endDate: Date,
+        interval: TimeSpan,
+    ): Promise<boolean> {
+        const key = this._key.toString();
+        try {
+            while (endDate > new Date()) {
+                const isFirst = await adapter.enqueue(
+                    key,
+                    this.lockId,
+                    interval.multiply(2),
+                );
+                if (isFirst && (await this.acquire())) {
+                    return true;
+                }
+                await adapter.wait(key, interval);
+            }
+            return false;
+        } finally {
+            await adapter.dequeue(key, this.lockId);
+        }
+    }
+
     acquireBlocking(settings: LockAquireBlockingSettings = {}): ITask<boolean> {
         return new Task(async () => {
             const {
                 time = this.defaultBlockingTime,
                 interval = this.defaultBlockingInterval,
+                fair = false,
             } = settings;
 
             const timeAsTimeSpan = TimeSpan.fromTimeSpan(time);
             const intervalAsTimeSpan = TimeSpan.fromTimeSpan(interval);
             const endDate = timeAsTimeSpan.toEndDate();
+            if (fair && isFairLockAdapter(this.adapter)) {
+                return await this.acquireFairBlocking(
+                    this.adapter,
+                    endDate,
+                    intervalAsTimeSpan,
+                );
+            }
             while (endDate > new Date()) {
                 const hasAquired = await this.acquire();
                 if (hasAquired) {
@@ -368,6 +486,19 @@ export class Lock implements ILock {
         return this._ttl;
     }
 
+    getFencingToken(): number | null {
+        return this.fencingToken;
+    }
+
+    getFencingTokens(): Record<string, number> | null {
+        if (this.fencingToken === null) {
+            return null;
+        }
+        return {
+            [this._key.get()]: this.fencingToken,
+        };
+    }
+
     getState(): ITask<ILockState> {
         return new Task(async () => {
             const state = await this.adapter.getState(this._key.toString());
@@ -386,6 +517,7 @@ export class Lock implements ILock {
                                   start: new Date(),
                                   end: state.expiration,
                               }),
+                    count: state.count,
                 } satisfies ILockAcquiredState;
             }
             return {
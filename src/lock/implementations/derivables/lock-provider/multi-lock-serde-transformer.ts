@@ -0,0 +1,140 @@
+/**
+ * @module Lock
+ */
+
+import { type IEventBus } from "@/event-bus/contracts/_module.js";
+import {
+    type ILockAdapter,
+    type LockAdapterVariants,
+    type LockEventMap,
+} from "@/lock/contracts/_module.js";
+import {
+    MultiLock,
+    type ISerializedMultiLock,
+} from "@/lock/implementations/derivables/lock-provider/multi-lock.js";
+import { type INamespace } from "@/namespace/contracts/_module.js";
+import { type ISerdeTransformer } from "@/serde/contracts/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
+import { getConstructorName, type OneOrMore } from "@/utilities/_module.js";
+
+/**
+ * @internal
+ */
+export type MultiLockSerdeTransformerSettings = {
+    adapter: ILockAdapter;
+    originalAdapter: LockAdapterVariants;
+    namespace: INamespace;
+    defaultBlockingInterval: TimeSpan;
+    defaultBlockingTime: TimeSpan;
+    defaultRefreshTime: TimeSpan;
+    defaultAutoRefresh: boolean;
+    autoRefreshRatio: number;
+    eventBus: IEventBus<LockEventMap>;
+    serdeTransformerName: string;
+};
+
+/**
+ * @internal
+ */
+export class MultiLockSerdeTransformer
+    implements ISerdeTransformer<MultiLock, ISerializedMultiLock>
+{
+    private readonly adapter: ILockAdapter;
+    private readonly originalAdapter: LockAdapterVariants;
+    private readonly namespace: INamespace;
+    private readonly defaultBlockingInterval: TimeSpan;
+    private readonly defaultBlockingTime: TimeSpan;
+    private readonly defaultRefreshTime: TimeSpan;
+    private readonly defaultAutoRefresh: boolean;
+    private readonly autoRefreshRatio: number;
+    private readonly eventBus: IEventBus<LockEventMap>;
+    private readonly serdeTransformerName: string;
+
+    constructor(settings: MultiLockSerdeTransformerSettings) {
+        const {
+            adapter,
+            originalAdapter,
+            namespace,
+            defaultBlockingInterval,
+            defaultBlockingTime,
+            defaultRefreshTime,
+            defaultAutoRefresh,
+            autoRefreshRatio,
+            eventBus,
+            serdeTransformerName,
+        } = settings;
+        this.serdeTransformerName = serdeTransformerName;
+        this.adapter = adapter;
+        this.originalAdapter = originalAdapter;
+        this.namespace = namespace;
+        this.defaultBlockingInterval = defaultBlockingInterval;
+        this.defaultBlockingTime = defaultBlockingTime;
+        this.defaultRefreshTime = defaultRefreshTime;
+        this.defaultAutoRefresh = defaultAutoRefresh;
+        this.autoRefreshRatio = autoRefreshRatio;
+        this.eventBus = eventBus;
+    }
+
+    get name(): OneOrMore<string> {
+        return [
+            "multi-lock",
+            this.serdeTransformerName,
+            getConstructorName(this.originalAdapter),
+            this.namespace.toString(),
+        ].filter((str) => str !== "");
+    }
+
+    isApplicable(value: unknown): value is MultiLock {
+        const isMultiLock =
+            value instanceof MultiLock &&
+            getConstructorName(value) === MultiLock.name;
+        if (!isMultiLock) {
+            return false;
+        }
+
+        const isSerdTransformerNameMathcing =
+            this.serdeTransformerName ===
+            value._internal_getSerdeTransformerName();
+
+        const isNamespaceMatching =
+            this.namespace.toString() ===
+            value._internal_getNamespace().toString();
+
+        const isAdapterMatching =
+            getConstructorName(this.originalAdapter) ===
+            getConstructorName(value._internal_getAdapter());
+
+        return (
+            isSerdTransformerNameMathcing &&
+            isNamespaceMatching &&
+            isAdapterMatching
+        );
+    }
+
+    deserialize(serializedValue: ISerializedMultiLock): MultiLock {
+        const { keys, ttlInMs, lockId, fencingTokens, reentrant } =
+            serializedValue;
+
+        return new MultiLock({
+            namespace: this.namespace,
+            adapter: this.adapter,
+            originalAdapter: this.originalAdapter,
+            eventDispatcher: this.eventBus,
+            keys: keys.map((key) => this.namespace.create(key)),
+            lockId,
+            serdeTransformerName: this.serdeTransformerName,
+            ttl: ttlInMs === null ? null : TimeSpan.fromMilliseconds(ttlInMs),
+            fencingTokens,
+            reentrant,
+            defaultBlockingInterval: this.defaultBlockingInterval,
+            defaultBlockingTime: this.defaultBlockingTime,
+            defaultRefreshTime: this.defaultRefreshTime,
+            autoRefresh: this.defaultAutoRefresh,
+            autoRefreshRatio: this.autoRefreshRatio,
+        });
+    }
+
+    serialize(deserializedValue: MultiLock): ISerializedMultiLock {
+        return MultiLock._internal_serialize(deserializedValue);
+    }
+}
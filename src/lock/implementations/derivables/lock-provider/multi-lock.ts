@@ -0,0 +1,721 @@
+/**
+ * @module Lock
+ */
+
+import { type IEventDispatcher } from "@/event-bus/contracts/_module.js";
+import { type AsyncMiddlewareFn } from "@/hooks/_module.js";
+import {
+    type ILock,
+    type ILockAdapter,
+    FailedAcquireLockError,
+    LOCK_EVENTS,
+    FailedReleaseLockError,
+    FailedRefreshLockError,
+    type LockAquireBlockingSettings,
+    type LockEventMap,
+    LOCK_STATE,
+    isLockError,
+    type ILockState,
+    type IDatabaseLockAdapter,
+    type ILockAdapterState,
+    type ILockExpiredState,
+    type ILockAcquiredState,
+    type ILockUnavailableState,
+} from "@/lock/contracts/_module.js";
+import { isMultiLockAdapter } from "@/lock/implementations/derivables/lock-provider/is-multi-lock-adapter.js";
+import { type IKey, type INamespace } from "@/namespace/contracts/_module.js";
+import { type ITask } from "@/task/contracts/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { type ITimeSpan } from "@/time-span/contracts/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
+import {
+    type AbortableAsyncLazy,
+    type HeartbeatSettings,
+    resolveAbortableAsyncLazy,
+    withHeartbeat,
+} from "@/utilities/_module.js";
+
+/**
+ * @internal
+ */
+export type ISerializedMultiLock = {
+    version: "1";
+    keys: Array<string>;
+    lockId: string;
+    ttlInMs: number | null;
+    fencingTokens: Array<number> | null;
+    reentrant: boolean;
+};
+
+/**
+ * @internal
+ */
+export type MultiLockSettings = {
+    serdeTransformerName: string;
+    namespace: INamespace;
+    adapter: ILockAdapter;
+    originalAdapter: IDatabaseLockAdapter | ILockAdapter;
+    eventDispatcher: IEventDispatcher<LockEventMap>;
+
+    /**
+     * The keys must be sorted, ensuring locks with overlapping keys acquire them in the same order.
+     */
+    keys: Array<IKey>;
+    lockId: string;
+    ttl: TimeSpan | null;
+    fencingTokens: Array<number> | null;
+    reentrant: boolean;
+    defaultBlockingInterval: TimeSpan;
+    defaultBlockingTime: TimeSpan;
+    defaultRefreshTime: TimeSpan;
+    autoRefresh: boolean;
+    autoRefreshRatio: number;
+};
+
+/**
+ * Manages multiple keys as a single lock, either all the keys are acquired or none of them.
+ * Adapters that implement {@link IMultiLockAdapter | `IMultiLockAdapter`} manage the keys in one atomic operation,
+ * other adapters acquire the keys one by one in sorted order and release the acquired keys when a key is unavailable or the adapter throws.
+ *
+ * @internal
+ */
+export class MultiLock implements ILock {
+    /**
+     * @internal
+     */
+    static _internal_serialize(
+        deserializedValue: MultiLock,
+    ): ISerializedMultiLock {
+        return {
+            version: "1",
+            keys: deserializedValue._keys.map((key) => key.get()),
+            lockId: deserializedValue.lockId,
+            ttlInMs: deserializedValue._ttl?.toMilliseconds() ?? null,
+            fencingTokens: deserializedValue.fencingTokens,
+            reentrant: deserializedValue.reentrant,
+        };
+    }
+
+    private readonly namespace: INamespace;
+    private readonly adapter: ILockAdapter;
+    private readonly originalAdapter: IDatabaseLockAdapter | ILockAdapter;
+    private readonly eventDispatcher: IEventDispatcher<LockEventMap>;
+    private readonly _keys: Array<IKey>;
+
+    /**
+     * All the keys joined by a comma, used for reporting the whole group in errors.
+     */
+    private readonly groupKey: IKey;
+    private readonly lockId: string;
+    private _ttl: TimeSpan | null;
+    private fencingTokens: Array<number> | null;
+    private readonly reentrant: boolean;
+    private readonly defaultBlockingInterval: TimeSpan;
+    private readonly defaultBlockingTime: TimeSpan;
+    private readonly defaultRefreshTime: TimeSpan;
+    private readonly autoRefresh: boolean;
+    private readonly autoRefreshRatio: number;
+    private readonly serdeTransformerName: string;
+
+    constructor(settings: MultiLockSettings) {
+        const {
+            namespace,
+            adapter,
+            originalAdapter,
+            eventDispatcher,
+            keys,
+            lockId,
+            ttl,
+            fencingTokens,
+            reentrant,
+            serdeTransformerName,
+            defaultBlockingInterval,
+            defaultBlockingTime,
+            defaultRefreshTime,
+            autoRefresh,
+            autoRefreshRatio,
+        } = settings;
+        this.namespace = namespace;
+        this.originalAdapter = originalAdapter;
+        this.serdeTransformerName = serdeTransformerName;
+        this.adapter = adapter;
+        this.eventDispatcher = eventDispatcher;
+        this._keys = keys;
+        this.groupKey = namespace.create(
+            keys.map((key) => key.get()).join(","),
+        );
+        this.lockId = lockId;
+        this._ttl = ttl;
+        this.fencingTokens = fencingTokens;
+        this.reentrant = reentrant;
+        this.defaultBlockingInterval = defaultBlockingInterval;
+        this.defaultBlockingTime = defaultBlockingTime;
+        this.defaultRefreshTime = defaultRefreshTime;
+        this.autoRefresh = autoRefresh;
+        this.autoRefreshRatio = autoRefreshRatio;
+    }
+
+    _internal_getNamespace(): INamespace {
+        return this.namespace;
+    }
+
+    _internal_getSerdeTransformerName(): string {
+        return this.serdeTransformerName;
+    }
+
+    _internal_getAdapter(): IDatabaseLockAdapter | ILockAdapter {
+        return this.originalAdapter;
+    }
+
+    private getAdapterKeys(): Array<string> {
+        return this._keys.map((key) => key.toString());
+    }
+
+    /**
+     * The lock is refreshed with its current `ttl`, null is returned when auto refresh is disabled or the lock is unexpireable.
+     */
+    private getHeartbeatSettings(): HeartbeatSettings | null {
+        const ttl = this._ttl;
+        if (!this.autoRefresh || ttl === null) {
+            return null;
+        }
+        return {
+            interval: ttl.multiply(this.autoRefreshRatio),
+            beat: async () => {
+                await this.refreshOrFail(ttl);
+            },
+        };
+    }
+
+    /**
+     * Should only be called after the lock is acquired, ensuring the fencing token is set.
+     */
+    private async runAcquired<TValue>(
+        asyncFn: AbortableAsyncLazy<
+            TValue,
+            [fencingToken: number | null, fencingTokens: Record<string, number>]
+        >,
+    ): Promise<TValue> {
+        const fencingToken = this.getFencingToken();
+        const fencingTokens = this.getFencingTokens() ?? {};
+        return await withHeartbeat(
+            (signal) =>
+                resolveAbortableAsyncLazy(
+                    asyncFn,
+                    signal,
+                    fencingToken,
+                    fencingTokens,
+                ),
+            this.getHeartbeatSettings(),
+        );
+    }
+
+    runOrFail<TValue = void>(
+        asyncFn: AbortableAsyncLazy<
+            TValue,
+            [fencingToken: number | null, fencingTokens: Record<string, number>]
+        >,
+    ): ITask<TValue> {
+        return new Task(async () => {
+            try {
+                await this.acquireOrFail();
+                return await this.runAcquired(asyncFn);
+            } finally {
+                await this.release();
+            }
+        });
+    }
+
+    runBlockingOrFail<TValue = void>(
+        asyncFn: AbortableAsyncLazy<
+            TValue,
+            [fencingToken: number | null, fencingTokens: Record<string, number>]
+        >,
+        settings?: LockAquireBlockingSettings,
+    ): ITask<TValue> {
+        return new Task(async () => {
+            try {
+                await this.acquireBlockingOrFail(settings);
+
+                return await this.runAcquired(asyncFn);
+            } finally {
+                await this.release();
+            }
+        });
+    }
+
+    private handleUnexpectedError = <
+        TParameters extends Array<unknown>,
+        TReturn,
+    >(): AsyncMiddlewareFn<TParameters, TReturn> => {
+        return async (args, next) => {
+            try {
+                return await next(...args);
+            } catch (error: unknown) {
+                if (isLockError(error)) {
+                    throw error;
+                }
+
+                this.eventDispatcher
+                    .dispatch(LOCK_EVENTS.UNEXPECTED_ERROR, {
+                        error,
+                        lock: this,
+                    })
+                    .detach();
+
+                throw error;
+            }
+        };
+    };
+
+    private handleDispatch = <
+        TParameters extends Array<unknown>,
+        TEventName extends keyof LockEventMap,
+        TEvent extends LockEventMap[TEventName],
+    >(settings: {
+        on: "true" | "false";
+        eventName: TEventName;
+        eventData: TEvent;
+    }): AsyncMiddlewareFn<TParameters, boolean> => {
+        return async (args, next) => {
+            const result = await next(...args);
+            if (result && settings.on === "true") {
+                this.eventDispatcher
+                    .dispatch(settings.eventName, settings.eventData)
+                    .detach();
+            }
+            if (!result && settings.on === "false") {
+                this.eventDispatcher
+                    .dispatch(settings.eventName, settings.eventData)
+                    .detach();
+            }
+            return result;
+        };
+    };
+
+    /**
+     * Errors are dispatched as unexpected errors instead of being thrown, ensuring every key is rolled back and the original error is kept.
+     */
+    private async rollbackAcquired(keys: Array<string>): Promise<void> {
+        for (const key of [...keys].reverse()) {
+            try {
+                await this.adapter.release(key, this.lockId);
+            } catch (error: unknown) {
+                this.eventDispatcher
+                    .dispatch(LOCK_EVENTS.UNEXPECTED_ERROR, {
+                        error,
+                        lock: this,
+                    })
+                    .detach();
+            }
+        }
+    }
+
+    /**
+     * The keys are acquired one by one in sorted order, the keys acquired by this call are released in reverse order when a key is unavailable or the adapter throws.
+     * Keys already held by the same `lockId` before the call are left untouched, unless the lock is reentrant where releasing them undoes the incremented hold count.
+     */
+    private async acquireInOrder(
+        keys: Array<string>,
+    ): Promise<Array<number> | null> {
+        const acquiredKeys: Array<string> = [];
+        const fencingTokens: Array<number> = [];
+        let hasAcquired = false;
+        try {
+            for (const key of keys) {
+                const state = this.reentrant
+                    ? null
+                    : await this.adapter.getState(key);
+                const isHeld = state !== null && state.owner === this.lockId;
+                const fencingToken = await this.adapter.acquire(
+                    key,
+                    this.lockId,
+                    this._ttl,
+                    {
+                        reentrant: this.reentrant,
+                    },
+                );
+                if (fencingToken === null) {
+                    return null;
+                }
+                if (!isHeld) {
+                    acquiredKeys.push(key);
+                }
+                fencingTokens.push(fencingToken);
+            }
+            hasAcquired = true;
+            return fencingTokens;
+        } finally {
+            if (!hasAcquired) {
+                await this.rollbackAcquired(acquiredKeys);
+            }
+        }
+    }
+
+    acquire(): ITask<boolean> {
+        return new Task(async () => {
+            const keys = this.getAdapterKeys();
+            const fencingTokens = isMultiLockAdapter(this.adapter)
+                ? await this.adapter.acquireMany(keys, this.lockId, this._ttl, {
+                      reentrant: this.reentrant,
+                  })
+                : await this.acquireInOrder(keys);
+            if (fencingTokens === null) {
+                return false;
+            }
+            this.fencingTokens = fencingTokens;
+            return true;
+        }).pipe([
+            this.handleUnexpectedError(),
+            this.handleDispatch({
+                on: "true",
+                eventName: LOCK_EVENTS.ACQUIRED,
+                eventData: {
+                    lock: this,
+                },
+            }),
+            this.handleDispatch({
+                on: "false",
+                eventName: LOCK_EVENTS.UNAVAILABLE,
+                eventData: {
+                    lock: this,
+                },
+            }),
+        ]);
+    }
+
+    acquireOrFail(): ITask<void> {
+        return new Task(async () => {
+            const hasAquired = await this.acquire();
+            if (!hasAquired) {
+                throw FailedAcquireLockError.create(this.groupKey);
+            }
+        });
+    }
+
+    /**
+     * Note the `fair` setting is ignored, the keys are polled until all of them are acquired because waiting in the queues of multiple keys could deadlock with other locks.
+     */
+    acquireBlocking(settings: LockAquireBlockingSettings = {}): ITask<boolean> {
+        return new Task(async () => {
+            const {
+                time = this.defaultBlockingTime,
+                interval = this.defaultBlockingInterval,
+            } = settings;
+
+            const timeAsTimeSpan = TimeSpan.fromTimeSpan(time);
+            const endDate = timeAsTimeSpan.toEndDate();
+            while (endDate > new Date()) {
+                const hasAquired = await this.acquire();
+                if (hasAquired) {
+                    return true;
+                }
+                await Task.delay(interval);
+            }
+            return false;
+        });
+    }
+
+    acquireBlockingOrFail(settings?: LockAquireBlockingSettings): ITask<void> {
+        return new Task(async () => {
+            const hasAquired = await this.acquireBlocking(settings);
+            if (!hasAquired) {
+                throw FailedAcquireLockError.create(this.groupKey);
+            }
+        });
+    }
+
+    /**
+     * Returns the states of the `keys` when all of them are owned by the same `lockId`, otherwise `null` is returned.
+     */
+    private async getOwnedStates(
+        keys: Array<string>,
+    ): Promise<Array<ILockAdapterState> | null> {
+        const states: Array<ILockAdapterState> = [];
+        for (const key of keys) {
+            const state = await this.adapter.getState(key);
+            if (state === null || state.owner !== this.lockId) {
+                return null;
+            }
+            states.push(state);
+        }
+        return states;
+    }
+
+    /**
+     * The keys are only released when all of them are owned by the same `lockId`, otherwise none of them are released.
+     * Note a release can not be undone, a key that expires or is force released after the ownership check is not released.
+     */
+    private async releaseInOrder(keys: Array<string>): Promise<boolean> {
+        if ((await this.getOwnedStates(keys)) === null) {
+            return false;
+        }
+        let hasReleased = true;
+        for (const key of [...keys].reverse()) {
+            const hasReleasedKey = await this.adapter.release(key, this.lockId);
+            hasReleased &&= hasReleasedKey;
+        }
+        return hasReleased;
+    }
+
+    release(): ITask<boolean> {
+        return new Task(async () => {
+            const keys = this.getAdapterKeys();
+            if (isMultiLockAdapter(this.adapter)) {
+                return await this.adapter.releaseMany(keys, this.lockId);
+            }
+            return await this.releaseInOrder(keys);
+        }).pipe([
+            this.handleUnexpectedError(),
+            this.handleDispatch({
+                on: "true",
+                eventName: LOCK_EVENTS.RELEASED,
+                eventData: {
+                    lock: this,
+                },
+            }),
+            this.handleDispatch({
+                on: "false",
+                eventName: LOCK_EVENTS.FAILED_RELEASE,
+                eventData: {
+                    lock: this,
+                },
+            }),
+        ]);
+    }
+
+    releaseOrFail(): ITask<void> {
+        return new Task(async () => {
+            const hasRelased = await this.release();
+            if (!hasRelased) {
+                throw FailedReleaseLockError.create(this.groupKey, this.lockId);
+            }
+        });
+    }
+
+    forceRelease(): ITask<boolean> {
+        return new Task(async () => {
+            const results = await Promise.all(
+                this.getAdapterKeys().map((key) =>
+                    this.adapter.forceRelease(key),
+                ),
+            );
+            return results.some((hasReleased) => hasReleased);
+        }).pipe([
+            this.handleUnexpectedError(),
+            async (args, next) => {
+                const hasReleased = await next(...args);
+                this.eventDispatcher
+                    .dispatch(LOCK_EVENTS.FORCE_RELEASED, {
+                        lock: this,
+                        hasReleased,
+                    })
+                    .detach();
+                return hasReleased;
+            },
+        ]);
+    }
+
+    /**
+     * Restores the previous expirations of the refreshed keys, errors are dispatched as unexpected errors instead of being thrown.
+     */
+    private async rollbackRefreshed(
+        keys: Array<string>,
+        states: Array<ILockAdapterState>,
+    ): Promise<void> {
+        for (const [index, key] of keys.entries()) {
+            const expiration = states[index]?.expiration ?? null;
+            if (expiration === null || expiration <= new Date()) {
+                continue;
+            }
+            try {
+                await this.adapter.refresh(
+                    key,
+                    this.lockId,
+                    TimeSpan.fromDateRange({
+                        start: new Date(),
+                        end: expiration,
+                    }),
+                );
+            } catch (error: unknown) {
+                this.eventDispatcher
+                    .dispatch(LOCK_EVENTS.UNEXPECTED_ERROR, {
+                        error,
+                        lock: this,
+                    })
+                    .detach();
+            }
+        }
+    }
+
+    /**
+     * The keys are only refreshed when all of them are expireable and owned by the same `lockId`.
+     * The previous expirations of the refreshed keys are restored when a key fails to refresh or the adapter throws.
+     */
+    private async refreshInOrder(
+        keys: Array<string>,
+        ttl: TimeSpan,
+    ): Promise<boolean> {
+        const states = await this.getOwnedStates(keys);
+        if (
+            states === null ||
+            states.some((state) => state.expiration === null)
+        ) {
+            return false;
+        }
+        const refreshedKeys: Array<string> = [];
+        let hasRefreshed = false;
+        try {
+            for (const key of keys) {
+                const hasRefreshedKey = await this.adapter.refresh(
+                    key,
+                    this.lockId,
+                    ttl,
+                );
+                if (!hasRefreshedKey) {
+                    return false;
+                }
+                refreshedKeys.push(key);
+            }
+            hasRefreshed = true;
+            return true;
+        } finally {
+            if (!hasRefreshed) {
+                await this.rollbackRefreshed(refreshedKeys, states);
+            }
+        }
+    }
+
+    refresh(ttl: ITimeSpan = this.defaultRefreshTime): ITask<boolean> {
+        return new Task(async () => {
+            const keys = this.getAdapterKeys();
+            const ttlAsTimeSpan = TimeSpan.fromTimeSpan(ttl);
+            if (isMultiLockAdapter(this.adapter)) {
+                return await this.adapter.refreshMany(
+                    keys,
+                    this.lockId,
+                    ttlAsTimeSpan,
+                );
+            }
+            return await this.refreshInOrder(keys, ttlAsTimeSpan);
+        }).pipe([
+            this.handleUnexpectedError(),
+            this.handleDispatch({
+                on: "true",
+                eventName: LOCK_EVENTS.REFRESHED,
+                eventData: {
+                    lock: this,
+                },
+            }),
+            this.handleDispatch({
+                on: "false",
+                eventName: LOCK_EVENTS.FAILED_REFRESH,
+                eventData: {
+                    lock: this,
+                },
+            }),
+            async (args, next) => {
+                const hasRefreshed = await next(...args);
+                if (hasRefreshed) {
+                    this._ttl = TimeSpan.fromTimeSpan(ttl);
+                }
+                return hasRefreshed;
+            },
+        ]);
+    }
+
+    refreshOrFail(ttl?: ITimeSpan): ITask<void> {
+        return new Task(async () => {
+            const hasRefreshed = await this.refresh(ttl);
+            if (!hasRefreshed) {
+                throw FailedRefreshLockError.create(this.groupKey, this.lockId);
+            }
+        });
+    }
+
+    get key(): string {
+        return this.groupKey.get();
+    }
+
+    get id(): string {
+        return this.lockId;
+    }
+
+    get ttl(): TimeSpan | null {
+        return this._ttl;
+    }
+
+    /**
+     * Returns the fencing token only when the lock has a single key, the fencing tokens of different keys are not comparable.
+     */
+    getFencingToken(): number | null {
+        if (this.fencingTokens?.length !== 1) {
+            return null;
+        }
+        return this.fencingTokens[0] ?? null;
+    }
+
+    getFencingTokens(): Record<string, number> | null {
+        const { fencingTokens } = this;
+        if (fencingTokens === null) {
+            return null;
+        }
+        return Object.fromEntries(
+            this._keys.map((key, index) => [
+                key.get(),
+                fencingTokens[index] as number,
+            ]),
+        );
+    }
+
+    /**
+     * The lock is only acquired when all the keys are acquired, the remaining time and the hold count are the lowest of the keys.
+     */
+    getState(): ITask<ILockState> {
+        return new Task(async () => {
+            const states = await Promise.all(
+                this.getAdapterKeys().map((key) => this.adapter.getState(key)),
+            );
+
+            const unavailableState = states.find(
+                (state) => state !== null && state.owner !== this.lockId,
+            );
+            if (unavailableState !== undefined && unavailableState !== null) {
+                return {
+                    type: LOCK_STATE.UNAVAILABLE,
+                    owner: unavailableState.owner,
+                } satisfies ILockUnavailableState;
+            }
+
+            const acquiredStates = states.filter(
+                (state): state is ILockAdapterState => state !== null,
+            );
+            if (acquiredStates.length < states.length) {
+                return {
+                    type: LOCK_STATE.EXPIRED,
+                } satisfies ILockExpiredState;
+            }
+
+            const expirations = acquiredStates
+                .map((state) => state.expiration)
+                .filter((expiration) => expiration !== null);
+            return {
+                type: LOCK_STATE.ACQUIRED,
+                remainingTime:
+                    expirations.length === 0
+                        ? null
+                        : TimeSpan.fromDateRange({
+                              start: new Date(),
+                              end: new Date(
+                                  Math.min(
+                                      ...expirations.map((expiration) =>
+                                          expiration.getTime(),
+                                      ),
+                                  ),
+                              ),
+                          }),
+                count: Math.min(...acquiredStates.map((state) => state.count)),
+            } satisfies ILockAcquiredState;
+        }).pipe(this.handleUnexpectedError());
+    }
+}
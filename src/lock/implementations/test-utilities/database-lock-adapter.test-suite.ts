@@ -115,6 +115,7 @@ export function databaseLockAdapterTestSuite(
                 expect(result).toEqual({
                     owner,
                     expiration,
+                    count: 1,
                 } satisfies ILockData);
             });
         });
@@ -131,6 +132,7 @@ export function databaseLockAdapterTestSuite(
                 expect(lockData).toEqual({
                     expiration,
                     owner,
+                    count: 1,
                 } satisfies ILockData);
             });
             test("Should update when key exists exists", async () => {
@@ -152,8 +154,78 @@ export function databaseLockAdapterTestSuite(
                 expect(lockData).toEqual({
                     expiration: expiration2,
                     owner: owner2,
+                    count: 1,
                 } satisfies ILockData);
             });
+            test("Should insert with the given count", async () => {
+                const key = "a";
+                const owner = "b";
+                const expiration = null;
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(key, owner, expiration, 2);
+                });
+
+                const lockData = await adapter.find(key);
+                expect(lockData).toEqual({
+                    expiration,
+                    owner,
+                    count: 2,
+                } satisfies ILockData);
+            });
+        });
+        describe("method: transaction findFencingToken", () => {
+            test("Should return null when key doesnt exists", async () => {
+                const result = await adapter.transaction(async (trx) => {
+                    return await trx.findFencingToken("a");
+                });
+
+                expect(result).toBeNull();
+            });
+            test("Should return fencing token when key exists", async () => {
+                const key = "a";
+                await adapter.transaction(async (trx) => {
+                    await trx.upsertFencingToken(key, 1);
+                });
+
+                const result = await adapter.transaction(async (trx) => {
+                    return await trx.findFencingToken(key);
+                });
+
+                expect(result).toBe(1);
+            });
+            test("Should return fencing token when lock is removed", async () => {
+                const key = "a";
+                const owner = "b";
+                await adapter.transaction(async (trx) => {
+                    await trx.upsert(key, owner, null);
+                    await trx.upsertFencingToken(key, 1);
+                });
+                await adapter.removeIfOwner(key, owner);
+                await adapter.remove(key);
+
+                const result = await adapter.transaction(async (trx) => {
+                    return await trx.findFencingToken(key);
+                });
+
+                expect(result).toBe(1);
+            });
+        });
+        describe("method: transaction upsertFencingToken", () => {
+            test("Should update when key exists", async () => {
+                const key = "a";
+                await adapter.transaction(async (trx) => {
+                    await trx.upsertFencingToken(key, 1);
+                });
+
+                await adapter.transaction(async (trx) => {
+                    await trx.upsertFencingToken(key, 2);
+                });
+
+                const result = await adapter.transaction(async (trx) => {
+                    return await trx.findFencingToken(key);
+                });
+                expect(result).toBe(2);
+            });
         });
         describe("method: remove", () => {
             test("Should return null when key doesnt exists", async () => {
@@ -258,6 +330,7 @@ export function databaseLockAdapterTestSuite(
                 expect(lockData).toEqual({
                     expiration,
                     owner,
+                    count: 1,
                 } satisfies ILockData);
             });
             test("Should return expiration as date when key and owner exists and is unexpireable", async () => {
@@ -273,6 +346,7 @@ export function databaseLockAdapterTestSuite(
                 expect(lockData).toEqual({
                     expiration,
                     owner,
+                    count: 1,
                 } satisfies ILockData);
             });
             test("Should remove lock when key and owner exists", async () => {
@@ -303,6 +377,7 @@ export function databaseLockAdapterTestSuite(
                 expect(lockData).toEqual({
                     expiration,
                     owner,
+                    count: 1,
                 } satisfies ILockData);
             });
         });
@@ -419,6 +494,7 @@ export function databaseLockAdapterTestSuite(
                 expect(lockData).toEqual({
                     owner,
                     expiration,
+                    count: 1,
                 } satisfies ILockData);
             });
             test("Should not update expiration when lock is unexpireable", async () => {
@@ -438,6 +514,7 @@ export function databaseLockAdapterTestSuite(
                 expect(lockData).toEqual({
                     owner,
                     expiration,
+                    count: 1,
                 } satisfies ILockData);
             });
             test("Should update expiration when lock is unexpired", async () => {
@@ -457,6 +534,7 @@ export function databaseLockAdapterTestSuite(
                 expect(lockData).toEqual({
                     owner,
                     expiration: newExpiration,
+                    count: 1,
                 } satisfies ILockData);
             });
         });
@@ -487,6 +565,7 @@ export function databaseLockAdapterTestSuite(
                 expect(result).toEqual({
                     owner,
                     expiration,
+                    count: 1,
                 } satisfies ILockData);
             });
         });
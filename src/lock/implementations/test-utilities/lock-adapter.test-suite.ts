@@ -85,17 +85,17 @@ export function lockAdapterTestSuite(
             adapter = await createAdapter();
         });
         describe("method: acquire", () => {
-            test("Should return true when key doesnt exists", async () => {
+            test("Should return fencing token when key doesnt exists", async () => {
                 const key = "a";
                 const owner = "b";
                 const ttl = null;
 
                 const result = await adapter.acquire(key, owner, ttl);
 
-                expect(result).toBe(true);
+                expect(result).toBeTypeOf("number");
             });
             test(
-                "Should return true when key is expired",
+                "Should return fencing token when key is expired",
                 {
                     retry: 10,
                 },
@@ -108,10 +108,10 @@ export function lockAdapterTestSuite(
                     await delay(ttl);
 
                     const result = await adapter.acquire(key, owner, null);
-                    expect(result).toBe(true);
+                    expect(result).toBeTypeOf("number");
                 },
             );
-            test("Should return true when key is unexpireable and acquired by same owner", async () => {
+            test("Should return fencing token when key is unexpireable and acquired by same owner", async () => {
                 const key = "a";
                 const owner = "b";
                 const ttl = null;
@@ -119,9 +119,9 @@ export function lockAdapterTestSuite(
                 await adapter.acquire(key, owner, ttl);
                 const result = await adapter.acquire(key, owner, ttl);
 
-                expect(result).toBe(true);
+                expect(result).toBeTypeOf("number");
             });
-            test("Should return true when key is unexpired and acquired by same owner", async () => {
+            test("Should return fencing token when key is unexpired and acquired by same owner", async () => {
                 const key = "a";
                 const owner = "b";
                 const ttl = TimeSpan.fromMilliseconds(50);
@@ -129,9 +129,9 @@ export function lockAdapterTestSuite(
                 await adapter.acquire(key, owner, ttl);
                 const result = await adapter.acquire(key, owner, ttl);
 
-                expect(result).toBe(true);
+                expect(result).toBeTypeOf("number");
             });
-            test("Should return false when key is unexpireable and acquired by different owner", async () => {
+            test("Should return null when key is unexpireable and acquired by different owner", async () => {
                 const key = "a";
                 const owner1 = "b";
                 const ttl = null;
@@ -140,9 +140,9 @@ export function lockAdapterTestSuite(
                 const owner2 = "c";
                 const result = await adapter.acquire(key, owner2, ttl);
 
-                expect(result).toBe(false);
+                expect(result).toBeNull();
             });
-            test("Should return false when key is unexpired and acquired by different owner", async () => {
+            test("Should return null when key is unexpired and acquired by different owner", async () => {
                 const key = "a";
                 const owner1 = "b";
                 const ttl = TimeSpan.fromMilliseconds(50);
@@ -151,7 +151,177 @@ export function lockAdapterTestSuite(
                 const owner2 = "c";
                 const result = await adapter.acquire(key, owner2, ttl);
 
-                expect(result).toBe(false);
+                expect(result).toBeNull();
+            });
+            test("Should return the same fencing token when key is acquired by same owner", async () => {
+                const key = "a";
+                const owner = "b";
+                const ttl = null;
+
+                const fencingToken1 = await adapter.acquire(key, owner, ttl);
+                const fencingToken2 = await adapter.acquire(key, owner, ttl);
+
+                expect(fencingToken2).toBe(fencingToken1);
+            });
+            test("Should return greater fencing token when key is released and acquired by different owner", async () => {
+                const key = "a";
+                const owner1 = "b";
+                const ttl = null;
+                const fencingToken1 = await adapter.acquire(key, owner1, ttl);
+                await adapter.release(key, owner1);
+
+                const owner2 = "c";
+                const fencingToken2 = await adapter.acquire(key, owner2, ttl);
+
+                expect(fencingToken2).toBeGreaterThan(fencingToken1 as number);
+            });
+            test("Should not consume fencing tokens when acquire fails", async () => {
+                const key = "a";
+                const owner1 = "b";
+                const ttl = null;
+                const fencingToken1 = await adapter.acquire(key, owner1, ttl);
+                await adapter.acquire(key, "c", ttl);
+                await adapter.acquire(key, "d", ttl);
+                await adapter.release(key, owner1);
+
+                const owner2 = "e";
+                const fencingToken2 = await adapter.acquire(key, owner2, ttl);
+
+                expect(fencingToken2).toBe((fencingToken1 as number) + 1);
+            });
+            test("Should return greater fencing token when key is force released and acquired by different owner", async () => {
+                const key = "a";
+                const owner1 = "b";
+                const ttl = null;
+                const fencingToken1 = await adapter.acquire(key, owner1, ttl);
+                await adapter.forceRelease(key);
+
+                const owner2 = "c";
+                const fencingToken2 = await adapter.acquire(key, owner2, ttl);
+
+                expect(fencingToken2).toBeGreaterThan(fencingToken1 as number);
+            });
+            test(
+                "Should return greater fencing token when key is expired and acquired by different owner",
+                {
+                    retry: 10,
+                },
+                async () => {
+                    const key = "a";
+                    const owner1 = "b";
+                    const ttl = TimeSpan.fromMilliseconds(50);
+                    const fencingToken1 = await adapter.acquire(
+                        key,
+                        owner1,
+                        ttl,
+                    );
+                    await delay(ttl);
+
+                    const owner2 = "c";
+                    const fencingToken2 = await adapter.acquire(
+                        key,
+                        owner2,
+                        ttl,
+                    );
+
+                    expect(fencingToken2).toBeGreaterThan(
+                        fencingToken1 as number,
+                    );
+                },
+            );
+            test("Should not share fencing tokens between keys", async () => {
+                const owner = "a";
+                const ttl = null;
+                await adapter.acquire("b", owner, ttl);
+                await adapter.release("b", owner);
+
+                const fencingToken = await adapter.acquire("c", owner, ttl);
+
+                expect(fencingToken).toBe(1);
+            });
+            test("Should increment the count when key is acquired by same owner and reentrant is true", async () => {
+                const key = "a";
+                const owner = "b";
+                const ttl = null;
+                await adapter.acquire(key, owner, ttl, { reentrant: true });
+                await adapter.acquire(key, owner, ttl, { reentrant: true });
+
+                const state = await adapter.getState(key);
+
+                expect(state?.count).toBe(2);
+            });
+            test("Should not increment the count when key is acquired by same owner and reentrant is false", async () => {
+                const key = "a";
+                const owner = "b";
+                const ttl = null;
+                await adapter.acquire(key, owner, ttl, { reentrant: false });
+                await adapter.acquire(key, owner, ttl, { reentrant: false });
+
+                const state = await adapter.getState(key);
+
+                expect(state?.count).toBe(1);
+            });
+            test("Should return the same fencing token when key is acquired by same owner and reentrant is true", async () => {
+                const key = "a";
+                const owner = "b";
+                const ttl = null;
+
+                const fencingToken1 = await adapter.acquire(key, owner, ttl, {
+                    reentrant: true,
+                });
+                const fencingToken2 = await adapter.acquire(key, owner, ttl, {
+                    reentrant: true,
+                });
+
+                expect(fencingToken2).toBe(fencingToken1);
+            });
+            test(
+                "Should reset the count and return greater fencing token when key is expired and acquired by same owner",
+                {
+                    retry: 10,
+                },
+                async () => {
+                    const key = "a";
+                    const owner = "b";
+                    const ttl = TimeSpan.fromMilliseconds(50);
+                    const fencingToken1 = await adapter.acquire(
+                        key,
+                        owner,
+                        ttl,
+                        { reentrant: true },
+                    );
+                    await adapter.acquire(key, owner, ttl, {
+                        reentrant: true,
+                    });
+                    await delay(ttl);
+
+                    const fencingToken2 = await adapter.acquire(
+                        key,
+                        owner,
+                        ttl,
+                        { reentrant: true },
+                    );
+                    const state = await adapter.getState(key);
+
+                    expect(fencingToken2).toBeGreaterThan(
+                        fencingToken1 as number,
+                    );
+                    expect(state?.count).toBe(1);
+                    expect(state?.expiration?.getTime()).toBeGreaterThan(
+                        Date.now(),
+                    );
+                },
+            );
+            test("Should return null when key is acquired by different owner and reentrant is true", async () => {
+                const key = "a";
+                const ttl = null;
+                await adapter.acquire(key, "b", ttl, { reentrant: true });
+
+                const result = await adapter.acquire(key, "c", ttl, {
+                    reentrant: true,
+                });
+
+                expect(result).toBeNull();
             });
         });
         describe("method: release", () => {
@@ -250,7 +420,7 @@ export function lockAdapterTestSuite(
                 await adapter.release(key, owner2);
                 const result = await adapter.acquire(key, owner2, ttl);
 
-                expect(result).toBe(false);
+                expect(result).toBeNull();
             });
             test("Should not be reacquirable when key is unexpired and released by different owner", async () => {
                 const key = "a";
@@ -262,7 +432,7 @@ export function lockAdapterTestSuite(
                 await adapter.release(key, owner2);
                 const result = await adapter.acquire(key, owner2, ttl);
 
-                expect(result).toBe(false);
+                expect(result).toBeNull();
             });
             test("Should be reacquirable when key is unexpireable and released by same owner", async () => {
                 const key = "a";
@@ -274,7 +444,7 @@ export function lockAdapterTestSuite(
                 const owner2 = "c";
                 const result = await adapter.acquire(key, owner2, ttl);
 
-                expect(result).toBe(true);
+                expect(result).toBeTypeOf("number");
             });
             test("Should be reacquirable when key is unexpired and released by same owner", async () => {
                 const key = "a";
@@ -286,7 +456,39 @@ export function lockAdapterTestSuite(
                 const owner2 = "c";
                 const result = await adapter.acquire(key, owner2, ttl);
 
+                expect(result).toBeTypeOf("number");
+            });
+            test("Should decrement the count when key is released by same owner and count is greater than 1", async () => {
+                const key = "a";
+                const owner = "b";
+                const ttl = null;
+                await adapter.acquire(key, owner, ttl, { reentrant: true });
+                await adapter.acquire(key, owner, ttl, { reentrant: true });
+
+                const result = await adapter.release(key, owner);
+
                 expect(result).toBe(true);
+                expect(await adapter.getState(key)).toEqual({
+                    owner,
+                    expiration: null,
+                    count: 1,
+                } satisfies ILockAdapterState);
+            });
+            test("Should not be reacquirable by different owner until released as many times as acquired", async () => {
+                const key = "a";
+                const owner1 = "b";
+                const ttl = TimeSpan.fromMinutes(5);
+                await adapter.acquire(key, owner1, ttl, { reentrant: true });
+                await adapter.acquire(key, owner1, ttl, { reentrant: true });
+
+                const owner2 = "c";
+                await adapter.release(key, owner1);
+                const result1 = await adapter.acquire(key, owner2, ttl);
+                await adapter.release(key, owner1);
+                const result2 = await adapter.acquire(key, owner2, ttl);
+
+                expect(result1).toBeNull();
+                expect(result2).toBeTypeOf("number");
             });
         });
         describe("method: forceRelease", () => {
@@ -347,7 +549,20 @@ export function lockAdapterTestSuite(
 
                 const owner2 = "c";
                 const result = await adapter.acquire(key, owner2, ttl);
-                expect(result).toBe(true);
+                expect(result).toBeTypeOf("number");
+            });
+            test("Should reset the count when key is force released", async () => {
+                const key = "a";
+                const owner = "b";
+                const ttl = null;
+                await adapter.acquire(key, owner, ttl, { reentrant: true });
+                await adapter.acquire(key, owner, ttl, { reentrant: true });
+                await adapter.forceRelease(key);
+
+                await adapter.acquire(key, owner, ttl, { reentrant: true });
+
+                const state = await adapter.getState(key);
+                expect(state?.count).toBe(1);
             });
         });
         describe("method: refresh", () => {
@@ -460,7 +675,7 @@ export function lockAdapterTestSuite(
                     const owner2 = "a";
                     const result = await adapter.acquire(key, owner2, ttl);
 
-                    expect(result).toBe(false);
+                    expect(result).toBeNull();
                 },
             );
             test(
@@ -480,13 +695,27 @@ export function lockAdapterTestSuite(
 
                     const owner2 = "c";
                     const result1 = await adapter.acquire(key, owner2, ttl);
-                    expect(result1).toBe(false);
+                    expect(result1).toBeNull();
 
                     await delay(newTtl.divide(2));
                     const result2 = await adapter.acquire(key, owner2, ttl);
-                    expect(result2).toBe(true);
+                    expect(result2).toBeTypeOf("number");
                 },
             );
+            test("Should update the expiration returned by getState when key is unexpired and refreshed by same owner", async () => {
+                const key = "a";
+                const owner = "b";
+                const ttl = TimeSpan.fromMilliseconds(50);
+                await adapter.acquire(key, owner, ttl);
+
+                const newTtl = TimeSpan.fromMinutes(1);
+                await adapter.refresh(key, owner, newTtl);
+                const state = await adapter.getState(key);
+
+                expect(state?.expiration?.getTime()).toBeGreaterThan(
+                    TimeSpan.fromSeconds(30).toEndDate().getTime(),
+                );
+            });
         });
         describe("method: getState", () => {
             test("Should return null when key doesnt exists", async () => {
@@ -548,6 +777,7 @@ export function lockAdapterTestSuite(
                 expect(state).toEqual({
                     owner,
                     expiration: ttl,
+                    count: 1,
                 } satisfies ILockAdapterState);
             });
             test("Should return ILockAdapterState when lock exists and is unexpired", async () => {
@@ -569,6 +799,7 @@ export function lockAdapterTestSuite(
                 expect(state).toEqual({
                     owner,
                     expiration,
+                    count: 1,
                 } satisfies ILockAdapterState);
             });
         });
@@ -2058,6 +2058,7 @@ export function lockProviderTestSuite(
                     expect(state).toEqual({
                         type: LOCK_STATE.ACQUIRED,
                         remainingTime: ttl,
+                        count: 1,
                     } satisfies ILockAcquiredState);
                 });
                 test("Should return ILockAcquiredState when key is unexpired", async () => {
@@ -2073,6 +2074,7 @@ export function lockProviderTestSuite(
                     expect(state).toEqual({
                         type: LOCK_STATE.ACQUIRED,
                         remainingTime: ttl,
+                        count: 1,
                     } satisfies ILockAcquiredState);
                 });
                 test("Should return ILockUnavailableState when key is acquired by different owner", async () => {
@@ -2094,6 +2096,477 @@ export function lockProviderTestSuite(
                     } satisfies ILockUnavailableState);
                 });
             });
+            describe("method: getFencingToken", () => {
+                test("Should return null when lock is not acquired", () => {
+                    const key = "a";
+                    const ttl = null;
+
+                    const lock = lockProvider.create(key, {
+                        ttl,
+                    });
+
+                    expect(lock.getFencingToken()).toBeNull();
+                });
+                test("Should return null when lock is acquired by different owner", async () => {
+                    const key = "a";
+                    const ttl = null;
+                    const lock1 = lockProvider.create(key, {
+                        ttl,
+                    });
+                    await lock1.acquire();
+
+                    const lock2 = lockProvider.create(key, {
+                        ttl,
+                    });
+                    await lock2.acquire();
+
+                    expect(lock2.getFencingToken()).toBeNull();
+                });
+                test("Should return number when lock is acquired", async () => {
+                    const key = "a";
+                    const ttl = null;
+                    const lock = lockProvider.create(key, {
+                        ttl,
+                    });
+
+                    await lock.acquire();
+
+                    expect(lock.getFencingToken()).toBeTypeOf("number");
+                });
+                test("Should return the fencing token keyed by the key when lock is acquired", async () => {
+                    const key = "a";
+                    const ttl = null;
+                    const lock = lockProvider.create(key, {
+                        ttl,
+                    });
+
+                    await lock.acquire();
+
+                    expect(lock.getFencingTokens()).toEqual({
+                        [key]: lock.getFencingToken(),
+                    });
+                });
+                test("Should return greater number when lock is released and acquired by different owner", async () => {
+                    const key = "a";
+                    const ttl = null;
+                    const lock1 = lockProvider.create(key, {
+                        ttl,
+                    });
+                    await lock1.acquire();
+                    await lock1.release();
+
+                    const lock2 = lockProvider.create(key, {
+                        ttl,
+                    });
+                    await lock2.acquire();
+
+                    expect(lock2.getFencingToken()).toBeGreaterThan(
+                        lock1.getFencingToken() as number,
+                    );
+                });
+                test("Should pass the fencing token to runOrFail callback", async () => {
+                    const key = "a";
+                    const ttl = null;
+                    const lock = lockProvider.create(key, {
+                        ttl,
+                    });
+
+                    const fencingToken = await lock.runOrFail(
+                        (_signal, fencingToken) => fencingToken,
+                    );
+
+                    expect(fencingToken).toBe(lock.getFencingToken());
+                });
+                test("Should pass the fencing token to runBlockingOrFail callback", async () => {
+                    const key = "a";
+                    const ttl = null;
+                    const lock = lockProvider.create(key, {
+                        ttl,
+                    });
+
+                    const fencingToken = await lock.runBlockingOrFail(
+                        (_signal, fencingToken) => fencingToken,
+                    );
+
+                    expect(fencingToken).toBe(lock.getFencingToken());
+                });
+            });
+            describe("setting: reentrant", () => {
+                test("Should return true when acquired multiple times by same lockId", async () => {
+                    const key = "a";
+                    const ttl = null;
+                    const lockId = "b";
+                    const lock1 = lockProvider.create(key, {
+                        ttl,
+                        lockId,
+                        reentrant: true,
+                    });
+                    const lock2 = lockProvider.create(key, {
+                        ttl,
+                        lockId,
+                        reentrant: true,
+                    });
+
+                    const result1 = await lock1.acquire();
+                    const result2 = await lock2.acquire();
+
+                    expect(result1).toBe(true);
+                    expect(result2).toBe(true);
+                    expect(await lock1.getState()).toEqual({
+                        type: LOCK_STATE.ACQUIRED,
+                        remainingTime: null,
+                        count: 2,
+                    } satisfies ILockAcquiredState);
+                });
+                test("Should not increment the count when reentrant is false", async () => {
+                    const key = "a";
+                    const ttl = null;
+                    const lock = lockProvider.create(key, {
+                        ttl,
+                        reentrant: false,
+                    });
+
+                    await lock.acquire();
+                    await lock.acquire();
+
+                    expect(await lock.getState()).toEqual({
+                        type: LOCK_STATE.ACQUIRED,
+                        remainingTime: null,
+                        count: 1,
+                    } satisfies ILockAcquiredState);
+                });
+                test("Should only be released when released as many times as acquired", async () => {
+                    const key = "a";
+                    const ttl = null;
+                    const lock1 = lockProvider.create(key, {
+                        ttl,
+                        reentrant: true,
+                    });
+                    await lock1.acquire();
+                    await lock1.acquire();
+                    const lock2 = lockProvider.create(key, {
+                        ttl,
+                    });
+
+                    await lock1.release();
+                    const result1 = await lock2.acquire();
+                    await lock1.release();
+                    const result2 = await lock2.acquire();
+
+                    expect(result1).toBe(false);
+                    expect(result2).toBe(true);
+                });
+                test("Should be released when nested runOrFail calls are completed", async () => {
+                    const key = "a";
+                    const ttl = null;
+                    const lock = lockProvider.create(key, {
+                        ttl,
+                        reentrant: true,
+                    });
+
+                    const result = await lock.runOrFail(async () => {
+                        return await lock.runOrFail(() => "c");
+                    });
+
+                    expect(result).toBe("c");
+                    expect(await lock.getState()).toEqual({
+                        type: LOCK_STATE.EXPIRED,
+                    } satisfies ILockExpiredState);
+                });
+            });
+            describe("method: createMany", () => {
+                test("Should throw TypeError when no keys are given", () => {
+                    expect(() => lockProvider.createMany([])).toThrow(
+                        TypeError,
+                    );
+                });
+                test("Should return the sorted keys joined by comma as key", () => {
+                    const lock = lockProvider.createMany(["b", "a", "b"]);
+
+                    expect(lock.key).toBe("a,b");
+                });
+                test("Should acquire all keys", async () => {
+                    const ttl = null;
+                    const lock = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+
+                    const result = await lock.acquire();
+
+                    expect(result).toBe(true);
+                    expect(await lock.getState()).toEqual({
+                        type: LOCK_STATE.ACQUIRED,
+                        remainingTime: null,
+                        count: 1,
+                    } satisfies ILockAcquiredState);
+                    expect(
+                        await lockProvider.create("a", { ttl }).acquire(),
+                    ).toBe(false);
+                    expect(
+                        await lockProvider.create("b", { ttl }).acquire(),
+                    ).toBe(false);
+                });
+                test("Should not acquire any key when one key is acquired by a different owner", async () => {
+                    const ttl = null;
+                    const lock1 = lockProvider.create("b", { ttl });
+                    await lock1.acquire();
+                    const lock2 = lockProvider.createMany(["a", "b", "c"], {
+                        ttl,
+                    });
+
+                    const result = await lock2.acquire();
+
+                    expect(result).toBe(false);
+                    expect(lock2.getFencingToken()).toBeNull();
+                    expect(
+                        await lockProvider.create("a", { ttl }).acquire(),
+                    ).toBe(true);
+                    expect(
+                        await lockProvider.create("c", { ttl }).acquire(),
+                    ).toBe(true);
+                });
+                test("Should only be acquired by one lock when the same keys are given in different order", async () => {
+                    const ttl = null;
+                    const lock1 = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+                    const lock2 = lockProvider.createMany(["b", "a"], {
+                        ttl,
+                    });
+
+                    const results = await Promise.all([
+                        lock1.acquire(),
+                        lock2.acquire(),
+                    ]);
+
+                    expect(results.filter((result) => result)).toHaveLength(1);
+                });
+                test("Should return the fencing token of each key", async () => {
+                    const ttl = null;
+                    const lock1 = lockProvider.create("b", { ttl });
+                    await lock1.acquire();
+                    await lock1.release();
+                    const lock2 = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+
+                    await lock2.acquire();
+
+                    const lock3 = lockProvider.create("b", { ttl });
+                    await lock2.release();
+                    await lock3.acquire();
+                    const fencingTokens = lock2.getFencingTokens();
+                    expect(Object.keys(fencingTokens ?? {})).toEqual([
+                        "a",
+                        "b",
+                    ]);
+                    expect(fencingTokens?.["b"]).toBeGreaterThan(
+                        lock1.getFencingToken() ?? 0,
+                    );
+                    expect(lock3.getFencingToken()).toBeGreaterThan(
+                        fencingTokens?.["b"] ?? 0,
+                    );
+                });
+                test("Should return null fencing token when the lock has multiple keys", async () => {
+                    const lock = lockProvider.createMany(["a", "b"], {
+                        ttl: null,
+                    });
+
+                    await lock.acquire();
+
+                    expect(lock.getFencingToken()).toBeNull();
+                });
+                test("Should return the fencing token when the lock has a single key", async () => {
+                    const lock = lockProvider.createMany(["a"], {
+                        ttl: null,
+                    });
+
+                    await lock.acquire();
+
+                    expect(lock.getFencingToken()).toBe(
+                        lock.getFencingTokens()?.["a"],
+                    );
+                });
+                test("Should return ILockUnavailableState when one key is acquired by a different owner", async () => {
+                    const ttl = null;
+                    const lock1 = lockProvider.create("b", { ttl });
+                    await lock1.acquire();
+                    const lock2 = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+
+                    expect(await lock2.getState()).toEqual({
+                        type: LOCK_STATE.UNAVAILABLE,
+                        owner: lock1.id,
+                    } satisfies ILockUnavailableState);
+                });
+                test("Should not release keys already held by the same lockId when one key is acquired by a different owner", async () => {
+                    const ttl = null;
+                    const lockId = "c";
+                    await lockProvider.create("a", { ttl, lockId }).acquire();
+                    await lockProvider.create("b", { ttl }).acquire();
+                    const lock = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                        lockId,
+                    });
+
+                    const result = await lock.acquire();
+
+                    expect(result).toBe(false);
+                    expect(
+                        await lockProvider
+                            .create("a", { ttl, lockId })
+                            .getState(),
+                    ).toEqual({
+                        type: LOCK_STATE.ACQUIRED,
+                        remainingTime: null,
+                        count: 1,
+                    } satisfies ILockAcquiredState);
+                });
+                test("Should release all keys", async () => {
+                    const ttl = null;
+                    const lock = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+                    await lock.acquire();
+
+                    const result = await lock.release();
+
+                    expect(result).toBe(true);
+                    expect(await lock.getState()).toEqual({
+                        type: LOCK_STATE.EXPIRED,
+                    } satisfies ILockExpiredState);
+                    expect(
+                        await lockProvider.create("a", { ttl }).acquire(),
+                    ).toBe(true);
+                    expect(
+                        await lockProvider.create("b", { ttl }).acquire(),
+                    ).toBe(true);
+                });
+                test("Should return false when releasing and one key is not owned by the same lockId", async () => {
+                    const ttl = null;
+                    const lock1 = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+                    await lock1.acquire();
+                    await lockProvider.create("b").forceRelease();
+                    const lock2 = lockProvider.create("b", { ttl });
+                    await lock2.acquire();
+
+                    const result = await lock1.release();
+
+                    expect(result).toBe(false);
+                    expect(await lock2.getState()).toEqual({
+                        type: LOCK_STATE.ACQUIRED,
+                        remainingTime: null,
+                        count: 1,
+                    } satisfies ILockAcquiredState);
+                });
+                test("Should not release any key when one key is not owned by the same lockId", async () => {
+                    const ttl = null;
+                    const lock1 = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+                    await lock1.acquire();
+                    await lockProvider.create("b").forceRelease();
+                    await lockProvider.create("b", { ttl }).acquire();
+
+                    await lock1.release();
+
+                    expect(
+                        await lockProvider.create("a", { ttl }).acquire(),
+                    ).toBe(false);
+                });
+                test("Should refresh all keys", async () => {
+                    const ttl = TimeSpan.fromMilliseconds(50);
+                    const lock = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+                    await lock.acquire();
+
+                    const newTtl = TimeSpan.fromMinutes(1);
+                    const result = await lock.refresh(newTtl);
+                    await delay(ttl);
+
+                    expect(result).toBe(true);
+                    expect(await lock.getState()).toEqual(
+                        expect.objectContaining({
+                            type: LOCK_STATE.ACQUIRED,
+                        }),
+                    );
+                    expect(
+                        await lockProvider.create("a", { ttl }).acquire(),
+                    ).toBe(false);
+                    expect(
+                        await lockProvider.create("b", { ttl }).acquire(),
+                    ).toBe(false);
+                });
+                test(
+                    "Should not refresh any key when one key is not owned by the same lockId",
+                    {
+                        retry: 10,
+                    },
+                    async () => {
+                        const ttl = TimeSpan.fromMilliseconds(50);
+                        const lock = lockProvider.createMany(["a", "b"], {
+                            ttl,
+                        });
+                        await lock.acquire();
+                        await lockProvider.create("b").forceRelease();
+                        await lockProvider.create("b", { ttl: null }).acquire();
+
+                        const result = await lock.refresh(
+                            TimeSpan.fromMinutes(1),
+                        );
+                        await delay(ttl);
+
+                        expect(result).toBe(false);
+                        expect(
+                            await lockProvider.create("a", { ttl }).acquire(),
+                        ).toBe(true);
+                    },
+                );
+                test("Should return false when refreshing and the keys are unexpireable", async () => {
+                    const ttl = null;
+                    const lock = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+                    await lock.acquire();
+
+                    const result = await lock.refresh(TimeSpan.fromMinutes(1));
+
+                    expect(result).toBe(false);
+                });
+                test("Should run the function and release all keys with runOrFail", async () => {
+                    const ttl = null;
+                    const lock = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+
+                    const fencingTokens = await lock.runOrFail(
+                        (_signal, _fencingToken, fencingTokens) =>
+                            fencingTokens,
+                    );
+
+                    expect(fencingTokens).toEqual(lock.getFencingTokens());
+                    expect(await lock.getState()).toEqual({
+                        type: LOCK_STATE.EXPIRED,
+                    } satisfies ILockExpiredState);
+                });
+                test("Should throw FailedAcquireLockError with runOrFail when one key is acquired by a different owner", async () => {
+                    const ttl = null;
+                    await lockProvider.create("b", { ttl }).acquire();
+                    const lock = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+
+                    const promise = lock.runOrFail(() => RETURN_VALUE);
+
+                    await expect(promise).rejects.toBeInstanceOf(
+                        FailedAcquireLockError,
+                    );
+                });
+            });
         });
         describe.skipIf(excludeEventTests)("Event tests:", () => {
             describe("method: acquire", () => {
@@ -3910,8 +4383,93 @@ export function lockProviderTestSuite(
                     );
                 });
             });
+            describe("method: createMany", () => {
+                test("Should dispatch AcquiredLockEvent once for all keys", async () => {
+                    const ttl = null;
+                    const lock = lockProvider.createMany(["a", "b"], {
+                        ttl,
+                    });
+                    const handlerFn = vi.fn((_event: AcquiredLockEvent) => {});
+                    await lockProvider.events.addListener(
+                        LOCK_EVENTS.ACQUIRED,
+                        handlerFn,
+                    );
+                    await lock.acquire();
+
+                    expect(handlerFn).toHaveBeenCalledTimes(1);
+                    expect(handlerFn).toHaveBeenCalledWith(
+                        expect.objectContaining({
+                            lock: expect.objectContaining({
+                                getState: expect.any(
+                                    Function,
+                                ) as ILockStateMethods["getState"],
+                                key: "a,b",
+                                id: lock.id,
+                                ttl: lock.ttl,
+                            } satisfies ILockStateMethods) as ILockStateMethods,
+                        } satisfies AcquiredLockEvent),
+                    );
+                });
+            });
         });
         describe.skipIf(excludeSerdeTests)("Serde tests:", () => {
+            test("Should release all keys when lock created with createMany is derserialized", async () => {
+                const ttl = null;
+                const lock = lockProvider.createMany(["a", "b"], {
+                    ttl,
+                });
+                await lock.acquire();
+
+                const deserializedLock = serde.deserialize<ILock>(
+                    serde.serialize(lock),
+                );
+                const result = await deserializedLock.release();
+
+                expect(result).toBe(true);
+                expect(deserializedLock.key).toBe(lock.key);
+                expect(deserializedLock.getFencingToken()).toBe(
+                    lock.getFencingToken(),
+                );
+                expect(await lock.getState()).toEqual({
+                    type: LOCK_STATE.EXPIRED,
+                } satisfies ILockExpiredState);
+            });
+            test("Should return the same fencing token when is derserialized", async () => {
+                const key = "a";
+                const ttl = null;
+                const lock = lockProvider.create(key, {
+                    ttl,
+                });
+                await lock.acquire();
+
+                const deserializedLock = serde.deserialize<ILock>(
+                    serde.serialize(lock),
+                );
+
+                expect(deserializedLock.getFencingToken()).toBe(
+                    lock.getFencingToken(),
+                );
+            });
+            test("Should keep the reentrant setting when is derserialized", async () => {
+                const key = "a";
+                const ttl = null;
+                const lock = lockProvider.create(key, {
+                    ttl,
+                    reentrant: true,
+                });
+                await lock.acquire();
+
+                const deserializedLock = serde.deserialize<ILock>(
+                    serde.serialize(lock),
+                );
+                await deserializedLock.acquire();
+
+                expect(await deserializedLock.getState()).toEqual({
+                    type: LOCK_STATE.ACQUIRED,
+                    remainingTime: null,
+                    count: 2,
+                } satisfies ILockAcquiredState);
+            });
             test("Should return ILockExpiredState when is derserialized and key doesnt exists", async () => {
                 const key = "a";
                 const ttl = TimeSpan.fromMilliseconds(50);
@@ -4022,6 +4580,7 @@ export function lockProviderTestSuite(
                 expect(state).toEqual({
                     type: LOCK_STATE.ACQUIRED,
                     remainingTime: ttl,
+                    count: 1,
                 } satisfies ILockAcquiredState);
             });
             test("Should return ILockAcquiredState when is derserialized and key is unexpired", async () => {
@@ -69,3 +69,30 @@ export type ISemaphoreAdapter = {
      */
     getState(key: string): Promise<ISemaphoreAdapterState | null>;
 };
+
+/**
+ * The `IFairSemaphoreAdapter` contract extends {@link ISemaphoreAdapter | `ISemaphoreAdapter`} with a waiting queue, allowing waiters to be granted slots in arrival order.
+ * The waiters of a key must be woken when a slot is released or when a waiter is removed from the waiting queue.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/semaphore/contracts"`
+ * @group Contracts
+ */
+export type IFairSemaphoreAdapter = ISemaphoreAdapter & {
+    /**
+     * The `enqueue` method adds `slotId` to the end of the waiting queue of the `key` if not already queued, otherwise only the expiration of the waiter is updated.
+     * Waiters that are not enqueued again within `ttl` must be removed from the waiting queue, ensuring crashed waiters never block the waiting queue.
+     *
+     * @returns Returns `true` if `slotId` is first in the waiting queue otherwise `false` is returned.
+     */
+    enqueue(key: string, slotId: string, ttl: TimeSpan): Promise<boolean>;
+
+    /**
+     * The `dequeue` method removes `slotId` from the waiting queue of the `key` and wakes the other waiters.
+     */
+    dequeue(key: string, slotId: string): Promise<void>;
+
+    /**
+     * The `wait` method waits until the waiters of the `key` are woken or `timeout` has elapsed.
+     */
+    wait(key: string, timeout: TimeSpan): Promise<void>;
+};
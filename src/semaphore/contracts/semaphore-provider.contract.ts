@@ -29,6 +29,13 @@ export type SemaphoreProviderCreateSettings = {
     ttl?: ITimeSpan | null;
 
     slotId?: string;
+
+    /**
+     * If true, the slot will be refreshed in the background while the callback of the `runOrFail` and `runBlockingOrFail` methods executes.
+     * Note the setting has no effect when the semaphore has no `ttl`.
+     * If not specified it defaults to the `defaultAutoRefresh` setting of the provider.
+     */
+    autoRefresh?: boolean;
 };
 
 /**
@@ -2,6 +2,8 @@
  * @module Semaphore
  */
 
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { type IFairSemaphoreAdapter } from "@/semaphore/contracts/semaphore-adapter.contract.js";
 import { type ISemaphoreState } from "@/semaphore/contracts/semaphore-state.contract.js";
 import {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -14,7 +16,7 @@ import {
 import { type ITask } from "@/task/contracts/_module.js";
 import { type ITimeSpan } from "@/time-span/contracts/_module.js";
 import {
-    type AsyncLazy,
+    type AbortableAsyncLazy,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     type Invokable,
 } from "@/utilities/_module.js";
@@ -51,6 +53,14 @@ export type ISemaphoreStateMethods = {
 export type SemaphoreAquireBlockingSettings = {
     time?: ITimeSpan;
     interval?: ITimeSpan;
+
+    /**
+     * If true, the slots are granted to the waiters in arrival order and the waiters are woken when a slot is released instead of retrying every `interval`.
+     * Note expired slots are still only detected every `interval`.
+     * Note the setting has no effect when the adapter does not implement {@link IFairSemaphoreAdapter | `IFairSemaphoreAdapter`}.
+     * @default false
+     */
+    fair?: boolean;
 };
 
 /**
@@ -61,16 +71,24 @@ export type SemaphoreAquireBlockingSettings = {
 export type ISemaphoreBase = {
     /**
      * The `runOrFail` method wraps an {@link Invokable | `Invokable`} or {@link ITask | `ITask`} with the `acquireOrFail` and `release` method.
+     * When auto refresh is enabled the slot is refreshed in the background while `asyncFn` executes,
+     * if the refresh fails the {@link AbortSignal | `AbortSignal`} passed to `asyncFn` is aborted and an error is thrown.
      * @throws {LimitReachedSemaphoreError} {@link LimitReachedSemaphoreError}
+     * @throws {FailedRefreshSemaphoreError} {@link FailedRefreshSemaphoreError}
      */
-    runOrFail<TValue = void>(asyncFn: AsyncLazy<TValue>): ITask<TValue>;
+    runOrFail<TValue = void>(
+        asyncFn: AbortableAsyncLazy<TValue>,
+    ): ITask<TValue>;
 
     /**
      * The `runBlockingOrFail` method wraps an {@link Invokable | `Invokable`} or {@link ITask | `ITask`} with the `acquireBlockingOrFail` and `release` method.
+     * When auto refresh is enabled the slot is refreshed in the background while `asyncFn` executes,
+     * if the refresh fails the {@link AbortSignal | `AbortSignal`} passed to `asyncFn` is aborted and an error is thrown.
      * @throws {LimitReachedSemaphoreError} {@link LimitReachedSemaphoreError}
+     * @throws {FailedRefreshSemaphoreError} {@link FailedRefreshSemaphoreError}
      */
     runBlockingOrFail<TValue = void>(
-        asyncFn: AsyncLazy<TValue>,
+        asyncFn: AbortableAsyncLazy<TValue>,
         settings?: SemaphoreAquireBlockingSettings,
     ): ITask<TValue>;
 
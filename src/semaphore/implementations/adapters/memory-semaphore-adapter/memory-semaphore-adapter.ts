@@ -3,7 +3,7 @@
  */
 
 import {
-    type ISemaphoreAdapter,
+    type IFairSemaphoreAdapter,
     type ISemaphoreAdapterState,
     type SemaphoreAcquireSettings,
 } from "@/semaphore/contracts/_module.js";
@@ -34,7 +34,7 @@ export type MemorySemaphoreAdapterData = {
  * @group Adapters
  */
 export class MemorySemaphoreAdapter
-    implements ISemaphoreAdapter, IDeinitizable
+    implements IFairSemaphoreAdapter, IDeinitizable
 {
     /**
      *  @example
@@ -56,6 +56,38 @@ export class MemorySemaphoreAdapter
         private readonly map = new Map<string, MemorySemaphoreAdapterData>(),
     ) {}
 
+    /**
+     * The waiting queues keep the arrival order of the waiters because a `Map` is iterated in insertion order.
+     */
+    private readonly waitQueues = new Map<string, Map<string, Date>>();
+
+    private readonly waitListeners = new Map<string, Set<() => void>>();
+
+    /**
+     * Returns true when the waiting queue of the `key` is empty or `slotId` is first in it, ensuring callers that are not queued can not jump ahead of fair waiters.
+     */
+    private isFirstWaiter(key: string, slotId: string): boolean {
+        const waitQueue = this.waitQueues.get(key);
+        if (waitQueue === undefined) {
+            return true;
+        }
+        const now = new Date();
+        for (const [waiterId, expiration] of waitQueue) {
+            if (expiration > now) {
+                return waiterId === slotId;
+            }
+            waitQueue.delete(waiterId);
+        }
+        this.waitQueues.delete(key);
+        return true;
+    }
+
+    private wakeWaiters(key: string): void {
+        for (const listener of this.waitListeners.get(key) ?? []) {
+            listener();
+        }
+    }
+
     /**
      * Removes all in-memory semaphore data.
      */
@@ -70,12 +102,20 @@ export class MemorySemaphoreAdapter
             }
             this.map.delete(key);
         }
+        this.waitQueues.clear();
+        for (const key of this.waitListeners.keys()) {
+            this.wakeWaiters(key);
+        }
     }
 
     // eslint-disable-next-line @typescript-eslint/require-await
     async acquire(settings: SemaphoreAcquireSettings): Promise<boolean> {
         const { key, slotId, limit, ttl } = settings;
         let semaphore = this.map.get(key);
+        const hasSlot = semaphore?.slots.has(slotId) ?? false;
+        if (!hasSlot && !this.isFirstWaiter(key, slotId)) {
+            return false;
+        }
 
         if (semaphore === undefined) {
             semaphore = {
@@ -101,6 +141,7 @@ export class MemorySemaphoreAdapter
         } else {
             const timeoutId = setTimeout(() => {
                 semaphore.slots.delete(slotId);
+                this.wakeWaiters(key);
             }, ttl.toMilliseconds());
 
             semaphore.slots.set(slotId, {
@@ -136,6 +177,7 @@ export class MemorySemaphoreAdapter
         if (semaphore.slots.size === 0) {
             this.map.delete(key);
         }
+        this.wakeWaiters(key);
 
         return true;
     }
@@ -152,6 +194,7 @@ export class MemorySemaphoreAdapter
             semaphore.slots.delete(slotId);
         }
         this.map.delete(key);
+        this.wakeWaiters(key);
         return hasSlots;
     }
 
@@ -177,6 +220,7 @@ export class MemorySemaphoreAdapter
         const timeoutId = setTimeout(() => {
             semaphore.slots.delete(slotId);
             this.map.set(key, semaphore);
+            this.wakeWaiters(key);
         }, ttl.toMilliseconds());
 
         semaphore.slots.set(slotId, {
@@ -206,4 +250,54 @@ export class MemorySemaphoreAdapter
             ),
         };
     }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async enqueue(
+        key: string,
+        slotId: string,
+        ttl: TimeSpan,
+    ): Promise<boolean> {
+        const waitQueue = this.waitQueues.get(key) ?? new Map<string, Date>();
+        const now = new Date();
+        for (const [waiterId, expiration] of waitQueue) {
+            if (expiration <= now) {
+                waitQueue.delete(waiterId);
+            }
+        }
+        waitQueue.set(slotId, ttl.toEndDate());
+        this.waitQueues.set(key, waitQueue);
+
+        const [firstWaiterId] = waitQueue.keys();
+        return firstWaiterId === slotId;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async dequeue(key: string, slotId: string): Promise<void> {
+        const waitQueue = this.waitQueues.get(key);
+        if (waitQueue === undefined) {
+            return;
+        }
+        waitQueue.delete(slotId);
+        if (waitQueue.size === 0) {
+            this.waitQueues.delete(key);
+        }
+        this.wakeWaiters(key);
+    }
+
+    async wait(key: string, timeout: TimeSpan): Promise<void> {
+        const listeners = this.waitListeners.get(key) ?? new Set<() => void>();
+        this.waitListeners.set(key, listeners);
+        await new Promise<void>((resolve) => {
+            const listener = (): void => {
+                clearTimeout(timeoutId);
+                listeners.delete(listener);
+                if (listeners.size === 0) {
+                    this.waitListeners.delete(key);
+                }
+                resolve();
+            };
+            const timeoutId = setTimeout(listener, timeout.toMilliseconds());
+            listeners.add(listener);
+        });
+    }
 }
@@ -5,11 +5,12 @@
 import { type Redis, type Result } from "ioredis";
 
 import {
-    type ISemaphoreAdapter,
+    type IFairSemaphoreAdapter,
     type ISemaphoreAdapterState,
     type SemaphoreAcquireSettings,
 } from "@/semaphore/contracts/_module.js";
 import { type TimeSpan } from "@/time-span/implementations/_module.js";
+import { type IDeinitizable } from "@/utilities/_module.js";
 
 /**
  * @internal
@@ -23,21 +24,32 @@ declare module "ioredis" {
     interface RedisCommander<Context> {
         daiso_semaphore_acquire(
             key: string,
+            waitQueueKey: string,
+            waitQueueExpirationKey: string,
             slotId: string,
             limit: number,
             expiration: number | null,
             now: number,
         ): Result<1 | 0, Context>;
 
+        /**
+         *
+         * @param key
+         * @param slotId
+         * @param now As unix timestamp in miliseconds
+         * @param waitChannel The channel the waiters are woken through when the slot is released.
+         */
         daiso_semaphore_release(
             key: string,
             slotId: string,
             now: number,
+            waitChannel: string,
         ): Result<1 | 0, Context>;
 
         daiso_semaphore_force_release_all(
             key: string,
             now: number,
+            waitChannel: string,
         ): Result<1 | 0, Context>;
 
         daiso_semaphore_refresh(
@@ -54,6 +66,30 @@ declare module "ioredis" {
             key: string,
             now: number,
         ): Result<string, Context>;
+
+        /**
+         *
+         * @param waitQueueKey
+         * @param waitQueueExpirationKey
+         * @param slotId
+         * @param expiration As unix timestamp in miliseconds
+         * @param now As unix timestamp in miliseconds
+         * @returns 1 if the waiter is first in the waiting queue otherwise 0.
+         */
+        daiso_semaphore_enqueue(
+            waitQueueKey: string,
+            waitQueueExpirationKey: string,
+            slotId: string,
+            expiration: number,
+            now: number,
+        ): Result<1 | 0, Context>;
+
+        daiso_semaphore_dequeue(
+            waitQueueKey: string,
+            waitQueueExpirationKey: string,
+            slotId: string,
+            waitChannel: string,
+        ): Result<1, Context>;
     }
 }
 
@@ -67,15 +103,52 @@ declare module "ioredis" {
  * IMPORT_PATH: `"@daiso-tech/core/semaphore/redis-semaphore-adapter"`
  * @group Adapters
  */
-export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
+export class RedisSemaphoreAdapter
+    implements IFairSemaphoreAdapter, IDeinitizable
+{
+    /**
+     * The listener client is created on the first wait and shared by all waits because a client subscribed to a channel can not execute other commands.
+     */
+    private listenerClient: Redis | null = null;
+
+    private readonly waitListeners = new Map<string, Set<() => void>>();
+
     constructor(private readonly database: Redis) {
         this.initAquireCommand();
         this.initReleaseCommand();
         this.initRefreshCommand();
         this.initForceReleaseAllCommand();
         this.initGetStateCommand();
+        this.initEnqueueCommand();
+        this.initDequeueCommand();
     }
 
+    private static getWaitQueueKey(key: string): string {
+        return `${key}__wait_queue`;
+    }
+
+    private static getWaitQueueExpirationKey(key: string): string {
+        return `${key}__wait_queue_expiration`;
+    }
+
+    private static getWaitChannel(key: string): string {
+        return `${key}__wait`;
+    }
+
+    private getListenerClient(): Redis {
+        if (this.listenerClient === null) {
+            this.listenerClient = this.database.duplicate();
+            this.listenerClient.on("message", this.redisListener);
+        }
+        return this.listenerClient;
+    }
+
+    private readonly redisListener = (channel: string): void => {
+        for (const listener of this.waitListeners.get(channel) ?? []) {
+            listener();
+        }
+    };
+
     private static getLimitKey(keyVar: string): string {
         return `
             (function(key)
@@ -123,6 +196,28 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
         `;
     }
 
+    /**
+     * Removes the expired waiters and returns true when the waiting queue is empty or the slot is first in it, ensuring callers that are not queued can not jump ahead of fair waiters.
+     */
+    private static isFirstWaiter(
+        waitQueueKeyVar: string,
+        waitQueueExpirationKeyVar: string,
+        slotIdVar: string,
+        nowVar: string,
+    ): string {
+        return `
+            (function(waitQueueKey, waitQueueExpirationKey, slotId, now)
+                local expiredWaiterIds = redis.call("zrangebyscore", waitQueueExpirationKey, "-inf", now);
+                for _, expiredWaiterId in ipairs(expiredWaiterIds) do
+                    redis.call("lrem", waitQueueKey, 0, expiredWaiterId);
+                    redis.call("zrem", waitQueueExpirationKey, expiredWaiterId);
+                end
+                local firstWaiterId = redis.call("lindex", waitQueueKey, 0);
+                return firstWaiterId == false or firstWaiterId == slotId;
+            end)(${waitQueueKeyVar}, ${waitQueueExpirationKeyVar}, ${slotIdVar}, ${nowVar});
+        `;
+    }
+
     private static addSlot(slotIdVar: string, expirationVar: string): string {
         return `
             (function(slotId, expiration)
@@ -181,9 +276,11 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
         }
 
         this.database.defineCommand("daiso_semaphore_acquire", {
-            numberOfKeys: 1,
+            numberOfKeys: 3,
             lua: `
                 local key = KEYS[1];
+                local waitQueueKey = KEYS[2];
+                local waitQueueExpirationKey = KEYS[3];
                 local slotId = ARGV[1];
                 local limit = tonumber(ARGV[2]);
 
@@ -208,6 +305,11 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
                     return 1;
                 end
 
+                local isFirstWaiter = ${RedisSemaphoreAdapter.isFirstWaiter("waitQueueKey", "waitQueueExpirationKey", "slotId", "now")}
+                if not isFirstWaiter then
+                    return 0;
+                end
+
                 ${RedisSemaphoreAdapter.addSlot("slotId", "expiration")}
 
                 ${RedisSemaphoreAdapter.updateKeyExpiration("key", "limitKey")}
@@ -232,6 +334,8 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
                 -- Current time as unix timestamp in ms
                 local now = tonumber(ARGV[2]);
 
+                local waitChannel = ARGV[3];
+
                 ${RedisSemaphoreAdapter.removeExpiredSlots("key", "now")}
 
                 -- Removes the given slot
@@ -242,6 +346,10 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
 
                 ${RedisSemaphoreAdapter.updateKeyExpiration("key", "limitKey")}
 
+                if hasRemoved then
+                    redis.call("publish", waitChannel, "");
+                end
+
                 return hasRemoved;
             `,
         });
@@ -263,6 +371,8 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
                 -- current time as unix timestamp in ms
                 local now = ARGV[1];
 
+                local waitChannel = ARGV[2];
+
                 -- The key where the slot limit will be stored
                 local limitKey = ${RedisSemaphoreAdapter.getLimitKey("key")}
             
@@ -271,6 +381,7 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
                 local slotCount = redis.call("zcard", key);
                 redis.call("del", key);
                 redis.call("del", limitKey);
+                redis.call("publish", waitChannel, "");
                 
                 local hasSlots = slotCount > 0
                 if hasSlots then
@@ -386,10 +497,76 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
         });
     }
 
+    private initEnqueueCommand(): void {
+        if (typeof this.database.daiso_semaphore_enqueue === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_semaphore_enqueue", {
+            numberOfKeys: 2,
+            lua: `
+                local waitQueueKey = KEYS[1];
+                local waitQueueExpirationKey = KEYS[2];
+                local slotId = ARGV[1];
+
+                -- Expiration time as unix timestamp in ms
+                local expiration = tonumber(ARGV[2]);
+
+                -- Current time as unix timestamp in ms
+                local now = tonumber(ARGV[3]);
+
+                local expiredWaiterIds = redis.call("zrangebyscore", waitQueueExpirationKey, "-inf", now);
+                for _, expiredWaiterId in ipairs(expiredWaiterIds) do
+                    redis.call("lrem", waitQueueKey, 0, expiredWaiterId);
+                    redis.call("zrem", waitQueueExpirationKey, expiredWaiterId);
+                end
+
+                if redis.call("zscore", waitQueueExpirationKey, slotId) == false then
+                    redis.call("rpush", waitQueueKey, slotId);
+                end
+                redis.call("zadd", waitQueueExpirationKey, expiration, slotId);
+
+                -- The waiting queue is removed when all waiters are expired.
+                local lastExpiration = redis.call("zrange", waitQueueExpirationKey, -1, -1, "withscores")[2];
+                redis.call("pexpireat", waitQueueKey, lastExpiration);
+                redis.call("pexpireat", waitQueueExpirationKey, lastExpiration);
+
+                if redis.call("lindex", waitQueueKey, 0) == slotId then
+                    return 1;
+                end
+                return 0;
+            `,
+        });
+    }
+
+    private initDequeueCommand(): void {
+        if (typeof this.database.daiso_semaphore_dequeue === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_semaphore_dequeue", {
+            numberOfKeys: 2,
+            lua: `
+                local waitQueueKey = KEYS[1];
+                local waitQueueExpirationKey = KEYS[2];
+                local slotId = ARGV[1];
+                local waitChannel = ARGV[2];
+
+                redis.call("lrem", waitQueueKey, 0, slotId);
+                redis.call("zrem", waitQueueExpirationKey, slotId);
+                redis.call("publish", waitChannel, "");
+
+                return 1;
+            `,
+        });
+    }
+
     async acquire(settings: SemaphoreAcquireSettings): Promise<boolean> {
         const { key, slotId, limit, ttl } = settings;
         const result = await this.database.daiso_semaphore_acquire(
             key,
+            RedisSemaphoreAdapter.getWaitQueueKey(key),
+            RedisSemaphoreAdapter.getWaitQueueExpirationKey(key),
             slotId,
             limit,
             ttl?.toEndDate().getTime() ?? null,
@@ -403,6 +580,7 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
             key,
             slotId,
             Date.now(),
+            RedisSemaphoreAdapter.getWaitChannel(key),
         );
         return result === 1;
     }
@@ -412,6 +590,7 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
             await this.database.daiso_semaphore_force_release_all(
                 key,
                 Date.now(),
+                RedisSemaphoreAdapter.getWaitChannel(key),
             );
         return hasDeleted === 1;
     }
@@ -449,4 +628,78 @@ export class RedisSemaphoreAdapter implements ISemaphoreAdapter {
             ),
         };
     }
+
+    async enqueue(
+        key: string,
+        slotId: string,
+        ttl: TimeSpan,
+    ): Promise<boolean> {
+        const result = await this.database.daiso_semaphore_enqueue(
+            RedisSemaphoreAdapter.getWaitQueueKey(key),
+            RedisSemaphoreAdapter.getWaitQueueExpirationKey(key),
+            slotId,
+            ttl.toEndDate().getTime(),
+            Date.now(),
+        );
+        return result === 1;
+    }
+
+    async dequeue(key: string, slotId: string): Promise<void> {
+        await this.database.daiso_semaphore_dequeue(
+            RedisSemaphoreAdapter.getWaitQueueKey(key),
+            RedisSemaphoreAdapter.getWaitQueueExpirationKey(key),
+            slotId,
+            RedisSemaphoreAdapter.getWaitChannel(key),
+        );
+    }
+
+    async wait(key: string, timeout: TimeSpan): Promise<void> {
+        const channel = RedisSemaphoreAdapter.getWaitChannel(key);
+        const listenerClient = this.getListenerClient();
+
+        const listeners =
+            this.waitListeners.get(channel) ?? new Set<() => void>();
+        const isFirstListener = listeners.size === 0;
+        this.waitListeners.set(channel, listeners);
+        const promise = new Promise<void>((resolve) => {
+            const listener = (): void => {
+                clearTimeout(timeoutId);
+                listeners.delete(listener);
+                if (listeners.size === 0) {
+                    this.waitListeners.delete(channel);
+                }
+                resolve();
+            };
+            const timeoutId = setTimeout(listener, timeout.toMilliseconds());
+            listeners.add(listener);
+        });
+
+        try {
+            if (isFirstListener) {
+                await listenerClient.subscribe(channel);
+            }
+            await promise;
+        } finally {
+            if (
+                !this.waitListeners.has(channel) &&
+                this.listenerClient === listenerClient
+            ) {
+                await listenerClient.unsubscribe(channel);
+            }
+        }
+    }
+
+    /**
+     * Wakes up all waiters and closes the listener client used for waiting.
+     */
+    async deInit(): Promise<void> {
+        const listenerClient = this.listenerClient;
+        this.listenerClient = null;
+        for (const listeners of [...this.waitListeners.values()]) {
+            for (const listener of [...listeners]) {
+                listener();
+            }
+        }
+        await listenerClient?.quit();
+    }
 }
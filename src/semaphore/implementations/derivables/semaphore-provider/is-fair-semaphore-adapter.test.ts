@@ -0,0 +1,60 @@
+import { describe, expect, test } from "vitest";
+
+import {
+    type IFairSemaphoreAdapter,
+    type ISemaphoreAdapter,
+    type ISemaphoreAdapterState,
+    type SemaphoreAcquireSettings,
+} from "@/semaphore/contracts/_module.js";
+import { isFairSemaphoreAdapter } from "@/semaphore/implementations/derivables/semaphore-provider/is-fair-semaphore-adapter.js";
+import { type TimeSpan } from "@/time-span/implementations/_module.js";
+
+describe("function: isFairSemaphoreAdapter", () => {
+    const adapter: ISemaphoreAdapter = {
+        acquire: function (
+            _settings: SemaphoreAcquireSettings,
+        ): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        release: function (_key: string, _slotId: string): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        forceReleaseAll: function (_key: string): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        refresh: function (
+            _key: string,
+            _slotId: string,
+            _ttl: TimeSpan,
+        ): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        getState: function (
+            _key: string,
+        ): Promise<ISemaphoreAdapterState | null> {
+            throw new Error("Function not implemented.");
+        },
+    };
+    test("Should return true when given IFairSemaphoreAdapter", () => {
+        const fairAdapter: IFairSemaphoreAdapter = {
+            ...adapter,
+            enqueue: function (
+                _key: string,
+                _slotId: string,
+                _ttl: TimeSpan,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+            dequeue: function (_key: string, _slotId: string): Promise<void> {
+                throw new Error("Function not implemented.");
+            },
+            wait: function (_key: string, _timeout: TimeSpan): Promise<void> {
+                throw new Error("Function not implemented.");
+            },
+        };
+        expect(isFairSemaphoreAdapter(fairAdapter)).toBe(true);
+    });
+    test("Should return false when given ISemaphoreAdapter", () => {
+        expect(isFairSemaphoreAdapter(adapter)).toBe(false);
+    });
+});
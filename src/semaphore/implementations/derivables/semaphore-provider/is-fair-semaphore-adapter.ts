@@ -0,0 +1,27 @@
+/**
+ * @module Semaphore
+ */
+import {
+    type IFairSemaphoreAdapter,
+    type ISemaphoreAdapter,
+} from "@/semaphore/contracts/_module.js";
+
+/**
+ * @internal
+ */
+export function isFairSemaphoreAdapter(
+    adapter: ISemaphoreAdapter,
+): adapter is IFairSemaphoreAdapter {
+    const adapter_ = adapter as Partial<
+        Record<string, (...args_: Array<unknown>) => unknown>
+    >;
+
+    return (
+        typeof adapter_["enqueue"] === "function" &&
+        adapter_["enqueue"].length === 3 &&
+        typeof adapter_["dequeue"] === "function" &&
+        adapter_["dequeue"].length === 2 &&
+        typeof adapter_["wait"] === "function" &&
+        adapter_["wait"].length === 2
+    );
+}
@@ -1,11 +1,15 @@
 import Sqlite from "better-sqlite3";
 import { Kysely, SqliteDialect } from "kysely";
-import { beforeEach, describe, expect, test } from "vitest";
+import { beforeEach, describe, expect, test, vi } from "vitest";
 
 import { MemoryEventBusAdapter } from "@/event-bus/implementations/adapters/_module.js";
 import { EventBus } from "@/event-bus/implementations/derivables/_module.js";
 import { Namespace } from "@/namespace/implementations/_module.js";
-import { type ISemaphore } from "@/semaphore/contracts/_module.js";
+import {
+    FailedRefreshSemaphoreError,
+    type ISemaphore,
+    SEMAPHORE_EVENTS,
+} from "@/semaphore/contracts/_module.js";
 import {
     MemorySemaphoreAdapter,
     KyselySemaphoreAdapter,
@@ -14,6 +18,8 @@ import { SemaphoreProvider } from "@/semaphore/implementations/derivables/_modul
 import { semaphoreProviderTestSuite } from "@/semaphore/implementations/test-utilities/_module.js";
 import { SuperJsonSerdeAdapter } from "@/serde/implementations/adapters/_module.js";
 import { Serde } from "@/serde/implementations/derivables/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
 
 describe("class: SemaphoreProvider", () => {
     semaphoreProviderTestSuite({
@@ -160,6 +166,201 @@ describe("class: SemaphoreProvider", () => {
             );
             const result = await deserializeSemaphore2.acquire();
 
+            expect(result).toBe(true);
+        });
+    });
+    describe("Auto refresh tests:", () => {
+        test("Should throw TypeError when autoRefreshRatio is not between 0 and 1", () => {
+            for (const autoRefreshRatio of [0, 1, -0.5, 1.5, Number.NaN]) {
+                expect(
+                    () =>
+                        new SemaphoreProvider({
+                            adapter: new MemorySemaphoreAdapter(),
+                            autoRefreshRatio,
+                        }),
+                ).toThrow(TypeError);
+            }
+        });
+        test("Should keep the slot acquired past its ttl while the callback executes", async () => {
+            const semaphoreProvider = new SemaphoreProvider({
+                adapter: new MemorySemaphoreAdapter(),
+                defaultAutoRefresh: true,
+            });
+            const ttl = TimeSpan.fromMilliseconds(100);
+            const semaphore1 = semaphoreProvider.create("a", { ttl, limit: 1 });
+            const semaphore2 = semaphoreProvider.create("a", { ttl, limit: 1 });
+
+            const result = await semaphore1.runOrFail(async () => {
+                await Task.delay(TimeSpan.fromMilliseconds(250));
+                return await semaphore2.acquire();
+            });
+
+            expect(result).toBe(false);
+        });
+        test("Should abort the signal and throw FailedRefreshSemaphoreError when the refresh fails", async () => {
+            const adapter = new MemorySemaphoreAdapter();
+            vi.spyOn(adapter, "refresh").mockResolvedValue(false);
+            const semaphoreProvider = new SemaphoreProvider({
+                adapter,
+                defaultAutoRefresh: true,
+            });
+            const semaphore = semaphoreProvider.create("a", {
+                ttl: TimeSpan.fromMilliseconds(100),
+                limit: 1,
+            });
+            let signal: AbortSignal | undefined;
+
+            const promise = semaphore.runOrFail(async (signal_) => {
+                signal = signal_;
+                await Task.delay(TimeSpan.fromMilliseconds(250));
+            });
+
+            await expect(promise).rejects.toBeInstanceOf(
+                FailedRefreshSemaphoreError,
+            );
+            expect(signal?.aborted).toBe(true);
+        });
+        test("Should dispatch FailedRefreshSemaphoreEvent when the refresh fails", async () => {
+            const adapter = new MemorySemaphoreAdapter();
+            vi.spyOn(adapter, "refresh").mockResolvedValue(false);
+            const semaphoreProvider = new SemaphoreProvider({
+                adapter,
+                defaultAutoRefresh: true,
+                eventBus: new EventBus({
+                    adapter: new MemoryEventBusAdapter(),
+                }),
+            });
+            const semaphore = semaphoreProvider.create("a", {
+                ttl: TimeSpan.fromMilliseconds(100),
+                limit: 1,
+            });
+            const handlerFn = vi.fn(() => {});
+            await semaphoreProvider.events.addListener(
+                SEMAPHORE_EVENTS.FAILED_REFRESH,
+                handlerFn,
+            );
+
+            await expect(
+                semaphore.runOrFail(async () => {
+                    await Task.delay(TimeSpan.fromMilliseconds(250));
+                }),
+            ).rejects.toBeInstanceOf(FailedRefreshSemaphoreError);
+
+            expect(handlerFn).toHaveBeenCalledOnce();
+        });
+    });
+    describe("Fair blocking tests:", () => {
+        test("Should acquire the slots in arrival order", async () => {
+            const semaphoreProvider = new SemaphoreProvider({
+                adapter: new MemorySemaphoreAdapter(),
+            });
+            const semaphore = semaphoreProvider.create("a", { limit: 1 });
+            await semaphore.acquire();
+
+            const order: Array<string> = [];
+            const promises: Array<Promise<void>> = [];
+            for (const name of ["b", "c", "d"]) {
+                const waiter = semaphoreProvider.create("a", { limit: 1 });
+                promises.push(
+                    (async () => {
+                        await waiter.acquireBlockingOrFail({
+                            fair: true,
+                            time: TimeSpan.fromSeconds(5),
+                            interval: TimeSpan.fromSeconds(1),
+                        });
+                        order.push(name);
+                        await Task.delay(TimeSpan.fromMilliseconds(10));
+                        await waiter.release();
+                    })(),
+                );
+                await Task.delay(TimeSpan.fromMilliseconds(10));
+            }
+            await semaphore.release();
+            await Promise.all(promises);
+
+            expect(order).toEqual(["b", "c", "d"]);
+        });
+        test("Should not let a non-fair acquire jump ahead of fair waiters", async () => {
+            const semaphoreProvider = new SemaphoreProvider({
+                adapter: new MemorySemaphoreAdapter(),
+            });
+            const semaphore1 = semaphoreProvider.create("a", { limit: 1 });
+            await semaphore1.acquire();
+            const semaphore2 = semaphoreProvider.create("a", { limit: 1 });
+            const semaphore3 = semaphoreProvider.create("a", { limit: 1 });
+
+            const promise = (async () => {
+                return await semaphore2.acquireBlocking({
+                    fair: true,
+                    time: TimeSpan.fromSeconds(5),
+                    interval: TimeSpan.fromSeconds(1),
+                });
+            })();
+            await Task.delay(TimeSpan.fromMilliseconds(50));
+            await semaphore1.release();
+            const result = await semaphore3.acquire();
+
+            expect(result).toBe(false);
+            expect(await promise).toBe(true);
+        });
+        test("Should be woken when a slot is released instead of waiting the interval", async () => {
+            const semaphoreProvider = new SemaphoreProvider({
+                adapter: new MemorySemaphoreAdapter(),
+            });
+            const semaphore1 = semaphoreProvider.create("a", { limit: 1 });
+            await semaphore1.acquire();
+            const semaphore2 = semaphoreProvider.create("a", { limit: 1 });
+
+            const start = Date.now();
+            const promise = semaphore2.acquireBlocking({
+                fair: true,
+                time: TimeSpan.fromSeconds(10),
+                interval: TimeSpan.fromSeconds(5),
+            });
+            await Task.delay(TimeSpan.fromMilliseconds(50));
+            await semaphore1.release();
+
+            expect(await promise).toBe(true);
+            expect(Date.now() - start).toBeLessThan(1000);
+        });
+        test("Should remove the waiter from the waiting queue when time has elapsed", async () => {
+            const semaphoreProvider = new SemaphoreProvider({
+                adapter: new MemorySemaphoreAdapter(),
+            });
+            const semaphore1 = semaphoreProvider.create("a", { limit: 1 });
+            await semaphore1.acquire();
+            const semaphore2 = semaphoreProvider.create("a", { limit: 1 });
+            const semaphore3 = semaphoreProvider.create("a", { limit: 1 });
+
+            const result1 = await semaphore2.acquireBlocking({
+                fair: true,
+                time: TimeSpan.fromMilliseconds(50),
+                interval: TimeSpan.fromMilliseconds(10),
+            });
+            await semaphore1.release();
+            const result2 = await semaphore3.acquireBlocking({
+                fair: true,
+                time: TimeSpan.fromMilliseconds(50),
+                interval: TimeSpan.fromMilliseconds(10),
+            });
+
+            expect(result1).toBe(false);
+            expect(result2).toBe(true);
+        });
+        test("Should not block the waiting queue when a waiter is not enqueued again within its ttl", async () => {
+            const adapter = new MemorySemaphoreAdapter();
+            const semaphoreProvider = new SemaphoreProvider({
+                adapter,
+            });
+            await adapter.enqueue("a", "b", TimeSpan.fromMilliseconds(20));
+            const semaphore = semaphoreProvider.create("a", { limit: 1 });
+
+            const result = await semaphore.acquireBlocking({
+                fair: true,
+                time: TimeSpan.fromMilliseconds(200),
+                interval: TimeSpan.fromMilliseconds(10),
+            });
+
             expect(result).toBe(true);
         });
     });
@@ -31,6 +31,7 @@ import {
     callInvokable,
     CORE,
     isPositiveNbr,
+    isRatio,
     resolveOneOrMore,
     type Invokable,
     type OneOrMore,
@@ -133,6 +134,20 @@ export type SemaphoreProviderSettingsBase = {
      * ```
      */
     defaultRefreshTime?: ITimeSpan;
+
+    /**
+     * If true, the {@link ISemaphore | `ISemaphore`} `runOrFail` and `runBlockingOrFail` methods will refresh the slot with its `ttl` in the background while the callback executes.
+     * When a refresh fails the {@link AbortSignal | `AbortSignal`} passed to the callback is aborted and the {@link SEMAPHORE_EVENTS.FAILED_REFRESH | `SEMAPHORE_EVENTS.FAILED_REFRESH`} event is dispatched.
+     * @default false
+     */
+    defaultAutoRefresh?: boolean;
+
+    /**
+     * The fraction of the semaphore `ttl` that elapses between each background refresh when auto refresh is enabled.
+     * Must be larger than 0 and smaller than 1, otherwise a {@link TypeError | `TypeError`} is thrown.
+     * @default 0.5
+     */
+    autoRefreshRatio?: number;
 };
 
 /**
@@ -165,6 +180,8 @@ export class SemaphoreProvider implements ISemaphoreProvider {
     private readonly defaultBlockingInterval: TimeSpan;
     private readonly defaultBlockingTime: TimeSpan;
     private readonly defaultRefreshTime: TimeSpan;
+    private readonly defaultAutoRefresh: boolean;
+    private readonly autoRefreshRatio: number;
     private readonly serde: OneOrMore<ISerderRegister>;
     private readonly serdeTransformerName: string;
     private readonly createSlotId: Invokable<[], string>;
@@ -203,6 +220,8 @@ export class SemaphoreProvider implements ISemaphoreProvider {
             defaultBlockingInterval = TimeSpan.fromSeconds(1),
             defaultBlockingTime = TimeSpan.fromMinutes(1),
             defaultRefreshTime = TimeSpan.fromMinutes(5),
+            defaultAutoRefresh = false,
+            autoRefreshRatio = 0.5,
             serde = new Serde(new NoOpSerdeAdapter()),
             namespace = new NoOpNamespace(),
             adapter,
@@ -219,6 +238,9 @@ export class SemaphoreProvider implements ISemaphoreProvider {
         );
         this.defaultBlockingTime = TimeSpan.fromTimeSpan(defaultBlockingTime);
         this.defaultRefreshTime = TimeSpan.fromTimeSpan(defaultRefreshTime);
+        this.defaultAutoRefresh = defaultAutoRefresh;
+        isRatio(autoRefreshRatio, "autoRefreshRatio");
+        this.autoRefreshRatio = autoRefreshRatio;
         this.namespace = namespace;
         this.defaultTtl =
             defaultTtl === null ? null : TimeSpan.fromTimeSpan(defaultTtl);
@@ -238,6 +260,8 @@ export class SemaphoreProvider implements ISemaphoreProvider {
             defaultBlockingInterval: this.defaultBlockingInterval,
             defaultBlockingTime: this.defaultBlockingTime,
             defaultRefreshTime: this.defaultRefreshTime,
+            defaultAutoRefresh: this.defaultAutoRefresh,
+            autoRefreshRatio: this.autoRefreshRatio,
             eventBus: this.eventBus,
             namespace: this.namespace,
             serdeTransformerName: this.serdeTransformerName,
@@ -256,6 +280,7 @@ export class SemaphoreProvider implements ISemaphoreProvider {
             ttl = this.defaultTtl,
             limit,
             slotId = callInvokable(this.createSlotId),
+            autoRefresh = this.defaultAutoRefresh,
         } = settings;
         isPositiveNbr(limit);
 
@@ -271,6 +296,8 @@ export class SemaphoreProvider implements ISemaphoreProvider {
             defaultBlockingInterval: this.defaultBlockingInterval,
             defaultBlockingTime: this.defaultBlockingTime,
             defaultRefreshTime: this.defaultRefreshTime,
+            autoRefresh,
+            autoRefreshRatio: this.autoRefreshRatio,
             namespace: this.namespace,
         });
     }
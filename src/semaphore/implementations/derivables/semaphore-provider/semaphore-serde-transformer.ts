@@ -28,6 +28,8 @@ export type SemaphoreSerdeTransformerSettings = {
     defaultBlockingInterval: TimeSpan;
     defaultBlockingTime: TimeSpan;
     defaultRefreshTime: TimeSpan;
+    defaultAutoRefresh: boolean;
+    autoRefreshRatio: number;
     eventBus: IEventBus<SemaphoreEventMap>;
     serdeTransformerName: string;
 };
@@ -46,6 +48,8 @@ export class SemaphoreSerdeTransformer
     private readonly defaultBlockingInterval: TimeSpan;
     private readonly defaultBlockingTime: TimeSpan;
     private readonly defaultRefreshTime: TimeSpan;
+    private readonly defaultAutoRefresh: boolean;
+    private readonly autoRefreshRatio: number;
     private readonly eventBus: IEventBus<SemaphoreEventMap>;
     private readonly serdeTransformerName: string;
 
@@ -57,6 +61,8 @@ export class SemaphoreSerdeTransformer
             defaultBlockingInterval,
             defaultBlockingTime,
             defaultRefreshTime,
+            defaultAutoRefresh,
+            autoRefreshRatio,
             eventBus,
             serdeTransformerName,
         } = settings;
@@ -67,6 +73,8 @@ export class SemaphoreSerdeTransformer
         this.defaultBlockingInterval = defaultBlockingInterval;
         this.defaultBlockingTime = defaultBlockingTime;
         this.defaultRefreshTime = defaultRefreshTime;
+        this.defaultAutoRefresh = defaultAutoRefresh;
+        this.autoRefreshRatio = autoRefreshRatio;
         this.eventBus = eventBus;
     }
 
@@ -121,6 +129,8 @@ export class SemaphoreSerdeTransformer
             defaultBlockingInterval: this.defaultBlockingInterval,
             defaultBlockingTime: this.defaultBlockingTime,
             defaultRefreshTime: this.defaultRefreshTime,
+            autoRefresh: this.defaultAutoRefresh,
+            autoRefreshRatio: this.autoRefreshRatio,
             namespace: this.namespace,
         });
     }
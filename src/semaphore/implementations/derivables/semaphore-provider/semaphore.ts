@@ -19,12 +19,18 @@ import {
     SEMAPHORE_STATE,
     isSemaphoreError,
     type ISemaphoreState,
+    type IFairSemaphoreAdapter,
 } from "@/semaphore/contracts/_module.js";
+import { isFairSemaphoreAdapter } from "@/semaphore/implementations/derivables/semaphore-provider/is-fair-semaphore-adapter.js";
 import { type ITask } from "@/task/contracts/_module.js";
 import { Task } from "@/task/implementations/_module.js";
 import { type ITimeSpan } from "@/time-span/contracts/_module.js";
 import { TimeSpan } from "@/time-span/implementations/_module.js";
-import { resolveLazyable, type AsyncLazy } from "@/utilities/_module.js";
+import {
+    type AbortableAsyncLazy,
+    type HeartbeatSettings,
+    withHeartbeat,
+} from "@/utilities/_module.js";
 
 /**
  * @internal
@@ -52,6 +58,8 @@ export type SemaphoreSettings = {
     defaultBlockingInterval: TimeSpan;
     defaultBlockingTime: TimeSpan;
     defaultRefreshTime: TimeSpan;
+    autoRefresh: boolean;
+    autoRefreshRatio: number;
     namespace: INamespace;
 };
 
@@ -86,6 +94,8 @@ export class Semaphore implements ISemaphore {
     private readonly defaultBlockingInterval: TimeSpan;
     private readonly defaultBlockingTime: TimeSpan;
     private readonly defaultRefreshTime: TimeSpan;
+    private readonly autoRefresh: boolean;
+    private readonly autoRefreshRatio: number;
     private readonly serdeTransformerName: string;
     private readonly namespace: INamespace;
 
@@ -102,6 +112,8 @@ export class Semaphore implements ISemaphore {
             defaultBlockingInterval,
             defaultBlockingTime,
             defaultRefreshTime,
+            autoRefresh,
+            autoRefreshRatio,
             namespace,
         } = settings;
         this.namespace = namespace;
@@ -115,6 +127,8 @@ export class Semaphore implements ISemaphore {
         this.defaultBlockingInterval = defaultBlockingInterval;
         this.defaultBlockingTime = defaultBlockingTime;
         this.defaultRefreshTime = defaultRefreshTime;
+        this.autoRefresh = autoRefresh;
+        this.autoRefreshRatio = autoRefreshRatio;
         this.originalAdapter = originalAdapter;
     }
 
@@ -130,11 +144,32 @@ export class Semaphore implements ISemaphore {
         return this.originalAdapter;
     }
 
-    runOrFail<TValue = void>(asyncFn: AsyncLazy<TValue>): ITask<TValue> {
+    /**
+     * The slot is refreshed with its current `ttl`, null is returned when auto refresh is disabled or the semaphore is unexpireable.
+     */
+    private getHeartbeatSettings(): HeartbeatSettings | null {
+        const ttl = this._ttl;
+        if (!this.autoRefresh || ttl === null) {
+            return null;
+        }
+        return {
+            interval: ttl.multiply(this.autoRefreshRatio),
+            beat: async () => {
+                await this.refreshOrFail(ttl);
+            },
+        };
+    }
+
+    runOrFail<TValue = void>(
+        asyncFn: AbortableAsyncLazy<TValue>,
+    ): ITask<TValue> {
         return new Task(async () => {
             try {
                 await this.acquireOrFail();
-                return await resolveLazyable(asyncFn);
+                return await withHeartbeat(
+                    asyncFn,
+                    this.getHeartbeatSettings(),
+                );
             } finally {
                 await this.release();
             }
@@ -142,14 +177,17 @@ export class Semaphore implements ISemaphore {
     }
 
     runBlockingOrFail<TValue = void>(
-        asyncFn: AsyncLazy<TValue>,
+        asyncFn: AbortableAsyncLazy<TValue>,
         settings?: SemaphoreAquireBlockingSettings,
     ): ITask<TValue> {
         return new Task(async () => {
             try {
                 await this.acquireBlockingOrFail(settings);
 
-                return await resolveLazyable(asyncFn);
+                return await withHeartbeat(
+                    asyncFn,
+                    this.getHeartbeatSettings(),
+                );
             } finally {
                 await this.release();
             }
@@ -241,6 +279,34 @@ export class Semaphore implements ISemaphore {
         });
     }
 
+    /**
+     * Only the first waiter in the waiting queue tries to acquire a slot, the other waiters wait until they are woken.
+     * The waiter is removed from the waiting queue when it is not enqueued again within 2 intervals, ensuring a crashed waiter never blocks the waiting queue.
+     */
+    private async acquireFairBlocking(
+        adapter: IFairSemaphoreAdapter,
+        endDate: Date,
+        interval: TimeSpan,
+    ): Promise<boolean> {
+        const key = this._key.toString();
+        try {
+            while (endDate.getTime() > new Date().getTime()) {
+                const isFirst = await adapter.enqueue(
+                    key,
+                    this.slotId,
+                    interval.multiply(2),
+                );
+                if (isFirst && (await this.acquire())) {
+                    return true;
+                }
+                await adapter.wait(key, interval);
+            }
+            return false;
+        } finally {
+            await adapter.dequeue(key, this.slotId);
+        }
+    }
+
     acquireBlocking(
         settings: SemaphoreAquireBlockingSettings = {},
     ): ITask<boolean> {
@@ -248,10 +314,18 @@ export class Semaphore implements ISemaphore {
             const {
                 time = this.defaultBlockingTime,
                 interval = this.defaultBlockingInterval,
+                fair = false,
             } = settings;
             const timeAsTimeSpan = TimeSpan.fromTimeSpan(time);
             const intervalAsTimeSpan = TimeSpan.fromTimeSpan(interval);
             const endDate = timeAsTimeSpan.toEndDate();
+            if (fair && isFairSemaphoreAdapter(this.adapter)) {
+                return await this.acquireFairBlocking(
+                    this.adapter,
+                    endDate,
+                    intervalAsTimeSpan,
+                );
+            }
             while (endDate.getTime() > new Date().getTime()) {
                 const hasAquired = await this.acquire();
                 if (hasAquired) {
@@ -1 +1,2 @@
+export * from "@/serde/implementations/derivables/envelope-serde.js";
 export * from "@/serde/implementations/derivables/serde.js";
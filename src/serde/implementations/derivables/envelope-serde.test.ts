@@ -0,0 +1,203 @@
+import { randomBytes } from "node:crypto";
+
+import { describe, test, expect } from "vitest";
+
+import { DeserializationSerdeError } from "@/serde/contracts/_module.js";
+import { SuperJsonSerdeAdapter } from "@/serde/implementations/adapters/_module.js";
+import {
+    ENVELOPE_SERDE_COMPRESSION,
+    EnvelopeSerde,
+} from "@/serde/implementations/derivables/envelope-serde.js";
+import { Serde } from "@/serde/implementations/derivables/serde.js";
+
+describe("class: EnvelopeSerde", () => {
+    const largeValue = {
+        items: Array.from({ length: 200 }, (_, index) => ({
+            id: index,
+            name: "item",
+        })),
+    };
+    const oldKey = { id: "old", key: randomBytes(32) };
+    const newKey = { id: "new", key: randomBytes(32) };
+
+    test("Should not wrap the value when it is below the threshold and no encryption key is provided", () => {
+        const innerSerde = new Serde(new SuperJsonSerdeAdapter());
+        const serde = new EnvelopeSerde({ serde: innerSerde });
+
+        const serializedValue = serde.serialize({ a: 1 });
+
+        expect(serializedValue).toBe(innerSerde.serialize({ a: 1 }));
+        expect(serde.deserialize(serializedValue)).toEqual({ a: 1 });
+    });
+    test("Should compress the value with gzip when it is above the threshold", () => {
+        const innerSerde = new Serde(new SuperJsonSerdeAdapter());
+        const serde = new EnvelopeSerde({
+            serde: innerSerde,
+            compression: ENVELOPE_SERDE_COMPRESSION.GZIP,
+        });
+
+        const serializedValue = serde.serialize(largeValue);
+
+        expect(serializedValue.length).toBeLessThan(
+            innerSerde.serialize(largeValue).length,
+        );
+        expect(serde.deserialize(serializedValue)).toEqual(largeValue);
+    });
+    test("Should compress the value with brotli when it is above the threshold", () => {
+        const innerSerde = new Serde(new SuperJsonSerdeAdapter());
+        const serde = new EnvelopeSerde({
+            serde: innerSerde,
+            compression: ENVELOPE_SERDE_COMPRESSION.BROTLI,
+        });
+
+        const serializedValue = serde.serialize(largeValue);
+
+        expect(serializedValue.length).toBeLessThan(
+            innerSerde.serialize(largeValue).length,
+        );
+        expect(serde.deserialize(serializedValue)).toEqual(largeValue);
+    });
+    test("Should encrypt the value when an encryption key is provided", () => {
+        const serde = new EnvelopeSerde({
+            serde: new Serde(new SuperJsonSerdeAdapter()),
+            encryptionKeys: [newKey],
+        });
+
+        const serializedValue = serde.serialize({ email: "a@b.com" });
+
+        expect(serializedValue).not.toContain("a@b.com");
+        expect(serde.deserialize(serializedValue)).toEqual({
+            email: "a@b.com",
+        });
+    });
+    test("Should compress and encrypt the value", () => {
+        const serde = new EnvelopeSerde({
+            serde: new Serde(new SuperJsonSerdeAdapter()),
+            encryptionKeys: [newKey],
+        });
+
+        const serializedValue = serde.serialize(largeValue);
+
+        expect(serde.deserialize(serializedValue)).toEqual(largeValue);
+    });
+    test("Should decrypt values encrypted with a rotated key", () => {
+        const oldSerde = new EnvelopeSerde({
+            serde: new Serde(new SuperJsonSerdeAdapter()),
+            encryptionKeys: [oldKey],
+        });
+        const newSerde = new EnvelopeSerde({
+            serde: new Serde(new SuperJsonSerdeAdapter()),
+            encryptionKeys: [newKey, oldKey],
+        });
+
+        const serializedValue = oldSerde.serialize({ a: 1 });
+
+        expect(newSerde.deserialize(serializedValue)).toEqual({ a: 1 });
+    });
+    test("Should read values that were not wrapped", () => {
+        const innerSerde = new Serde(new SuperJsonSerdeAdapter());
+        const serde = new EnvelopeSerde({
+            serde: innerSerde,
+        });
+
+        expect(serde.deserialize(innerSerde.serialize({ a: 1 }))).toEqual({
+            a: 1,
+        });
+    });
+    test("Should read unencrypted values when encryption keys are provided and allowUnencrypted is true", () => {
+        const innerSerde = new Serde(new SuperJsonSerdeAdapter());
+        const compressingSerde = new EnvelopeSerde({
+            serde: innerSerde,
+        });
+        const serde = new EnvelopeSerde({
+            serde: innerSerde,
+            encryptionKeys: [newKey],
+            allowUnencrypted: true,
+        });
+
+        expect(serde.deserialize(innerSerde.serialize({ a: 1 }))).toEqual({
+            a: 1,
+        });
+        expect(
+            serde.deserialize(compressingSerde.serialize(largeValue)),
+        ).toEqual(largeValue);
+    });
+    test("Should throw DeserializationSerdeError when encryption keys are provided and the value is not wrapped", () => {
+        const innerSerde = new Serde(new SuperJsonSerdeAdapter());
+        const serde = new EnvelopeSerde({
+            serde: innerSerde,
+            encryptionKeys: [newKey],
+        });
+
+        expect(() => serde.deserialize(innerSerde.serialize({ a: 1 }))).toThrow(
+            DeserializationSerdeError,
+        );
+    });
+    test("Should throw DeserializationSerdeError when encryption keys are provided and the value is not encrypted", () => {
+        const compressingSerde = new EnvelopeSerde({
+            serde: new Serde(new SuperJsonSerdeAdapter()),
+        });
+        const serde = new EnvelopeSerde({
+            serde: new Serde(new SuperJsonSerdeAdapter()),
+            encryptionKeys: [newKey],
+        });
+
+        expect(() =>
+            serde.deserialize(compressingSerde.serialize(largeValue)),
+        ).toThrow(DeserializationSerdeError);
+    });
+    test("Should not compress the value when its size equals the threshold", () => {
+        const innerSerde = new Serde(new SuperJsonSerdeAdapter());
+        const serializedValue = innerSerde.serialize(largeValue);
+        const serde = new EnvelopeSerde({
+            serde: innerSerde,
+            compressionThreshold: Buffer.byteLength(serializedValue),
+        });
+
+        expect(serde.serialize(largeValue)).toBe(serializedValue);
+    });
+    test("Should throw DeserializationSerdeError when the encryption key is not found", () => {
+        const oldSerde = new EnvelopeSerde({
+            serde: new Serde(new SuperJsonSerdeAdapter()),
+            encryptionKeys: [oldKey],
+        });
+        const newSerde = new EnvelopeSerde({
+            serde: new Serde(new SuperJsonSerdeAdapter()),
+            encryptionKeys: [newKey],
+        });
+
+        const serializedValue = oldSerde.serialize({ a: 1 });
+
+        expect(() => newSerde.deserialize(serializedValue)).toThrow(
+            DeserializationSerdeError,
+        );
+    });
+    test("Should throw DeserializationSerdeError when the value is tampered", () => {
+        const serde = new EnvelopeSerde({
+            serde: new Serde(new SuperJsonSerdeAdapter()),
+            compression: ENVELOPE_SERDE_COMPRESSION.BROTLI,
+            encryptionKeys: [newKey],
+        });
+
+        const serializedValue = serde
+            .serialize(largeValue)
+            .replace(":brotli:", ":gzip:");
+
+        expect(() => serde.deserialize(serializedValue)).toThrow(
+            DeserializationSerdeError,
+        );
+    });
+    test("Should throw DeserializationSerdeError when the compression is unknown", () => {
+        const innerSerde = new Serde(new SuperJsonSerdeAdapter());
+        const serde = new EnvelopeSerde({ serde: innerSerde });
+
+        const payload = Buffer.from(innerSerde.serialize({ a: 1 })).toString(
+            "base64",
+        );
+        const serializedValue = `$envelope:1:zstd::${payload}`;
+
+        expect(() => serde.deserialize(serializedValue)).toThrow(
+            DeserializationSerdeError,
+        );
+    });
+});
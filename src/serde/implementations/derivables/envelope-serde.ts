@@ -0,0 +1,288 @@
+/**
+ * @module Serde
+ */
+
+import {
+    createCipheriv,
+    createDecipheriv,
+    randomBytes,
+    type BinaryLike,
+} from "node:crypto";
+import {
+    brotliCompressSync,
+    brotliDecompressSync,
+    gunzipSync,
+    gzipSync,
+} from "node:zlib";
+
+import {
+    DeserializationSerdeError,
+    SerializationSerdeError,
+    type ISerde,
+} from "@/serde/contracts/_module.js";
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/serde"`
+ * @group Derivables
+ */
+export const ENVELOPE_SERDE_COMPRESSION = {
+    NONE: "none",
+    GZIP: "gzip",
+    BROTLI: "brotli",
+} as const;
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/serde"`
+ * @group Derivables
+ */
+export type EnvelopeSerdeCompressionLiterals =
+    (typeof ENVELOPE_SERDE_COMPRESSION)[keyof typeof ENVELOPE_SERDE_COMPRESSION];
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/serde"`
+ * @group Derivables
+ */
+export type EnvelopeSerdeEncryptionKey = {
+    /**
+     * The id is stored in each encrypted value, allowing the right key to be picked when decrypting.
+     */
+    id: string;
+
+    /**
+     * A 32 bytes key used with AES-256-GCM.
+     */
+    key: BinaryLike;
+};
+
+/**
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/serde"`
+ * @group Derivables
+ */
+export type EnvelopeSerdeSettings = {
+    /**
+     * The serde used for serializing the values before they are compressed and encrypted.
+     */
+    serde: ISerde<string>;
+
+    /**
+     * @default "gzip"
+     */
+    compression?: EnvelopeSerdeCompressionLiterals;
+
+    /**
+     * Only serialized values larger than the threshold in bytes will be compressed.
+     * @default 1024
+     */
+    compressionThreshold?: number;
+
+    /**
+     * The first key is used for encrypting and all keys are used for decrypting, meaning you can rotate keys by adding the new key first and keeping the old keys.
+     * If no keys are provided the values will not be encrypted.
+     * @default []
+     */
+    encryptionKeys?: Array<EnvelopeSerdeEncryptionKey>;
+
+    /**
+     * If true, values that are not encrypted are still read when encryption keys are provided, allowing values written before encryption was enabled to be read.
+     * Otherwise a {@link DeserializationSerdeError | `DeserializationSerdeError`} is thrown, preventing unencrypted values from being injected into the store.
+     * The setting has no effect when no encryption keys are provided.
+     * @default false
+     */
+    allowUnencrypted?: boolean;
+};
+
+const ENVELOPE_PREFIX = "$envelope:1:";
+
+const ALGORITHM = "aes-256-gcm";
+
+const IV_LENGTH = 12;
+
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * The `EnvelopeSerde` class wraps any {@link ISerde | `ISerde<string>`} and compresses values above a size threshold with `gzip` or `brotli` and optionally encrypts them with AES-256-GCM.
+ * It can be used with every adapter that takes an {@link ISerde | `ISerde<string>`}.
+ * Values that are neither compressed nor encrypted are stored as they are, meaning values written before the `EnvelopeSerde` was added can still be read.
+ * When encryption keys are provided, unencrypted values are only read if the `allowUnencrypted` setting is enabled.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/serde"`
+ * @group Derivables
+ */
+export class EnvelopeSerde implements ISerde<string> {
+    private readonly serde: ISerde<string>;
+    private readonly compression: EnvelopeSerdeCompressionLiterals;
+    private readonly compressionThreshold: number;
+    private readonly encryptionKeys: Array<EnvelopeSerdeEncryptionKey>;
+    private readonly allowUnencrypted: boolean;
+
+    /**
+     * @example
+     * ```ts
+     * import { SuperJsonSerdeAdapter } from "@daiso-tech/core/serde/super-json-serde-adapter";
+     * import { Serde, EnvelopeSerde } from "@daiso-tech/core/serde";
+     *
+     * const serde = new EnvelopeSerde({
+     *   serde: new Serde(new SuperJsonSerdeAdapter()),
+     *   compression: "brotli",
+     *   encryptionKeys: [
+     *     {
+     *       id: "2025-01",
+     *       key: Buffer.from(process.env.CACHE_ENCRYPTION_KEY!, "base64"),
+     *     },
+     *   ],
+     * });
+     * ```
+     */
+    constructor(settings: EnvelopeSerdeSettings) {
+        const {
+            serde,
+            compression = ENVELOPE_SERDE_COMPRESSION.GZIP,
+            compressionThreshold = 1024,
+            encryptionKeys = [],
+            allowUnencrypted = false,
+        } = settings;
+        this.serde = serde;
+        this.compression = compression;
+        this.compressionThreshold = compressionThreshold;
+        this.encryptionKeys = encryptionKeys;
+        this.allowUnencrypted = allowUnencrypted;
+    }
+
+    private assertUnencryptedAllowed(): void {
+        if (this.encryptionKeys.length > 0 && !this.allowUnencrypted) {
+            throw DeserializationSerdeError.create(
+                new Error("Unencrypted value is not allowed"),
+            );
+        }
+    }
+
+    private compress(buffer: Buffer): Buffer {
+        if (this.compression === ENVELOPE_SERDE_COMPRESSION.BROTLI) {
+            return brotliCompressSync(buffer);
+        }
+        return gzipSync(buffer);
+    }
+
+    private static decompress(buffer: Buffer, compression: string): Buffer {
+        if (compression === ENVELOPE_SERDE_COMPRESSION.BROTLI) {
+            return brotliDecompressSync(buffer);
+        }
+        if (compression === ENVELOPE_SERDE_COMPRESSION.GZIP) {
+            return gunzipSync(buffer);
+        }
+        if (compression === ENVELOPE_SERDE_COMPRESSION.NONE) {
+            return buffer;
+        }
+        throw new Error(`Unknown compression "${compression}"`);
+    }
+
+    private static encrypt(
+        buffer: Buffer,
+        encryptionKey: EnvelopeSerdeEncryptionKey,
+        header: string,
+    ): Buffer {
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv(ALGORITHM, encryptionKey.key, iv, {
+            authTagLength: AUTH_TAG_LENGTH,
+        });
+        cipher.setAAD(Buffer.from(header));
+        const encrypted = Buffer.concat([
+            cipher.update(buffer),
+            cipher.final(),
+        ]);
+        return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+    }
+
+    private decrypt(buffer: Buffer, keyId: string, header: string): Buffer {
+        const encryptionKey = this.encryptionKeys.find(
+            (encryptionKey) => encryptionKey.id === keyId,
+        );
+        if (encryptionKey === undefined) {
+            throw new Error(`Encryption key "${keyId}" is not found`);
+        }
+        const decipher = createDecipheriv(
+            ALGORITHM,
+            encryptionKey.key,
+            buffer.subarray(0, IV_LENGTH),
+            {
+                authTagLength: AUTH_TAG_LENGTH,
+            },
+        );
+        decipher.setAAD(Buffer.from(header));
+        decipher.setAuthTag(
+            buffer.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH),
+        );
+        return Buffer.concat([
+            decipher.update(buffer.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+            decipher.final(),
+        ]);
+    }
+
+    /**
+     * The envelope has the format `$envelope:1:<compression>:<key-id>:<base64-payload>` where the key id is empty when the value is not encrypted.
+     */
+    serialize<TValue>(value: TValue): string {
+        const serializedValue = this.serde.serialize(value);
+        const [encryptionKey] = this.encryptionKeys;
+        let buffer = Buffer.from(serializedValue);
+        const shouldCompress =
+            this.compression !== ENVELOPE_SERDE_COMPRESSION.NONE &&
+            buffer.byteLength > this.compressionThreshold;
+        if (!shouldCompress && encryptionKey === undefined) {
+            return serializedValue;
+        }
+
+        try {
+            const compression = shouldCompress
+                ? this.compression
+                : ENVELOPE_SERDE_COMPRESSION.NONE;
+            const keyId = encodeURIComponent(encryptionKey?.id ?? "");
+            const header = `${ENVELOPE_PREFIX}${compression}:${keyId}:`;
+            if (shouldCompress) {
+                buffer = this.compress(buffer);
+            }
+            if (encryptionKey !== undefined) {
+                buffer = EnvelopeSerde.encrypt(buffer, encryptionKey, header);
+            }
+            return `${header}${buffer.toString("base64")}`;
+        } catch (error: unknown) {
+            throw SerializationSerdeError.create(error);
+        }
+    }
+
+    deserialize<TValue>(serializedValue: string): TValue {
+        if (!serializedValue.startsWith(ENVELOPE_PREFIX)) {
+            this.assertUnencryptedAllowed();
+            return this.serde.deserialize(serializedValue);
+        }
+
+        const [compression = "", keyId = "", payload = ""] = serializedValue
+            .slice(ENVELOPE_PREFIX.length)
+            .split(":");
+        if (keyId === "") {
+            this.assertUnencryptedAllowed();
+        }
+
+        let decodedValue: string;
+        try {
+            const header = `${ENVELOPE_PREFIX}${compression}:${keyId}:`;
+            let buffer = Buffer.from(payload, "base64");
+            if (keyId !== "") {
+                buffer = this.decrypt(
+                    buffer,
+                    decodeURIComponent(keyId),
+                    header,
+                );
+            }
+            buffer = EnvelopeSerde.decompress(buffer, compression);
+            decodedValue = buffer.toString();
+        } catch (error: unknown) {
+            throw DeserializationSerdeError.create(error);
+        }
+        return this.serde.deserialize(decodedValue);
+    }
+}
@@ -115,3 +115,30 @@ export type ISharedLockAdapter = {
 
     getState(key: string): Promise<ISharedLockAdapterState | null>;
 };
+
+/**
+ * The `IFairSharedLockAdapter` contract extends {@link ISharedLockAdapter | `ISharedLockAdapter`} with a waiting queue shared by readers and writers, allowing waiters to be granted the lock in arrival order.
+ * The waiters of a key must be woken when the writer or a reader is released or when a waiter is removed from the waiting queue.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/shared-lock/contracts"`
+ * @group Contracts
+ */
+export type IFairSharedLockAdapter = ISharedLockAdapter & {
+    /**
+     * The `enqueue` method adds `lockId` to the end of the waiting queue of the `key` if not already queued, otherwise only the expiration of the waiter is updated.
+     * Waiters that are not enqueued again within `ttl` must be removed from the waiting queue, ensuring crashed waiters never block the waiting queue.
+     *
+     * @returns Returns `true` if `lockId` is first in the waiting queue otherwise `false` is returned.
+     */
+    enqueue(key: string, lockId: string, ttl: TimeSpan): Promise<boolean>;
+
+    /**
+     * The `dequeue` method removes `lockId` from the waiting queue of the `key` and wakes the other waiters.
+     */
+    dequeue(key: string, lockId: string): Promise<void>;
+
+    /**
+     * The `wait` method waits until the waiters of the `key` are woken or `timeout` has elapsed.
+     */
+    wait(key: string, timeout: TimeSpan): Promise<void>;
+};
@@ -32,6 +32,13 @@ export type SharedLockProviderCreateSettings = {
      * You can provide a custom lock id. If not specified a unique lock id will be generated by default.
      */
     lockId?: string;
+
+    /**
+     * If true, the reader or writer will be refreshed in the background while the callback of the `runReaderOrFail`, `runReaderBlockingOrFail`, `runWriterOrFail` and `runWriterBlockingOrFail` methods executes.
+     * Note the setting has no effect when the lock has no `ttl`.
+     * If not specified it defaults to the `defaultAutoRefresh` setting of the provider.
+     */
+    autoRefresh?: boolean;
 };
 
 /**
@@ -2,6 +2,8 @@
  * @module SharedLock
  */
 
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { type IFairSharedLockAdapter } from "@/shared-lock/contracts/shared-lock-adapter.contract.js";
 import { type ISharedLockState } from "@/shared-lock/contracts/shared-lock-state.contract.js";
 import {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -21,7 +23,7 @@ import { type ITask } from "@/task/contracts/_module.js";
 import { type ITimeSpan } from "@/time-span/contracts/_module.js";
 import { type TimeSpan } from "@/time-span/implementations/_module.js";
 import {
-    type AsyncLazy,
+    type AbortableAsyncLazy,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     type Invokable,
 } from "@/utilities/_module.js";
@@ -34,6 +36,14 @@ import {
 export type SharedLockAquireBlockingSettings = {
     time?: ITimeSpan;
     interval?: ITimeSpan;
+
+    /**
+     * If true, readers and writers are granted the lock in arrival order and the waiters are woken when the writer or a reader is released instead of retrying every `interval`.
+     * Note expired writers and readers are still only detected every `interval`.
+     * Note the setting has no effect when the adapter does not implement {@link IFairSharedLockAdapter | `IFairSharedLockAdapter`}.
+     * @default false
+     */
+    fair?: boolean;
 };
 
 /**
@@ -44,16 +54,24 @@ export type SharedLockAquireBlockingSettings = {
 export type IReaderSemaphore = {
     /**
      * The `runReaderOrFail` method wraps an {@link Invokable | `Invokable`} or {@link ITask | `ITask`} with the `acquireOrFail` and `release` method.
+     * When auto refresh is enabled the reader is refreshed in the background while `asyncFn` executes,
+     * if the refresh fails the {@link AbortSignal | `AbortSignal`} passed to `asyncFn` is aborted and an error is thrown.
      * @throws {LimitReachedReaderSemaphoreError} {@link LimitReachedReaderSemaphoreError}
+     * @throws {FailedRefreshReaderSemaphoreError} {@link FailedRefreshReaderSemaphoreError}
      */
-    runReaderOrFail<TValue = void>(asyncFn: AsyncLazy<TValue>): ITask<TValue>;
+    runReaderOrFail<TValue = void>(
+        asyncFn: AbortableAsyncLazy<TValue>,
+    ): ITask<TValue>;
 
     /**
      * The `runReaderBlockingOrFail` method wraps an {@link Invokable | `Invokable`} or {@link ITask | `ITask`} with the `acquireBlockingOrFail` and `release` method.
+     * When auto refresh is enabled the reader is refreshed in the background while `asyncFn` executes,
+     * if the refresh fails the {@link AbortSignal | `AbortSignal`} passed to `asyncFn` is aborted and an error is thrown.
      * @throws {LimitReachedReaderSemaphoreError} {@link LimitReachedReaderSemaphoreError}
+     * @throws {FailedRefreshReaderSemaphoreError} {@link FailedRefreshReaderSemaphoreError}
      */
     runReaderBlockingOrFail<TValue = void>(
-        asyncFn: AsyncLazy<TValue>,
+        asyncFn: AbortableAsyncLazy<TValue>,
         settings?: SharedLockAquireBlockingSettings,
     ): ITask<TValue>;
 
@@ -137,16 +155,24 @@ export type IReaderSemaphore = {
 export type IWriterLock = {
     /**
      * The `runWriterOrFail` method wraps an {@link Invokable | `Invokable`} or {@link ITask | `ITask`} with the `acquireOrFail` and `release` method.
+     * When auto refresh is enabled the writer is refreshed in the background while `asyncFn` executes,
+     * if the refresh fails the {@link AbortSignal | `AbortSignal`} passed to `asyncFn` is aborted and an error is thrown.
      * @throws {FailedAcquireWriterLockError} {@link FailedAcquireWriterLockError}
+     * @throws {FailedRefreshWriterLockError} {@link FailedRefreshWriterLockError}
      */
-    runWriterOrFail<TValue = void>(asyncFn: AsyncLazy<TValue>): ITask<TValue>;
+    runWriterOrFail<TValue = void>(
+        asyncFn: AbortableAsyncLazy<TValue>,
+    ): ITask<TValue>;
 
     /**
      * The `runWriterBlockingOrFail` method wraps an {@link Invokable | `Invokable`} or {@link ITask | `ITask`} with the `acquireBlockingOrFail` and `release` method.
+     * When auto refresh is enabled the writer is refreshed in the background while `asyncFn` executes,
+     * if the refresh fails the {@link AbortSignal | `AbortSignal`} passed to `asyncFn` is aborted and an error is thrown.
      * @throws {FailedAcquireWriterLockError} {@link FailedAcquireWriterLockError}
+     * @throws {FailedRefreshWriterLockError} {@link FailedRefreshWriterLockError}
      */
     runWriterBlockingOrFail<TValue = void>(
-        asyncFn: AsyncLazy<TValue>,
+        asyncFn: AbortableAsyncLazy<TValue>,
         settings?: SharedLockAquireBlockingSettings,
     ): ITask<TValue>;
 
@@ -3,7 +3,7 @@
  */
 
 import {
-    type ISharedLockAdapter,
+    type IFairSharedLockAdapter,
     type ISharedLockAdapterState,
     type SharedLockAcquireSettings,
 } from "@/shared-lock/contracts/_module.js";
@@ -61,7 +61,7 @@ export type MemorySharedLockData = {
  * @group Adapters
  */
 export class MemorySharedLockAdapter
-    implements ISharedLockAdapter, IDeinitizable
+    implements IFairSharedLockAdapter, IDeinitizable
 {
     /**
      *  @example
@@ -83,6 +83,38 @@ export class MemorySharedLockAdapter
         private readonly map = new Map<string, MemorySharedLockData>(),
     ) {}
 
+    /**
+     * The waiting queues keep the arrival order of the waiters because a `Map` is iterated in insertion order.
+     */
+    private readonly waitQueues = new Map<string, Map<string, Date>>();
+
+    private readonly waitListeners = new Map<string, Set<() => void>>();
+
+    /**
+     * Returns true when the waiting queue of the `key` is empty or `lockId` is first in it, ensuring callers that are not queued can not jump ahead of fair waiters.
+     */
+    private isFirstWaiter(key: string, lockId: string): boolean {
+        const waitQueue = this.waitQueues.get(key);
+        if (waitQueue === undefined) {
+            return true;
+        }
+        const now = new Date();
+        for (const [waiterId, expiration] of waitQueue) {
+            if (expiration > now) {
+                return waiterId === lockId;
+            }
+            waitQueue.delete(waiterId);
+        }
+        this.waitQueues.delete(key);
+        return true;
+    }
+
+    private wakeWaiters(key: string): void {
+        for (const listener of this.waitListeners.get(key) ?? []) {
+            listener();
+        }
+    }
+
     /**
      * Removes all in-memory shared-lock data.
      */
@@ -105,6 +137,10 @@ export class MemorySharedLockAdapter
 
             this.map.delete(key);
         }
+        this.waitQueues.clear();
+        for (const key of this.waitListeners.keys()) {
+            this.wakeWaiters(key);
+        }
     }
 
     // eslint-disable-next-line @typescript-eslint/require-await
@@ -123,6 +159,9 @@ export class MemorySharedLockAdapter
         if (writerLock !== null) {
             return writerLock.owner === lockId;
         }
+        if (!this.isFirstWaiter(key, lockId)) {
+            return false;
+        }
 
         if (ttl === null) {
             writerLock = {
@@ -136,6 +175,7 @@ export class MemorySharedLockAdapter
         } else {
             const timeoutId = setTimeout(() => {
                 this.map.delete(key);
+                this.wakeWaiters(key);
             }, ttl.toMilliseconds());
             writerLock = {
                 owner: lockId,
@@ -172,6 +212,7 @@ export class MemorySharedLockAdapter
             clearTimeout(writerLock.timeoutId);
         }
         this.map.delete(key);
+        this.wakeWaiters(key);
 
         return true;
     }
@@ -194,6 +235,7 @@ export class MemorySharedLockAdapter
         }
 
         this.map.delete(key);
+        this.wakeWaiters(key);
 
         return true;
     }
@@ -224,6 +266,7 @@ export class MemorySharedLockAdapter
         clearTimeout(writerLock.timeoutId);
         const timeoutId = setTimeout(() => {
             this.map.delete(key);
+            this.wakeWaiters(key);
         }, ttl.toMilliseconds());
         this.map.set(key, {
             readerSemaphore: null,
@@ -244,6 +287,10 @@ export class MemorySharedLockAdapter
         if (writerLock !== null) {
             return false;
         }
+        const hasSlot = sharedLock?.readerSemaphore?.slots.has(lockId) ?? false;
+        if (!hasSlot && !this.isFirstWaiter(key, lockId)) {
+            return false;
+        }
         let readerSemaphore = sharedLock?.readerSemaphore ?? null;
 
         if (readerSemaphore === null) {
@@ -273,6 +320,7 @@ export class MemorySharedLockAdapter
         } else {
             const timeoutId = setTimeout(() => {
                 readerSemaphore.slots.delete(lockId);
+                this.wakeWaiters(key);
             }, ttl.toMilliseconds());
 
             readerSemaphore.slots.set(lockId, {
@@ -320,6 +368,7 @@ export class MemorySharedLockAdapter
         if (readerSemaphore.slots.size === 0) {
             this.map.delete(key);
         }
+        this.wakeWaiters(key);
 
         return true;
     }
@@ -342,6 +391,7 @@ export class MemorySharedLockAdapter
             readerSemaphore.slots.delete(slotId);
         }
         this.map.delete(key);
+        this.wakeWaiters(key);
         return hasSlots;
     }
 
@@ -376,6 +426,7 @@ export class MemorySharedLockAdapter
                 readerSemaphore,
                 writerLock: null,
             });
+            this.wakeWaiters(key);
         }, ttl.toMilliseconds());
 
         readerSemaphore.slots.set(lockId, {
@@ -473,4 +524,54 @@ export class MemorySharedLockAdapter
             "Invalid ISharedLockAdapterState, expected either the reader field must be defined or the writer field must be defined, but not both.",
         );
     }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async enqueue(
+        key: string,
+        lockId: string,
+        ttl: TimeSpan,
+    ): Promise<boolean> {
+        const waitQueue = this.waitQueues.get(key) ?? new Map<string, Date>();
+        const now = new Date();
+        for (const [waiterId, expiration] of waitQueue) {
+            if (expiration <= now) {
+                waitQueue.delete(waiterId);
+            }
+        }
+        waitQueue.set(lockId, ttl.toEndDate());
+        this.waitQueues.set(key, waitQueue);
+
+        const [firstWaiterId] = waitQueue.keys();
+        return firstWaiterId === lockId;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async dequeue(key: string, lockId: string): Promise<void> {
+        const waitQueue = this.waitQueues.get(key);
+        if (waitQueue === undefined) {
+            return;
+        }
+        waitQueue.delete(lockId);
+        if (waitQueue.size === 0) {
+            this.waitQueues.delete(key);
+        }
+        this.wakeWaiters(key);
+    }
+
+    async wait(key: string, timeout: TimeSpan): Promise<void> {
+        const listeners = this.waitListeners.get(key) ?? new Set<() => void>();
+        this.waitListeners.set(key, listeners);
+        await new Promise<void>((resolve) => {
+            const listener = (): void => {
+                clearTimeout(timeoutId);
+                listeners.delete(listener);
+                if (listeners.size === 0) {
+                    this.waitListeners.delete(key);
+                }
+                resolve();
+            };
+            const timeoutId = setTimeout(listener, timeout.toMilliseconds());
+            listeners.add(listener);
+        });
+    }
 }
@@ -5,11 +5,12 @@
 import { type Redis, type Result } from "ioredis";
 
 import {
-    type ISharedLockAdapter,
+    type IFairSharedLockAdapter,
     type ISharedLockAdapterState,
     type SharedLockAcquireSettings,
 } from "@/shared-lock/contracts/_module.js";
 import { type TimeSpan } from "@/time-span/implementations/_module.js";
+import { type IDeinitizable } from "@/utilities/_module.js";
 import { UnexpectedError } from "@/utilities/errors.js";
 
 /**
@@ -40,13 +41,23 @@ declare module "ioredis" {
     interface RedisCommander<Context> {
         daiso_shared_lock_acquire_writer(
             key: string,
+            waitQueueKey: string,
+            waitQueueExpirationKey: string,
             lockId: string,
             expiration: number | null,
+            now: number,
         ): Result<1 | 0, Context>;
 
+        /**
+         *
+         * @param key
+         * @param lockId
+         * @param waitChannel The channel the waiters are woken through when the writer is released.
+         */
         daiso_shared_lock_release_writer(
             key: string,
             lockId: string,
+            waitChannel: string,
         ): Result<1 | 0, Context>;
 
         daiso_shared_lock_refresh_writer(
@@ -61,16 +72,26 @@ declare module "ioredis" {
 
         daiso_shared_lock_acquire_reader(
             key: string,
+            waitQueueKey: string,
+            waitQueueExpirationKey: string,
             lockId: string,
             limit: number,
             expiration: number | null,
             now: number,
         ): Result<1 | 0, Context>;
 
+        /**
+         *
+         * @param key
+         * @param lockId
+         * @param now As unix timestamp in miliseconds
+         * @param waitChannel The channel the waiters are woken through when the reader is released.
+         */
         daiso_shared_lock_release_reader(
             key: string,
             lockId: string,
             now: number,
+            waitChannel: string,
         ): Result<1 | 0, Context>;
 
         daiso_shared_lock_refresh_reader(
@@ -97,6 +118,30 @@ declare module "ioredis" {
             key: string,
             now: number,
         ): Result<string, Context>;
+
+        /**
+         *
+         * @param waitQueueKey
+         * @param waitQueueExpirationKey
+         * @param lockId
+         * @param expiration As unix timestamp in miliseconds
+         * @param now As unix timestamp in miliseconds
+         * @returns 1 if the waiter is first in the waiting queue otherwise 0.
+         */
+        daiso_shared_lock_enqueue(
+            waitQueueKey: string,
+            waitQueueExpirationKey: string,
+            lockId: string,
+            expiration: number,
+            now: number,
+        ): Result<1 | 0, Context>;
+
+        daiso_shared_lock_dequeue(
+            waitQueueKey: string,
+            waitQueueExpirationKey: string,
+            lockId: string,
+            waitChannel: string,
+        ): Result<1, Context>;
     }
 }
 
@@ -108,7 +153,16 @@ declare module "ioredis" {
  * IMPORT_PATH: `"@daiso-tech/core/shared-lock/redis-shared-lock-adapter"`
  * @group Adapters
  */
-export class RedisSharedLockAdapter implements ISharedLockAdapter {
+export class RedisSharedLockAdapter
+    implements IFairSharedLockAdapter, IDeinitizable
+{
+    /**
+     * The listener client is created on the first wait and shared by all waits because a client subscribed to a channel can not execute other commands.
+     */
+    private listenerClient: Redis | null = null;
+
+    private readonly waitListeners = new Map<string, Set<() => void>>();
+
     /**
      * @example
      * ```ts
@@ -130,8 +184,36 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
         this.initForceReleaseAllReadersCommand();
         this.initForceReleaseCommand();
         this.initGetStateCommand();
+        this.initEnqueueCommand();
+        this.initDequeueCommand();
+    }
+
+    private static getWaitQueueKey(key: string): string {
+        return `${key}__wait_queue`;
+    }
+
+    private static getWaitQueueExpirationKey(key: string): string {
+        return `${key}__wait_queue_expiration`;
     }
 
+    private static getWaitChannel(key: string): string {
+        return `${key}__wait`;
+    }
+
+    private getListenerClient(): Redis {
+        if (this.listenerClient === null) {
+            this.listenerClient = this.database.duplicate();
+            this.listenerClient.on("message", this.redisListener);
+        }
+        return this.listenerClient;
+    }
+
+    private readonly redisListener = (channel: string): void => {
+        for (const listener of this.waitListeners.get(channel) ?? []) {
+            listener();
+        }
+    };
+
     private static getWriterKey(keyVar: string): string {
         return `
             (function(key)
@@ -140,6 +222,28 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
         `;
     }
 
+    /**
+     * Removes the expired waiters and returns true when the waiting queue is empty or the lock is first in it, ensuring callers that are not queued can not jump ahead of fair waiters.
+     */
+    private static isFirstWaiter(
+        waitQueueKeyVar: string,
+        waitQueueExpirationKeyVar: string,
+        lockIdVar: string,
+        nowVar: string,
+    ): string {
+        return `
+            (function(waitQueueKey, waitQueueExpirationKey, lockId, now)
+                local expiredWaiterIds = redis.call("zrangebyscore", waitQueueExpirationKey, "-inf", now);
+                for _, expiredWaiterId in ipairs(expiredWaiterIds) do
+                    redis.call("lrem", waitQueueKey, 0, expiredWaiterId);
+                    redis.call("zrem", waitQueueExpirationKey, expiredWaiterId);
+                end
+                local firstWaiterId = redis.call("lindex", waitQueueKey, 0);
+                return firstWaiterId == false or firstWaiterId == lockId;
+            end)(${waitQueueKeyVar}, ${waitQueueExpirationKeyVar}, ${lockIdVar}, ${nowVar});
+        `;
+    }
+
     private static getReaderKey(keyVar: string): string {
         return `
             (function(key)
@@ -156,9 +260,11 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
         }
 
         this.database.defineCommand("daiso_shared_lock_acquire_writer", {
-            numberOfKeys: 1,
+            numberOfKeys: 3,
             lua: `
                 local key = KEYS[1];
+                local waitQueueKey = KEYS[2];
+                local waitQueueExpirationKey = KEYS[3];
                 local lockId = ARGV[1];
                 local writerKey = ${RedisSharedLockAdapter.getWriterKey("key")}
                 
@@ -170,9 +276,17 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
                 -- Expiration time as unix timestamp in ms
                 local expiration = tonumber(ARGV[2]);
 
+                -- Current time as unix timestamp in ms
+                local now = tonumber(ARGV[3]);
+
                 if redis.call("exists", writerKey) == 1 then
                     return redis.call("get", writerKey) == lockId;
                 end
+
+                local isFirstWaiter = ${RedisSharedLockAdapter.isFirstWaiter("waitQueueKey", "waitQueueExpirationKey", "lockId", "now")}
+                if not isFirstWaiter then
+                    return 0;
+                end
                 
                 if expiration == nil then
                     redis.call("set", writerKey, lockId, "nx");
@@ -196,6 +310,7 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
             lua: `
                 local key = KEYS[1];
                 local lockId = ARGV[1];
+                local waitChannel = ARGV[2];
                 local writerKey = ${RedisSharedLockAdapter.getWriterKey("key")}
 
                 local readerKey = ${RedisSharedLockAdapter.getReaderKey("key")}
@@ -213,6 +328,7 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
                 end
 
                 redis.call("del", writerKey)
+                redis.call("publish", waitChannel, "")
                 
                 return 1
             `,
@@ -406,9 +522,11 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
         }
 
         this.database.defineCommand("daiso_shared_lock_acquire_reader", {
-            numberOfKeys: 1,
+            numberOfKeys: 3,
             lua: `
                 local key = KEYS[1];
+                local waitQueueKey = KEYS[2];
+                local waitQueueExpirationKey = KEYS[3];
                 local slotId = ARGV[1];
                 local limit = tonumber(ARGV[2]);
                 local readerKey = ${RedisSharedLockAdapter.getReaderKey("key")}
@@ -439,6 +557,11 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
                     return 1;
                 end
 
+                local isFirstWaiter = ${RedisSharedLockAdapter.isFirstWaiter("waitQueueKey", "waitQueueExpirationKey", "slotId", "now")}
+                if not isFirstWaiter then
+                    return 0;
+                end
+
                 ${RedisSharedLockAdapter.addSlot("readerKey", "slotId", "expiration")}
 
                 ${RedisSharedLockAdapter.updateKeyExpiration("readerKey", "limitKey")}
@@ -473,6 +596,8 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
                 -- Current time as unix timestamp in ms
                 local now = tonumber(ARGV[2]);
 
+                local waitChannel = ARGV[3];
+
                 ${RedisSharedLockAdapter.removeExpiredSlots("readerKey", "now")}
 
                 -- Removes the given slot
@@ -483,6 +608,10 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
 
                 ${RedisSharedLockAdapter.updateKeyExpiration("readerKey", "limitKey")}
 
+                if hasRemoved then
+                    redis.call("publish", waitChannel, "");
+                end
+
                 return removedCount;
             `,
         });
@@ -719,6 +848,70 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
         });
     }
 
+    private initEnqueueCommand(): void {
+        if (typeof this.database.daiso_shared_lock_enqueue === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_shared_lock_enqueue", {
+            numberOfKeys: 2,
+            lua: `
+                local waitQueueKey = KEYS[1];
+                local waitQueueExpirationKey = KEYS[2];
+                local lockId = ARGV[1];
+
+                -- Expiration time as unix timestamp in ms
+                local expiration = tonumber(ARGV[2]);
+
+                -- Current time as unix timestamp in ms
+                local now = tonumber(ARGV[3]);
+
+                local expiredWaiterIds = redis.call("zrangebyscore", waitQueueExpirationKey, "-inf", now);
+                for _, expiredWaiterId in ipairs(expiredWaiterIds) do
+                    redis.call("lrem", waitQueueKey, 0, expiredWaiterId);
+                    redis.call("zrem", waitQueueExpirationKey, expiredWaiterId);
+                end
+
+                if redis.call("zscore", waitQueueExpirationKey, lockId) == false then
+                    redis.call("rpush", waitQueueKey, lockId);
+                end
+                redis.call("zadd", waitQueueExpirationKey, expiration, lockId);
+
+                -- The waiting queue is removed when all waiters are expired.
+                local lastExpiration = redis.call("zrange", waitQueueExpirationKey, -1, -1, "withscores")[2];
+                redis.call("pexpireat", waitQueueKey, lastExpiration);
+                redis.call("pexpireat", waitQueueExpirationKey, lastExpiration);
+
+                if redis.call("lindex", waitQueueKey, 0) == lockId then
+                    return 1;
+                end
+                return 0;
+            `,
+        });
+    }
+
+    private initDequeueCommand(): void {
+        if (typeof this.database.daiso_shared_lock_dequeue === "function") {
+            return;
+        }
+
+        this.database.defineCommand("daiso_shared_lock_dequeue", {
+            numberOfKeys: 2,
+            lua: `
+                local waitQueueKey = KEYS[1];
+                local waitQueueExpirationKey = KEYS[2];
+                local lockId = ARGV[1];
+                local waitChannel = ARGV[2];
+
+                redis.call("lrem", waitQueueKey, 0, lockId);
+                redis.call("zrem", waitQueueExpirationKey, lockId);
+                redis.call("publish", waitChannel, "");
+
+                return 1;
+            `,
+        });
+    }
+
     async acquireWriter(
         key: string,
         lockId: string,
@@ -726,8 +919,11 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
     ): Promise<boolean> {
         const result = await this.database.daiso_shared_lock_acquire_writer(
             key,
+            RedisSharedLockAdapter.getWaitQueueKey(key),
+            RedisSharedLockAdapter.getWaitQueueExpirationKey(key),
             lockId,
             ttl?.toEndDate().getTime() ?? null,
+            Date.now(),
         );
         return result === 1;
     }
@@ -736,6 +932,7 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
         const result = await this.database.daiso_shared_lock_release_writer(
             key,
             lockId,
+            RedisSharedLockAdapter.getWaitChannel(key),
         );
         return result === 1;
     }
@@ -756,6 +953,10 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
     async forceReleaseWriter(key: string): Promise<boolean> {
         const result =
             await this.database.daiso_shared_lock_force_release_writer(key);
+        await this.database.publish(
+            RedisSharedLockAdapter.getWaitChannel(key),
+            "",
+        );
         return result === 1;
     }
 
@@ -763,6 +964,8 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
         const { key, lockId, limit, ttl } = settings;
         const result = await this.database.daiso_shared_lock_acquire_reader(
             key,
+            RedisSharedLockAdapter.getWaitQueueKey(key),
+            RedisSharedLockAdapter.getWaitQueueExpirationKey(key),
             lockId,
             limit,
             ttl?.toEndDate().getTime() ?? null,
@@ -776,6 +979,7 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
             key,
             lockId,
             Date.now(),
+            RedisSharedLockAdapter.getWaitChannel(key),
         );
         return result === 1;
     }
@@ -800,6 +1004,10 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
                 key,
                 Date.now(),
             );
+        await this.database.publish(
+            RedisSharedLockAdapter.getWaitChannel(key),
+            "",
+        );
         return result === 1;
     }
 
@@ -808,6 +1016,10 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
             key,
             Date.now(),
         );
+        await this.database.publish(
+            RedisSharedLockAdapter.getWaitChannel(key),
+            "",
+        );
         return result === 1;
     }
 
@@ -855,4 +1067,78 @@ export class RedisSharedLockAdapter implements ISharedLockAdapter {
             "Invalid ISharedLockAdapterState, expected either the reader field must be defined or the writer field must be defined, but not both.",
         );
     }
+
+    async enqueue(
+        key: string,
+        lockId: string,
+        ttl: TimeSpan,
+    ): Promise<boolean> {
+        const result = await this.database.daiso_shared_lock_enqueue(
+            RedisSharedLockAdapter.getWaitQueueKey(key),
+            RedisSharedLockAdapter.getWaitQueueExpirationKey(key),
+            lockId,
+            ttl.toEndDate().getTime(),
+            Date.now(),
+        );
+        return result === 1;
+    }
+
+    async dequeue(key: string, lockId: string): Promise<void> {
+        await this.database.daiso_shared_lock_dequeue(
+            RedisSharedLockAdapter.getWaitQueueKey(key),
+            RedisSharedLockAdapter.getWaitQueueExpirationKey(key),
+            lockId,
+            RedisSharedLockAdapter.getWaitChannel(key),
+        );
+    }
+
+    async wait(key: string, timeout: TimeSpan): Promise<void> {
+        const channel = RedisSharedLockAdapter.getWaitChannel(key);
+        const listenerClient = this.getListenerClient();
+
+        const listeners =
+            this.waitListeners.get(channel) ?? new Set<() => void>();
+        const isFirstListener = listeners.size === 0;
+        this.waitListeners.set(channel, listeners);
+        const promise = new Promise<void>((resolve) => {
+            const listener = (): void => {
+                clearTimeout(timeoutId);
+                listeners.delete(listener);
+                if (listeners.size === 0) {
+                    this.waitListeners.delete(channel);
+                }
+                resolve();
+            };
+            const timeoutId = setTimeout(listener, timeout.toMilliseconds());
+            listeners.add(listener);
+        });
+
+        try {
+            if (isFirstListener) {
+                await listenerClient.subscribe(channel);
+            }
+            await promise;
+        } finally {
+            if (
+                !this.waitListeners.has(channel) &&
+                this.listenerClient === listenerClient
+            ) {
+                await listenerClient.unsubscribe(channel);
+            }
+        }
+    }
+
+    /**
+     * Wakes up all waiters and closes the listener client used for waiting.
+     */
+    async deInit(): Promise<void> {
+        const listenerClient = this.listenerClient;
+        this.listenerClient = null;
+        for (const listeners of [...this.waitListeners.values()]) {
+            for (const listener of [...listeners]) {
+                listener();
+            }
+        }
+        await listenerClient?.quit();
+    }
 }
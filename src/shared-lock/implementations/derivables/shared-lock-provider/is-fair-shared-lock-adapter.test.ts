@@ -0,0 +1,89 @@
+import { describe, expect, test } from "vitest";
+
+import {
+    type IFairSharedLockAdapter,
+    type ISharedLockAdapter,
+    type ISharedLockAdapterState,
+    type SharedLockAcquireSettings,
+} from "@/shared-lock/contracts/_module.js";
+import { isFairSharedLockAdapter } from "@/shared-lock/implementations/derivables/shared-lock-provider/is-fair-shared-lock-adapter.js";
+import { type TimeSpan } from "@/time-span/implementations/_module.js";
+
+describe("function: isFairSharedLockAdapter", () => {
+    const adapter: ISharedLockAdapter = {
+        acquireWriter: function (
+            _key: string,
+            _lockId: string,
+            _ttl: TimeSpan | null,
+        ): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        releaseWriter: function (
+            _key: string,
+            _lockId: string,
+        ): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        forceReleaseWriter: function (_key: string): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        refreshWriter: function (
+            _key: string,
+            _lockId: string,
+            _ttl: TimeSpan,
+        ): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        acquireReader: function (
+            _settings: SharedLockAcquireSettings,
+        ): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        releaseReader: function (
+            _key: string,
+            _slotId: string,
+        ): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        forceReleaseAllReaders: function (_key: string): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        refreshReader: function (
+            _key: string,
+            _slotId: string,
+            _ttl: TimeSpan,
+        ): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        forceRelease: function (_key: string): Promise<boolean> {
+            throw new Error("Function not implemented.");
+        },
+        getState: function (
+            _key: string,
+        ): Promise<ISharedLockAdapterState | null> {
+            throw new Error("Function not implemented.");
+        },
+    };
+    test("Should return true when given IFairSharedLockAdapter", () => {
+        const fairAdapter: IFairSharedLockAdapter = {
+            ...adapter,
+            enqueue: function (
+                _key: string,
+                _lockId: string,
+                _ttl: TimeSpan,
+            ): Promise<boolean> {
+                throw new Error("Function not implemented.");
+            },
+            dequeue: function (_key: string, _lockId: string): Promise<void> {
+                throw new Error("Function not implemented.");
+            },
+            wait: function (_key: string, _timeout: TimeSpan): Promise<void> {
+                throw new Error("Function not implemented.");
+            },
+        };
+        expect(isFairSharedLockAdapter(fairAdapter)).toBe(true);
+    });
+    test("Should return false when given ISharedLockAdapter", () => {
+        expect(isFairSharedLockAdapter(adapter)).toBe(false);
+    });
+});
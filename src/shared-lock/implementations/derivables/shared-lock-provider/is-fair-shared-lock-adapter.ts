@@ -0,0 +1,27 @@
+/**
+ * @module SharedLock
+ */
+import {
+    type IFairSharedLockAdapter,
+    type ISharedLockAdapter,
+} from "@/shared-lock/contracts/_module.js";
+
+/**
+ * @internal
+ */
+export function isFairSharedLockAdapter(
+    adapter: ISharedLockAdapter,
+): adapter is IFairSharedLockAdapter {
+    const adapter_ = adapter as Partial<
+        Record<string, (...args_: Array<unknown>) => unknown>
+    >;
+
+    return (
+        typeof adapter_["enqueue"] === "function" &&
+        adapter_["enqueue"].length === 3 &&
+        typeof adapter_["dequeue"] === "function" &&
+        adapter_["dequeue"].length === 2 &&
+        typeof adapter_["wait"] === "function" &&
+        adapter_["wait"].length === 2
+    );
+}
@@ -1,19 +1,26 @@
 import Sqlite from "better-sqlite3";
 import { Kysely, SqliteDialect } from "kysely";
-import { beforeEach, describe, expect, test } from "vitest";
+import { beforeEach, describe, expect, test, vi } from "vitest";
 
 import { MemoryEventBusAdapter } from "@/event-bus/implementations/adapters/_module.js";
 import { EventBus } from "@/event-bus/implementations/derivables/_module.js";
 import { Namespace } from "@/namespace/implementations/_module.js";
 import { SuperJsonSerdeAdapter } from "@/serde/implementations/adapters/_module.js";
 import { Serde } from "@/serde/implementations/derivables/_module.js";
-import { type ISharedLock } from "@/shared-lock/contracts/_module.js";
+import {
+    FailedRefreshReaderSemaphoreError,
+    FailedRefreshWriterLockError,
+    type ISharedLock,
+    SHARED_LOCK_EVENTS,
+} from "@/shared-lock/contracts/_module.js";
 import {
     KyselySharedLockAdapter,
     MemorySharedLockAdapter,
 } from "@/shared-lock/implementations/adapters/_module.js";
 import { SharedLockProvider } from "@/shared-lock/implementations/derivables/_module.js";
 import { sharedLockProviderTestSuite } from "@/shared-lock/implementations/test-utilities/_module.js";
+import { Task } from "@/task/implementations/_module.js";
+import { TimeSpan } from "@/time-span/implementations/_module.js";
 
 describe("class: SharedLockProvider", () => {
     sharedLockProviderTestSuite({
@@ -157,6 +164,265 @@ describe("class: SharedLockProvider", () => {
             );
             const result = await deserializeLock2.acquireWriter();
 
+            expect(result).toBe(true);
+        });
+    });
+    describe("Auto refresh tests:", () => {
+        test("Should throw TypeError when autoRefreshRatio is not between 0 and 1", () => {
+            for (const autoRefreshRatio of [0, 1, -0.5, 1.5, Number.NaN]) {
+                expect(
+                    () =>
+                        new SharedLockProvider({
+                            adapter: new MemorySharedLockAdapter(),
+                            autoRefreshRatio,
+                        }),
+                ).toThrow(TypeError);
+            }
+        });
+        test("Should keep the writer acquired past its ttl while the callback executes", async () => {
+            const sharedLockProvider = new SharedLockProvider({
+                adapter: new MemorySharedLockAdapter(),
+                defaultAutoRefresh: true,
+            });
+            const ttl = TimeSpan.fromMilliseconds(100);
+            const sharedLock1 = sharedLockProvider.create("a", {
+                ttl,
+                limit: 1,
+            });
+            const sharedLock2 = sharedLockProvider.create("a", {
+                ttl,
+                limit: 1,
+            });
+
+            const result = await sharedLock1.runWriterOrFail(async () => {
+                await Task.delay(TimeSpan.fromMilliseconds(250));
+                return await sharedLock2.acquireWriter();
+            });
+
+            expect(result).toBe(false);
+        });
+        test("Should keep the reader acquired past its ttl while the callback executes", async () => {
+            const sharedLockProvider = new SharedLockProvider({
+                adapter: new MemorySharedLockAdapter(),
+                defaultAutoRefresh: true,
+            });
+            const ttl = TimeSpan.fromMilliseconds(100);
+            const sharedLock1 = sharedLockProvider.create("a", {
+                ttl,
+                limit: 1,
+            });
+            const sharedLock2 = sharedLockProvider.create("a", {
+                ttl,
+                limit: 1,
+            });
+
+            const result = await sharedLock1.runReaderOrFail(async () => {
+                await Task.delay(TimeSpan.fromMilliseconds(250));
+                return await sharedLock2.acquireReader();
+            });
+
+            expect(result).toBe(false);
+        });
+        test("Should abort the signal and throw FailedRefreshWriterLockError when the writer refresh fails", async () => {
+            const adapter = new MemorySharedLockAdapter();
+            vi.spyOn(adapter, "refreshWriter").mockResolvedValue(false);
+            const sharedLockProvider = new SharedLockProvider({
+                adapter,
+                defaultAutoRefresh: true,
+            });
+            const sharedLock = sharedLockProvider.create("a", {
+                ttl: TimeSpan.fromMilliseconds(100),
+                limit: 1,
+            });
+            let signal: AbortSignal | undefined;
+
+            const promise = sharedLock.runWriterOrFail(async (signal_) => {
+                signal = signal_;
+                await Task.delay(TimeSpan.fromMilliseconds(250));
+            });
+
+            await expect(promise).rejects.toBeInstanceOf(
+                FailedRefreshWriterLockError,
+            );
+            expect(signal?.aborted).toBe(true);
+        });
+        test("Should abort the signal and throw FailedRefreshReaderSemaphoreError when the reader refresh fails", async () => {
+            const adapter = new MemorySharedLockAdapter();
+            vi.spyOn(adapter, "refreshReader").mockResolvedValue(false);
+            const sharedLockProvider = new SharedLockProvider({
+                adapter,
+                defaultAutoRefresh: true,
+            });
+            const sharedLock = sharedLockProvider.create("a", {
+                ttl: TimeSpan.fromMilliseconds(100),
+                limit: 1,
+            });
+            let signal: AbortSignal | undefined;
+
+            const promise = sharedLock.runReaderOrFail(async (signal_) => {
+                signal = signal_;
+                await Task.delay(TimeSpan.fromMilliseconds(250));
+            });
+
+            await expect(promise).rejects.toBeInstanceOf(
+                FailedRefreshReaderSemaphoreError,
+            );
+            expect(signal?.aborted).toBe(true);
+        });
+        test("Should dispatch FailedRefreshWriterLockEvent when the writer refresh fails", async () => {
+            const adapter = new MemorySharedLockAdapter();
+            vi.spyOn(adapter, "refreshWriter").mockResolvedValue(false);
+            const sharedLockProvider = new SharedLockProvider({
+                adapter,
+                defaultAutoRefresh: true,
+                eventBus: new EventBus({
+                    adapter: new MemoryEventBusAdapter(),
+                }),
+            });
+            const sharedLock = sharedLockProvider.create("a", {
+                ttl: TimeSpan.fromMilliseconds(100),
+                limit: 1,
+            });
+            const handlerFn = vi.fn(() => {});
+            await sharedLockProvider.events.addListener(
+                SHARED_LOCK_EVENTS.WRITER_FAILED_REFRESH,
+                handlerFn,
+            );
+
+            await expect(
+                sharedLock.runWriterOrFail(async () => {
+                    await Task.delay(TimeSpan.fromMilliseconds(250));
+                }),
+            ).rejects.toBeInstanceOf(FailedRefreshWriterLockError);
+
+            expect(handlerFn).toHaveBeenCalledOnce();
+        });
+    });
+    describe("Fair blocking tests:", () => {
+        test("Should acquire readers and writers in arrival order", async () => {
+            const sharedLockProvider = new SharedLockProvider({
+                adapter: new MemorySharedLockAdapter(),
+            });
+            const sharedLock = sharedLockProvider.create("a", { limit: 2 });
+            await sharedLock.acquireWriter();
+
+            const order: Array<string> = [];
+            const promises: Array<Promise<void>> = [];
+            for (const [name, isWriter] of [
+                ["b", false],
+                ["c", true],
+                ["d", false],
+            ] as const) {
+                const waiter = sharedLockProvider.create("a", { limit: 2 });
+                const settings = {
+                    fair: true,
+                    time: TimeSpan.fromSeconds(5),
+                    interval: TimeSpan.fromSeconds(1),
+                };
+                promises.push(
+                    (async () => {
+                        if (isWriter) {
+                            await waiter.acquireWriterBlockingOrFail(settings);
+                        } else {
+                            await waiter.acquireReaderBlockingOrFail(settings);
+                        }
+                        order.push(name);
+                        await Task.delay(TimeSpan.fromMilliseconds(10));
+                        if (isWriter) {
+                            await waiter.releaseWriter();
+                        } else {
+                            await waiter.releaseReader();
+                        }
+                    })(),
+                );
+                await Task.delay(TimeSpan.fromMilliseconds(10));
+            }
+            await sharedLock.releaseWriter();
+            await Promise.all(promises);
+
+            expect(order).toEqual(["b", "c", "d"]);
+        });
+        test("Should not let a non-fair acquire jump ahead of fair waiters", async () => {
+            const sharedLockProvider = new SharedLockProvider({
+                adapter: new MemorySharedLockAdapter(),
+            });
+            const sharedLock1 = sharedLockProvider.create("a", { limit: 2 });
+            await sharedLock1.acquireWriter();
+            const sharedLock2 = sharedLockProvider.create("a", { limit: 2 });
+            const sharedLock3 = sharedLockProvider.create("a", { limit: 2 });
+
+            const promise = (async () => {
+                return await sharedLock2.acquireReaderBlocking({
+                    fair: true,
+                    time: TimeSpan.fromSeconds(5),
+                    interval: TimeSpan.fromSeconds(1),
+                });
+            })();
+            await Task.delay(TimeSpan.fromMilliseconds(50));
+            await sharedLock1.releaseWriter();
+            const result = await sharedLock3.acquireReader();
+
+            expect(result).toBe(false);
+            expect(await promise).toBe(true);
+        });
+        test("Should be woken when the reader is released instead of waiting the interval", async () => {
+            const sharedLockProvider = new SharedLockProvider({
+                adapter: new MemorySharedLockAdapter(),
+            });
+            const sharedLock1 = sharedLockProvider.create("a", { limit: 1 });
+            await sharedLock1.acquireReader();
+            const sharedLock2 = sharedLockProvider.create("a", { limit: 1 });
+
+            const start = Date.now();
+            const promise = sharedLock2.acquireWriterBlocking({
+                fair: true,
+                time: TimeSpan.fromSeconds(10),
+                interval: TimeSpan.fromSeconds(5),
+            });
+            await Task.delay(TimeSpan.fromMilliseconds(50));
+            await sharedLock1.releaseReader();
+
+            expect(await promise).toBe(true);
+            expect(Date.now() - start).toBeLessThan(1000);
+        });
+        test("Should remove the waiter from the waiting queue when time has elapsed", async () => {
+            const sharedLockProvider = new SharedLockProvider({
+                adapter: new MemorySharedLockAdapter(),
+            });
+            const sharedLock1 = sharedLockProvider.create("a", { limit: 1 });
+            await sharedLock1.acquireWriter();
+            const sharedLock2 = sharedLockProvider.create("a", { limit: 1 });
+            const sharedLock3 = sharedLockProvider.create("a", { limit: 1 });
+
+            const result1 = await sharedLock2.acquireReaderBlocking({
+                fair: true,
+                time: TimeSpan.fromMilliseconds(50),
+                interval: TimeSpan.fromMilliseconds(10),
+            });
+            await sharedLock1.releaseWriter();
+            const result2 = await sharedLock3.acquireWriterBlocking({
+                fair: true,
+                time: TimeSpan.fromMilliseconds(50),
+                interval: TimeSpan.fromMilliseconds(10),
+            });
+
+            expect(result1).toBe(false);
+            expect(result2).toBe(true);
+        });
+        test("Should not block the waiting queue when a waiter is not enqueued again within its ttl", async () => {
+            const adapter = new MemorySharedLockAdapter();
+            const sharedLockProvider = new SharedLockProvider({
+                adapter,
+            });
+            await adapter.enqueue("a", "b", TimeSpan.fromMilliseconds(20));
+            const sharedLock = sharedLockProvider.create("a", { limit: 1 });
+
+            const result = await sharedLock.acquireWriterBlocking({
+                fair: true,
+                time: TimeSpan.fromMilliseconds(200),
+                interval: TimeSpan.fromMilliseconds(10),
+            });
+
             expect(result).toBe(true);
         });
     });
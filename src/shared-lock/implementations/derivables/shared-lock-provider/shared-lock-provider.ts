@@ -32,6 +32,7 @@ import {
     type Invokable,
     callInvokable,
     type OneOrMore,
+    isRatio,
 } from "@/utilities/_module.js";
 
 /**
@@ -131,6 +132,20 @@ export type SharedLockProviderSettingsBase = {
      * ```
      */
     defaultRefreshTime?: ITimeSpan;
+
+    /**
+     * If true, the {@link ISharedLock | `ISharedLock`} run methods will refresh the reader or writer with its `ttl` in the background while the callback executes.
+     * When a refresh fails the {@link AbortSignal | `AbortSignal`} passed to the callback is aborted and the {@link SHARED_LOCK_EVENTS.READER_FAILED_REFRESH | `SHARED_LOCK_EVENTS.READER_FAILED_REFRESH`} or {@link SHARED_LOCK_EVENTS.WRITER_FAILED_REFRESH | `SHARED_LOCK_EVENTS.WRITER_FAILED_REFRESH`} event is dispatched.
+     * @default false
+     */
+    defaultAutoRefresh?: boolean;
+
+    /**
+     * The fraction of the lock `ttl` that elapses between each background refresh when auto refresh is enabled.
+     * Must be larger than 0 and smaller than 1, otherwise a {@link TypeError | `TypeError`} is thrown.
+     * @default 0.5
+     */
+    autoRefreshRatio?: number;
 };
 
 /**
@@ -162,6 +177,8 @@ export class SharedLockProvider implements ISharedLockProvider {
     private readonly defaultBlockingInterval: TimeSpan;
     private readonly defaultBlockingTime: TimeSpan;
     private readonly defaultRefreshTime: TimeSpan;
+    private readonly defaultAutoRefresh: boolean;
+    private readonly autoRefreshRatio: number;
     private readonly serde: OneOrMore<ISerderRegister>;
     private readonly serdeTransformerName: string;
 
@@ -198,6 +215,8 @@ export class SharedLockProvider implements ISharedLockProvider {
             defaultBlockingInterval = TimeSpan.fromSeconds(1),
             defaultBlockingTime = TimeSpan.fromMinutes(1),
             defaultRefreshTime = TimeSpan.fromMinutes(5),
+            defaultAutoRefresh = false,
+            autoRefreshRatio = 0.5,
             createLockId = () => v4(),
             serde = new Serde(new NoOpSerdeAdapter()),
             namespace = new NoOpNamespace(),
@@ -214,6 +233,9 @@ export class SharedLockProvider implements ISharedLockProvider {
         );
         this.defaultBlockingTime = TimeSpan.fromTimeSpan(defaultBlockingTime);
         this.defaultRefreshTime = TimeSpan.fromTimeSpan(defaultRefreshTime);
+        this.defaultAutoRefresh = defaultAutoRefresh;
+        isRatio(autoRefreshRatio, "autoRefreshRatio");
+        this.autoRefreshRatio = autoRefreshRatio;
         this.creatLockId = createLockId;
         this.namespace = namespace;
         this.defaultTtl =
@@ -233,6 +255,8 @@ export class SharedLockProvider implements ISharedLockProvider {
             defaultBlockingInterval: this.defaultBlockingInterval,
             defaultBlockingTime: this.defaultBlockingTime,
             defaultRefreshTime: this.defaultRefreshTime,
+            defaultAutoRefresh: this.defaultAutoRefresh,
+            autoRefreshRatio: this.autoRefreshRatio,
             eventBus: this.eventBus,
             namespace: this.namespace,
             serdeTransformerName: this.serdeTransformerName,
@@ -272,6 +296,7 @@ export class SharedLockProvider implements ISharedLockProvider {
             ttl = this.defaultTtl,
             lockId = callInvokable(this.creatLockId),
             limit,
+            autoRefresh = this.defaultAutoRefresh,
         } = settings;
 
         const keyObj = this.namespace.create(key);
@@ -289,6 +314,8 @@ export class SharedLockProvider implements ISharedLockProvider {
             defaultBlockingInterval: this.defaultBlockingInterval,
             defaultBlockingTime: this.defaultBlockingTime,
             defaultRefreshTime: this.defaultRefreshTime,
+            autoRefresh,
+            autoRefreshRatio: this.autoRefreshRatio,
         });
     }
 }
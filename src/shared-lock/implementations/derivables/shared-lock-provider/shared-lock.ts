@@ -27,15 +27,18 @@ import {
     type ISharedLockWriterUnavailableState,
     type SharedLockAquireBlockingSettings,
     type SharedLockEventMap,
+    type IFairSharedLockAdapter,
 } from "@/shared-lock/contracts/_module.js";
+import { isFairSharedLockAdapter } from "@/shared-lock/implementations/derivables/shared-lock-provider/is-fair-shared-lock-adapter.js";
 import { type ITask } from "@/task/contracts/_module.js";
 import { Task } from "@/task/implementations/_module.js";
 import { type ITimeSpan } from "@/time-span/contracts/_module.js";
 import { TimeSpan } from "@/time-span/implementations/_module.js";
 import {
-    resolveLazyable,
     UnexpectedError,
-    type AsyncLazy,
+    type AbortableAsyncLazy,
+    type HeartbeatSettings,
+    withHeartbeat,
 } from "@/utilities/_module.js";
 
 /**
@@ -65,6 +68,8 @@ export type SharedLockSettings = {
     defaultBlockingInterval: TimeSpan;
     defaultBlockingTime: TimeSpan;
     defaultRefreshTime: TimeSpan;
+    autoRefresh: boolean;
+    autoRefreshRatio: number;
 };
 
 /**
@@ -98,6 +103,8 @@ export class SharedLock implements ISharedLock {
     private readonly defaultBlockingInterval: TimeSpan;
     private readonly defaultBlockingTime: TimeSpan;
     private readonly defaultRefreshTime: TimeSpan;
+    private readonly autoRefresh: boolean;
+    private readonly autoRefreshRatio: number;
     private readonly serdeTransformerName: string;
     private readonly limit: number;
 
@@ -114,6 +121,8 @@ export class SharedLock implements ISharedLock {
             defaultBlockingInterval,
             defaultBlockingTime,
             defaultRefreshTime,
+            autoRefresh,
+            autoRefreshRatio,
             limit,
         } = settings;
         this.limit = limit;
@@ -128,6 +137,8 @@ export class SharedLock implements ISharedLock {
         this.defaultBlockingInterval = defaultBlockingInterval;
         this.defaultBlockingTime = defaultBlockingTime;
         this.defaultRefreshTime = defaultRefreshTime;
+        this.autoRefresh = autoRefresh;
+        this.autoRefreshRatio = autoRefreshRatio;
     }
 
     _internal_getNamespace(): INamespace {
@@ -142,11 +153,36 @@ export class SharedLock implements ISharedLock {
         return this.originalAdapter;
     }
 
-    runReaderOrFail<TValue = void>(asyncFn: AsyncLazy<TValue>): ITask<TValue> {
+    /**
+     * The reader or writer is refreshed with the current `ttl` by calling `refresh`, null is returned when auto refresh is disabled or the lock is unexpireable.
+     */
+    private getHeartbeatSettings(
+        refresh: (ttl: TimeSpan) => ITask<void>,
+    ): HeartbeatSettings | null {
+        const ttl = this._ttl;
+        if (!this.autoRefresh || ttl === null) {
+            return null;
+        }
+        return {
+            interval: ttl.multiply(this.autoRefreshRatio),
+            beat: async () => {
+                await refresh(ttl);
+            },
+        };
+    }
+
+    runReaderOrFail<TValue = void>(
+        asyncFn: AbortableAsyncLazy<TValue>,
+    ): ITask<TValue> {
         return new Task(async () => {
             try {
                 await this.acquireReaderOrFail();
-                return await resolveLazyable(asyncFn);
+                return await withHeartbeat(
+                    asyncFn,
+                    this.getHeartbeatSettings((ttl) =>
+                        this.refreshReaderOrFail(ttl),
+                    ),
+                );
             } finally {
                 await this.releaseReader();
             }
@@ -154,14 +190,19 @@ export class SharedLock implements ISharedLock {
     }
 
     runReaderBlockingOrFail<TValue = void>(
-        asyncFn: AsyncLazy<TValue>,
+        asyncFn: AbortableAsyncLazy<TValue>,
         settings?: SharedLockAquireBlockingSettings,
     ): ITask<TValue> {
         return new Task(async () => {
             try {
                 await this.acquireReaderBlockingOrFail(settings);
 
-                return await resolveLazyable(asyncFn);
+                return await withHeartbeat(
+                    asyncFn,
+                    this.getHeartbeatSettings((ttl) =>
+                        this.refreshReaderOrFail(ttl),
+                    ),
+                );
             } finally {
                 await this.releaseReader();
             }
@@ -253,6 +294,35 @@ export class SharedLock implements ISharedLock {
         });
     }
 
+    /**
+     * Readers and writers share the same waiting queue. Only the first waiter in the waiting queue tries to acquire, the other waiters wait until they are woken.
+     * The waiter is removed from the waiting queue when it is not enqueued again within 2 intervals, ensuring a crashed waiter never blocks the waiting queue.
+     */
+    private async acquireFairBlocking(
+        adapter: IFairSharedLockAdapter,
+        endDate: Date,
+        interval: TimeSpan,
+        acquire: () => ITask<boolean>,
+    ): Promise<boolean> {
+        const key = this._key.get();
+        try {
+            while (endDate.getTime() > new Date().getTime()) {
+                const isFirst = await adapter.enqueue(
+                    key,
+                    this.lockId,
+                    interval.multiply(2),
+                );
+                if (isFirst && (await acquire())) {
+                    return true;
+                }
+                await adapter.wait(key, interval);
+            }
+            return false;
+        } finally {
+            await adapter.dequeue(key, this.lockId);
+        }
+    }
+
     acquireReaderBlocking(
         settings: SharedLockAquireBlockingSettings = {},
     ): ITask<boolean> {
@@ -260,9 +330,18 @@ export class SharedLock implements ISharedLock {
             const {
                 time = this.defaultBlockingTime,
                 interval = this.defaultBlockingInterval,
+                fair = false,
             } = settings;
             const timeAsTimeSpan = TimeSpan.fromTimeSpan(time);
             const endDate = timeAsTimeSpan.toEndDate();
+            if (fair && isFairSharedLockAdapter(this.adapter)) {
+                return await this.acquireFairBlocking(
+                    this.adapter,
+                    endDate,
+                    TimeSpan.fromTimeSpan(interval),
+                    () => this.acquireReader(),
+                );
+            }
             while (endDate.getTime() > new Date().getTime()) {
                 const hasAquired = await this.acquireReader();
                 if (hasAquired) {
@@ -383,11 +462,18 @@ export class SharedLock implements ISharedLock {
         });
     }
 
-    runWriterOrFail<TValue = void>(asyncFn: AsyncLazy<TValue>): ITask<TValue> {
+    runWriterOrFail<TValue = void>(
+        asyncFn: AbortableAsyncLazy<TValue>,
+    ): ITask<TValue> {
         return new Task(async () => {
             try {
                 await this.acquireWriterOrFail();
-                return await resolveLazyable(asyncFn);
+                return await withHeartbeat(
+                    asyncFn,
+                    this.getHeartbeatSettings((ttl) =>
+                        this.refreshWriterOrFail(ttl),
+                    ),
+                );
             } finally {
                 await this.releaseWriter();
             }
@@ -395,14 +481,19 @@ export class SharedLock implements ISharedLock {
     }
 
     runWriterBlockingOrFail<TValue = void>(
-        asyncFn: AsyncLazy<TValue>,
+        asyncFn: AbortableAsyncLazy<TValue>,
         settings?: SharedLockAquireBlockingSettings,
     ): ITask<TValue> {
         return new Task(async () => {
             try {
                 await this.acquireWriterBlockingOrFail(settings);
 
-                return await resolveLazyable(asyncFn);
+                return await withHeartbeat(
+                    asyncFn,
+                    this.getHeartbeatSettings((ttl) =>
+                        this.refreshWriterOrFail(ttl),
+                    ),
+                );
             } finally {
                 await this.releaseWriter();
             }
@@ -451,9 +542,18 @@ export class SharedLock implements ISharedLock {
             const {
                 time = this.defaultBlockingTime,
                 interval = this.defaultBlockingInterval,
+                fair = false,
             } = settings;
             const timeAsTimeSpan = TimeSpan.fromTimeSpan(time);
             const endDate = timeAsTimeSpan.toEndDate();
+            if (fair && isFairSharedLockAdapter(this.adapter)) {
+                return await this.acquireFairBlocking(
+                    this.adapter,
+                    endDate,
+                    TimeSpan.fromTimeSpan(interval),
+                    () => this.acquireWriter(),
+                );
+            }
             while (endDate > new Date()) {
                 const hasAquired = await this.acquireWriter();
                 if (hasAquired) {
@@ -8,6 +8,7 @@ export * from "@/utilities/functions/is-class.js";
 export * from "@/utilities/functions/is-iterable.js";
 export * from "@/utilities/functions/is-nullable.js";
 export * from "@/utilities/functions/is-positive-nbr.js";
+export * from "@/utilities/functions/is-ratio.js";
 export * from "@/utilities/functions/is-standard-schema.js";
 export * from "@/utilities/functions/iterable-to-async-iterable.js";
 export * from "@/utilities/functions/lazy.js";
@@ -17,4 +18,5 @@ export * from "@/utilities/functions/resolve-async-iterable-value.js";
 export * from "@/utilities/functions/resolve-iterable-value.js";
 export * from "@/utilities/functions/resolve-one-or-more.js";
 export * from "@/utilities/functions/validate.js";
+export * from "@/utilities/functions/with-heartbeat.js";
 export * from "@/utilities/functions/with-jitter.js";
@@ -0,0 +1,15 @@
+/**
+ * @module Utilities
+ */
+
+/**
+ *
+ * @internal
+ */
+export function isRatio(nbr: number, fieldName: string = "Number"): void {
+    if (!(nbr > 0 && nbr < 1)) {
+        throw new TypeError(
+            `${fieldName} must be larger than 0 and smaller than 1, got ${String(nbr)}`,
+        );
+    }
+}
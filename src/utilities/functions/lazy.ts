@@ -5,6 +5,7 @@
 import { type ITask } from "@/task/contracts/_module.js";
 import {
     type Invokable,
+    callInvokable,
     isInvokable,
     resolveInvokable,
 } from "@/utilities/functions/invokable.js";
@@ -40,6 +41,16 @@ export type AsyncLazy<TValue> = AsyncLazy_<TValue> | ITask<TValue>;
  */
 export type AsyncLazyable<TValue> = TValue | AsyncLazy<TValue>;
 
+/**
+ * Works like {@link AsyncLazy | `AsyncLazy`} but the function is called with an {@link AbortSignal | `AbortSignal`} that is aborted when the operation running it fails.
+ * The operation can pass additional arguments after the signal with `TArgs`.
+ *
+ * IMPORT_PATH: `"@daiso-tech/core/utilities"`
+ */
+export type AbortableAsyncLazy<TValue, TArgs extends Array<unknown> = []> =
+    | Invokable<[signal: AbortSignal, ...args: TArgs], Promisable<TValue>>
+    | ITask<TValue>;
+
 /**
  * @internal
  */
@@ -108,3 +119,20 @@ export async function resolveAsyncLazyable<TValue>(
     }
     return lazyable;
 }
+
+/**
+ * @internal
+ */
+export async function resolveAbortableAsyncLazy<
+    TValue,
+    TArgs extends Array<unknown> = [],
+>(
+    lazy: AbortableAsyncLazy<TValue, TArgs>,
+    signal: AbortSignal,
+    ...args: TArgs
+): Promise<TValue> {
+    if (isInvokable(lazy)) {
+        return await callInvokable(lazy, signal, ...args);
+    }
+    return await lazy;
+}
@@ -0,0 +1,82 @@
+/**
+ * @module Utilities
+ */
+
+import { type TimeSpan } from "@/time-span/implementations/_module.js";
+import {
+    type AbortableAsyncLazy,
+    resolveAbortableAsyncLazy,
+} from "@/utilities/functions/lazy.js";
+
+/**
+ * @internal
+ */
+export type HeartbeatSettings = {
+    /**
+     * The time between each beat.
+     */
+    interval: TimeSpan;
+
+    /**
+     * Should throw when the beat fails.
+     */
+    beat: () => Promise<void>;
+};
+
+/**
+ * Calls `settings.beat` every `settings.interval` while `asyncFn` executes, the next beat is scheduled after the previous one has completed.
+ * When a beat fails the signal passed to `asyncFn` is aborted and the returned promise rejects with the error of the beat.
+ * If `settings` is null `asyncFn` is executed without heartbeat.
+ *
+ * @internal
+ */
+export async function withHeartbeat<TValue>(
+    asyncFn: AbortableAsyncLazy<TValue>,
+    settings: HeartbeatSettings | null,
+): Promise<TValue> {
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    if (settings === null) {
+        return await resolveAbortableAsyncLazy(asyncFn, signal);
+    }
+
+    let isDone = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const scheduleBeat = (): void => {
+        timeoutId = setTimeout(() => {
+            settings.beat().then(
+                () => {
+                    if (!isDone) {
+                        scheduleBeat();
+                    }
+                },
+                (error: unknown) => {
+                    if (!isDone) {
+                        abortController.abort(error);
+                    }
+                },
+            );
+        }, settings.interval.toMilliseconds());
+    };
+
+    const abortPromise = new Promise<never>((_resolve, reject) => {
+        signal.addEventListener(
+            "abort",
+            () => {
+                // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+                reject(signal.reason);
+            },
+            { once: true },
+        );
+    });
+    scheduleBeat();
+    try {
+        return await Promise.race([
+            resolveAbortableAsyncLazy(asyncFn, signal),
+            abortPromise,
+        ]);
+    } finally {
+        isDone = true;
+        clearTimeout(timeoutId);
+    }
+}